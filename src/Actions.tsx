@@ -16,7 +16,8 @@ import {
    Users,
    BarChart,
    Coins,
-   Bot
+   Bot,
+   History
  } from 'lucide-react';
 import * as SwitchPrimitive from '@radix-ui/react-switch';
 import { WalletType, loadConfigFromCookies } from "./Utils";
@@ -26,6 +27,7 @@ import TradingCard from './TradingForm';
 import AutomateFloatingCard from './AutomateFloatingCard';
 
 import { executeTrade } from './utils/trading';
+import { formatConfirmationSummary } from './utils/bundleTracker';
 
 // Enhanced cyberpunk-styled Switch component (simplified)
 const Switch = React.forwardRef<
@@ -60,11 +62,13 @@ interface ActionsPageProps {
   transactionFee: string;
   handleRefresh: () => void;
   wallets: WalletType[];
+  setWallets: (wallets: WalletType[]) => void;
   solBalances: Map<string, number>;
   tokenBalances: Map<string, number>;
   currentMarketCap: number | null;
   setBurnModalOpen: (open: boolean) => void;
   setCalculatePNLModalOpen: (open: boolean) => void;
+  setJournalModalOpen: (open: boolean) => void;
   setDeployModalOpen: (open: boolean) => void;
   setCleanerTokensModalOpen: (open: boolean) => void;
   setCustomBuyModalOpen: (open: boolean) => void;
@@ -350,11 +354,13 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
   transactionFee, 
   handleRefresh, 
   wallets, 
+  setWallets,
   solBalances, 
   tokenBalances, 
   currentMarketCap,
   setBurnModalOpen,
   setCalculatePNLModalOpen,
+  setJournalModalOpen,
   setDeployModalOpen,
   setCleanerTokensModalOpen,
   setCustomBuyModalOpen,
@@ -419,7 +425,8 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
       const result = await executeTrade(dexToUse, wallets, config, isBuyMode, solBalances);
       
       if (result.success) {
-        showToast(`${dexToUse} ${isBuyMode ? 'Buy' : 'Sell'} transactions submitted successfully`, "success");
+        const outcome = result.confirmations ? formatConfirmationSummary(result.confirmations) : 'transactions submitted successfully';
+        showToast(`${dexToUse} ${isBuyMode ? 'Buy' : 'Sell'} ${outcome}`, "success");
       } else {
         showToast(`${dexToUse} ${isBuyMode ? 'Buy' : 'Sell'} failed: ${result.error}`, "error");
       }
@@ -475,6 +482,7 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
         <TradingCard
           tokenAddress={tokenAddress}
           wallets={wallets}
+          setWallets={setWallets}
           selectedDex={selectedDex}
           setSelectedDex={setSelectedDex}
           isDropdownOpen={isDropdownOpen}
@@ -489,6 +497,7 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
           getScriptName={getScriptName}
           countActiveWallets={countActiveWallets}
           currentMarketCap={currentMarketCap}
+          solBalances={solBalances}
           tokenBalances={tokenBalances}
           onOpenFloating={onOpenFloating}
           isFloatingCardOpen={isFloatingCardOpen}
@@ -497,7 +506,7 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
         
         {/* Token Operations */}
         <div className="space-y-4">          
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 relative z-10">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 relative z-10">
               {/* AUTOMATE Button */}
               <button
                 onClick={() => {
@@ -567,6 +576,19 @@ export const ActionsPage: React.FC<ActionsPageProps> = ({
                 </div>
                 <span className="text-xs font-mono tracking-wider text-app-secondary uppercase">Stagger</span>
               </button>
+              
+              {/* History Button */}
+              <button
+                onClick={() => setJournalModalOpen(true)}
+                className="flex flex-col items-center gap-2 p-3 rounded-lg
+                          bg-gradient-to-br from-app-secondary-80 to-app-primary-dark-50 border border-app-primary-30 hover-border-primary-60
+                          transition-all duration-300"
+              >
+                <div className="p-3 bg-gradient-to-br from-app-primary-20 to-app-primary-05 rounded-lg">
+                  <History size={20} className="color-primary" />
+                </div>
+                <span className="text-xs font-mono tracking-wider text-app-secondary uppercase">History</span>
+              </button>
           </div>
           
           {/* Live Data Section */}
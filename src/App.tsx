@@ -1,4 +1,4 @@
-import React, { useEffect, lazy, useCallback, useReducer, useMemo, useState } from 'react';
+import React, { useEffect, lazy, useCallback, useReducer, useMemo, useState, useRef } from 'react';
 import { ChevronDown, Settings, Globe, Wifi, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 import { Connection } from '@solana/web3.js';
 import ServiceSelector from './Menu.tsx';
@@ -27,8 +27,17 @@ import {
 import {
   handleApiKeyFromUrl
 } from './Manager';
-import { countActiveWallets, getScriptName } from './utils/wallets';
+import { countActiveWallets, getScriptName, getSigningWallets } from './utils/wallets';
 import { executeTrade } from './utils/trading.ts';
+import { formatConfirmationSummary } from './utils/bundleTracker';
+import { automationEngine } from './automate/engine';
+import { positionManager } from './automate/positions';
+import { SIMULATION_EVENT, SimulationReport } from './utils/simulation';
+import { setSpendingBalances, setSpendingOverrideHandler, SpendingOverrideRequest } from './utils/spendingLimits';
+import { subscribeToBalances } from './utils/balanceSubscriptions';
+import { refreshOrderHistory } from './utils/limitorders';
+import { ORDER_STATUS_POLL_INTERVAL } from './utils/orderHistory';
+import { settleLinkedOrders, triggerLinkedStops } from './utils/linkedOrders';
 
 // Extend Window interface to include server-related properties
 declare global {
@@ -55,6 +64,9 @@ const CleanerTokensModal = lazy(() => import('./modals/CleanerModal.tsx').then(m
 const CustomBuyModal = lazy(() => import('./modals/CustomBuyModal.tsx').then(module => ({ default: module.CustomBuyModal })));
 const FloatingTradingCard = lazy(() => import('./FloatingTradingCard'));
 const AutomateFloatingCard = lazy(() => import('./AutomateFloatingCard'));
+const SimulationModal = lazy(() => import('./modals/SimulationModal.tsx').then(module => ({ default: module.SimulationModal })));
+const JournalModal = lazy(() => import('./modals/JournalModal.tsx').then(module => ({ default: module.JournalModal })));
+const SpendingLimitModal = lazy(() => import('./modals/SpendingLimitModal.tsx').then(module => ({ default: module.SpendingLimitModal })));
 
 interface ServerInfo {
   id: string;
@@ -311,6 +323,8 @@ const WalletManager: React.FC = () => {
       deployModalOpen: boolean;
       cleanerTokensModalOpen: boolean;
       customBuyModalOpen: boolean;
+      simulationModalOpen: boolean;
+      journalModalOpen: boolean;
     };
     sortDirection: 'asc' | 'desc';
     tickEffect: boolean;
@@ -364,6 +378,8 @@ const WalletManager: React.FC = () => {
     tokenMint: string;
     marketCap: number;
   }[];
+  simulationReports: SimulationReport[];
+  spendingOverride: SpendingOverrideRequest | null;
   }
 
   type AppAction = 
@@ -379,6 +395,8 @@ const WalletManager: React.FC = () => {
     | { type: 'SET_CONNECTION'; payload: Connection | null }
     | { type: 'SET_SOL_BALANCES'; payload: Map<string, number> }
     | { type: 'SET_TOKEN_BALANCES'; payload: Map<string, number> }
+    | { type: 'MERGE_SOL_BALANCES'; payload: Map<string, number> }
+    | { type: 'MERGE_TOKEN_BALANCES'; payload: Map<string, number> }
 
     | { type: 'SET_LOADING_CHART'; payload: boolean }
     | { type: 'SET_MARKET_CAP'; payload: number | null }
@@ -401,7 +419,10 @@ const WalletManager: React.FC = () => {
     | { type: 'SET_QUICK_SELL_PERCENTAGE'; payload: number }
     | { type: 'SET_IFRAME_DATA'; payload: { tradingStats: any; solPrice: number | null; currentWallets: any[]; recentTrades: { type: 'buy' | 'sell'; address: string; tokensAmount: number; avgPrice: number; solAmount: number; timestamp: number; signature: string; }[]; tokenPrice: { tokenPrice: number; tokenMint: string; timestamp: number; tradeType: 'buy' | 'sell'; volume: number; } | null; marketCap: number | null; } | null }
     | { type: 'SET_NON_WHITELISTED_TRADES'; payload: { type: 'buy' | 'sell'; address: string; tokensAmount: number; avgPrice: number; solAmount: number; timestamp: number; signature: string; tokenMint: string; marketCap: number; }[] }
-    | { type: 'TOGGLE_LEFT_COLUMN'; payload?: undefined };
+    | { type: 'TOGGLE_LEFT_COLUMN'; payload?: undefined }
+    | { type: 'ADD_SIMULATION_REPORT'; payload: SimulationReport }
+    | { type: 'CLEAR_SIMULATION_REPORTS'; payload?: undefined }
+    | { type: 'SET_SPENDING_OVERRIDE'; payload: SpendingOverrideRequest | null };
 
   const initialState: AppState = {
     copiedAddress: null,
@@ -423,6 +444,16 @@ const WalletManager: React.FC = () => {
       batchDelay: '1000', // Default 1000ms delay between batches
       tradingServerEnabled: 'true',
       tradingServerUrl: 'http://localhost:7777',
+      autoLockMinutes: '15', // Default 15 minutes idle before the vault locks
+      simulateTransactions: 'false', // Send bundles for real by default
+      trustedAddresses: '', // No programs/recipients trusted beyond the built-in allowlist
+      maxSolPerWallet: '', // Spending limits are off until configured
+      maxSolPerOperation: '',
+      maxSolPerDay: '',
+      maxSolPerSession: '',
+      maxBalancePercent: '',
+      liveBalances: 'false', // Balances refresh on demand unless websocket updates are enabled
+      maxBalanceSubscriptions: '200',
     },
     currentPage: 'wallets',
     wallets: [],
@@ -439,7 +470,9 @@ const WalletManager: React.FC = () => {
       calculatePNLModalOpen: false,
       deployModalOpen: false,
       cleanerTokensModalOpen: false,
-      customBuyModalOpen: false
+      customBuyModalOpen: false,
+      simulationModalOpen: false,
+      journalModalOpen: false
     },
     sortDirection: 'asc',
     tickEffect: false,
@@ -461,7 +494,9 @@ const WalletManager: React.FC = () => {
     useQuickBuyRange: false,
     quickSellPercentage: 100,
     iframeData: null,
-    nonWhitelistedTrades: []
+    nonWhitelistedTrades: [],
+    simulationReports: [],
+    spendingOverride: null
   };
 
   const appReducer = (state: AppState, action: AppAction): AppState => {
@@ -490,6 +525,10 @@ const WalletManager: React.FC = () => {
         return { ...state, solBalances: action.payload };
       case 'SET_TOKEN_BALANCES':
         return { ...state, tokenBalances: action.payload };
+      case 'MERGE_SOL_BALANCES':
+        return { ...state, solBalances: new Map([...Array.from(state.solBalances), ...Array.from(action.payload)]) };
+      case 'MERGE_TOKEN_BALANCES':
+        return { ...state, tokenBalances: new Map([...Array.from(state.tokenBalances), ...Array.from(action.payload)]) };
 
       case 'SET_LOADING_CHART':
         return { ...state, isLoadingChart: action.payload };
@@ -585,6 +624,16 @@ const WalletManager: React.FC = () => {
         return { ...state, nonWhitelistedTrades: action.payload };
       case 'TOGGLE_LEFT_COLUMN':
         return { ...state, leftColumnCollapsed: !state.leftColumnCollapsed };
+      case 'ADD_SIMULATION_REPORT':
+        return {
+          ...state,
+          simulationReports: [action.payload, ...state.simulationReports].slice(0, 50),
+          modals: { ...state.modals, simulationModalOpen: true }
+        };
+      case 'CLEAR_SIMULATION_REPORTS':
+        return { ...state, simulationReports: [] };
+      case 'SET_SPENDING_OVERRIDE':
+        return { ...state, spendingOverride: action.payload };
       default:
         return state;
     }
@@ -619,6 +668,8 @@ const WalletManager: React.FC = () => {
     setConnection: (connection: Connection | null) => dispatch({ type: 'SET_CONNECTION', payload: connection }),
     setSolBalances: (balances: Map<string, number>) => dispatch({ type: 'SET_SOL_BALANCES', payload: balances }),
     setTokenBalances: (balances: Map<string, number>) => dispatch({ type: 'SET_TOKEN_BALANCES', payload: balances }),
+    mergeSolBalances: (balances: Map<string, number>) => dispatch({ type: 'MERGE_SOL_BALANCES', payload: balances }),
+    mergeTokenBalances: (balances: Map<string, number>) => dispatch({ type: 'MERGE_TOKEN_BALANCES', payload: balances }),
 
     setIsLoadingChart: (loading: boolean) => dispatch({ type: 'SET_LOADING_CHART', payload: loading }),
     setCurrentMarketCap: (cap: number | null) => dispatch({ type: 'SET_MARKET_CAP', payload: cap }),
@@ -627,6 +678,8 @@ const WalletManager: React.FC = () => {
     setDeployModalOpen: (open: boolean) => dispatch({ type: 'SET_MODAL', payload: { modal: 'deployModalOpen', open } }),
     setCleanerTokensModalOpen: (open: boolean) => dispatch({ type: 'SET_MODAL', payload: { modal: 'cleanerTokensModalOpen', open } }),
     setCustomBuyModalOpen: (open: boolean) => dispatch({ type: 'SET_MODAL', payload: { modal: 'customBuyModalOpen', open } }),
+    setSimulationModalOpen: (open: boolean) => dispatch({ type: 'SET_MODAL', payload: { modal: 'simulationModalOpen', open } }),
+    setJournalModalOpen: (open: boolean) => dispatch({ type: 'SET_MODAL', payload: { modal: 'journalModalOpen', open } }),
     setSortDirection: (direction: 'asc' | 'desc') => dispatch({ type: 'SET_SORT_DIRECTION', payload: direction }),
     setTickEffect: (effect: boolean) => dispatch({ type: 'SET_TICK_EFFECT', payload: effect }),
 
@@ -747,7 +800,8 @@ const WalletManager: React.FC = () => {
       
       if (result.success) {
         const dexLabel = dexOptions.find(d => d.value === dex)?.label || dex;
-        showToast(`${dexLabel} ${isBuyMode ? 'Buy' : 'Sell'} transactions submitted successfully`, "success");
+        const outcome = result.confirmations ? formatConfirmationSummary(result.confirmations) : 'transactions submitted successfully';
+        showToast(`${dexLabel} ${isBuyMode ? 'Buy' : 'Sell'} ${outcome}`, "success");
       } else {
         showToast(`${dex} ${isBuyMode ? 'Buy' : 'Sell'} failed: ${result.error}`, "error");
       }
@@ -848,6 +902,111 @@ const WalletManager: React.FC = () => {
     }
   }, [state.wallets]);
 
+  // Run the automation engine for the lifetime of the app, independent of the automation card
+  useEffect(() => {
+    const engine = automationEngine.getState();
+    engine.start();
+    return () => {
+      engine.stop();
+      // Selected wallets hold private keys - drop them when the app unmounts (e.g. vault lock)
+      engine.setWallets([]);
+    };
+  }, []);
+
+  // Feed the automation engine with the current token and market data
+  useEffect(() => {
+    automationEngine.getState().loadToken(state.tokenAddress);
+  }, [state.tokenAddress]);
+
+  useEffect(() => {
+    automationEngine.getState().ingestTrades(state.nonWhitelistedTrades);
+  }, [state.nonWhitelistedTrades]);
+
+  useEffect(() => {
+    automationEngine.getState().setMarketSnapshot({
+      marketCap: state.iframeData?.marketCap,
+      tokenPrice: state.iframeData?.tokenPrice?.tokenPrice
+    });
+  }, [state.iframeData]);
+
+  useEffect(() => {
+    automationEngine.getState().setSolBalances(state.solBalances);
+    setSpendingBalances(state.solBalances);
+  }, [state.solBalances]);
+
+  // Feed the position manager with our own trades and the live token price
+  useEffect(() => {
+    positionManager.getState().load();
+    return () => {
+      // Wallets hold private keys - drop them when the app unmounts (e.g. vault lock)
+      positionManager.getState().setWallets([]);
+    };
+  }, []);
+
+  useEffect(() => {
+    positionManager.getState().setWallets(state.wallets);
+  }, [state.wallets]);
+
+  useEffect(() => {
+    if (state.iframeData?.recentTrades) {
+      positionManager.getState().recordTrades(state.iframeData.recentTrades, state.tokenAddress);
+    }
+  }, [state.iframeData?.recentTrades]);
+
+  useEffect(() => {
+    const priceUpdate = state.iframeData?.tokenPrice;
+    if (priceUpdate) {
+      positionManager.getState().updatePrice(priceUpdate.tokenMint || state.tokenAddress, priceUpdate.tokenPrice);
+    }
+  }, [state.iframeData?.tokenPrice]);
+
+  // Stops of OCO and bracket orders are watched on the same live price
+  useEffect(() => {
+    const priceUpdate = state.iframeData?.tokenPrice;
+    if (!priceUpdate || !state.connection) return;
+
+    const makers = getSigningWallets(state.wallets).map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+    triggerLinkedStops(priceUpdate.tokenMint || state.tokenAddress, priceUpdate.tokenPrice, makers, state.connection)
+      .then(events => events.forEach(event => showToast(event.message, event.type)))
+      .catch(error => console.error('Error checking linked order stops:', error));
+  }, [state.iframeData?.tokenPrice]);
+
+  // Show dry-run results whenever a bundle is simulated instead of sent
+  useEffect(() => {
+    const handleBundleSimulated = (event: Event) => {
+      dispatch({ type: 'ADD_SIMULATION_REPORT', payload: (event as CustomEvent<SimulationReport>).detail });
+    };
+
+    window.addEventListener(SIMULATION_EVENT, handleBundleSimulated);
+    return () => window.removeEventListener(SIMULATION_EVENT, handleBundleSimulated);
+  }, []);
+
+  // Ask the user before an operation goes over a spending limit
+  const spendingOverrideResolver = useRef<((approved: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setSpendingOverrideHandler(request => new Promise<boolean>(resolve => {
+      // One decision at a time - anything else over the limit while the dialog is open is refused
+      if (spendingOverrideResolver.current) {
+        resolve(false);
+        return;
+      }
+      spendingOverrideResolver.current = resolve;
+      dispatch({ type: 'SET_SPENDING_OVERRIDE', payload: request });
+    }));
+    return () => {
+      setSpendingOverrideHandler(null);
+      spendingOverrideResolver.current?.(false);
+      spendingOverrideResolver.current = null;
+    };
+  }, []);
+
+  const handleSpendingOverrideDecision = useCallback((approved: boolean) => {
+    spendingOverrideResolver.current?.(approved);
+    spendingOverrideResolver.current = null;
+    dispatch({ type: 'SET_SPENDING_OVERRIDE', payload: null });
+  }, []);
+
   // Listen for custom event to open settings modal with wallets tab
   useEffect(() => {
     const handleOpenSettingsWalletsTab = () => {
@@ -899,6 +1058,57 @@ const WalletManager: React.FC = () => {
     }
   }, [state.connection, state.wallets.length, state.wallets.map(w => w.address).join(','), state.tokenAddress]);
 
+  // Push balance changes over the RPC websocket while live balances are enabled
+  useEffect(() => {
+    if (state.config.liveBalances !== 'true' || !state.connection || state.wallets.length === 0) return;
+
+    const subscription = subscribeToBalances({
+      connection: state.connection,
+      rpcEndpoint: state.config.rpcEndpoint,
+      addresses: state.wallets.map(w => w.address),
+      tokenAddress: state.tokenAddress || undefined,
+      maxSubscriptions: parseInt(state.config.maxBalanceSubscriptions) || undefined,
+      onBalances: ({ solBalances, tokenBalances }) => {
+        if (solBalances.size > 0) memoizedCallbacks.mergeSolBalances(solBalances);
+        if (tokenBalances.size > 0) memoizedCallbacks.mergeTokenBalances(tokenBalances);
+      }
+    });
+    return subscription.stop;
+  }, [state.config.liveBalances, state.config.maxBalanceSubscriptions, state.connection, state.wallets.map(w => w.address).join(','), state.tokenAddress]);
+
+  // Follow placed limit orders, announce fills and settle OCO and bracket orders
+  useEffect(() => {
+    const checkOrders = async () => {
+      try {
+        const changes = await refreshOrderHistory();
+        changes.forEach(({ entry, previousFilledPercent }) => {
+          const label = `Limit ${entry.side} ${entry.order.slice(0, 6)}... (${entry.maker.slice(0, 4)}...${entry.maker.slice(-4)})`;
+          if (entry.status === 'filled') {
+            showToast(`${label} filled`, 'success');
+          } else if (entry.status === 'cancelled') {
+            showToast(`${label} cancelled outside this app`, 'error');
+          } else if (entry.status === 'closed') {
+            showToast(`${label} closed, fill not confirmed`, 'error');
+          } else if (entry.status === 'partially-filled' && entry.filledPercent > previousFilledPercent) {
+            showToast(`${label} ${entry.filledPercent.toFixed(0)}% filled`, 'success');
+          }
+        });
+
+        if (state.connection) {
+          const makers = getSigningWallets(state.wallets).map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+          const events = await settleLinkedOrders(makers, state.connection);
+          events.forEach(event => showToast(event.message, event.type));
+        }
+      } catch (error) {
+        console.error('Error checking limit orders:', error);
+      }
+    };
+
+    checkOrders();
+    const interval = setInterval(checkOrders, ORDER_STATUS_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [state.connection, getSigningWallets(state.wallets).map(wallet => wallet.address).join(',')]);
+
   // Trigger tick animation when wallet count changes
   useEffect(() => {
     memoizedCallbacks.setTickEffect(true);
@@ -907,7 +1117,7 @@ const WalletManager: React.FC = () => {
   }, [state.wallets.length]);
 
   // Helper functions
-  const handleRefresh = useCallback(async () => {
+  const handleRefresh = useCallback(async (discoverAccounts = false) => {
     if (!state.connection || state.wallets.length === 0) return;
     
     memoizedCallbacks.setIsRefreshing(true);
@@ -921,7 +1131,8 @@ const WalletManager: React.FC = () => {
         memoizedCallbacks.setSolBalances,
         memoizedCallbacks.setTokenBalances,
         state.solBalances,
-        state.tokenBalances
+        state.tokenBalances,
+        discoverAccounts
       );
     } catch (error) {
       console.error('Error refreshing balances:', error);
@@ -1133,11 +1344,13 @@ const WalletManager: React.FC = () => {
                  transactionFee={state.config.transactionFee}
                  handleRefresh={handleRefresh}
                  wallets={state.wallets}
+                 setWallets={memoizedCallbacks.setWallets}
                  solBalances={state.solBalances}
                  tokenBalances={state.tokenBalances}
                  currentMarketCap={state.currentMarketCap}
                  setBurnModalOpen={memoizedCallbacks.setBurnModalOpen}
                  setCalculatePNLModalOpen={memoizedCallbacks.setCalculatePNLModalOpen}
+                 setJournalModalOpen={memoizedCallbacks.setJournalModalOpen}
                  setDeployModalOpen={memoizedCallbacks.setDeployModalOpen}
                  setCleanerTokensModalOpen={memoizedCallbacks.setCleanerTokensModalOpen}
                  setCustomBuyModalOpen={memoizedCallbacks.setCustomBuyModalOpen}
@@ -1218,11 +1431,13 @@ const WalletManager: React.FC = () => {
               transactionFee={state.config.transactionFee}
               handleRefresh={handleRefresh}
               wallets={state.wallets}
+              setWallets={memoizedCallbacks.setWallets}
               solBalances={state.solBalances}
               tokenBalances={state.tokenBalances}
               currentMarketCap={state.currentMarketCap}
               setBurnModalOpen={memoizedCallbacks.setBurnModalOpen}
               setCalculatePNLModalOpen={memoizedCallbacks.setCalculatePNLModalOpen}
+              setJournalModalOpen={memoizedCallbacks.setJournalModalOpen}
               setDeployModalOpen={memoizedCallbacks.setDeployModalOpen}
               setCleanerTokensModalOpen={memoizedCallbacks.setCleanerTokensModalOpen}
               setCustomBuyModalOpen={memoizedCallbacks.setCustomBuyModalOpen}
@@ -1298,11 +1513,13 @@ const WalletManager: React.FC = () => {
                 transactionFee={state.config.transactionFee}
                 handleRefresh={handleRefresh}
                 wallets={state.wallets}
+                setWallets={memoizedCallbacks.setWallets}
                 solBalances={state.solBalances}
                 tokenBalances={state.tokenBalances}
                 currentMarketCap={state.currentMarketCap}
                 setBurnModalOpen={memoizedCallbacks.setBurnModalOpen}
                 setCalculatePNLModalOpen={memoizedCallbacks.setCalculatePNLModalOpen}
+                setJournalModalOpen={memoizedCallbacks.setJournalModalOpen}
                 setDeployModalOpen={memoizedCallbacks.setDeployModalOpen}
                 setCleanerTokensModalOpen={memoizedCallbacks.setCleanerTokensModalOpen}
                 setCustomBuyModalOpen={memoizedCallbacks.setCustomBuyModalOpen}
@@ -1378,7 +1595,9 @@ const WalletManager: React.FC = () => {
         handleRefresh={handleRefresh}    
         tokenAddress={state.tokenAddress}
         iframeData={state.iframeData}
+        solBalances={state.solBalances}
         tokenBalances={state.tokenBalances}
+        connection={state.connection}
       />
       
       <DeployModal
@@ -1409,6 +1628,23 @@ const WalletManager: React.FC = () => {
         tokenBalances={state.tokenBalances}
       />
       
+      <SimulationModal
+        isOpen={state.modals.simulationModalOpen}
+        onClose={() => memoizedCallbacks.setSimulationModalOpen(false)}
+        reports={state.simulationReports}
+        onClear={() => dispatch({ type: 'CLEAR_SIMULATION_REPORTS' })}
+      />
+      
+      <JournalModal
+        isOpen={state.modals.journalModalOpen}
+        onClose={() => memoizedCallbacks.setJournalModalOpen(false)}
+      />
+      
+      <SpendingLimitModal
+        request={state.spendingOverride}
+        onDecision={handleSpendingOverrideDecision}
+      />
+      
       <FloatingTradingCard
         isOpen={state.floatingCard.isOpen}
         onClose={() => memoizedCallbacks.setFloatingCardOpen(false)}
@@ -1,38 +1,19 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Move, Search, ArrowDown, Trash2, Users, Wallet, Settings, Plus, Play, Pause, Edit, RotateCcw, Minimize2, Maximize2 } from 'lucide-react';
-import { getWalletDisplayName, WalletType, saveTradingStrategiesToCookies, loadTradingStrategiesFromCookies } from './Utils.tsx';
-import { TradingCondition, TradingAction, TradingStrategy, StrategyBuilder } from './automate';
-import { executeTrade, TradingConfig, FormattedWallet } from './utils/trading';
-
-interface NonWhitelistedTrade {
-  type: 'buy' | 'sell';
-  address: string;
-  tokensAmount: number;
-  avgPrice: number;
-  solAmount: number;
-  timestamp: number;
-  signature: string;
-  tokenMint: string;
-  marketCap: number;
-}
-
-interface SelectedWallet {
-  privateKey: string;
-  address: string;
-  displayName: string;
-}
-
-
-
-interface MarketData {
-  marketCap: number;
-  buyVolume: number;
-  sellVolume: number;
-  netVolume: number;
-  lastTrade: NonWhitelistedTrade | null;
-  tokenPrice: number;
-  priceChange24h?: number;
-}
+import { X, Move, Trash2, Users, Wallet, Settings, Plus, Play, Pause, Edit, RotateCcw, Minimize2, Maximize2, Download, Upload, Square, Target, Circle } from 'lucide-react';
+import { getWalletDisplayName, formatAddress, formatSolBalance } from './Utils.tsx';
+import {
+  TradingStrategy,
+  AutomationTrade,
+  StrategyBuilder,
+  PositionsPanel,
+  downloadStrategies,
+  importStrategies,
+  getTradeWindowStats,
+  useAutomationEngine
+} from './automate';
+import { useToast } from './Notifications';
+import { WalletPicker } from './WalletPicker';
+import { getSigningWallets } from './utils/wallets';
 
 interface AutomateFloatingCardProps {
   isOpen: boolean;
@@ -45,7 +26,7 @@ interface AutomateFloatingCardProps {
   wallets: any[];
   solBalances: Map<string, number>;
   tokenBalances: Map<string, number>;
-  nonWhitelistedTrades: NonWhitelistedTrade[];
+  nonWhitelistedTrades: AutomationTrade[];
   iframeData?: {
     tradingStats: any;
     solPrice: number | null;
@@ -78,62 +59,42 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [isMinimized, setIsMinimized] = useState(false);
   
-  // Volume tracking state
-  const [cumulativeBuyVolume, setCumulativeBuyVolume] = useState(0);
-  const [cumulativeSellVolume, setCumulativeSellVolume] = useState(0);
-  const [processedTradeSignatures, setProcessedTradeSignatures] = useState<Set<string>>(new Set());
+  // Strategies, selected wallets and market inputs live in the background engine
+  const engine = useAutomationEngine();
+  const {
+    strategies: tradingStrategies,
+    executionLog: strategyExecutionLog,
+    wallets: selectedWallets,
+    buyVolume: cumulativeBuyVolume,
+    sellVolume: cumulativeSellVolume,
+    tradeBuffer,
+    recording
+  } = engine;
   
   // Wallet selection state
-  const [selectedWallets, setSelectedWallets] = useState<SelectedWallet[]>([]);
   const [showInlineWalletList, setShowInlineWalletList] = useState(true);
   const [showSidebar, setShowSidebar] = useState(true);
-  const [walletSearchTerm, setWalletSearchTerm] = useState('');
-  const [walletSortOption, setWalletSortOption] = useState('address');
-  const [walletSortDirection, setWalletSortDirection] = useState('asc');
-  const [walletBalanceFilter, setWalletBalanceFilter] = useState('all');
   
   // Display mode state
   const [showUSD, setShowUSD] = useState(false);
-  const [activeTab, setActiveTab] = useState<'data' | 'strategies'>('data');
+  const [activeTab, setActiveTab] = useState<'data' | 'strategies' | 'positions'>('data');
+  const [windowNow, setWindowNow] = useState(Date.now());
   
-  // Trading strategy state
-  const [tradingStrategies, setTradingStrategies] = useState<TradingStrategy[]>([]);
+  // Trading strategy UI state
   const [showStrategyConfig, setShowStrategyConfig] = useState(false);
   const [editingStrategy, setEditingStrategy] = useState<TradingStrategy | null>(null);
   const [isCreatingStrategy, setIsCreatingStrategy] = useState(false);
-  const [strategyExecutionLog, setStrategyExecutionLog] = useState<Array<{
-    strategyId: string;
-    timestamp: number;
-    action: string;
-    result: 'success' | 'error';
-    message: string;
-  }>>([]);
   
+  const { showToast } = useToast();
   const cardRef = useRef<HTMLDivElement>(null);
+  const strategyFileInputRef = useRef<HTMLInputElement>(null);
   const dragHandleRef = useRef<HTMLDivElement>(null);
-  const strategyMonitorRef = useRef<NodeJS.Timeout | null>(null);
   
   // Wallet utility functions
-  const formatAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
-
-  const formatSolBalance = (balance: number) => {
-    return balance.toFixed(4);
-  };
-
-  const formatTokenBalance = (balance: number) => {
-    return balance.toFixed(6);
-  };
-
   const getWalletBalance = (address: string) => {
     return solBalances.has(address) ? solBalances.get(address) : 0;
   };
 
-  const getWalletTokenBalance = (address: string) => {
-    return tokenBalances.has(address) ? tokenBalances.get(address) : 0;
-  };
-
   // Helper functions for formatting live data
   const formatPrice = (price: number | null | undefined): string => {
     if (!price || price === 0 || typeof price !== 'number' || isNaN(price)) return '$--';
@@ -191,215 +152,42 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
   };
 
   const toggleAllStrategies = (activate: boolean) => {
-    setTradingStrategies(prev => prev.map(strategy => ({
-      ...strategy,
-      isActive: activate
-    })));
+    engine.setAllStrategiesActive(activate);
   };
 
-  // Trading strategy helper functions
-  const getCurrentMarketData = (): MarketData => {
-    const latestTrade = nonWhitelistedTrades
-      .filter(trade => trade.tokenMint === tokenAddress)
-      .sort((a, b) => b.timestamp - a.timestamp)[0] || null;
-    
-    const marketData = {
-      marketCap: iframeData?.marketCap || 0,
-      buyVolume: cumulativeBuyVolume,
-      sellVolume: cumulativeSellVolume,
-      netVolume: cumulativeBuyVolume - cumulativeSellVolume,
-      lastTrade: latestTrade,
-      tokenPrice: iframeData?.tokenPrice?.tokenPrice || 0,
-      priceChange24h: 0 // TODO: Calculate from historical data
-    };
-    
-    console.log('[AutomateFloatingCard] Current market data:', {
-      ...marketData,
-      lastTrade: latestTrade ? {
-        type: latestTrade.type,
-        solAmount: latestTrade.solAmount,
-        timestamp: latestTrade.timestamp
-      } : null,
-      tokenAddress,
-      tradesCount: nonWhitelistedTrades.filter(trade => trade.tokenMint === tokenAddress).length
-    });
-    
-    return marketData;
-  };
+  const handleImportStrategies = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
 
-  const evaluateCondition = (condition: TradingCondition, marketData: MarketData): boolean => {
-    let currentValue: number;
-    
-    console.log(`[AutomateFloatingCard] Evaluating condition:`, {
-      type: condition.type,
-      operator: condition.operator,
-      targetValue: condition.value,
-      marketData
-    });
-    
-    switch (condition.type) {
-      case 'marketCap':
-        currentValue = marketData.marketCap;
-        break;
-      case 'buyVolume':
-        currentValue = marketData.buyVolume;
-        break;
-      case 'sellVolume':
-        currentValue = marketData.sellVolume;
-        break;
-      case 'netVolume':
-        currentValue = marketData.netVolume;
-        break;
-      case 'lastTradeAmount':
-        currentValue = marketData.lastTrade?.solAmount || 0;
-        break;
-      case 'priceChange':
-        currentValue = marketData.priceChange24h || 0;
-        break;
-      case 'lastTradeType':
-        // Special case: 1 for buy, 0 for sell
-        currentValue = marketData.lastTrade?.type === 'buy' ? 1 : 0;
-        break;
-      default:
-        console.log(`[AutomateFloatingCard] Unknown condition type: ${condition.type}`);
-        return false;
-    }
-    
-    console.log(`[AutomateFloatingCard] Current value for ${condition.type}:`, currentValue);
-    
-    let result: boolean;
-    switch (condition.operator) {
-      case 'greater':
-        result = currentValue > condition.value;
-        break;
-      case 'less':
-        result = currentValue < condition.value;
-        break;
-      case 'equal':
-        result = Math.abs(currentValue - condition.value) < 0.0001;
-        break;
-      case 'greaterEqual':
-        result = currentValue >= condition.value;
-        break;
-      case 'lessEqual':
-        result = currentValue <= condition.value;
-        break;
-      default:
-        console.log(`[AutomateFloatingCard] Unknown operator: ${condition.operator}`);
-        return false;
+    try {
+      const imported = importStrategies(await file.text());
+      if (imported.length === 0) {
+        showToast('No valid strategies found in file', 'error');
+        return;
+      }
+      engine.addStrategies(imported);
+      showToast(`Imported ${imported.length} strategies (inactive)`, 'success');
+    } catch (error) {
+      console.error('[AutomateFloatingCard] Strategy import failed:', error);
+      showToast(`Import failed: ${error.message}`, 'error');
+    } finally {
+      if (strategyFileInputRef.current) {
+        strategyFileInputRef.current.value = '';
+      }
     }
-    
-    console.log(`[AutomateFloatingCard] Condition evaluation result:`, {
-      currentValue,
-      operator: condition.operator,
-      targetValue: condition.value,
-      result
-    });
-    
-    return result;
   };
 
-  const evaluateStrategy = (strategy: TradingStrategy, marketData: MarketData): boolean => {
-    console.log(`[AutomateFloatingCard] Evaluating strategy details: ${strategy.name}`, {
-      isActive: strategy.isActive,
-      conditionsLength: strategy.conditions.length,
-      lastExecuted: strategy.lastExecuted,
-      executionCount: strategy.executionCount,
-      maxExecutions: strategy.maxExecutions,
-      cooldown: strategy.cooldown
-    });
-    
-    if (!strategy.isActive || strategy.conditions.length === 0) {
-      console.log(`[AutomateFloatingCard] Strategy ${strategy.name} failed basic checks:`, {
-        isActive: strategy.isActive,
-        hasConditions: strategy.conditions.length > 0
-      });
-      return false;
-    }
-    
-    // Check cooldown
-    if (strategy.lastExecuted) {
-      const timeSinceLastExecution = Date.now() - strategy.lastExecuted;
-      const cooldownMs = strategy.cooldown * 60 * 1000;
-      console.log(`[AutomateFloatingCard] Cooldown check for ${strategy.name}:`, {
-        timeSinceLastExecution,
-        cooldownMs,
-        isInCooldown: timeSinceLastExecution < cooldownMs
-      });
-      if (timeSinceLastExecution < cooldownMs) return false;
-    }
-    
-    // Check max executions
-    if (strategy.maxExecutions && strategy.executionCount >= strategy.maxExecutions) {
-      console.log(`[AutomateFloatingCard] Max executions reached for ${strategy.name}:`, {
-        executionCount: strategy.executionCount,
-        maxExecutions: strategy.maxExecutions
-      });
-      return false;
-    }
-    
-    // Evaluate conditions
-    const conditionResults = strategy.conditions.map((condition, index) => {
-      const result = evaluateCondition(condition, marketData);
-      console.log(`[AutomateFloatingCard] Condition ${index} for ${strategy.name}:`, {
-        condition,
-        result,
-        marketData
-      });
-      return result;
-    });
-    
-    const finalResult = strategy.conditionLogic === 'and' 
-      ? conditionResults.every(result => result)
-      : conditionResults.some(result => result);
-    
-    console.log(`[AutomateFloatingCard] Final evaluation for ${strategy.name}:`, {
-      conditionLogic: strategy.conditionLogic,
-      conditionResults,
-      finalResult
-    });
-    
-    return finalResult;
-  };
-
-  // Load trading strategies from cookies on component initialization
-  useEffect(() => {
-    const savedStrategies = loadTradingStrategiesFromCookies();
-    if (savedStrategies.length > 0) {
-      console.log('[AutomateFloatingCard] Loaded strategies from cookies:', savedStrategies.length);
-      setTradingStrategies(savedStrategies);
+  const handleToggleRecording = async () => {
+    if (!recording) {
+      engine.startRecording();
+      return;
     }
-  }, []);
 
-  // Save trading strategies to cookies whenever they change
-  useEffect(() => {
-    if (tradingStrategies.length > 0) {
-      console.log('[AutomateFloatingCard] Saving strategies to cookies:', tradingStrategies.length);
-      saveTradingStrategiesToCookies(tradingStrategies);
+    const session = await engine.stopRecording();
+    if (session) {
+      showToast(`Saved session with ${session.events.length} events for backtesting`, 'success');
     }
-  }, [tradingStrategies]);
-
-  // Reset data when token changes
-  useEffect(() => {
-    setCumulativeBuyVolume(0);
-    setCumulativeSellVolume(0);
-    setProcessedTradeSignatures(new Set());
-  }, [tokenAddress]);
-
-  // Process new trades and update cumulative volumes
-  useEffect(() => {
-    nonWhitelistedTrades.forEach(trade => {
-      if (!processedTradeSignatures.has(trade.signature)) {
-        setProcessedTradeSignatures(prev => new Set(prev).add(trade.signature));
-        
-        if (trade.type === 'buy') {
-          setCumulativeBuyVolume(prev => prev + trade.solAmount);
-        } else if (trade.type === 'sell') {
-          setCumulativeSellVolume(prev => prev + trade.solAmount);
-        }
-      }
-    });
-  }, [nonWhitelistedTrades, processedTradeSignatures]);
+  };
 
   // Handle window resize to keep minimized card positioned correctly
   useEffect(() => {
@@ -413,348 +201,33 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
     return () => window.removeEventListener('resize', handleResize);
   }, [isMinimized, onPositionChange]);
 
-  // Strategy monitoring and execution
+  // Slide the rolling windows forward while the Data tab is visible, even without new trades
   useEffect(() => {
-    console.log('[AutomateFloatingCard] Strategy monitoring effect triggered', {
-      strategiesCount: tradingStrategies.length,
-      strategies: tradingStrategies.map(s => ({ id: s.id, name: s.name, isActive: s.isActive })),
-      selectedWalletsCount: selectedWallets.length,
-      tokenAddress
-    });
-    
-    // Clear existing interval first
-    if (strategyMonitorRef.current) {
-      console.log('[AutomateFloatingCard] Clearing existing strategy monitor interval');
-      clearInterval(strategyMonitorRef.current);
-      strategyMonitorRef.current = null;
-    }
-    
-    if (tradingStrategies.length === 0) {
-      console.log('[AutomateFloatingCard] No strategies found, monitor will not start');
-      return;
-    }
-
-    const activeStrategies = tradingStrategies.filter(s => s.isActive);
-    if (activeStrategies.length === 0) {
-      console.log('[AutomateFloatingCard] No active strategies found, monitor will not start');
-      return;
-    }
-
-    // Monitor strategies every 5 seconds
-    console.log('[AutomateFloatingCard] Starting strategy monitor interval', {
-      activeStrategiesCount: activeStrategies.length,
-      selectedWalletsCount: selectedWallets.length
-    });
-    
-    // Test interval first
-    let tickCount = 0;
-    strategyMonitorRef.current = setInterval(() => {
-      tickCount++;
-      console.log(`[AutomateFloatingCard] === Strategy Monitor Tick #${tickCount} ===`);
-      const marketData = getCurrentMarketData();
-      console.log('[AutomateFloatingCard] Market data retrieved:', {
-        marketCap: marketData.marketCap,
-        buyVolume: marketData.buyVolume,
-        sellVolume: marketData.sellVolume,
-        lastTrade: marketData.lastTrade ? {
-          type: marketData.lastTrade.type,
-          solAmount: marketData.lastTrade.solAmount
-        } : null
-      });
-      
-      const currentActiveStrategies = tradingStrategies.filter(s => s.isActive);
-      console.log('[AutomateFloatingCard] Active strategies to evaluate:', currentActiveStrategies.length);
-      
-      currentActiveStrategies.forEach(strategy => {
-        console.log(`[AutomateFloatingCard] Evaluating strategy: ${strategy.name}`, {
-          isActive: strategy.isActive,
-          conditionsCount: strategy.conditions.length,
-          actionsCount: strategy.actions.length,
-          selectedWalletsCount: selectedWallets.length
-        });
-        
-        if (selectedWallets.length === 0) {
-          console.warn(`[AutomateFloatingCard] No wallets selected for strategy: ${strategy.name}`);
-          return;
-        }
-        
-        if (evaluateStrategy(strategy, marketData)) {
-          console.log(`[AutomateFloatingCard] Strategy conditions met, executing: ${strategy.name}`);
-          executeStrategy(strategy, marketData);
-        } else {
-          console.log(`[AutomateFloatingCard] Strategy conditions not met: ${strategy.name}`);
-        }
-      });
-      
-      console.log('[AutomateFloatingCard] === End Strategy Monitor Tick ===');
-    }, 5000);
-
-    return () => {
-      console.log('[AutomateFloatingCard] Cleaning up strategy monitor interval');
-      if (strategyMonitorRef.current) {
-        clearInterval(strategyMonitorRef.current);
-        strategyMonitorRef.current = null;
-      }
-    };
-  }, [tradingStrategies, selectedWallets, tokenAddress]);
-
-  const executeStrategy = async (strategy: TradingStrategy, marketData: MarketData) => {
-    console.log(`[AutomateFloatingCard] Executing strategy: ${strategy.name}`, {
-      actionsCount: strategy.actions.length,
-      marketData
-    });
-    
-    try {
-      // Update strategy execution count and timestamp
-      console.log(`[AutomateFloatingCard] Updating strategy execution count for: ${strategy.name}`);
-      setTradingStrategies(prev => prev.map(s => 
-        s.id === strategy.id 
-          ? { ...s, executionCount: s.executionCount + 1, lastExecuted: Date.now() }
-          : s
-      ));
-
-      // Execute each action in the strategy
-      console.log(`[AutomateFloatingCard] Executing ${strategy.actions.length} actions for strategy: ${strategy.name}`);
-      for (const action of strategy.actions) {
-        console.log(`[AutomateFloatingCard] Executing action:`, action);
-        await executeAction(action, strategy, marketData);
-      }
-
-      // Log successful execution
-      console.log(`[AutomateFloatingCard] Strategy execution completed successfully: ${strategy.name}`);
-      setStrategyExecutionLog(prev => [{
-        strategyId: strategy.id,
-        timestamp: Date.now(),
-        action: `Executed strategy: ${strategy.name}`,
-        result: 'success',
-        message: `Conditions met, executed ${strategy.actions.length} action(s)`
-      }, ...prev.slice(0, 49)]); // Keep last 50 logs
-
-    } catch (error) {
-      // Log execution error
-      console.error(`[AutomateFloatingCard] Strategy execution failed: ${strategy.name}`, error);
-      setStrategyExecutionLog(prev => [{
-        strategyId: strategy.id,
-        timestamp: Date.now(),
-        action: `Failed to execute strategy: ${strategy.name}`,
-        result: 'error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }, ...prev.slice(0, 49)]);
-    }
-  };
-
-  const executeAction = async (action: TradingAction, strategy: TradingStrategy, marketData: MarketData) => {
-    console.log(`[AutomateFloatingCard] Executing action:`, {
-      actionType: action.type,
-      selectedWalletsCount: selectedWallets.length,
-      action,
-      marketData
-    });
-    
-    // Use all wallets selected in the sidebar
-    const walletsToUse = selectedWallets;
-    console.log(`[AutomateFloatingCard] Wallets to use:`, walletsToUse.map(w => ({ address: w.address, displayName: w.displayName })));
-
-    if (walletsToUse.length === 0) {
-      console.error('[AutomateFloatingCard] No wallets selected in sidebar for action execution');
-      throw new Error('No wallets selected in sidebar for action execution');
-    }
-
-    // Execute action for each wallet
-    console.log(`[AutomateFloatingCard] Starting action execution for ${walletsToUse.length} wallets`);
-    for (const wallet of walletsToUse) {
-      console.log(`[AutomateFloatingCard] Processing wallet: ${wallet.address}`);
-      
-      // Check if wallet has sufficient balance
-      const walletBalance = getWalletBalance(wallet.address) || 0;
-      console.log(`[AutomateFloatingCard] Wallet balance check:`, {
-        address: wallet.address,
-        balance: walletBalance,
-        hasInsufficientSOL: hasInsufficientSOL(wallet.address)
-      });
-      
-      if (hasInsufficientSOL(wallet.address)) {
-        console.warn(`[AutomateFloatingCard] Wallet ${wallet.address} has insufficient SOL balance (${walletBalance})`);
-        continue;
-      }
-
-      // Calculate trade amount
-      let tradeAmount: number;
-      console.log(`[AutomateFloatingCard] Calculating trade amount:`, {
-        amountType: action.amountType,
-        amount: action.amount,
-        volumeType: action.volumeType,
-        volumeMultiplier: action.volumeMultiplier
-      });
-      
-      if (action.amountType === 'sol') {
-        tradeAmount = action.amount;
-      } else if (action.amountType === 'percentage') {
-        // Percentage of wallet balance
-        tradeAmount = walletBalance * (action.amount / 100);
-      } else if (action.amountType === 'lastTrade') {
-        // Based on last trade amount
-        const lastTradeAmount = marketData.lastTrade?.solAmount || 0;
-        tradeAmount = lastTradeAmount * action.amount;
-      } else if (action.amountType === 'volume') {
-        // Based on volume data
-        let volumeAmount: number;
-        switch (action.volumeType) {
-          case 'buyVolume':
-            volumeAmount = marketData.buyVolume;
-            break;
-          case 'sellVolume':
-            volumeAmount = marketData.sellVolume;
-            break;
-          case 'netVolume':
-            volumeAmount = marketData.netVolume;
-            break;
-          default:
-            volumeAmount = marketData.buyVolume;
-        }
-        tradeAmount = volumeAmount * (action.volumeMultiplier || 0.1);
-      } else {
-        tradeAmount = action.amount; // fallback
-      }
-      
-      console.log(`[AutomateFloatingCard] Calculated trade amount:`, {
-        tradeAmount,
-        actionType: action.type
-      });
-
-      try {
-        // Create trading config
-        const tradingConfig: TradingConfig = {
-          tokenAddress,
-          solAmount: action.type === 'buy' ? tradeAmount : undefined,
-          sellPercent: action.type === 'sell' ? (action.amountType === 'percentage' ? action.amount : 100) : undefined
-        };
-        
-        console.log(`[AutomateFloatingCard] Created trading config:`, tradingConfig);
-
-        // Format wallet for trading
-        const formattedWallet: FormattedWallet = {
-          address: wallet.address,
-          privateKey: wallet.privateKey
-        };
-        
-        console.log(`[AutomateFloatingCard] Formatted wallet:`, { address: formattedWallet.address });
-
-        // Execute the trade using the trading utility
-        const walletForTrading: WalletType = {
-          id: Date.now(), // Generate a temporary ID
-          address: wallet.address,
-          privateKey: wallet.privateKey,
-          isActive: true
-        };
-        
-        console.log(`[AutomateFloatingCard] Executing trade:`, {
-          dex: 'auto',
-          walletAddress: wallet.address,
-          isBuy: action.type === 'buy',
-          tradingConfig,
-          walletForTrading
-        });
-        
-        const result = await executeTrade(
-          'auto', // Use auto DEX selection
-          [walletForTrading], // Convert to WalletType format
-          tradingConfig,
-          action.type === 'buy',
-          solBalances
-        );
-        
-        console.log(`[AutomateFloatingCard] Trade execution completed:`, {
-          success: result.success,
-          error: result.error,
-          walletAddress: wallet.address
-        });
-        
-        console.log(`[AutomateFloatingCard] Trade execution result:`, result);
-
-        // Log the result
-        setStrategyExecutionLog(prev => [{
-          strategyId: strategy.id,
-          timestamp: Date.now(),
-          action: `${action.type.toUpperCase()} ${tradeAmount.toFixed(4)} SOL`,
-          result: result.success ? 'success' : 'error',
-          message: result.success 
-            ? `Wallet: ${formatAddress(wallet.address)}, Slippage: ${action.slippage}%`
-            : `Error: ${result.error || 'Unknown error'}`
-        }, ...prev.slice(0, 49)]);
-
-        if (!result.success) {
-          console.error(`Trading failed for wallet ${wallet.address}:`, result.error);
-        }
-      } catch (error) {
-        // Log execution error
-        setStrategyExecutionLog(prev => [{
-          strategyId: strategy.id,
-          timestamp: Date.now(),
-          action: `${action.type.toUpperCase()} ${tradeAmount.toFixed(4)} SOL`,
-          result: 'error',
-          message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }, ...prev.slice(0, 49)]);
-        
-        console.error(`Trading execution failed for wallet ${wallet.address}:`, error);
-      }
-    }
-  };
+    if (!isOpen || activeTab !== 'data') return;
+    setWindowNow(Date.now());
+    const interval = setInterval(() => setWindowNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [isOpen, activeTab, tradeBuffer]);
 
   const getAvailableWallets = () => {
     const selectedWalletKeys = selectedWallets.map(w => w.privateKey);
-    return wallets.filter(wallet => !selectedWalletKeys.includes(wallet.privateKey));
+    return getSigningWallets(wallets).filter(wallet => !selectedWalletKeys.includes(wallet.privateKey));
   };
 
-  const filterWallets = (walletList: any[], search: string) => {
-    let filtered = walletList;
-    if (search) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    if (walletBalanceFilter !== 'all') {
-      if (walletBalanceFilter === 'nonZero') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) > 0);
-      } else if (walletBalanceFilter === 'highBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) >= 0.1);
-      } else if (walletBalanceFilter === 'lowBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) < 0.1 && (getWalletBalance(wallet.address) || 0) > 0);
-      } else if (walletBalanceFilter === 'hasTokens') {
-        filtered = filtered.filter(wallet => (getWalletTokenBalance(wallet.address) || 0) > 0);
-      }
-    }
-    
-    return filtered.sort((a, b) => {
-      if (walletSortOption === 'address') {
-        return walletSortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      } else if (walletSortOption === 'balance') {
-        const balanceA = getWalletBalance(a.address) || 0;
-        const balanceB = getWalletBalance(b.address) || 0;
-        return walletSortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      } else if (walletSortOption === 'tokenBalance') {
-        const tokenBalanceA = getWalletTokenBalance(a.address) || 0;
-        const tokenBalanceB = getWalletTokenBalance(b.address) || 0;
-        return walletSortDirection === 'asc' ? tokenBalanceA - tokenBalanceB : tokenBalanceB - tokenBalanceA;
-      }
-      return 0;
-    });
-  };
-
-  const addWallet = (wallet: any) => {
-    const newWallet: SelectedWallet = {
-      privateKey: wallet.privateKey,
-      address: wallet.address,
-      displayName: getWalletDisplayName(wallet)
-    };
-    setSelectedWallets(prev => [...prev, newWallet]);
+  const removeWallet = (index: number) => {
+    engine.setWallets(selectedWallets.filter((_, i) => i !== index));
   };
 
-  const removeWallet = (index: number) => {
-    setSelectedWallets(prev => prev.filter((_, i) => i !== index));
+  // Group selection works on private keys; keep already selected entries as they are
+  const setSelectedWalletKeys = (keys: string[]) => {
+    engine.setWallets(keys
+      .map(key => selectedWallets.find(w => w.privateKey === key) || wallets.find(w => w.privateKey === key))
+      .filter(Boolean)
+      .map(wallet => ({
+        privateKey: wallet.privateKey,
+        address: wallet.address,
+        displayName: wallet.displayName || getWalletDisplayName(wallet)
+      })));
   };
   
   // Drag functionality
@@ -947,6 +420,17 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                 <Settings className="w-4 h-4" />
                 Trading Strategies ({tradingStrategies.length})
               </button>
+              <button
+                onClick={() => setActiveTab('positions')}
+                className={`px-4 py-3 font-mono text-sm transition-colors flex items-center gap-2 ${
+                  activeTab === 'positions'
+                    ? 'color-primary border-b-2 border-app-primary bg-app-primary-60'
+                    : 'text-app-secondary-60 hover:color-primary hover:bg-app-primary-60'
+                }`}
+              >
+                <Target className="w-4 h-4" />
+                Positions
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -955,16 +439,25 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                 <div className="mb-6">
                   <div className="flex items-center justify-between mb-4">
                     <h4 className="text-lg font-mono font-semibold color-primary">Latest Data</h4>
-                    <button
-                      onClick={() => {
-                        setCumulativeBuyVolume(0);
-                        setCumulativeSellVolume(0);
-                        setProcessedTradeSignatures(new Set());
-                      }}
-                      className="px-3 py-1.5 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-secondary hover:border-app-primary transition-colors"
-                    >
-                      Reset Volume
-                    </button>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleToggleRecording}
+                        disabled={!tokenAddress}
+                        className={`px-3 py-1.5 bg-app-tertiary border rounded font-mono text-sm hover:bg-app-secondary transition-colors flex items-center gap-2 disabled:opacity-50 ${
+                          recording ? 'border-error-alt-40 text-error-alt' : 'border-app-primary-40 color-primary hover:border-app-primary'
+                        }`}
+                        title="Record live trades and prices for backtesting"
+                      >
+                        <Circle className={`w-3 h-3 ${recording ? 'fill-current animate-pulse' : ''}`} />
+                        {recording ? `Stop (${recording.events.length})` : 'Record'}
+                      </button>
+                      <button
+                        onClick={() => engine.resetVolume()}
+                        className="px-3 py-1.5 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-secondary hover:border-app-primary transition-colors"
+                      >
+                        Reset Volume
+                      </button>
+                    </div>
                   </div>
               <div className="space-y-4">
                 {/* Volume Summary */}
@@ -1003,6 +496,55 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                   </div>
                 </div>
                 
+                {/* Rolling Windows */}
+                <div className="bg-app-primary border border-app-primary-40 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-sm font-mono color-primary">Rolling Windows</span>
+                    <span className="text-xs font-mono text-app-secondary-60">{tradeBuffer.length} trades buffered</span>
+                  </div>
+                  <div className="grid grid-cols-5 gap-2 text-xs font-mono text-app-secondary-60 mb-1">
+                    <span>Window</span>
+                    <span className="text-right">Buy</span>
+                    <span className="text-right">Sell</span>
+                    <span className="text-right">Net</span>
+                    <span className="text-right">Price</span>
+                  </div>
+                  {[1, 5, 15, 60].map(minutes => {
+                    const stats = getTradeWindowStats(tradeBuffer, minutes, windowNow);
+                    return (
+                      <div key={minutes} className="grid grid-cols-5 gap-2 text-xs font-mono py-1 border-t border-app-primary-20">
+                        <span className="color-primary">{minutes < 60 ? `${minutes}m` : '1h'} ({stats.tradeCount})</span>
+                        <span className="text-right color-primary">{formatVolumeDisplay(stats.buyVolume)}</span>
+                        <span className="text-right text-error-alt">{formatVolumeDisplay(stats.sellVolume)}</span>
+                        <span className={`text-right ${stats.netVolume >= 0 ? 'text-app-accent' : 'text-error-alt'}`}>
+                          {formatVolumeDisplay(stats.netVolume)}
+                        </span>
+                        <span className={`text-right ${stats.priceChange >= 0 ? 'text-app-accent' : 'text-error-alt'}`}>
+                          {stats.priceChange >= 0 ? '+' : ''}{stats.priceChange.toFixed(2)}%
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Trade Buffer */}
+                {tradeBuffer.length > 0 && (
+                  <div className="bg-app-primary border border-app-primary-40 rounded-lg p-4">
+                    <div className="text-sm font-mono color-primary mb-2">Trade Buffer</div>
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                      {tradeBuffer.slice(-20).reverse().map(trade => (
+                        <div key={trade.signature} className="flex justify-between items-center text-xs font-mono">
+                          <span className={trade.type === 'buy' ? 'color-primary' : 'text-error-alt'}>
+                            {trade.type.toUpperCase()} {formatVolumeDisplay(trade.solAmount)}
+                          </span>
+                          <span className="text-app-secondary-60">{formatAddress(trade.address)}</span>
+                          <span className="text-app-secondary-60">{new Date(trade.timestamp).toLocaleTimeString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Latest Trade */}
                 <div 
                   className="bg-app-primary border border-app-primary-40 rounded-lg p-4 cursor-pointer hover:bg-app-primary-60 transition-colors"
@@ -1060,6 +602,30 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                   <div className="flex items-center justify-between">
                     <h4 className="text-lg font-mono font-semibold color-primary">Trading Strategies</h4>
                     <div className="flex gap-2">
+                      <input
+                        ref={strategyFileInputRef}
+                        type="file"
+                        accept=".json"
+                        onChange={handleImportStrategies}
+                        className="hidden"
+                      />
+                      <button
+                        onClick={() => strategyFileInputRef.current?.click()}
+                        className="px-3 py-1.5 bg-app-accent border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-primary hover:border-app-primary transition-colors flex items-center gap-2"
+                        title="Import strategies from JSON"
+                      >
+                        <Upload className="w-4 h-4" />
+                        Import
+                      </button>
+                      <button
+                        onClick={() => downloadStrategies(tradingStrategies, tokenAddress)}
+                        disabled={tradingStrategies.length === 0}
+                        className="px-3 py-1.5 bg-app-accent border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-primary hover:border-app-primary transition-colors flex items-center gap-2 disabled:opacity-50"
+                        title="Export strategies to JSON"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export
+                      </button>
                       <button
                         onClick={() => setIsCreatingStrategy(!isCreatingStrategy)}
                         className="px-3 py-1.5 bg-app-accent border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-primary hover:border-app-primary transition-colors flex items-center gap-2"
@@ -1076,7 +642,7 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                       <StrategyBuilder
                         strategy={null}
                         onSave={(strategy) => {
-                          setTradingStrategies(prev => [...prev, strategy]);
+                          engine.addStrategies([strategy]);
                           setIsCreatingStrategy(false);
                         }}
                         onCancel={() => setIsCreatingStrategy(false)}
@@ -1086,24 +652,38 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
 
                   {/* Active Strategies List */}
                   <div className="space-y-3">
-                    {tradingStrategies.map(strategy => (
+                    {tradingStrategies.map(strategy => {
+                      const status = engine.getStrategyStatus(strategy.id);
+                      return (
                       <div key={strategy.id} className="bg-app-primary border border-app-primary-40 rounded-lg p-4">
                         <div className="flex items-center justify-between mb-2">
                           <div className="flex items-center gap-3">
                             <button
                               onClick={() => {
-                                setTradingStrategies(prev => prev.map(s => 
-                                  s.id === strategy.id ? { ...s, isActive: !s.isActive } : s
-                                ));
+                                if (status === 'running') {
+                                  engine.pauseStrategy(strategy.id);
+                                } else {
+                                  engine.startStrategy(strategy.id);
+                                }
                               }}
                               className={`p-1 rounded transition-colors ${
-                                strategy.isActive 
+                                status === 'running'
                                   ? 'bg-app-accent text-app-primary hover:bg-app-primary-60' 
                                   : 'bg-app-primary-60 text-app-secondary-60 hover:bg-app-secondary'
                               }`}
+                              title={status === 'running' ? 'Pause' : 'Start'}
                             >
-                              {strategy.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                              {status === 'running' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                             </button>
+                            {status !== 'stopped' && (
+                              <button
+                                onClick={() => engine.stopStrategy(strategy.id)}
+                                className="p-1 rounded bg-app-primary-60 text-app-secondary-60 hover:bg-error-alt-60 transition-colors"
+                                title="Stop"
+                              >
+                                <Square className="w-4 h-4" />
+                              </button>
+                            )}
                             <div>
                               <h5 className="font-mono font-semibold color-primary">{strategy.name}</h5>
                               <p className="text-sm text-app-secondary-60 font-mono">{strategy.description}</p>
@@ -1111,11 +691,11 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                           </div>
                           <div className="flex items-center gap-2">
                             <span className={`px-2 py-1 rounded text-xs font-mono ${
-                              strategy.isActive 
+                              status === 'running'
                                 ? 'bg-app-accent text-app-primary' 
                                 : 'bg-app-primary-60 text-app-secondary-60'
                             }`}>
-                              {strategy.isActive ? 'Active' : 'Inactive'}
+                              {status === 'running' ? 'Running' : status === 'paused' ? 'Paused' : 'Stopped'}
                             </span>
                             <button
                               onClick={() => {
@@ -1132,7 +712,7 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                             </button>
                             <button
                               onClick={() => {
-                                setTradingStrategies(prev => prev.filter(s => s.id !== strategy.id));
+                                engine.removeStrategy(strategy.id);
                               }}
                               className="p-1 rounded hover:bg-error-alt-60 transition-colors"
                             >
@@ -1171,9 +751,7 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                             <StrategyBuilder
                               strategy={editingStrategy}
                               onSave={(updatedStrategy) => {
-                                setTradingStrategies(prev => prev.map(s => 
-                                  s.id === editingStrategy.id ? updatedStrategy : s
-                                ));
+                                engine.updateStrategy(updatedStrategy);
                                 setEditingStrategy(null);
                               }}
                               onCancel={() => setEditingStrategy(null)}
@@ -1181,7 +759,8 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                           </div>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                     
                     {tradingStrategies.length === 0 && !isCreatingStrategy && (
                       <div className="text-center py-8">
@@ -1223,6 +802,16 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                   )}
                 </div>
               )}
+
+              {activeTab === 'positions' && (
+                <PositionsPanel
+                  tokenAddress={tokenAddress}
+                  getWalletLabel={(address) => {
+                    const wallet = wallets.find(w => w.address === address);
+                    return wallet ? getWalletDisplayName(wallet) : formatAddress(address);
+                  }}
+                />
+              )}
             </div>
           </div>
 
@@ -1237,49 +826,6 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                   </h4>
                 </div>
 
-                {/* Wallet Search */}
-                <div className="relative mb-4">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-app-secondary-60" />
-                  <input
-                    type="text"
-                    placeholder="Search wallets..."
-                    value={walletSearchTerm}
-                    onChange={(e) => setWalletSearchTerm(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2 bg-app-tertiary border border-app-primary-40 rounded-lg color-primary placeholder-app-secondary-60 font-mono text-sm focus:outline-none focus:border-app-primary"
-                  />
-                </div>
-
-                {/* Wallet Filters */}
-                <div className="grid grid-cols-2 gap-2 mb-4">
-                  <select
-                    value={walletSortOption}
-                    onChange={(e) => setWalletSortOption(e.target.value)}
-                    className="px-3 py-2 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-sm focus:outline-none focus:border-app-primary"
-                  >
-                    <option value="address">Sort by Address</option>
-                    <option value="balance">Sort by SOL</option>
-                    <option value="tokenBalance">Sort by Tokens</option>
-                  </select>
-                  <button
-                    onClick={() => setWalletSortDirection(prev => prev === 'asc' ? 'desc' : 'asc')}
-                    className="px-3 py-2 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-secondary hover:border-app-primary transition-colors flex items-center justify-center gap-1"
-                  >
-                    <ArrowDown className={`w-3 h-3 transition-transform ${walletSortDirection === 'desc' ? 'rotate-180' : ''}`} />
-                    {walletSortDirection === 'asc' ? 'Asc' : 'Desc'}
-                  </button>
-                </div>
-
-                <select
-                  value={walletBalanceFilter}
-                  onChange={(e) => setWalletBalanceFilter(e.target.value)}
-                  className="w-full px-3 py-2 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-sm focus:outline-none focus:border-app-primary mb-4"
-                >
-                  <option value="all">All Wallets</option>
-                  <option value="nonZero">Non-Zero SOL</option>
-                  <option value="highBalance">High Balance (≥0.1 SOL)</option>
-                  <option value="lowBalance">Low Balance (0.1 SOL)</option>
-                  <option value="hasTokens">Has Tokens</option>
-                </select>
               </div>
 
               {/* Selected Wallets */}
@@ -1321,39 +867,17 @@ const AutomateFloatingCard: React.FC<AutomateFloatingCardProps> = ({
                     Available Wallets ({getAvailableWallets().length})
                   </h5>
                 </div>
-                <div className="flex-1 overflow-y-auto px-4 pb-4 min-h-0 scrollbar-thin scrollbar-thumb-app-primary-40 scrollbar-track-transparent hover:scrollbar-thumb-app-primary-60">
-                  <div className="space-y-2">
-                    {filterWallets(getAvailableWallets(), walletSearchTerm).map((wallet, index) => (
-                      <div
-                        key={index}
-                        onClick={() => addWallet(wallet)}
-                        className={`p-3 rounded-lg border cursor-pointer transition-all hover:bg-app-secondary ${
-                          hasInsufficientSOL(wallet.address)
-                            ? 'border-error-alt-40 bg-error-alt-99'
-                            : 'border-app-primary-40 bg-app-tertiary hover:border-app-primary'
-                        }`}
-                      >
-                        <div className="flex justify-between items-start">
-                          <div className="flex-1 min-w-0">
-                            <div className="color-primary text-sm font-mono truncate">
-                              {formatAddress(wallet.address)}
-                            </div>
-                            <div className="text-xs text-app-secondary-60 mt-1">
-                              SOL: {formatSolBalance(getWalletBalance(wallet.address) || 0)}
-                            </div>
-                            <div className="text-xs text-app-secondary-60">
-                              Tokens: {formatTokenBalance(getWalletTokenBalance(wallet.address) || 0)}
-                            </div>
-                          </div>
-                        </div>
-                        {hasInsufficientSOL(wallet.address) && (
-                          <div className="text-xs text-error-alt mt-1">
-                            Insufficient SOL for gas
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                <div className="flex-1 overflow-y-auto px-4 pb-4 min-h-0">
+                  <WalletPicker
+                    wallets={getAvailableWallets()}
+                    solBalances={solBalances}
+                    tokenBalances={tokenBalances}
+                    selected={selectedWallets.map(w => w.privateKey)}
+                    onChange={setSelectedWalletKeys}
+                    getWalletKey={wallet => wallet.privateKey}
+                    getWalletNote={wallet => hasInsufficientSOL(wallet.address) ? 'Insufficient SOL for gas' : null}
+                    height={360}
+                  />
                 </div>
               </div>
               </div>
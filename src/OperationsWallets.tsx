@@ -9,6 +9,7 @@ import {
 } from 'lucide-react';
 import { Connection } from '@solana/web3.js';
 import { WalletType, saveWalletsToCookies } from './Utils';
+import { getSigningWallets, toggleAllWallets } from './utils/wallets';
 import { DistributeModal } from './modals/DistributeModal';
 import { ConsolidateModal } from './modals/ConsolidateModal';
 import { TransferModal } from './modals/TransferModal';
@@ -166,15 +167,11 @@ export const WalletOperationsButtons: React.FC<WalletOperationsButtonsProps> = (
   };
 
   // Check if all wallets are active
-  const allWalletsActive = wallets.every(wallet => wallet.isActive);
+  const allWalletsActive = getSigningWallets(wallets).every(wallet => wallet.isActive);
 
-  // Function to toggle all wallets
+  // Function to toggle all wallets (watch-only wallets never become active)
   const toggleAllWalletsHandler = () => {
-    const allActive = wallets.every(wallet => wallet.isActive);
-    const newWallets = wallets.map(wallet => ({
-      ...wallet,
-      isActive: !allActive
-    }));
+    const newWallets = toggleAllWallets(wallets);
     saveWalletsToCookies(newWallets);
     setWallets(newWallets);
   };
@@ -278,14 +275,14 @@ export const WalletOperationsButtons: React.FC<WalletOperationsButtonsProps> = (
      <MixerModal
         isOpen={activeModal === 'mixer'}
         onClose={closeModal}
-        wallets={wallets}
+        wallets={getSigningWallets(wallets)}
         solBalances={solBalances}
         connection={connection}
       />
       <ConsolidateModal
         isOpen={activeModal === 'consolidate'}
         onClose={closeModal}
-        wallets={wallets}
+        wallets={getSigningWallets(wallets)}
         solBalances={solBalances}
         connection={connection}
       />
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Loader2, Move, Edit3, Check, ClipboardList, X, RefreshCw, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronDown, Loader2, Move, Edit3, Check, ClipboardList, X, RefreshCw, Calendar, ChevronLeft, ChevronRight, Layers, History, GitBranch } from 'lucide-react';
 import { 
   createMultipleLimitOrders, 
   getActiveOrders, 
@@ -7,15 +7,36 @@ import {
   processLimitOrderBundle,
   processCancelOrderTransaction,
   cancelOrderWithBundle,
-  solToLamports,
   lamportsToSol,
   validateLimitOrderConfig,
   calculatePrice,
+  getOrderMintInfo,
+  marketCapToPrice,
+  deriveLimitOrderAmounts,
+  toRawLimitOrderConfig,
   type LimitOrderConfig,
-  type ActiveOrdersResponse
+  type ActiveOrdersResponse,
+  type OrderMintInfo
 } from './utils/limitorders';
+import { loadLadders, cancelLadder, removeLadder, LADDER_EVENT, type LadderRecord } from './utils/limitLadder';
+import { LadderModal } from './modals/LadderModal';
+import { OrderHistoryModal } from './modals/OrderHistoryModal';
+import { LinkedOrderModal } from './modals/LinkedOrderModal';
+import {
+  loadLinkedOrders,
+  cancelLinkedGroup,
+  removeLinkedGroup,
+  isLinkedGroupFinished,
+  LINKED_ORDERS_EVENT,
+  type LinkedOrderGroup
+} from './utils/linkedOrders';
 import { useToast } from './Notifications';
+import { WalletGroupSelector } from './WalletGroupSelector';
+import { saveWalletsToCookies } from './Utils';
+import { getSigningWallets, setActiveWallets } from './utils/wallets';
+import { getNetTransferAmount } from './utils/balances';
 
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
 // Helper function to format numbers with k, M, B suffixes
 const formatNumber = (num) => {
@@ -355,6 +376,7 @@ const CalendarWidget = ({
 const TradingCard = ({ 
   tokenAddress, 
   wallets,
+  setWallets,
   selectedDex,
   setSelectedDex,
   isDropdownOpen,
@@ -369,6 +391,7 @@ const TradingCard = ({
   getScriptName,
   countActiveWallets,
   currentMarketCap,
+  solBalances,
   tokenBalances,
   onOpenFloating,
   isFloatingCardOpen,
@@ -389,6 +412,9 @@ const TradingCard = ({
   const [limitOrderAvgPrice, setLimitOrderAvgPrice] = useState('');
   const [limitOrderPrice, setLimitOrderPrice] = useState('');
   const [limitOrderExpiry, setLimitOrderExpiry] = useState('');
+  const [limitOrderTargetMode, setLimitOrderTargetMode] = useState<'price' | 'marketCap'>('marketCap');
+  const [orderMintInfo, setOrderMintInfo] = useState<OrderMintInfo | null>(null);
+  const [orderMintError, setOrderMintError] = useState('');
   const [marketCapSlider, setMarketCapSlider] = useState(0); // -100% to +200%
   const [baseMarketCap, setBaseMarketCap] = useState(0);
   const [isCreatingLimitOrder, setIsCreatingLimitOrder] = useState(false);
@@ -399,6 +425,13 @@ const TradingCard = ({
   const [isLoadingOrders, setIsLoadingOrders] = useState(false);
   const [orderErrors, setOrderErrors] = useState<string[]>([]);
   const [cancellingOrders, setCancellingOrders] = useState<Set<string>>(new Set());
+  const [isLadderModalOpen, setIsLadderModalOpen] = useState(false);
+  const [isOrderHistoryOpen, setIsOrderHistoryOpen] = useState(false);
+  const [isLinkedOrderModalOpen, setIsLinkedOrderModalOpen] = useState(false);
+  const [linkedGroups, setLinkedGroups] = useState<LinkedOrderGroup[]>(() => loadLinkedOrders());
+  const [cancellingGroup, setCancellingGroup] = useState<string | null>(null);
+  const [ladders, setLadders] = useState<LadderRecord[]>(() => loadLadders());
+  const [cancellingLadder, setCancellingLadder] = useState<string | null>(null);
   
   // Default preset tabs
   const defaultPresetTabs = [
@@ -608,6 +641,27 @@ const TradingCard = ({
     }
   };
 
+  // Token decimals, supply and program for sizing limit orders
+  useEffect(() => {
+    setOrderMintInfo(null);
+    setOrderMintError('');
+    if (!tokenAddress) return;
+
+    let cancelled = false;
+    getOrderMintInfo(tokenAddress)
+      .then(info => { if (!cancelled) setOrderMintInfo(info); })
+      .catch(error => {
+        console.error('Error loading token mint:', error);
+        if (!cancelled) setOrderMintError(error instanceof Error ? error.message : 'Unknown error');
+      });
+    return () => { cancelled = true; };
+  }, [tokenAddress]);
+
+  // Market caps only convert to prices with the real supply, so that mode waits for the mint
+  const tokenSupply = orderMintInfo?.supply ?? 0;
+  const marketCapReady = tokenSupply > 0;
+  const targetMode = marketCapReady ? limitOrderTargetMode : 'price';
+
   // Limit Order Handlers
   const loadActiveOrders = async () => {
     if (!wallets || wallets.length === 0) {
@@ -622,14 +676,6 @@ const TradingCard = ({
       return;
     }
     
-    // Check if trading server URL is configured
-    const tradingServerUrl = (window as any).tradingServerUrl;
-    if (!tradingServerUrl) {
-      showToast('Trading server URL not configured', 'error');
-      setActiveOrders(null);
-      return;
-    }
-    
     setIsLoadingOrders(true);
     try {
       // Get orders for all active wallets
@@ -677,8 +723,6 @@ const TradingCard = ({
       // Filter orders to only include those related to the current token
       // Buy orders: inputMint is SOL, outputMint is the token
       // Sell orders: inputMint is the token, outputMint is SOL
-      const SOL_MINT = 'So11111111111111111111111111111111111111112';
-      
       const filteredOrders = allOrders.filter(order => {
         const inputMint = order.inputMint || order.account?.inputMint;
         const outputMint = order.outputMint || order.account?.outputMint;
@@ -738,24 +782,21 @@ const TradingCard = ({
     setOrderErrors([]);
 
     try {
-      // Convert amounts to proper format based on trade type
-      let makingAmount: string;
-      let takingAmount: string;
-
-      if (activeTradeType === 'buy') {
-        // Buy order: SOL → Token (normal decimal handling)
-        makingAmount = solToLamports(parseFloat(limitOrderSolAmount));
-        takingAmount = (parseFloat(limitOrderTokenAmount) * Math.pow(10, 6)).toString(); // Token decimals
-      } else {
-        // Sell order: Token → SOL (inverted inputs - token amount goes to makingAmount, SOL amount goes to takingAmount)
-        makingAmount = (parseFloat(limitOrderTokenAmount) * Math.pow(10, 6)).toString(); // Token amount with token decimals
-        takingAmount = solToLamports(parseFloat(limitOrderSolAmount)); // SOL amount with SOL decimals
-      }
+      // Amounts stay in human units until both mints' decimals are known
+      const solMintInfo = await getOrderMintInfo(SOL_MINT);
+      const tokenMintInfo = orderMintInfo || await getOrderMintInfo(tokenAddress);
+      const mints = activeTradeType === 'buy'
+        ? { input: solMintInfo, output: tokenMintInfo }
+        : { input: tokenMintInfo, output: solMintInfo };
+
+      // Buy order: SOL → Token; sell order: Token → SOL (inverted inputs)
+      const makingAmount = activeTradeType === 'buy' ? limitOrderSolAmount : limitOrderTokenAmount;
+      const takingAmount = activeTradeType === 'buy' ? limitOrderTokenAmount : limitOrderSolAmount;
 
       // Create order configuration based on trade type (buy vs sell)
       const orderConfig: Omit<LimitOrderConfig, 'maker'> = activeTradeType === 'buy' ? {
         // Buy order: SOL → Token
-        inputMint: 'So11111111111111111111111111111111111111112', // SOL mint
+        inputMint: SOL_MINT,
         outputMint: tokenAddress,
         makingAmount,
         takingAmount,
@@ -764,7 +805,7 @@ const TradingCard = ({
       } : {
         // Sell order: Token → SOL (mints inverted, decimals inverted)
         inputMint: tokenAddress,
-        outputMint: 'So11111111111111111111111111111111111111112', // SOL mint
+        outputMint: SOL_MINT,
         makingAmount,
         takingAmount,
         slippageBps: 50, // 0.5% slippage
@@ -775,7 +816,7 @@ const TradingCard = ({
       const validation = validateLimitOrderConfig({
         ...orderConfig,
         maker: activeWallets[0].address // Use first wallet for validation
-      });
+      }, mints);
 
       if (!validation.valid) {
         setOrderErrors(validation.errors);
@@ -783,7 +824,7 @@ const TradingCard = ({
       }
 
       // Create orders for all active wallets
-      const response = await createMultipleLimitOrders(activeWallets, orderConfig);
+      const response = await createMultipleLimitOrders(activeWallets, toRawLimitOrderConfig(orderConfig, mints.input, mints.output));
 
       if (response.success) {
         console.log('Limit orders created successfully:', response.orders);
@@ -808,7 +849,7 @@ const TradingCard = ({
             setCalendarDate(new Date());
             setSelectedTime('12:00');
           } else {
-            setOrderErrors([`Bundle failed to send: ${bundleResult.error}`]);
+            setOrderErrors([`Orders were not placed: ${bundleResult.error}`]);
             return;
           }
         } else {
@@ -876,6 +917,45 @@ const TradingCard = ({
     }
   };
 
+  const handleCancelLadder = async (ladder: LadderRecord) => {
+    setCancellingLadder(ladder.id);
+    try {
+      const makers = getSigningWallets(wallets).map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+      const result = await cancelLadder(ladder, makers);
+
+      if (result.errors.length > 0) {
+        setOrderErrors(prev => [...prev, ...result.errors.map(error => `Failed to cancel ladder order ${error}`)]);
+        showToast(`Cancelled ${result.cancelled} of ${ladder.orders.length} ladder orders`, 'error');
+      } else {
+        showToast(`Cancelled ${result.cancelled} ladder orders`, 'success');
+      }
+      loadActiveOrders();
+    } catch (error) {
+      console.error('Error canceling ladder:', error);
+      setOrderErrors(prev => [...prev, `Error canceling ladder: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+    } finally {
+      setCancellingLadder(null);
+    }
+  };
+
+  const handleCancelLinkedGroup = async (group: LinkedOrderGroup) => {
+    setCancellingGroup(group.id);
+    try {
+      const makers = getSigningWallets(wallets).map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+      if (await cancelLinkedGroup(group, makers)) {
+        showToast(`Cancelled ${group.kind === 'bracket' ? 'bracket' : 'OCO'} orders`, 'success');
+      } else {
+        showToast('Some linked orders could not be cancelled', 'error');
+      }
+      loadActiveOrders();
+    } catch (error) {
+      console.error('Error canceling linked orders:', error);
+      setOrderErrors(prev => [...prev, `Error canceling linked orders: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+    } finally {
+      setCancellingGroup(null);
+    }
+  };
+
   // Calendar handlers
   const handleCalendarDateSelect = (date: Date) => {
     setCalendarDate(date);
@@ -920,56 +1000,35 @@ const TradingCard = ({
     return price.toFixed(10).replace(/\.?0+$/, '');
   };
 
-  // Calculate missing amount and price when inputs change
+  // Derive the other side of the order from the target price, or from the target market cap
   useEffect(() => {
-    // Calculate avg price from market cap if market cap is provided
-    let avgPrice = limitOrderAvgPrice;
-    if (limitOrderMarketCap && solPrice) {
-      const marketCap = parseFloat(limitOrderMarketCap);
-      const supply = 1000000000; // 1B tokens
-      const calculatedPrice = marketCap / (solPrice * supply);
-      avgPrice = formatPrice(calculatedPrice);
-      setLimitOrderAvgPrice(avgPrice);
+    let targetPrice = limitOrderAvgPrice;
+    if (targetMode === 'marketCap') {
+      const price = limitOrderMarketCap && solPrice
+        ? marketCapToPrice(parseFloat(limitOrderMarketCap), solPrice, tokenSupply)
+        : 0;
+      targetPrice = price > 0 ? formatPrice(price) : '';
+      setLimitOrderAvgPrice(targetPrice);
+    }
+
+    const price = parseFloat(targetPrice);
+    const amount = parseFloat(activeTradeType === 'buy' ? limitOrderSolAmount : limitOrderTokenAmount);
+    const { takingAmount } = deriveLimitOrderAmounts(activeTradeType === 'buy' ? 'buy' : 'sell', amount, price);
+
+    if (takingAmount <= 0) {
+      setLimitOrderPrice('');
+      return;
     }
 
     if (activeTradeType === 'buy') {
-      // For buy orders: SOL amount + avg price → calculate token amount
-      if (limitOrderSolAmount && avgPrice) {
-        const solAmount = parseFloat(limitOrderSolAmount);
-        const avgPriceNum = parseFloat(avgPrice);
-        const tokenAmount = solAmount / avgPriceNum;
-        setLimitOrderTokenAmount(tokenAmount.toFixed(6));
-        setLimitOrderPrice(formatPrice(avgPriceNum));
-      } else if (limitOrderSolAmount && limitOrderTokenAmount) {
-        // Fallback: calculate price from amounts
-        const solAmountLamports = solToLamports(parseFloat(limitOrderSolAmount));
-        const tokenAmountRaw = (parseFloat(limitOrderTokenAmount) * Math.pow(10, 6)).toString();
-        const price = calculatePrice(solAmountLamports, tokenAmountRaw);
-        setLimitOrderPrice(formatPrice(price));
-        setLimitOrderAvgPrice(formatPrice(price));
-      } else {
-        setLimitOrderPrice('');
-      }
+      // For buy orders: SOL amount + price → token amount, in the mint's decimals
+      setLimitOrderTokenAmount(takingAmount.toFixed(orderMintInfo?.decimals ?? 6));
     } else {
-      // For sell orders: token amount + avg price → calculate SOL amount
-      if (limitOrderTokenAmount && avgPrice) {
-        const tokenAmount = parseFloat(limitOrderTokenAmount);
-        const avgPriceNum = parseFloat(avgPrice);
-        const solAmount = tokenAmount * avgPriceNum;
-        setLimitOrderSolAmount(solAmount.toFixed(6));
-        setLimitOrderPrice(formatPrice(avgPriceNum));
-      } else if (limitOrderSolAmount && limitOrderTokenAmount) {
-        // Fallback: calculate price from amounts
-        const solAmountLamports = solToLamports(parseFloat(limitOrderSolAmount));
-        const tokenAmountRaw = (parseFloat(limitOrderTokenAmount) * Math.pow(10, 6)).toString();
-        const price = calculatePrice(tokenAmountRaw, solAmountLamports);
-        setLimitOrderPrice(formatPrice(price));
-        setLimitOrderAvgPrice(formatPrice(price));
-      } else {
-        setLimitOrderPrice('');
-      }
+      // For sell orders: token amount + price → SOL amount
+      setLimitOrderSolAmount(takingAmount.toFixed(9));
     }
-  }, [limitOrderSolAmount, limitOrderTokenAmount, limitOrderAvgPrice, limitOrderMarketCap, solPrice, activeTradeType]);
+    setLimitOrderPrice(formatPrice(price));
+  }, [limitOrderSolAmount, limitOrderTokenAmount, limitOrderAvgPrice, limitOrderMarketCap, targetMode, solPrice, tokenSupply, orderMintInfo, activeTradeType]);
 
   // Initialize base market cap from props
   useEffect(() => {
@@ -978,15 +1037,28 @@ const TradingCard = ({
     }
   }, [currentMarketCap]);
 
-  // Handle market cap slider changes
+  // Handle market cap slider changes; a typed market cap (slider at 0) is left alone
   useEffect(() => {
-    if (baseMarketCap > 0) {
+    if (baseMarketCap > 0 && (marketCapSlider !== 0 || !limitOrderMarketCap)) {
       const sliderPercentage = marketCapSlider / 100; // Convert to decimal
       const adjustedMarketCap = baseMarketCap * (1 + sliderPercentage);
       setLimitOrderMarketCap(adjustedMarketCap.toFixed(2));
     }
   }, [marketCapSlider, baseMarketCap]);
 
+  // Ladders are stored locally; follow changes from the builder and cancellations
+  useEffect(() => {
+    const handleLaddersChanged = () => setLadders(loadLadders());
+    window.addEventListener(LADDER_EVENT, handleLaddersChanged);
+    return () => window.removeEventListener(LADDER_EVENT, handleLaddersChanged);
+  }, []);
+
+  useEffect(() => {
+    const handleLinkedOrdersChanged = () => setLinkedGroups(loadLinkedOrders());
+    window.addEventListener(LINKED_ORDERS_EVENT, handleLinkedOrdersChanged);
+    return () => window.removeEventListener(LINKED_ORDERS_EVENT, handleLinkedOrdersChanged);
+  }, []);
+
   // Load active orders when switching to orders tab
   useEffect(() => {
     if (activeMainTab === 'orders') {
@@ -1013,12 +1085,11 @@ const TradingCard = ({
 
   // Calculate token/SOL amounts for market orders based on current market cap
   const calculateMarketOrderAmounts = () => {
-    if (!currentMarketCap || !solPrice || (!buyAmount && !sellAmount)) {
+    if (!currentMarketCap || !solPrice || !marketCapReady || (!buyAmount && !sellAmount)) {
       return { tokenAmount: null, solAmount: null };
     }
 
-    const supply = 1000000000; // 1B tokens
-    const avgPrice = currentMarketCap / (solPrice * supply);
+    const avgPrice = marketCapToPrice(currentMarketCap, solPrice, tokenSupply);
 
     if (activeTradeType === 'buy' && buyAmount) {
       const solAmountNum = parseFloat(buyAmount);
@@ -1035,7 +1106,8 @@ const TradingCard = ({
       }, 0);
       
       const tokenAmountToSell = totalTokenAmount * sellPercentage;
-      const solAmount = tokenAmountToSell * avgPrice;
+      // A Token-2022 transfer fee is withheld before the tokens reach the pool
+      const solAmount = getNetTransferAmount(tokenAddress, tokenAmountToSell) * avgPrice;
       return { tokenAmount: tokenAmountToSell, solAmount };
     }
 
@@ -1171,6 +1243,21 @@ const TradingCard = ({
         </div>
       )}
 
+      {/* Wallet Groups - selecting a group activates its wallets */}
+      {!isFloatingCardOpen && activeMainTab === 'trading' && (
+        <WalletGroupSelector
+          wallets={getSigningWallets(wallets)}
+          selected={wallets.filter(w => w.isActive).map(w => w.address)}
+          onChange={(addresses) => {
+            const newWallets = setActiveWallets(wallets, addresses);
+            saveWalletsToCookies(newWallets);
+            setWallets(newWallets);
+          }}
+          getWalletKey={wallet => wallet.address}
+          className="px-4 py-2 border-b border-cyan-500/20"
+        />
+      )}
+
       {/* Order Type Tabs - Only show for trading tab */}
       {!isFloatingCardOpen && activeMainTab === 'trading' && (
         <div className="flex items-center justify-between px-4 py-2 bg-cyan-900/20 border-b-2 border-cyan-500/60">
@@ -1238,6 +1325,13 @@ const TradingCard = ({
                   >
                     <RefreshCw size={12} />
                   </button>
+                  <button
+                    onClick={() => setIsOrderHistoryOpen(true)}
+                    className="p-1 bg-cyan-900/30 border border-cyan-500/60 text-cyan-400 hover:bg-cyan-500/20 rounded transition-all duration-200"
+                    title="Order history"
+                  >
+                    <History size={12} />
+                  </button>
                 </div>
               </div>
 
@@ -1386,6 +1480,153 @@ const TradingCard = ({
                   </div>
                 </div>
               )}
+
+              {/* Ladders */}
+              {(() => {
+                const tokenLadders = ladders.filter(ladder => ladder.tokenAddress === tokenAddress);
+                if (!tokenAddress || tokenLadders.length === 0) return null;
+
+                return (
+                  <div className="space-y-2">
+                    <span className="text-xs font-mono tracking-wider text-app-secondary uppercase">
+                      LADDERS
+                    </span>
+                    {tokenLadders.map(ladder => {
+                      const prices = ladder.orders.map(order => order.price);
+                      const isCancelling = cancellingLadder === ladder.id;
+                      return (
+                        <div key={ladder.id} className="bg-app-primary-60 border border-app-primary-20 rounded-lg p-3 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <span className={`text-xs font-mono px-2 py-1 rounded ${
+                                ladder.side === 'buy' ? 'bg-app-primary-color text-black' : 'bg-[#ff3232] text-white'
+                              }`}>
+                                {ladder.side.toUpperCase()}
+                              </span>
+                              <span className="text-xs font-mono text-app-secondary-60">
+                                {ladder.orders.length} orders · {new Date(ladder.createdAt).toLocaleString()}
+                              </span>
+                            </div>
+                            <button
+                              onClick={() => removeLadder(ladder.id)}
+                              disabled={isCancelling}
+                              className="p-1 text-app-secondary-60 hover:text-app-primary rounded transition-all duration-200 disabled:opacity-50"
+                              title="Forget ladder (orders stay open)"
+                            >
+                              <X size={12} />
+                            </button>
+                          </div>
+                          <div className="text-xs font-mono">
+                            <span className="text-app-secondary-60">Range: </span>
+                            <span className="color-primary">
+                              {Math.min(...prices).toPrecision(4)} - {Math.max(...prices).toPrecision(4)} SOL/token
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => handleCancelLadder(ladder)}
+                            disabled={isCancelling || cancellingLadder !== null}
+                            className="w-full px-2 py-1 text-xs font-mono bg-error-20 border border-error-alt-40 text-error-alt hover-bg-error-30 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {isCancelling ? (
+                              <span className="flex items-center justify-center gap-2">
+                                <Loader2 size={12} className="animate-spin" />
+                                CANCELLING...
+                              </span>
+                            ) : (
+                              'CANCEL LADDER'
+                            )}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })()}
+
+              {/* OCO and bracket orders */}
+              {(() => {
+                const tokenGroups = linkedGroups.filter(group => group.tokenAddress === tokenAddress);
+                if (!tokenAddress || tokenGroups.length === 0) return null;
+
+                return (
+                  <div className="space-y-2">
+                    <span className="text-xs font-mono tracking-wider text-app-secondary uppercase">
+                      LINKED ORDERS
+                    </span>
+                    {tokenGroups.map(group => {
+                      const finished = isLinkedGroupFinished(group.status);
+                      const isCancelling = cancellingGroup === group.id;
+                      return (
+                        <div key={group.id} className="bg-app-primary-60 border border-app-primary-20 rounded-lg p-3 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs font-mono px-2 py-1 rounded bg-primary-20 color-primary">
+                                {group.kind === 'bracket' ? 'BRACKET' : 'OCO'}
+                              </span>
+                              <span className="text-xs font-mono text-app-secondary-60">
+                                {group.maker.slice(0, 8)}...{group.maker.slice(-4)}
+                              </span>
+                              <span className="text-xs font-mono text-app-secondary">
+                                {group.status}{group.filledLeg && ` (${group.filledLeg})`}
+                              </span>
+                            </div>
+                            {finished && (
+                              <button
+                                onClick={() => removeLinkedGroup(group.id)}
+                                className="p-1 text-app-secondary-60 hover:text-app-primary rounded transition-all duration-200"
+                                title="Remove from list"
+                              >
+                                <X size={12} />
+                              </button>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                            {group.entryPrice !== undefined && (
+                              <div className="col-span-2">
+                                <span className="text-app-secondary-60">Entry: </span>
+                                <span className="text-app-primary">{group.entryPrice} SOL/token</span>
+                              </div>
+                            )}
+                            <div>
+                              <span className="text-app-secondary-60">TP: </span>
+                              <span className="color-primary">{group.takeProfitPrice} SOL</span>
+                            </div>
+                            <div>
+                              <span className="text-app-secondary-60">Stop: </span>
+                              <span className="text-error-alt">{group.stopLossPrice} SOL</span>
+                            </div>
+                            {group.tokenAmount && (
+                              <div className="col-span-2">
+                                <span className="text-app-secondary-60">Size: </span>
+                                <span className="text-app-primary">{parseFloat(group.tokenAmount).toFixed(2)} tokens</span>
+                              </div>
+                            )}
+                            {group.error && (
+                              <div className="col-span-2 text-error-alt break-all">{group.error}</div>
+                            )}
+                          </div>
+                          {!finished && (
+                            <button
+                              onClick={() => handleCancelLinkedGroup(group)}
+                              disabled={cancellingGroup !== null}
+                              className="w-full px-2 py-1 text-xs font-mono bg-error-20 border border-error-alt-40 text-error-alt hover-bg-error-30 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {isCancelling ? (
+                                <span className="flex items-center justify-center gap-2">
+                                  <Loader2 size={12} className="animate-spin" />
+                                  CANCELLING...
+                                </span>
+                              ) : (
+                                'CANCEL ALL LEGS'
+                              )}
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })()}
             </div>
           ) : (
             /* Trading Content */
@@ -1583,33 +1824,56 @@ const TradingCard = ({
                 />
               </div>
 
-              {/* Second Input - Average Price */}
+              {/* Second Input - Target Price or Market Cap */}
               <div className="space-y-1">
-                <label className="text-xs font-mono tracking-wider text-app-secondary uppercase">
-                  AVG PRICE (SOL/TOKEN)
-                </label>
+                <div className="flex justify-between items-center">
+                  <label className="text-xs font-mono tracking-wider text-app-secondary uppercase">
+                    {targetMode === 'price' ? 'TARGET PRICE (SOL/TOKEN)' : 'TARGET MARKET CAP (USD)'}
+                  </label>
+                  <div className="flex gap-1">
+                    {(['price', 'marketCap'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setLimitOrderTargetMode(mode)}
+                        disabled={!tokenAddress || isCreatingLimitOrder || (mode === 'marketCap' && !marketCapReady)}
+                        className={`px-1.5 py-0.5 text-[10px] font-mono rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                                  ${targetMode === mode
+                                    ? 'bg-primary-20 border-app-primary color-primary'
+                                    : 'border-app-primary-30 text-app-secondary-60 hover:text-app-primary'}`}
+                      >
+                        {mode === 'price' ? 'PRICE' : 'MCAP'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <input
                   type="text"
-                  value={limitOrderAvgPrice}
+                  value={targetMode === 'price' ? limitOrderAvgPrice : limitOrderMarketCap}
                   onChange={(e) => {
                     const value = e.target.value.replace(/[^0-9.]/g, '');
-                    setLimitOrderAvgPrice(value);
-                    // Validate SOL amount for sell orders
-                    if (activeTradeType === 'sell' && limitOrderTokenAmount && value) {
-                      const solAmount = parseFloat(limitOrderTokenAmount) * parseFloat(value);
-                      if (solAmount < 0.1) {
-                        showToast('Minimum SOL amount for limit orders is 0.1 SOL', 'error');
-                      }
+                    if (targetMode === 'price') {
+                      setLimitOrderAvgPrice(value);
+                    } else {
+                      setLimitOrderMarketCap(value);
+                      setMarketCapSlider(0);
                     }
                   }}
                   placeholder="0.0"
-                  disabled={true}
+                  disabled={!tokenAddress || isCreatingLimitOrder}
                   className="w-full px-2 py-2 bg-cyan-950/40 border-2 border-cyan-500/60 rounded-lg 
                            text-cyan-300 placeholder:text-cyan-600 font-mono text-sm 
                            focus:outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-400/40 
                            transition-all duration-300 shadow-inner
                            disabled:opacity-50 disabled:cursor-not-allowed"
                 />
+                {tokenAddress && !marketCapReady && (
+                  <div className={`text-[10px] font-mono ${orderMintError ? 'text-error-alt' : 'text-app-secondary-60'}`}>
+                    {orderMintError
+                      ? `Market cap targets unavailable, token supply failed to load: ${orderMintError}`
+                      : 'Loading token supply for market cap targets...'}
+                  </div>
+                )}
               </div>
 
               {/* Market Cap Slider */}
@@ -1629,10 +1893,11 @@ const TradingCard = ({
                         const numValue = parseFloat(value);
                         if (!isNaN(numValue)) {
                           setMarketCapSlider(Math.round(numValue));
+                          setLimitOrderTargetMode('marketCap');
                         }
                       }
                     }}
-                    disabled={!tokenAddress || isCreatingLimitOrder || !baseMarketCap}
+                    disabled={!tokenAddress || isCreatingLimitOrder || !baseMarketCap || !marketCapReady}
                     className="text-xs font-mono text-cyan-400 bg-cyan-950/40 border-2 border-cyan-500/60 rounded px-1 py-0.5 text-right w-16
                              disabled:opacity-50 disabled:cursor-not-allowed
                              hover:border-cyan-400 focus:border-cyan-300 focus:bg-cyan-900/40 focus:outline-none
@@ -1646,19 +1911,24 @@ const TradingCard = ({
                     max="200"
                     step="5"
                     value={marketCapSlider}
-                    onChange={(e) => setMarketCapSlider(parseInt(e.target.value))}
-                    disabled={!tokenAddress || isCreatingLimitOrder || !baseMarketCap}
+                    onChange={(e) => {
+                      setMarketCapSlider(parseInt(e.target.value));
+                      setLimitOrderTargetMode('marketCap');
+                    }}
+                    disabled={!tokenAddress || isCreatingLimitOrder || !baseMarketCap || !marketCapReady}
                     className="w-full h-2 bg-app-primary-60 rounded-lg appearance-none cursor-pointer
                              disabled:opacity-50 disabled:cursor-not-allowed
                              slider-thumb"
                   />
                 </div>
-                {baseMarketCap > 0 && (
+                {baseMarketCap > 0 && marketCapReady && (
                   <div className="bg-cyan-950/30 border-2 border-cyan-500/60 rounded-lg p-2">
                     <div className="flex justify-between items-center">
                       <span className="text-xs font-mono text-app-secondary-60 uppercase">Target Market Cap:</span>
                       <span className="text-xs font-mono color-primary">
-                        ${limitOrderMarketCap ? parseFloat(limitOrderMarketCap).toLocaleString() : '0'}
+                        ${targetMode === 'marketCap'
+                          ? (limitOrderMarketCap ? parseFloat(limitOrderMarketCap).toLocaleString() : '0')
+                          : ((parseFloat(limitOrderAvgPrice) || 0) * (solPrice || 0) * tokenSupply).toLocaleString(undefined, { maximumFractionDigits: 2 })}
                       </span>
                     </div>
                   </div>
@@ -1685,7 +1955,7 @@ const TradingCard = ({
                   <div className="flex justify-between items-center">
                     <span className="text-xs font-mono text-app-secondary-60 uppercase">Price:</span>
                     <span className="text-xs font-mono color-primary">
-                      {limitOrderPrice} {activeTradeType === 'buy' ? 'tokens/SOL' : 'SOL/token'}
+                      {limitOrderPrice} SOL/token
                     </span>
                   </div>
                 </div>
@@ -1717,6 +1987,28 @@ const TradingCard = ({
                   `CREATE LIMIT ${activeTradeType.toUpperCase()}`
                 )}
               </button>
+
+              <button
+                onClick={() => setIsLadderModalOpen(true)}
+                disabled={!tokenAddress}
+                className="w-full flex items-center justify-center gap-2 px-4 py-1.5 text-xs font-mono tracking-wider rounded-lg
+                         border border-app-primary-40 text-app-secondary hover:color-primary hover:border-app-primary
+                         transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Layers size={12} />
+                BUILD {activeTradeType.toUpperCase()} LADDER
+              </button>
+
+              <button
+                onClick={() => setIsLinkedOrderModalOpen(true)}
+                disabled={!tokenAddress}
+                className="w-full flex items-center justify-center gap-2 px-4 py-1.5 text-xs font-mono tracking-wider rounded-lg
+                         border border-app-primary-40 text-app-secondary hover:color-primary hover:border-app-primary
+                         transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <GitBranch size={12} />
+                OCO / BRACKET
+              </button>
             </div>
           )}
             </>
@@ -1729,6 +2021,31 @@ const TradingCard = ({
           </p>
         </div>
       )}
+
+      <LadderModal
+        isOpen={isLadderModalOpen}
+        onClose={() => setIsLadderModalOpen(false)}
+        tokenAddress={tokenAddress}
+        wallets={wallets}
+        solBalances={solBalances}
+        tokenBalances={tokenBalances}
+        initialSide={activeTradeType === 'buy' ? 'buy' : 'sell'}
+      />
+
+      <LinkedOrderModal
+        isOpen={isLinkedOrderModalOpen}
+        onClose={() => setIsLinkedOrderModalOpen(false)}
+        tokenAddress={tokenAddress}
+        wallets={wallets}
+        solBalances={solBalances}
+        tokenBalances={tokenBalances}
+      />
+
+      <OrderHistoryModal
+        isOpen={isOrderHistoryOpen}
+        onClose={() => setIsOrderHistoryOpen(false)}
+        tokenAddress={tokenAddress}
+      />
     </div>
   );
 };
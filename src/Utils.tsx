@@ -3,6 +3,16 @@ import bs58 from 'bs58';
 import Cookies from 'js-cookie';
 import CryptoJS from 'crypto-js';
 import { TradingStrategy } from './automate/types';
+import {
+  VaultRecord,
+  isVaultRecord,
+  createVaultSession,
+  unlockVaultSession,
+  sealVaultData,
+  lockVaultSession,
+  isVaultSessionUnlocked
+} from './utils/vault';
+import { fetchBalances } from './utils/balances';
 
 export interface WalletType {
   id: number;
@@ -11,6 +21,10 @@ export interface WalletType {
   isActive: boolean;
   tokenBalance?: number;
   label?: string;
+  tags?: string[]; // Wallet groups, e.g. 'dev', 'snipers', 'cold'
+  hdSeedId?: string; // Fingerprint of the mnemonic an HD wallet was derived from
+  hdIndex?: number; // Account index in m/44'/501'/index'/0'
+  watchOnly?: boolean; // Tracked address without a private key (privateKey is '')
 }
 
 export interface ConfigType {
@@ -27,11 +41,21 @@ export interface ConfigType {
   batchDelay: string; // Delay between batches in batch mode (milliseconds)
   tradingServerEnabled: string; // Whether to use self-hosted trading server ('true' or 'false')
   tradingServerUrl: string; // URL of the self-hosted trading server
+  autoLockMinutes: string; // Idle minutes before the wallet vault locks ('0' disables auto-lock)
+  simulateTransactions: string; // Dry run - simulate bundles instead of sending them ('true' or 'false')
+  trustedAddresses: string; // Extra programs/recipients the transaction inspector accepts (comma or newline separated)
+  maxSolPerWallet: string; // Spending limit: max SOL one wallet may spend in a single trade ('' = no limit)
+  maxSolPerOperation: string; // Spending limit: max SOL across all wallets of one operation ('' = no limit)
+  maxSolPerDay: string; // Spending limit: max SOL spent in total per day ('' = no limit)
+  maxSolPerSession: string; // Spending limit: max SOL spent in total since the app was opened ('' = no limit)
+  maxBalancePercent: string; // Spending limit: max percentage of a wallet's SOL balance per trade ('' = no limit)
+  liveBalances: string; // Push balance changes over the RPC websocket instead of refreshing on demand ('true' or 'false')
+  maxBalanceSubscriptions: string; // Max websocket subscriptions for live balances; accounts beyond it are polled
 }
 
 export const toggleWallet = (wallets: WalletType[], id: number): WalletType[] => {
   return wallets.map(wallet => 
-    wallet.id === id ? { ...wallet, isActive: !wallet.isActive } : wallet
+    wallet.id === id && !wallet.watchOnly ? { ...wallet, isActive: !wallet.isActive } : wallet
   );
 };
 
@@ -64,41 +88,64 @@ request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
   }
 };
 
-// Function to load wallets from IndexedDB with encryption support
-const loadWalletsFromIndexedDB = (): Promise<WalletType[]> => {
+// Settles once the database is open (or failed to open), for reads right after startup
+const databaseOpened = new Promise<void>((resolve) => {
+  request.addEventListener('success', () => resolve());
+  request.addEventListener('error', () => resolve());
+});
+
+// Function to load the wallet vault record from IndexedDB
+const loadVaultFromIndexedDB = (): Promise<VaultRecord | null> => {
   return new Promise((resolve) => {
     if (!db) {
-      resolve([]);
+      resolve(null);
       return;
     }
 
     try {
       const transaction = db.transaction(WALLET_STORE, 'readonly');
       const store = transaction.objectStore(WALLET_STORE);
-      const request = store.get('encrypted_wallets');
+      const request = store.get(VAULT_STORAGE_KEY);
 
       request.onsuccess = () => {
-        try {
-          if (request.result && request.result.data) {
-            const decryptedData = decryptData(request.result.data);
-            const wallets = JSON.parse(decryptedData);
-            resolve(wallets);
-          } else {
-            resolve([]);
-          }
-        } catch (error) {
-          console.error('Error decrypting IndexedDB data:', error);
-          resolve([]);
-        }
+        resolve(request.result && isVaultRecord(request.result.vault) ? request.result.vault : null);
+      };
+
+      request.onerror = () => {
+        console.error('Error loading from IndexedDB:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('Error accessing IndexedDB:', error);
+      resolve(null);
+    }
+  });
+};
+
+// Function to load the legacy static-key blob from IndexedDB (pre-vault installs)
+const loadLegacyBlobFromIndexedDB = (): Promise<string | null> => {
+  return new Promise((resolve) => {
+    if (!db) {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const transaction = db.transaction(WALLET_STORE, 'readonly');
+      const store = transaction.objectStore(WALLET_STORE);
+      const request = store.get(ENCRYPTED_STORAGE_KEY);
+
+      request.onsuccess = () => {
+        resolve(request.result && request.result.data ? request.result.data : null);
       };
 
       request.onerror = () => {
         console.error('Error loading from IndexedDB:', request.error);
-        resolve([]);
+        resolve(null);
       };
     } catch (error) {
       console.error('Error accessing IndexedDB:', error);
-      resolve([]);
+      resolve(null);
     }
   });
 };
@@ -109,22 +156,19 @@ const TRADING_STRATEGIES_COOKIE_KEY = 'tradingStrategies';
 const USER_COOKIE_KEY = 'user';
 
 // Encryption setup
-const ENCRYPTION_KEY = 'arca-wallet-encryption-key';
+// The static key is only used to read wallets saved before the vault existed
+const LEGACY_ENCRYPTION_KEY = 'arca-wallet-encryption-key';
 const ENCRYPTED_STORAGE_KEY = 'encrypted_wallets';
+const VAULT_STORAGE_KEY = 'wallet_vault';
 
-// Encryption helper functions
-const encryptData = (data: string): string => {
-  try {
-    return CryptoJS.AES.encrypt(data, ENCRYPTION_KEY).toString();
-  } catch (error) {
-    console.error('Error encrypting data:', error);
-    throw new Error('Failed to encrypt data');
-  }
-};
+// Decrypted wallets while the vault is unlocked - never persisted in plaintext
+let unlockedWallets: WalletType[] | null = null;
+// Serializes vault writes so an older snapshot never overwrites a newer one
+let vaultWriteQueue: Promise<void> = Promise.resolve();
 
-const decryptData = (encryptedData: string): string => {
+const decryptLegacyData = (encryptedData: string): string => {
   try {
-    const bytes = CryptoJS.AES.decrypt(encryptedData, ENCRYPTION_KEY);
+    const bytes = CryptoJS.AES.decrypt(encryptedData, LEGACY_ENCRYPTION_KEY);
     const decryptedData = bytes.toString(CryptoJS.enc.Utf8);
     if (!decryptedData) {
       throw new Error('Failed to decrypt data - invalid key or corrupted data');
@@ -136,27 +180,180 @@ const decryptData = (encryptedData: string): string => {
   }
 };
 
-// Export encryption utilities for potential external use
-export const encryptWalletData = (data: string): string => {
-  return encryptData(data);
+const loadVaultFromLocalStorage = (): VaultRecord | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+    if (!saved) return null;
+    const record = JSON.parse(saved);
+    return isVaultRecord(record) ? record : null;
+  } catch (error) {
+    console.error('Error reading wallet vault:', error);
+    return null;
+  }
+};
+
+const loadVaultRecord = async (): Promise<VaultRecord | null> => {
+  return loadVaultFromLocalStorage() || await loadVaultFromIndexedDB();
+};
+
+// Function to write the vault record to IndexedDB next to any legacy blob
+const saveVaultToIndexedDB = (record: VaultRecord): Promise<void> => {
+  return new Promise((resolve) => {
+    if (!db) {
+      resolve();
+      return;
+    }
+
+    try {
+      const transaction = db.transaction(WALLET_STORE, 'readwrite');
+      transaction.objectStore(WALLET_STORE).put({ id: VAULT_STORAGE_KEY, vault: record });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.error('Error saving wallet vault to IndexedDB:', transaction.error);
+        resolve();
+      };
+    } catch (error) {
+      console.error('Error saving wallet vault to IndexedDB:', error);
+      resolve();
+    }
+  });
+};
+
+// Function to drop the wallets saved before the vault existed
+const removeLegacyWalletData = (): void => {
+  localStorage.removeItem(ENCRYPTED_STORAGE_KEY);
+  localStorage.removeItem('wallets');
+
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(WALLET_STORE, 'readwrite');
+    transaction.objectStore(WALLET_STORE).delete(ENCRYPTED_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error removing legacy wallets from IndexedDB:', error);
+  }
+};
+
+// Write the vault to IndexedDB, keeping localStorage as backup, and drop legacy copies
+// once both new copies read back intact (without IndexedDB only localStorage holds it)
+const persistVaultRecord = async (record: VaultRecord): Promise<void> => {
+  const recordString = JSON.stringify(record);
+  localStorage.setItem(VAULT_STORAGE_KEY, recordString);
+  await saveVaultToIndexedDB(record);
+
+  const savedCopies = [loadVaultFromLocalStorage()];
+  if (db) {
+    savedCopies.push(await loadVaultFromIndexedDB());
+  }
+  if (savedCopies.some(saved => !saved || JSON.stringify(saved) !== recordString)) {
+    throw new Error('Wallet vault could not be saved');
+  }
+
+  removeLegacyWalletData();
+};
+
+// Read wallets saved before the vault existed (static-key blob or plaintext)
+// Throws when they exist but cannot be read, so they are never replaced by an empty vault
+const loadLegacyWallets = async (): Promise<WalletType[]> => {
+  const encryptedData = localStorage.getItem(ENCRYPTED_STORAGE_KEY) || await loadLegacyBlobFromIndexedDB();
+  if (encryptedData) {
+    try {
+      const wallets = JSON.parse(decryptLegacyData(encryptedData));
+      if (Array.isArray(wallets)) return wallets;
+    } catch (error) {
+      console.error('Error reading legacy wallet data:', error);
+    }
+    throw new Error('Existing wallets could not be decrypted, so no vault was created and they were left untouched');
+  }
+
+  const oldWallets = localStorage.getItem('wallets');
+  if (oldWallets) {
+    try {
+      const wallets = JSON.parse(oldWallets);
+      if (Array.isArray(wallets)) return wallets;
+    } catch (error) {
+      console.error('Error reading unencrypted wallet data:', error);
+    }
+    throw new Error('Existing wallets could not be read, so no vault was created and they were left untouched');
+  }
+
+  return [];
+};
+
+// Function to check whether a master password has been set
+export const hasWalletVault = async (): Promise<boolean> => {
+  return (await loadVaultRecord()) !== null;
+};
+
+// Function to check for wallets that still need migrating into the vault
+export const hasLegacyWalletData = async (): Promise<boolean> => {
+  await databaseOpened;
+  return !!localStorage.getItem(ENCRYPTED_STORAGE_KEY) || !!localStorage.getItem('wallets') || !!(await loadLegacyBlobFromIndexedDB());
+};
+
+export const isWalletVaultUnlocked = (): boolean => {
+  return unlockedWallets !== null && isVaultSessionUnlocked();
+};
+
+/**
+ * Create the vault with a new master password
+ * Existing wallets (static-key blob or plaintext) are migrated into it once
+ */
+export const createWalletVault = async (password: string): Promise<WalletType[]> => {
+  if (await hasWalletVault()) {
+    throw new Error('A master password is already set');
+  }
+
+  const wallets = await loadLegacyWallets();
+  await createVaultSession(password);
+  try {
+    const record = await sealVaultData(JSON.stringify(wallets));
+    await persistVaultRecord(record);
+  } catch (error) {
+    lockVaultSession();
+    throw error;
+  }
+  unlockedWallets = wallets;
+
+  if (wallets.length > 0) {
+    console.log(`Migrated ${wallets.length} wallets into the password vault`);
+  }
+  return wallets;
+};
+
+/**
+ * Unlock the vault with the master password
+ */
+export const unlockWalletVault = async (password: string): Promise<WalletType[]> => {
+  const record = await loadVaultRecord();
+  if (!record) {
+    throw new Error('No wallet vault found');
+  }
+
+  const decryptedData = await unlockVaultSession(password, record);
+  const wallets: WalletType[] = JSON.parse(decryptedData);
+  unlockedWallets = wallets;
+  return wallets;
 };
 
-export const decryptWalletData = (encryptedData: string): string => {
-  return decryptData(encryptedData);
+/**
+ * Lock the vault, forgetting the derived key and the decrypted wallets
+ */
+export const lockWalletVault = (): void => {
+  lockVaultSession();
+  unlockedWallets = null;
 };
 
 // Function to check if wallet data is encrypted
 export const isWalletDataEncrypted = (): boolean => {
-  const encryptedData = localStorage.getItem(ENCRYPTED_STORAGE_KEY);
-  const unencryptedData = localStorage.getItem('wallets');
-  return !!encryptedData && !unencryptedData;
+  return !!loadVaultFromLocalStorage() && !localStorage.getItem('wallets');
 };
 
 // Function to migrate unencrypted data to encrypted storage
 export const migrateToEncryptedStorage = (): boolean => {
   try {
     const unencryptedData = localStorage.getItem('wallets');
-    if (unencryptedData) {
+    if (unencryptedData && isWalletVaultUnlocked()) {
       const wallets = JSON.parse(unencryptedData);
       saveWalletsToCookies(wallets);
       console.log('Successfully migrated wallet data to encrypted storage');
@@ -222,6 +419,30 @@ export const importWallet = async (
   }
 };
 
+export const createWatchOnlyWallet = (
+  addressString: string
+): { wallet: WalletType | null; error?: string } => {
+  const address = addressString.trim();
+  if (!address) {
+    return { wallet: null, error: 'Address cannot be empty' };
+  }
+
+  try {
+    const publicKey = new PublicKey(address);
+    return {
+      wallet: {
+        id: Date.now(),
+        address: publicKey.toString(),
+        privateKey: '',
+        isActive: false,
+        watchOnly: true
+      }
+    };
+  } catch (e) {
+    return { wallet: null, error: 'Invalid wallet address' };
+  }
+};
+
 export const formatAddress = (address: string) => {
   if (address.length < 8) return address;
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
@@ -267,7 +488,7 @@ export const getActiveWallets = (): WalletType[] => {
     const savedWallets = Cookies.get(WALLET_COOKIE_KEY);
     if (!savedWallets) return [];
     const parsedWallets = JSON.parse(savedWallets);
-    return parsedWallets.filter((wallet: WalletType) => wallet.isActive);
+    return parsedWallets.filter((wallet: WalletType) => wallet.isActive && !wallet.watchOnly);
   } catch (error) {
     console.error('Error loading active wallets from cookies:', error);
     return [];
@@ -279,24 +500,8 @@ export const fetchTokenBalance = async (
   tokenMint: string
 ): Promise<number> => {
   try {
-    const walletPublicKey = new PublicKey(walletAddress);
-    const tokenMintPublicKey = new PublicKey(tokenMint);
-
-    // Find token account
-    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-      walletPublicKey,
-      {
-        mint: tokenMintPublicKey
-      }, 
-      "processed"
-    );
-
-    // If no token account found, return 0
-    if (tokenAccounts.value.length === 0) return 0;
-
-    // Get balance from the first token account
-    const balance = tokenAccounts.value[0].account.data.parsed.info.tokenAmount.uiAmount;
-    return balance || 0;
+    const { tokenBalances } = await fetchBalances(connection, [walletAddress], tokenMint);
+    return tokenBalances.get(walletAddress) || 0;
   } catch (error) {
     console.error('Error fetching token balance:', error);
     return 0;
@@ -308,9 +513,8 @@ export const fetchSolBalance = async (
   walletAddress: string
 ): Promise<number> => {
   try {
-    const publicKey = new PublicKey(walletAddress);
-    const balance = await connection.getBalance(publicKey, "processed");
-    return balance / 1e9;
+    const { solBalances } = await fetchBalances(connection, [walletAddress]);
+    return solBalances.get(walletAddress) || 0;
   } catch (error) {
     console.error('Error fetching SOL balance:', error);
     return 0;
@@ -338,8 +542,9 @@ export const refreshWalletBalance = async (
 };
 
 /**
- * Fetch both SOL and token balances for all wallets one by one
- * This is the main function for fetching wallet balances with progress tracking
+ * Fetch both SOL and token balances for all wallets in batches
+ * This is the main function for fetching wallet balances; it bypasses the balance cache
+ * Set discoverAccounts to also list each wallet's token accounts (one RPC call per wallet)
  */
 export const fetchWalletBalances = async (
   connection: Connection,
@@ -348,54 +553,33 @@ export const fetchWalletBalances = async (
   setSolBalances: Function,
   setTokenBalances: Function,
   currentSolBalances?: Map<string, number>,
-  currentTokenBalances?: Map<string, number>
+  currentTokenBalances?: Map<string, number>,
+  discoverAccounts = false
 ) => {
   console.log(`Fetching balances for ${wallets.length} wallets...`);
+  const fetched = await fetchBalances(
+    connection,
+    wallets.map(wallet => wallet.address),
+    tokenAddress,
+    { force: true, discoverAccounts }
+  );
+
   // Start with existing balances to preserve them on errors
   const newSolBalances = new Map(currentSolBalances || new Map<string, number>());
   const newTokenBalances = new Map(currentTokenBalances || new Map<string, number>());
-  
-  // Process wallets sequentially
-  for (let i = 0; i < wallets.length; i++) {
-    const wallet = wallets[i];
-    
-    try {
-      // Fetch SOL balance
-      const solBalance = await fetchSolBalance(connection, wallet.address);
-      newSolBalances.set(wallet.address, solBalance);
-      console.log(`Wallet ${wallet.address}: ${solBalance} SOL`);
-      
-      // Update SOL balances immediately to show progress
-      setSolBalances(new Map(newSolBalances));
-      
-      // Fetch token balance if token address is provided
-      if (tokenAddress) {
-        const tokenBalance = await fetchTokenBalance(connection, wallet.address, tokenAddress);
-        newTokenBalances.set(wallet.address, tokenBalance);
-        console.log(`Wallet ${wallet.address}: ${tokenBalance} tokens`);
-        
-        // Update token balances immediately to show progress
-        setTokenBalances(new Map(newTokenBalances));
-      }
-    } catch (error) {
-      console.error(`Error fetching balances for ${wallet.address}:`, error);
-    }
-    
-    // Add 100ms delay between wallets (except for the last one)
-    if (i < wallets.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 5));
-    }
+  fetched.solBalances.forEach((balance, address) => newSolBalances.set(address, balance));
+  fetched.tokenBalances.forEach((balance, address) => newTokenBalances.set(address, balance));
+
+  setSolBalances(newSolBalances);
+  if (tokenAddress) {
+    setTokenBalances(newTokenBalances);
   }
-  
-  console.log('Final SOL balances:', newSolBalances);
-  console.log('Final token balances:', newTokenBalances);
-  
+
   return { solBalances: newSolBalances, tokenBalances: newTokenBalances };
 };
 
 /**
- * Legacy function - kept for backwards compatibility
- * @deprecated Use fetchWalletBalances instead
+ * Fetch SOL balances for all wallets, reusing cached balances that are still fresh
  */
 export const fetchSolBalances = async (
   connection: Connection,
@@ -404,41 +588,19 @@ export const fetchSolBalances = async (
   onProgress?: (current: number, total: number) => void
 ) => {
   console.log(`Fetching SOL balances for ${wallets.length} wallets...`);
-  const newBalances = new Map<string, number>();
-  
-  // Process wallets sequentially with delay
-  for (let i = 0; i < wallets.length; i++) {
-    const wallet = wallets[i];
-    
-    try {
-      const balance = await fetchSolBalance(connection, wallet.address);
-      newBalances.set(wallet.address, balance);
-      console.log(`Wallet ${wallet.address}: ${balance} SOL`);
-    } catch (error) {
-      console.error(`Error fetching SOL balance for ${wallet.address}:`, error);
-      // Don't set balance to 0 on error - preserve existing balance or skip if no existing balance
-    }
-    
-    // Report progress
-    if (onProgress) {
-      onProgress(i + 1, wallets.length);
-    }
-    
-    // Add 100ms delay between wallets (except for the last one)
-    if (i < wallets.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 10));
-    }
-  }
-  
-  // Update balances once at the end
-  console.log('Setting SOL balances:', newBalances);
-  setSolBalances(newBalances);
-  return newBalances;
+  const { solBalances } = await fetchBalances(
+    connection,
+    wallets.map(wallet => wallet.address),
+    undefined,
+    { onProgress }
+  );
+
+  setSolBalances(solBalances);
+  return solBalances;
 };
 
 /**
- * Legacy function - kept for backwards compatibility
- * @deprecated Use fetchWalletBalances instead
+ * Fetch token balances for all wallets, reusing cached balances that are still fresh
  */
 export const fetchTokenBalances = async (
   connection: Connection,
@@ -447,22 +609,16 @@ export const fetchTokenBalances = async (
   setTokenBalances: Function
 ) => {
   if (!tokenAddress) return new Map<string, number>();
-  
-  const newBalances = new Map<string, number>();
-  
-  const promises = wallets.map(async (wallet) => {
-    try {
-      const balance = await fetchTokenBalance(connection, wallet.address, tokenAddress);
-      newBalances.set(wallet.address, balance);
-    } catch (error) {
-      console.error(`Error fetching token balance for ${wallet.address}:`, error);
-      // Don't set balance to 0 on error - preserve existing balance or skip if no existing balance
-    }
-  });
-  
-  await Promise.all(promises);
-  setTokenBalances(newBalances);
-  return newBalances;
+
+  const { tokenBalances } = await fetchBalances(
+    connection,
+    wallets.map(wallet => wallet.address),
+    tokenAddress,
+    { includeSol: false }
+  );
+
+  setTokenBalances(tokenBalances);
+  return tokenBalances;
 };
 
 /**
@@ -548,88 +704,31 @@ export const handleCleanupWallets = (
 
 
 export const saveWalletsToCookies = (wallets: WalletType[]): void => {
-  try {
-    // Encrypt wallet data before storing
-    const walletData = JSON.stringify(wallets);
-    const encryptedData = encryptData(walletData);
-    
-    if (!db) {
-      // Fallback to localStorage if DB is not ready
-      localStorage.setItem(ENCRYPTED_STORAGE_KEY, encryptedData);
-      // Remove old unencrypted data
-      localStorage.removeItem('wallets');
-      return;
-    }
-
-    const transaction = db.transaction(WALLET_STORE, 'readwrite');
-    const store = transaction.objectStore(WALLET_STORE);
-    
-    store.clear();
-    // Store encrypted wallet data in IndexedDB
-    const encryptedWallet = {
-      id: 'encrypted_wallets',
-      data: encryptedData
-    };
-    store.add(encryptedWallet);
-    
-    // Also save encrypted data to localStorage as backup
-    localStorage.setItem(ENCRYPTED_STORAGE_KEY, encryptedData);
-    // Remove old unencrypted data
-    localStorage.removeItem('wallets');
-  } catch (error) {
-    console.error('Error saving encrypted wallets:', error);
-    // Fallback to localStorage with encryption
-    try {
-      const walletData = JSON.stringify(wallets);
-      const encryptedData = encryptData(walletData);
-      localStorage.setItem(ENCRYPTED_STORAGE_KEY, encryptedData);
-      localStorage.removeItem('wallets');
-    } catch (encryptError) {
-      console.error('Error with encryption fallback:', encryptError);
-      // Last resort: save unencrypted (should rarely happen)
-      localStorage.setItem('wallets', JSON.stringify(wallets));
-    }
+  if (!isWalletVaultUnlocked()) {
+    console.warn('Wallet vault is locked, wallets were not saved');
+    return;
   }
+
+  unlockedWallets = wallets;
+  const walletData = JSON.stringify(wallets);
+
+  // Encrypt with the session key before storing
+  vaultWriteQueue = vaultWriteQueue
+    .then(async () => {
+      const record = await sealVaultData(walletData);
+      await persistVaultRecord(record);
+    })
+    .catch(error => {
+      console.error('Error saving encrypted wallets:', error);
+    });
 };
 
 export const loadWalletsFromCookies = (): WalletType[] => {
-  try {
-    // First try to get encrypted data from localStorage
-    const encryptedData = localStorage.getItem(ENCRYPTED_STORAGE_KEY);
-    if (encryptedData) {
-      try {
-        const decryptedData = decryptData(encryptedData);
-        const parsedWallets = JSON.parse(decryptedData);
-        return parsedWallets;
-      } catch (decryptError) {
-        console.error('Error decrypting wallet data:', decryptError);
-        // If decryption fails, try to load old unencrypted data as fallback
-        const oldWallets = localStorage.getItem('wallets');
-        if (oldWallets) {
-          console.log('🔄 Loading from old unencrypted storage and migrating...');
-          const parsedWallets = JSON.parse(oldWallets);
-          // Migrate to encrypted storage
-          saveWalletsToCookies(parsedWallets);
-          return parsedWallets;
-        }
-      }
-    }
-    
-    // Fallback to old unencrypted data if no encrypted data exists
-    const oldWallets = localStorage.getItem('wallets');
-    if (oldWallets) {
-      console.log('🔄 Migrating from unencrypted to encrypted storage...');
-      const parsedWallets = JSON.parse(oldWallets);
-      // Migrate to encrypted storage
-      saveWalletsToCookies(parsedWallets);
-      return parsedWallets;
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error loading wallets:', error);
+  // Wallets are only readable while the vault is unlocked
+  if (!isWalletVaultUnlocked()) {
     return [];
   }
+  return [...unlockedWallets!];
 };
 
 export const saveConfigToCookies = (config: ConfigType) => {
@@ -697,6 +796,41 @@ export const loadConfigFromCookies = (): ConfigType | null => {
       if (config.batchDelay === undefined) {
         config.batchDelay = '1000'; // Default 1000ms delay between batches
       }
+      // Handle backward compatibility for vault auto-lock
+      if (config.autoLockMinutes === undefined) {
+        config.autoLockMinutes = '15'; // Default 15 minutes idle
+      }
+      // Handle backward compatibility for dry-run mode
+      if (config.simulateTransactions === undefined) {
+        config.simulateTransactions = 'false';
+      }
+      // Handle backward compatibility for the transaction inspector allowlist
+      if (config.trustedAddresses === undefined) {
+        config.trustedAddresses = '';
+      }
+      // Handle backward compatibility for spending limits (all disabled)
+      if (config.maxSolPerWallet === undefined) {
+        config.maxSolPerWallet = '';
+      }
+      if (config.maxSolPerOperation === undefined) {
+        config.maxSolPerOperation = '';
+      }
+      if (config.maxSolPerDay === undefined) {
+        config.maxSolPerDay = '';
+      }
+      if (config.maxSolPerSession === undefined) {
+        config.maxSolPerSession = '';
+      }
+      if (config.maxBalancePercent === undefined) {
+        config.maxBalancePercent = '';
+      }
+      // Handle backward compatibility for live balance subscriptions
+      if (config.liveBalances === undefined) {
+        config.liveBalances = 'false';
+      }
+      if (config.maxBalanceSubscriptions === undefined) {
+        config.maxBalanceSubscriptions = '200';
+      }
       // Handle backward compatibility for trading server settings
       // Check localStorage first for server settings
       const localServerUrl = localStorage.getItem('tradingServerUrl');
@@ -734,12 +868,25 @@ export const loadConfigFromCookies = (): ConfigType | null => {
       singleDelay: '200',
       batchDelay: '1000',
       tradingServerEnabled: localServerEnabled || 'true',
-      tradingServerUrl: localServerUrl
+      tradingServerUrl: localServerUrl,
+      autoLockMinutes: '15',
+      simulateTransactions: 'false',
+      trustedAddresses: '',
+      maxSolPerWallet: '',
+      maxSolPerOperation: '',
+      maxSolPerDay: '',
+      maxSolPerSession: '',
+      maxBalancePercent: '',
+      liveBalances: 'false',
+      maxBalanceSubscriptions: '200'
     };
   }
 
   return null;
 };
+export const formatSolBalance = (balance: number | undefined): string => {
+  return (balance || 0).toFixed(4);
+};
 export const formatTokenBalance = (balance: number | undefined): string => {
   if (balance === undefined) return '0.00';
   if (balance < 1000) return balance.toFixed(2);
@@ -764,7 +911,7 @@ export const downloadPrivateKey = (wallet: WalletType) => {
   URL.revokeObjectURL(url);
 };
 export const downloadAllWallets = (wallets: WalletType[]) => {
-  const formattedText = wallets.map(wallet => (
+  const formattedText = wallets.filter(wallet => !wallet.watchOnly).map(wallet => (
     `${wallet.address}\n` +
     `${wallet.privateKey}\n\n`
   )).join('');
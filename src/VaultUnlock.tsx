@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Lock, Unlock } from 'lucide-react';
+import { useToast } from "./Notifications";
+import {
+  hasWalletVault,
+  hasLegacyWalletData,
+  createWalletVault,
+  unlockWalletVault
+} from './Utils';
+import { MIN_PASSWORD_LENGTH } from './utils/vault';
+
+interface VaultUnlockProps {
+  onUnlocked: () => void;
+}
+
+const VaultUnlock: React.FC<VaultUnlockProps> = ({ onUnlocked }) => {
+  const [mode, setMode] = useState<'loading' | 'create' | 'unlock'>('loading');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasLegacyWallets, setHasLegacyWallets] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    Promise.all([hasWalletVault(), hasLegacyWalletData()]).then(([exists, hasLegacy]) => {
+      setHasLegacyWallets(hasLegacy);
+      setMode(exists ? 'unlock' : 'create');
+    });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (mode === 'create') {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('Passwords do not match');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (mode === 'create') {
+        const wallets = await createWalletVault(password);
+        showToast(
+          wallets.length > 0
+            ? `Master password set, ${wallets.length} wallets secured`
+            : 'Master password set',
+          'success'
+        );
+      } else {
+        await unlockWalletVault(password);
+      }
+      setPassword('');
+      setConfirmPassword('');
+      onUnlocked();
+    } catch (error) {
+      setError(error.message || 'Failed to unlock vault');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (mode === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-app-primary">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-t-2 spinner-app-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-app-primary flex items-center justify-center p-4">
+      <div className="bg-app-secondary border border-app-primary-30 rounded-lg max-w-md w-full p-6 shadow-xl">
+        <h2 className="text-xl font-bold text-app-primary font-mono mb-4 flex items-center gap-2">
+          {mode === 'create' ? <Lock size={20} className="color-primary" /> : <Unlock size={20} className="color-primary" />}
+          {mode === 'create' ? 'SET MASTER PASSWORD' : 'UNLOCK WALLETS'}
+        </h2>
+
+        <div className="mb-6 space-y-2">
+          <p className="text-sm text-app-secondary font-mono">
+            {mode === 'create'
+              ? 'Your private keys will be encrypted with a key derived from this password. It cannot be recovered if lost.'
+              : 'Enter your master password to decrypt your wallets.'}
+          </p>
+          {mode === 'create' && hasLegacyWallets && (
+            <p className="text-xs text-app-secondary-80 font-mono">
+              Existing wallets will be moved into the new vault.
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            value={password}
+            autoFocus
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setError(null);
+            }}
+            placeholder="Master password"
+            className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+          />
+          {mode === 'create' && (
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => {
+                setConfirmPassword(e.target.value);
+                setError(null);
+              }}
+              placeholder="Confirm password"
+              className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+            />
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-error-alt text-sm font-mono">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting || !password}
+            className="w-full px-6 py-3 bg-app-primary-color hover:bg-app-primary-dark text-black font-bold rounded cyberpunk-btn font-mono tracking-wider transition-all duration-300 disabled:opacity-50"
+          >
+            {isSubmitting ? 'DERIVING KEY...' : mode === 'create' ? 'CREATE VAULT' : 'UNLOCK'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VaultUnlock;
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { Tag } from 'lucide-react';
+import { WalletType } from './Utils';
+import { getWalletTags, getWalletsByTag } from './utils/wallets';
+
+interface WalletGroupSelectorProps {
+  wallets: WalletType[]; // Wallets the picker can select from
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  getWalletKey: (wallet: WalletType) => string; // What the picker stores per wallet (address or private key)
+  maxSelected?: number;
+  onLimitReached?: (max: number) => void;
+  className?: string;
+}
+
+/**
+ * Row of group chips for wallet pickers
+ * Clicking a group selects all of its wallets, clicking a fully selected group deselects them.
+ * Renders nothing when no wallet has a group.
+ */
+export const WalletGroupSelector: React.FC<WalletGroupSelectorProps> = ({
+  wallets,
+  selected,
+  onChange,
+  getWalletKey,
+  maxSelected,
+  onLimitReached,
+  className = ''
+}) => {
+  const tags = useMemo(() => getWalletTags(wallets), [wallets]);
+
+  if (tags.length === 0) return null;
+
+  const handleGroupClick = (tag: string) => {
+    const groupKeys = getWalletsByTag(wallets, tag).map(getWalletKey);
+    const allSelected = groupKeys.every(key => selected.includes(key));
+
+    if (allSelected) {
+      onChange(selected.filter(key => !groupKeys.includes(key)));
+      return;
+    }
+
+    let next = [...selected, ...groupKeys.filter(key => !selected.includes(key))];
+    if (maxSelected !== undefined && next.length > maxSelected) {
+      next = next.slice(0, maxSelected);
+      onLimitReached?.(maxSelected);
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      <Tag size={12} className="text-app-secondary" />
+      {tags.map(tag => {
+        const groupKeys = getWalletsByTag(wallets, tag).map(getWalletKey);
+        const selectedCount = groupKeys.filter(key => selected.includes(key)).length;
+        const allSelected = selectedCount === groupKeys.length;
+
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => handleGroupClick(tag)}
+            className={`px-2 py-0.5 rounded border text-xs font-mono transition-all
+                      ${allSelected
+                        ? 'bg-primary-20 border-app-primary color-primary'
+                        : 'bg-app-tertiary border-app-primary-30 text-app-secondary hover:color-primary hover:border-app-primary'}`}
+          >
+            {tag} <span className="opacity-60">{selectedCount}/{groupKeys.length}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,371 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { FixedSizeList } from 'react-window';
+import { Search, CheckCircle, ArrowUp, ArrowDown, DollarSign } from 'lucide-react';
+import { WalletType, formatAddress, formatSolBalance, formatTokenBalance } from './Utils';
+import {
+  filterAndSortWallets,
+  getWalletTags,
+  WalletSortOption,
+  WalletBalanceFilter
+} from './utils/wallets';
+import { WalletGroupSelector } from './WalletGroupSelector';
+
+const ROW_HEIGHT = 44;
+
+interface WalletPickerProps {
+  wallets: WalletType[]; // Wallets the picker can select from
+  solBalances: Map<string, number>;
+  tokenBalances?: Map<string, number>; // Enables the token column, sort and filters
+  mode?: 'single' | 'multi';
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  getWalletKey?: (wallet: WalletType) => string; // What the picker stores per wallet, address by default
+  maxSelected?: number;
+  onLimitReached?: (max: number) => void;
+  amounts?: Record<string, string>; // Per-wallet amounts by wallet key
+  onAmountChange?: (key: string, amount: string) => void; // Shows amount inputs on selected rows
+  amountLabel?: string;
+  getWalletNote?: (wallet: WalletType) => string | null; // Warning shown under the wallet, e.g. too little SOL for fees
+  height?: number; // Maximum list height in pixels
+  emptyMessage?: string;
+  className?: string;
+}
+
+interface RowData {
+  wallets: WalletType[];
+  selectedKeys: Set<string>;
+  focusedIndex: number;
+  getWalletKey: (wallet: WalletType) => string;
+  solBalances: Map<string, number>;
+  tokenBalances?: Map<string, number>;
+  amounts?: Record<string, string>;
+  onAmountChange?: (key: string, amount: string) => void;
+  amountLabel: string;
+  getWalletNote?: (wallet: WalletType) => string | null;
+  onToggle: (index: number) => void;
+}
+
+const defaultWalletKey = (wallet: WalletType) => wallet.address;
+
+// Rendered by react-window for the visible rows only
+const WalletRow: React.FC<{ index: number; style: React.CSSProperties; data: RowData }> = ({ index, style, data }) => {
+  const wallet = data.wallets[index];
+  const key = data.getWalletKey(wallet);
+  const isSelected = data.selectedKeys.has(key);
+  const showAmount = isSelected && data.onAmountChange;
+  const note = data.getWalletNote?.(wallet);
+
+  return (
+    <div
+      style={style}
+      onClick={() => data.onToggle(index)}
+      className={`flex items-center px-2.5 cursor-pointer transition-colors duration-150 border-b border-app-primary-20
+                ${isSelected ? 'bg-primary-10' : 'hover-bg-secondary'}
+                ${index === data.focusedIndex ? 'ring-1 ring-inset ring-primary-50' : ''}`}
+    >
+      <div className={`w-5 h-5 mr-3 flex-shrink-0 rounded flex items-center justify-center transition-all duration-200
+                      ${isSelected
+                        ? 'bg-app-primary-color shadow-md shadow-app-primary-40'
+                        : 'border border-app-primary-30 bg-app-tertiary'}`}>
+        {isSelected && <CheckCircle size={14} className="text-app-primary" />}
+      </div>
+      <div className="flex-1 min-w-0 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-mono text-sm text-app-primary truncate">
+            {wallet.label && wallet.label.trim() ? wallet.label : formatAddress(wallet.address)}
+          </div>
+          {note ? (
+            <div className="font-mono text-[10px] text-error-alt truncate">{note}</div>
+          ) : wallet.label && wallet.label.trim() && (
+            <div className="font-mono text-[10px] text-app-secondary-60">{formatAddress(wallet.address)}</div>
+          )}
+        </div>
+        {showAmount ? (
+          <div className="relative w-24 flex-shrink-0">
+            <DollarSign size={12} className="absolute left-2 top-1/2 transform -translate-y-1/2 text-app-secondary" />
+            <input
+              type="text"
+              value={data.amounts?.[key] || ''}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => e.stopPropagation()}
+              onChange={(e) => {
+                const value = e.target.value;
+                if (value === '' || /^\d*\.?\d*$/.test(value)) {
+                  data.onAmountChange!(key, value);
+                }
+              }}
+              className="w-full pl-6 pr-2 py-1 bg-app-secondary border border-app-primary-30 rounded text-xs text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
+              placeholder={data.amountLabel}
+            />
+          </div>
+        ) : (
+          <div className="flex-shrink-0 text-right font-mono text-xs text-app-secondary">
+            <div>{formatSolBalance(data.solBalances.get(wallet.address))} SOL</div>
+            {data.tokenBalances && (
+              <div className="text-app-secondary-60">{formatTokenBalance(data.tokenBalances.get(wallet.address))} TKN</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Searchable, sortable and filterable wallet list shared by every modal that selects wallets
+ * Only visible rows are rendered, so thousands of wallets stay responsive.
+ * Keyboard: arrows move, Space/Enter selects, Ctrl+A selects everything shown (multi mode).
+ */
+export const WalletPicker: React.FC<WalletPickerProps> = ({
+  wallets,
+  solBalances,
+  tokenBalances,
+  mode = 'multi',
+  selected,
+  onChange,
+  getWalletKey = defaultWalletKey,
+  maxSelected,
+  onLimitReached,
+  amounts,
+  onAmountChange,
+  amountLabel = '0.00',
+  getWalletNote,
+  height = 240,
+  emptyMessage = 'NO WALLETS AVAILABLE',
+  className = ''
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortOption, setSortOption] = useState<WalletSortOption>('address');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [balanceFilter, setBalanceFilter] = useState<WalletBalanceFilter>('all');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  const listRef = useRef<any>(null);
+
+  const tags = useMemo(() => getWalletTags(wallets), [wallets]);
+  const selectedKeys = useMemo(() => new Set(selected), [selected]);
+
+  const visibleWallets = useMemo(() => filterAndSortWallets(
+    wallets,
+    { search: searchTerm, balanceFilter, tag: groupFilter, sortOption, sortDirection },
+    solBalances,
+    tokenBalances
+  ), [wallets, searchTerm, balanceFilter, groupFilter, sortOption, sortDirection, solBalances, tokenBalances]);
+
+  // A removed group filter would otherwise hide every wallet
+  useEffect(() => {
+    if (groupFilter && !tags.includes(groupFilter)) setGroupFilter('');
+  }, [tags, groupFilter]);
+
+  useEffect(() => {
+    setFocusedIndex(index => Math.min(index, visibleWallets.length - 1));
+  }, [visibleWallets.length]);
+
+  const toggleWallet = (index: number) => {
+    const wallet = visibleWallets[index];
+    if (!wallet) return;
+    const key = getWalletKey(wallet);
+    setFocusedIndex(index);
+
+    if (mode === 'single') {
+      onChange([key]);
+      return;
+    }
+    if (selectedKeys.has(key)) {
+      onChange(selected.filter(existing => existing !== key));
+      return;
+    }
+    if (maxSelected !== undefined && selected.length >= maxSelected) {
+      onLimitReached?.(maxSelected);
+      return;
+    }
+    onChange([...selected, key]);
+  };
+
+  const visibleKeys = visibleWallets.map(getWalletKey);
+  const allVisibleSelected = visibleKeys.length > 0 && visibleKeys.every(key => selectedKeys.has(key));
+
+  const toggleAllVisible = () => {
+    if (allVisibleSelected) {
+      const visible = new Set(visibleKeys);
+      onChange(selected.filter(key => !visible.has(key)));
+      return;
+    }
+    let next = [...selected, ...visibleKeys.filter(key => !selectedKeys.has(key))];
+    if (maxSelected !== undefined && next.length > maxSelected) {
+      next = next.slice(0, maxSelected);
+      onLimitReached?.(maxSelected);
+    }
+    onChange(next);
+  };
+
+  const moveFocus = (index: number) => {
+    const next = Math.max(0, Math.min(visibleWallets.length - 1, index));
+    setFocusedIndex(next);
+    listRef.current?.scrollToItem(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (visibleWallets.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        moveFocus(focusedIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        moveFocus(focusedIndex - 1);
+        break;
+      case 'Home':
+        e.preventDefault();
+        moveFocus(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        moveFocus(visibleWallets.length - 1);
+        break;
+      case ' ':
+      case 'Enter':
+        if (focusedIndex >= 0) {
+          e.preventDefault();
+          toggleWallet(focusedIndex);
+        }
+        break;
+      case 'a':
+        if ((e.ctrlKey || e.metaKey) && mode === 'multi') {
+          e.preventDefault();
+          toggleAllVisible();
+        }
+        break;
+    }
+  };
+
+  const rowData: RowData = {
+    wallets: visibleWallets,
+    selectedKeys,
+    focusedIndex,
+    getWalletKey,
+    solBalances,
+    tokenBalances,
+    amounts,
+    onAmountChange,
+    amountLabel,
+    getWalletNote,
+    onToggle: toggleWallet
+  };
+
+  const controlClass = 'bg-app-tertiary border border-app-primary-30 rounded-lg px-2 text-xs text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono';
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-grow min-w-[10rem]">
+          <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="w-full pl-9 pr-4 py-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
+            placeholder="SEARCH WALLETS..."
+          />
+        </div>
+        <select
+          className={controlClass}
+          value={sortOption}
+          onChange={(e) => setSortOption(e.target.value as WalletSortOption)}
+        >
+          <option value="address">ADDRESS</option>
+          <option value="label">LABEL</option>
+          <option value="balance">SOL</option>
+          {tokenBalances && <option value="tokenBalance">TOKENS</option>}
+        </select>
+        <button
+          type="button"
+          className="p-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-app-secondary hover:color-primary-light hover-border-primary transition-all modal-btn-cyberpunk"
+          onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+        >
+          {sortDirection === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+        </button>
+        <select
+          className={controlClass}
+          value={balanceFilter}
+          onChange={(e) => setBalanceFilter(e.target.value as WalletBalanceFilter)}
+        >
+          <option value="all">ALL</option>
+          <option value="nonZero">NON-ZERO</option>
+          <option value="highBalance">HIGH BAL</option>
+          <option value="lowBalance">LOW BAL</option>
+          {tokenBalances && <option value="hasToken">HAS TOKEN</option>}
+          {tokenBalances && <option value="noToken">NO TOKEN</option>}
+        </select>
+        {tags.length > 0 && (
+          <select
+            className={controlClass}
+            value={groupFilter}
+            onChange={(e) => setGroupFilter(e.target.value)}
+          >
+            <option value="">ALL GROUPS</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {mode === 'multi' && (
+        <WalletGroupSelector
+          wallets={wallets}
+          selected={selected}
+          onChange={onChange}
+          getWalletKey={getWalletKey}
+          maxSelected={maxSelected}
+          onLimitReached={onLimitReached}
+        />
+      )}
+
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onFocus={() => focusedIndex < 0 && visibleWallets.length > 0 && setFocusedIndex(0)}
+        className="border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary focus:outline-none focus-border-primary overflow-hidden"
+      >
+        {visibleWallets.length > 0 ? (
+          <FixedSizeList
+            ref={listRef}
+            height={Math.min(height, visibleWallets.length * ROW_HEIGHT)}
+            itemCount={visibleWallets.length}
+            itemSize={ROW_HEIGHT}
+            itemData={rowData}
+            width="100%"
+            className="scrollbar-thin"
+          >
+            {WalletRow}
+          </FixedSizeList>
+        ) : (
+          <div className="p-3 text-sm text-app-secondary text-center font-mono">
+            {searchTerm || balanceFilter !== 'all' || groupFilter ? 'NO WALLETS FOUND' : emptyMessage}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-xs font-mono text-app-secondary">
+        <span>
+          SELECTED: <span className="color-primary font-medium">{selected.length}</span>
+          {maxSelected !== undefined && ` / ${maxSelected}`}
+          <span className="text-app-secondary-60"> ({visibleWallets.length} SHOWN)</span>
+        </span>
+        {mode === 'multi' && visibleWallets.length > 0 && (
+          <button
+            type="button"
+            onClick={toggleAllVisible}
+            className="px-2 py-0.5 bg-app-tertiary hover-bg-secondary hover:color-primary-light rounded border border-app-primary-30 hover-border-primary transition-all duration-200"
+          >
+            {allVisibleSelected ? 'DESELECT SHOWN' : 'SELECT SHOWN'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
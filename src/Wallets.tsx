@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { RefreshCw, ExternalLink, DollarSign, Activity, Zap, Check, TrendingDown } from 'lucide-react';
+import { RefreshCw, ExternalLink, DollarSign, Activity, Zap, Check, TrendingDown, Eye, AlertTriangle } from 'lucide-react';
 import { saveWalletsToCookies, WalletType, formatAddress, formatTokenBalance, copyToClipboard, toggleWallet, getWalletDisplayName } from './Utils';
 import { useToast } from "./Notifications";
 import { Connection } from '@solana/web3.js';
 import { WalletOperationsButtons } from './OperationsWallets'; // Import the new component
 import { executeBuy, createBuyConfig, validateBuyInputs } from './utils/buy';
 import { executeSell, createSellConfig, validateSellInputs } from './utils/sell';
+import { confirmTradeResult } from './utils/trading';
+import { formatConfirmationSummary } from './utils/bundleTracker';
+import { fetchBalances, getNonAtaTokenAccounts } from './utils/balances';
+import { WalletGroupSelector } from './WalletGroupSelector';
 import { 
   ScriptType, 
   countActiveWallets, 
@@ -13,6 +17,9 @@ import {
   toggleAllWallets, 
   toggleAllWalletsWithBalance, 
   toggleWalletsByBalance, 
+  setActiveWallets,
+  getSigningWallets,
+  isWatchOnlyWallet,
   getScriptName 
 } from './utils/wallets';
 
@@ -57,7 +64,7 @@ export const Tooltip = ({
 interface WalletsPageProps {
   wallets: WalletType[];
   setWallets: (wallets: WalletType[]) => void;
-  handleRefresh: () => void;
+  handleRefresh: (discoverAccounts?: boolean) => void;
   isRefreshing: boolean;
   setIsModalOpen: (open: boolean) => void;
   tokenAddress: string;
@@ -245,11 +252,29 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
     setWallets(newWallets);
   };
 
+  const handleActiveGroupsChange = (addresses: string[]) => {
+    const newWallets = setActiveWallets(wallets, addresses);
+    saveWalletsToCookies(newWallets);
+    setWallets(newWallets);
+  };
+
   const handleRefreshAll = async () => {
     if (isRefreshing) return;
     
-    // Call the parent's refresh handler which manages all balance fetching
-    handleRefresh();
+    // Call the parent's refresh handler which manages all balance fetching;
+    // a manual refresh also looks for token accounts besides the ATA
+    handleRefresh(true);
+  };
+
+  // Refresh a single wallet after a quick trade instead of waiting for the next full refresh
+  const refreshWalletBalances = async (address: string) => {
+    const fetched = await fetchBalances(connection, [address], tokenAddress, { force: true });
+    const newSolBalances = new Map(solBalances);
+    const newTokenBalances = new Map(tokenBalances);
+    fetched.solBalances.forEach((balance, key) => newSolBalances.set(key, balance));
+    fetched.tokenBalances.forEach((balance, key) => newTokenBalances.set(key, balance));
+    (setExternalSolBalances || setInternalSolBalances)(newSolBalances);
+    (setExternalTokenBalances || setInternalTokenBalances)(newTokenBalances);
   };
 
   const handleQuickBuy = async (wallet: WalletType, e: React.MouseEvent) => {
@@ -312,10 +337,19 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
         return;
       }
       
-      const result = await executeBuy([walletForBuy], buyConfig);
+      const result = await confirmTradeResult(await executeBuy([walletForBuy], buyConfig), {
+        operation: 'buy',
+        tokenAddress,
+        wallets: [walletForBuy.address],
+        amounts: [{ wallet: walletForBuy.address, amount: solAmountToUse, unit: 'SOL' }],
+        tipLamports: buyConfig.jitoTipLamports,
+        details: 'Quick buy'
+      });
       
       if (result.success) {
-        showToast('Quick buy executed successfully!', 'success');
+        const outcome = result.confirmations ? formatConfirmationSummary(result.confirmations) : 'executed successfully!';
+        showToast(`Quick buy ${outcome}`, 'success');
+        refreshWalletBalances(wallet.address);
       } else {
         showToast(result.error || 'Quick buy failed', 'error');
       }
@@ -368,10 +402,19 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
         return;
       }
       
-      const result = await executeSell([walletForSell], sellConfig);
+      const result = await confirmTradeResult(await executeSell([walletForSell], sellConfig), {
+        operation: 'sell',
+        tokenAddress,
+        wallets: [walletForSell.address],
+        amounts: [{ wallet: walletForSell.address, amount: quickSellPercentage, unit: '%' }],
+        tipLamports: sellConfig.jitoTipLamports,
+        details: 'Quick sell'
+      });
       
       if (result.success) {
-        showToast('Quick sell executed successfully!', 'success');
+        const outcome = result.confirmations ? formatConfirmationSummary(result.confirmations) : 'executed successfully!';
+        showToast(`Quick sell ${outcome}`, 'success');
+        refreshWalletBalances(wallet.address);
       } else {
         showToast(result.error || 'Quick sell failed', 'error');
       }
@@ -448,7 +491,13 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
             )}
           </div>
           
-
+          <WalletGroupSelector
+            wallets={getSigningWallets(wallets)}
+            selected={activeWallets.map(wallet => wallet.address)}
+            onChange={handleActiveGroupsChange}
+            getWalletKey={wallet => wallet.address}
+            className="mt-2"
+          />
         </div>
       </div>
       
@@ -468,7 +517,7 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
                   onMouseEnter={() => setHoverRow(wallet.id)}
                   onMouseLeave={() => setHoverRow(null)}
                   className={`
-                    border-b transition-all duration-300 cursor-pointer group
+                    border-b transition-all duration-300 group ${isWatchOnlyWallet(wallet) ? 'cursor-default' : 'cursor-pointer'}
                     ${wallet.isActive 
                       ? 'border-app-primary-60 bg-gradient-to-r from-app-primary-20 via-primary-15 to-primary-10 border-l-4 border-l-app-primary shadow-lg shadow-app-primary-20' 
                       : 'border-app-primary-15 hover-border-primary-30'
@@ -483,7 +532,7 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
                     <div className="flex items-center gap-2">
                       
                       {/* Quick Buy Button */}
-                      {quickBuyEnabled && (
+                      {quickBuyEnabled && !isWatchOnlyWallet(wallet) && (
                         <Tooltip content={
                           tokenAddress 
                             ? (useQuickBuyRange 
@@ -545,6 +594,11 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
                           }}
                         >
                           {getWalletDisplayName(wallet)}
+                          {isWatchOnlyWallet(wallet) && (
+                            <span className="ml-2 inline-flex items-center gap-0.5 text-xs text-app-secondary-60 border border-app-primary-20 px-1 rounded" title="Watch-only: balances are tracked, nothing can be signed">
+                              <Eye size={10} /> WATCH
+                            </span>
+                          )}
                           {copiedAddress === wallet.address && (
                             <span className="ml-2 text-xs color-primary animate-pulse bg-primary-20 px-1 py-0.5 rounded">
                               ✓
@@ -573,6 +627,11 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
                   {tokenAddress && (
                     <td className="py-3 px-2 text-right font-mono">
                       <div className="flex items-center justify-end gap-1">
+                        {getNonAtaTokenAccounts(wallet.address, tokenAddress).length > 0 && (
+                          <Tooltip content="Holds tokens outside its associated token account" position="left">
+                            <AlertTriangle size={12} className="text-warning" />
+                          </Tooltip>
+                        )}
                         <span className={`font-medium transition-colors duration-300 ${
                           wallet.isActive
                             ? ((tokenBalances.get(wallet.address) || 0) > 0 ? 'text-success' : 'text-warning-60')
@@ -586,38 +645,40 @@ export const WalletsPage: React.FC<WalletsPageProps> = ({
                   
                   {/* Quick Sell Button */}
                   <td className="py-3 pl-2 pr-3 text-right">
-                    <Tooltip content={
-                      tokenAddress 
-                        ? (tokenBalances.get(wallet.address) || 0) > 0
-                          ? `Quick sell ${quickSellPercentage}% of tokens`
-                          : "No tokens to sell"
-                        : "No token selected"
-                    } position="left">
-                      <button
-                        onClick={(e) => handleQuickSell(wallet, e)}
-                        disabled={!tokenAddress || sellingWalletId === wallet.id || (tokenBalances.get(wallet.address) || 0) <= 0}
-                        className={`
-                          w-6 h-6 rounded-full transition-all duration-200 flex items-center justify-center
-                          ${!tokenAddress || (tokenBalances.get(wallet.address) || 0) <= 0
-                            ? 'bg-app-tertiary border border-app-primary-20 cursor-not-allowed opacity-50'
-                            : sellingWalletId === wallet.id
-                            ? 'bg-red-500 border border-red-500 shadow-lg shadow-red-400 animate-pulse'
-                            : 'bg-red-400 border border-red-600 hover:bg-red-500 hover:border-red-500 hover:shadow-lg hover:shadow-red-400 cursor-pointer'
-                          }
-                        `}
-                      >
-                        {sellingWalletId === wallet.id ? (
-                          <RefreshCw size={10} className="text-white animate-spin" />
-                        ) : (
-                          <TrendingDown size={10} className={`
+                    {!isWatchOnlyWallet(wallet) && (
+                      <Tooltip content={
+                        tokenAddress 
+                          ? (tokenBalances.get(wallet.address) || 0) > 0
+                            ? `Quick sell ${quickSellPercentage}% of tokens`
+                            : "No tokens to sell"
+                          : "No token selected"
+                      } position="left">
+                        <button
+                          onClick={(e) => handleQuickSell(wallet, e)}
+                          disabled={!tokenAddress || sellingWalletId === wallet.id || (tokenBalances.get(wallet.address) || 0) <= 0}
+                          className={`
+                            w-6 h-6 rounded-full transition-all duration-200 flex items-center justify-center
                             ${!tokenAddress || (tokenBalances.get(wallet.address) || 0) <= 0
-                              ? 'text-app-primary-40'
-                              : 'text-white'
+                              ? 'bg-app-tertiary border border-app-primary-20 cursor-not-allowed opacity-50'
+                              : sellingWalletId === wallet.id
+                              ? 'bg-red-500 border border-red-500 shadow-lg shadow-red-400 animate-pulse'
+                              : 'bg-red-400 border border-red-600 hover:bg-red-500 hover:border-red-500 hover:shadow-lg hover:shadow-red-400 cursor-pointer'
                             }
-                          `} />
-                        )}
-                      </button>
-                    </Tooltip>
+                          `}
+                        >
+                          {sellingWalletId === wallet.id ? (
+                            <RefreshCw size={10} className="text-white animate-spin" />
+                          ) : (
+                            <TrendingDown size={10} className={`
+                              ${!tokenAddress || (tokenBalances.get(wallet.address) || 0) <= 0
+                                ? 'text-app-primary-40'
+                                : 'text-white'
+                              }
+                            `} />
+                          )}
+                        </button>
+                      </Tooltip>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { FlaskConical, Trash2 } from 'lucide-react';
+import { TradingStrategy, RecordedSession, BacktestResult } from './types';
+import { runBacktest, DEFAULT_BACKTEST_OPTIONS } from './backtest';
+import { loadSessions, deleteSession } from './storage';
+
+interface BacktestPanelProps {
+  getStrategy: () => TradingStrategy;
+}
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ getStrategy }) => {
+  const [sessions, setSessions] = useState<RecordedSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState('');
+  const [startingBalance, setStartingBalance] = useState(DEFAULT_BACKTEST_OPTIONS.startingBalance);
+  const [slippage, setSlippage] = useState(DEFAULT_BACKTEST_OPTIONS.slippage);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions().then(loaded => {
+      setSessions(loaded);
+      if (loaded.length > 0) setSelectedSessionId(loaded[0].id);
+    });
+  }, []);
+
+  const selectedSession = sessions.find(session => session.id === selectedSessionId);
+
+  const handleRun = () => {
+    setError(null);
+    setResult(null);
+
+    const strategy = getStrategy();
+    if (!selectedSession) {
+      setError('Select a recorded session first');
+      return;
+    }
+    if (strategy.conditions.length === 0 || strategy.actions.length === 0) {
+      setError('Add at least one condition and one action');
+      return;
+    }
+    setResult(runBacktest(strategy, selectedSession, { startingBalance, slippage }));
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSession) return;
+    try {
+      await deleteSession(selectedSession.id);
+      const remaining = sessions.filter(session => session.id !== selectedSession.id);
+      setSessions(remaining);
+      setSelectedSessionId(remaining[0]?.id || '');
+      setResult(null);
+    } catch (error) {
+      setError(`Failed to delete session: ${error.message}`);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-lg font-mono font-semibold color-primary mb-4 flex items-center gap-2">
+        <FlaskConical className="w-5 h-5" />
+        Backtest
+      </h4>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-4 text-app-secondary-60 font-mono text-sm">
+          No recorded sessions. Use "Record" in the Market Data tab to capture live trades.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-mono color-primary mb-1">Recorded Session</label>
+              <div className="flex gap-2">
+                <select
+                  value={selectedSessionId}
+                  onChange={(e) => {
+                    setSelectedSessionId(e.target.value);
+                    setResult(null);
+                  }}
+                  className="w-full px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-sm color-primary focus:outline-none focus:border-app-primary"
+                >
+                  {sessions.map(session => (
+                    <option key={session.id} value={session.id}>
+                      {session.name} ({session.events.length} events)
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDelete}
+                  className="p-1.5 rounded hover:bg-error-alt-60 transition-colors"
+                  title="Delete session"
+                >
+                  <Trash2 className="w-4 h-4 text-app-secondary-60 hover:text-error-alt" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-mono color-primary mb-1">Starting Balance (SOL)</label>
+              <input
+                type="number"
+                value={startingBalance}
+                onChange={(e) => setStartingBalance(Number(e.target.value))}
+                min="0"
+                className="w-full px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-sm color-primary focus:outline-none focus:border-app-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-mono color-primary mb-1">Slippage (%)</label>
+              <input
+                type="number"
+                value={slippage}
+                onChange={(e) => setSlippage(Number(e.target.value))}
+                min="0"
+                className="w-full px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-sm color-primary focus:outline-none focus:border-app-primary"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleRun}
+            className="px-3 py-1.5 bg-app-accent border border-app-primary-40 rounded color-primary font-mono text-sm hover:bg-app-primary hover:border-app-primary transition-colors"
+          >
+            Run Backtest
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 text-error-alt font-mono text-sm">{error}</div>
+      )}
+
+      {result && (
+        <div className="mt-4 bg-app-primary border border-app-primary-40 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-sm">
+            <div>
+              <div className="text-xs text-app-secondary-60">Executions</div>
+              <div className="color-primary">{result.executionCount}</div>
+            </div>
+            <div>
+              <div className="text-xs text-app-secondary-60">SOL Spent</div>
+              <div className="color-primary">{result.solSpent.toFixed(4)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-app-secondary-60">SOL Received</div>
+              <div className="color-primary">{result.solReceived.toFixed(4)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-app-secondary-60">PnL</div>
+              <div className={result.pnl >= 0 ? 'text-app-accent' : 'text-error-alt'}>
+                {result.pnl >= 0 ? '+' : ''}{result.pnl.toFixed(4)} SOL ({result.pnlPercent.toFixed(2)}%)
+              </div>
+            </div>
+          </div>
+          <div className="text-xs text-app-secondary-60 font-mono">
+            {result.eventCount} events replayed, {result.tokensHeld.toFixed(2)} tokens held at the end (valued at the last price)
+          </div>
+
+          {result.executions.length > 0 && (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {result.executions.slice(0, 50).map((execution, index) => (
+                <div key={index} className="flex justify-between text-xs font-mono">
+                  <span className={execution.type === 'buy' ? 'color-primary' : 'text-error-alt'}>
+                    {execution.type.toUpperCase()} {execution.solAmount.toFixed(4)} SOL
+                  </span>
+                  <span className="text-app-secondary-60">{execution.tokensAmount.toFixed(2)} tokens</span>
+                  <span className="text-app-secondary-60">{new Date(execution.timestamp).toLocaleTimeString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
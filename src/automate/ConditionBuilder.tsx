@@ -15,6 +15,7 @@ const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ condition, index, o
     { value: 'buyVolume', label: 'Buy Volume' },
     { value: 'sellVolume', label: 'Sell Volume' },
     { value: 'netVolume', label: 'Net Volume' },
+    { value: 'priceChange', label: 'Price Change (%)' },
     { value: 'lastTradeAmount', label: 'Last Trade Amount' },
     { value: 'lastTradeType', label: 'Last Trade Type' }
   ];
@@ -35,6 +36,9 @@ const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ condition, index, o
     { value: 60, label: 'Last 1 hour' }
   ];
 
+  // Only volume and price change conditions are measured over a window
+  const supportsTimeframe = ['buyVolume', 'sellVolume', 'netVolume', 'priceChange'].includes(condition.type);
+
   return (
     <div className="bg-app-accent border border-app-primary-40 rounded-lg p-4">
       <div className="flex items-center justify-between mb-3">
@@ -101,9 +105,10 @@ const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ condition, index, o
         <div>
           <label className="block text-xs font-mono color-primary mb-1">Timeframe</label>
           <select
-            value={condition.timeframe || 0}
+            value={supportsTimeframe ? condition.timeframe || 0 : 0}
             onChange={(e) => onUpdate({ timeframe: Number(e.target.value) })}
-            className="w-full px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-sm color-primary focus:outline-none focus:border-app-primary"
+            disabled={!supportsTimeframe}
+            className="w-full px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-sm color-primary focus:outline-none focus:border-app-primary disabled:opacity-50"
           >
             {timeframes.map(tf => (
               <option key={tf.value} value={tf.value}>{tf.label}</option>
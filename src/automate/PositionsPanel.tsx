@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { Position, PositionRuleType } from './types';
+import { getPositionChange } from './evaluator';
+import { usePositionManager } from './positions';
+
+interface PositionsPanelProps {
+  tokenAddress: string;
+  getWalletLabel: (address: string) => string;
+}
+
+const ruleTypes: { value: PositionRuleType; label: string; hint: string }[] = [
+  { value: 'takeProfit', label: 'Take Profit', hint: 'Gain above entry (%)' },
+  { value: 'stopLoss', label: 'Stop Loss', hint: 'Loss below entry (%)' },
+  { value: 'trailingStop', label: 'Trailing Stop', hint: 'Drop from peak (%)' }
+];
+
+const getRuleLabel = (type: PositionRuleType) => ruleTypes.find(rule => rule.value === type)?.label || type;
+
+const formatTokenPrice = (price: number): string => {
+  if (!price) return '--';
+  if (price < 0.000001) return price.toExponential(3);
+  return price.toFixed(9);
+};
+
+const PositionRow: React.FC<{ position: Position; walletLabel: string }> = ({ position, walletLabel }) => {
+  const { addRule, removeRule, rearmRule, removePosition, triggeringRuleIds } = usePositionManager();
+  const [ruleType, setRuleType] = useState<PositionRuleType>('takeProfit');
+  const [triggerPercent, setTriggerPercent] = useState('50');
+  const [sellPercent, setSellPercent] = useState('100');
+
+  const change = getPositionChange(position, position.lastPrice);
+  const isClosed = position.tokensAmount <= 0;
+
+  const handleAddRule = () => {
+    const trigger = parseFloat(triggerPercent);
+    const sell = parseFloat(sellPercent);
+    if (!(trigger > 0) || !(sell > 0) || sell > 100) return;
+    if (ruleType !== 'takeProfit' && trigger >= 100) return;
+    addRule(position.id, { type: ruleType, triggerPercent: trigger, sellPercent: sell });
+  };
+
+  return (
+    <div className="bg-app-primary border border-app-primary-40 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-mono text-sm color-primary">{walletLabel}</div>
+          <div className="font-mono text-xs text-app-secondary-60">
+            Entry {formatTokenPrice(position.entryPrice)} | Last {formatTokenPrice(position.lastPrice)} | Peak {formatTokenPrice(position.peakPrice)}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`font-mono text-sm font-semibold ${change >= 0 ? 'text-app-accent' : 'text-error-alt'}`}>
+            {isClosed ? 'Closed' : `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`}
+          </span>
+          <button
+            onClick={() => removePosition(position.id)}
+            className="p-1 rounded hover:bg-error-alt-60 transition-colors"
+            title="Stop tracking this position"
+          >
+            <X className="w-4 h-4 text-app-secondary-60 hover:text-error-alt" />
+          </button>
+        </div>
+      </div>
+
+      {position.rules.length > 0 && (
+        <div className="space-y-1">
+          {position.rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between text-xs font-mono">
+              <span className={rule.isActive ? 'color-primary' : 'text-app-secondary-60'}>
+                {getRuleLabel(rule.type)} {rule.triggerPercent}% → sell {rule.sellPercent}%
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-app-secondary-60">
+                  {triggeringRuleIds.includes(rule.id)
+                    ? 'Selling...'
+                    : rule.pendingSince !== undefined
+                      ? `Sell pending${rule.lastError ? `: ${rule.lastError}` : ''}`
+                      : rule.triggeredAt
+                        ? `Triggered ${new Date(rule.triggeredAt).toLocaleTimeString()}`
+                        : rule.isActive ? 'Armed' : 'Off'}
+                </span>
+                {!rule.isActive && (
+                  <button
+                    onClick={() => rearmRule(position.id, rule.id)}
+                    className="p-1 rounded hover:bg-app-primary-60 transition-colors"
+                    title="Re-arm rule"
+                  >
+                    <RotateCcw className="w-3 h-3 color-primary" />
+                  </button>
+                )}
+                <button
+                  onClick={() => removeRule(position.id, rule.id)}
+                  className="p-1 rounded hover:bg-error-alt-60 transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-3 h-3 text-app-secondary-60 hover:text-error-alt" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        <select
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value as PositionRuleType)}
+          className="px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-xs color-primary focus:outline-none focus:border-app-primary"
+        >
+          {ruleTypes.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={triggerPercent}
+          onChange={(e) => setTriggerPercent(e.target.value)}
+          title={ruleTypes.find(type => type.value === ruleType)?.hint}
+          placeholder="Trigger %"
+          className="px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-xs color-primary focus:outline-none focus:border-app-primary"
+        />
+        <input
+          type="number"
+          value={sellPercent}
+          onChange={(e) => setSellPercent(e.target.value)}
+          title="Percentage of tokens to sell"
+          placeholder="Sell %"
+          className="px-2 py-1.5 bg-app-primary border border-app-primary-40 rounded font-mono text-xs color-primary focus:outline-none focus:border-app-primary"
+        />
+        <button
+          onClick={handleAddRule}
+          className="flex items-center justify-center gap-1 px-2 py-1.5 bg-app-tertiary border border-app-primary-40 rounded color-primary font-mono text-xs hover:bg-app-secondary hover:border-app-primary transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add Rule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const PositionsPanel: React.FC<PositionsPanelProps> = ({ tokenAddress, getWalletLabel }) => {
+  const { positions, triggerLog } = usePositionManager();
+  const tokenPositions = positions.filter(position => position.tokenMint === tokenAddress);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-mono font-semibold color-primary">Positions</h4>
+        <span className="text-xs font-mono text-app-secondary-60">Entries are recorded from your wallets' buys</span>
+      </div>
+
+      {tokenPositions.length === 0 ? (
+        <div className="text-app-secondary-60 font-mono text-center py-8">
+          No positions for this token yet
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {tokenPositions.map(position => (
+            <PositionRow
+              key={position.id}
+              position={position}
+              walletLabel={getWalletLabel(position.walletAddress)}
+            />
+          ))}
+        </div>
+      )}
+
+      {triggerLog.length > 0 && (
+        <div className="space-y-3">
+          <h5 className="font-mono font-semibold color-primary">Trigger Log</h5>
+          <div className="bg-app-primary border border-app-primary-40 rounded-lg p-4 max-h-48 overflow-y-auto">
+            {triggerLog.slice(0, 20).map(entry => (
+              <div key={entry.id} className="flex items-center justify-between py-2 border-b border-app-primary-30 last:border-b-0">
+                <div className="flex items-center gap-3">
+                  <span className={`w-2 h-2 rounded-full ${
+                    entry.result === 'success' ? 'bg-app-accent' : 'bg-error-alt'
+                  }`} />
+                  <div>
+                    <div className="font-mono text-sm color-primary">
+                      {getRuleLabel(entry.ruleType)} {entry.triggerPercent}% - {getWalletLabel(entry.walletAddress)}
+                    </div>
+                    <div className="font-mono text-xs text-app-secondary-60">
+                      {entry.message} at {formatTokenPrice(entry.triggerPrice)} (entry {formatTokenPrice(entry.entryPrice)})
+                    </div>
+                  </div>
+                </div>
+                <div className="text-xs text-app-secondary-60 font-mono">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PositionsPanel;
@@ -4,6 +4,7 @@ import { TradingStrategy, TradingCondition, TradingAction } from './types';
 import { generateStrategyId, generateConditionId, generateActionId } from './utils';
 import ConditionBuilder from './ConditionBuilder';
 import ActionBuilder from './ActionBuilder';
+import BacktestPanel from './BacktestPanel';
 
 interface StrategyBuilderProps {
   strategy?: TradingStrategy | null;
@@ -61,29 +62,30 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ strategy, onSave, onC
     setActions(actions.filter(a => a.id !== id));
   };
 
+  // Current builder state as a strategy (also used for backtesting unsaved edits)
+  const buildStrategy = (): TradingStrategy => ({
+    id: strategy?.id || generateStrategyId(),
+    name: name.trim(),
+    description: description.trim(),
+    conditions,
+    conditionLogic: 'and',
+    actions,
+    isActive,
+    cooldown,
+    maxExecutions,
+    executionCount: strategy?.executionCount || 0,
+    lastExecuted: strategy?.lastExecuted,
+    createdAt: strategy?.createdAt || Date.now(),
+    updatedAt: Date.now()
+  });
+
   const handleSave = () => {
     if (!name.trim() || conditions.length === 0 || actions.length === 0) {
       alert('Please provide a name, at least one condition, and at least one action.');
       return;
     }
 
-    const newStrategy: TradingStrategy = {
-      id: strategy?.id || generateStrategyId(),
-      name: name.trim(),
-      description: description.trim(),
-      conditions,
-      conditionLogic: 'and',
-      actions,
-      isActive,
-      cooldown,
-      maxExecutions,
-      executionCount: strategy?.executionCount || 0,
-      lastExecuted: strategy?.lastExecuted,
-      createdAt: strategy?.createdAt || Date.now(),
-      updatedAt: Date.now()
-    };
-
-    onSave(newStrategy);
+    onSave(buildStrategy());
   };
 
   return (
@@ -212,6 +214,9 @@ const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ strategy, onSave, onC
         </div>
       </div>
 
+      {/* Backtest */}
+      <BacktestPanel getStrategy={buildStrategy} />
+
       {/* Save/Cancel Buttons */}
       <div className="flex justify-end gap-3 pt-4 border-t border-app-primary-40">
         <button
@@ -0,0 +1,143 @@
+import {
+  TradingStrategy,
+  TradingAction,
+  AutomationTrade,
+  MarketData,
+  RecordedSession,
+  BacktestOptions,
+  BacktestExecution,
+  BacktestResult
+} from './types';
+import { evaluateStrategy, calculateTradeAmount, TRADE_BUFFER_WINDOW } from './evaluator';
+
+// Replays a recorded session through the same evaluator the engine uses, with simulated fills
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  startingBalance: 1,
+  slippage: 1
+};
+
+interface SimulatedWallet {
+  solBalance: number;
+  tokensHeld: number;
+}
+
+// Fill one action against the simulated wallet, or return null when nothing can be traded
+const simulateAction = (
+  action: TradingAction,
+  marketData: MarketData,
+  wallet: SimulatedWallet,
+  slippage: number,
+  timestamp: number
+): BacktestExecution | null => {
+  const marketPrice = marketData.tokenPrice || marketData.lastTrade?.avgPrice || 0;
+  if (marketPrice <= 0) return null;
+
+  if (action.type === 'buy') {
+    const solAmount = Math.min(calculateTradeAmount(action, marketData, wallet.solBalance), wallet.solBalance);
+    if (solAmount <= 0) return null;
+
+    const price = marketPrice * (1 + slippage / 100);
+    const tokensAmount = solAmount / price;
+    wallet.solBalance -= solAmount;
+    wallet.tokensHeld += tokensAmount;
+    return { timestamp, type: 'buy', solAmount, tokensAmount, price };
+  }
+
+  // Sells use the same percentage rule as the engine
+  const sellPercent = action.amountType === 'percentage' ? action.amount : 100;
+  const tokensAmount = wallet.tokensHeld * (Math.min(sellPercent, 100) / 100);
+  if (tokensAmount <= 0) return null;
+
+  const price = marketPrice * (1 - slippage / 100);
+  const solAmount = tokensAmount * price;
+  wallet.tokensHeld -= tokensAmount;
+  wallet.solBalance += solAmount;
+  return { timestamp, type: 'sell', solAmount, tokensAmount, price };
+};
+
+/**
+ * Replay a recorded session and report how the strategy would have traded
+ * Market state is rebuilt event by event exactly like the engine builds it from the live feed
+ */
+export const runBacktest = (
+  strategy: TradingStrategy,
+  session: RecordedSession,
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestResult => {
+  const events = [...session.events].sort((a, b) => a.timestamp - b.timestamp);
+  const wallet: SimulatedWallet = { solBalance: options.startingBalance, tokensHeld: 0 };
+  const executions: BacktestExecution[] = [];
+  const processedSignatures = new Set<string>();
+  let trades: AutomationTrade[] = [];
+
+  // Run counters start fresh so cooldown and max executions follow the simulated clock
+  let simulated: TradingStrategy = { ...strategy, isActive: true, executionCount: 0, lastExecuted: undefined };
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let lastTrade: AutomationTrade | null = null;
+  let marketCap = 0;
+  let tokenPrice = 0;
+
+  for (const event of events) {
+    const now = event.timestamp;
+
+    if (event.kind === 'trade') {
+      const trade = event.trade;
+      if (processedSignatures.has(trade.signature)) continue;
+      processedSignatures.add(trade.signature);
+
+      if (trade.type === 'buy') {
+        buyVolume += trade.solAmount;
+      } else if (trade.type === 'sell') {
+        sellVolume += trade.solAmount;
+      }
+      if (!lastTrade || trade.timestamp >= lastTrade.timestamp) {
+        lastTrade = trade;
+      }
+      trades.push(trade);
+      if (trades[0].timestamp < now - TRADE_BUFFER_WINDOW) {
+        trades = trades.filter(t => t.timestamp >= now - TRADE_BUFFER_WINDOW);
+      }
+    } else {
+      tokenPrice = event.tokenPrice;
+      marketCap = event.marketCap;
+    }
+
+    const marketData: MarketData = {
+      marketCap,
+      buyVolume,
+      sellVolume,
+      netVolume: buyVolume - sellVolume,
+      lastTrade,
+      tokenPrice,
+      priceChange24h: 0,
+      trades
+    };
+
+    if (!evaluateStrategy(simulated, marketData, now)) continue;
+
+    simulated = { ...simulated, executionCount: simulated.executionCount + 1, lastExecuted: now };
+    for (const action of simulated.actions) {
+      const execution = simulateAction(action, marketData, wallet, options.slippage, now);
+      if (execution) executions.push(execution);
+    }
+  }
+
+  const solSpent = executions.filter(e => e.type === 'buy').reduce((sum, e) => sum + e.solAmount, 0);
+  const solReceived = executions.filter(e => e.type === 'sell').reduce((sum, e) => sum + e.solAmount, 0);
+  const finalPrice = tokenPrice || lastTrade?.avgPrice || 0;
+  const pnl = solReceived + wallet.tokensHeld * finalPrice - solSpent;
+
+  return {
+    eventCount: events.length,
+    executionCount: simulated.executionCount,
+    executions,
+    solSpent,
+    solReceived,
+    tokensHeld: wallet.tokensHeld,
+    finalPrice,
+    pnl,
+    pnlPercent: solSpent > 0 ? (pnl / solSpent) * 100 : 0
+  };
+};
@@ -0,0 +1,488 @@
+import { createStore, StoreApi } from 'zustand/vanilla';
+import { useStore } from 'zustand';
+import {
+  TradingStrategy,
+  TradingAction,
+  StrategyExecutionLogEntry,
+  AutomationTrade,
+  AutomationWallet,
+  MarketData,
+  StrategyRunStatus,
+  RecordedEvent,
+  RecordedSession
+} from './types';
+import { evaluateStrategy, calculateTradeAmount, TRADE_BUFFER_WINDOW } from './evaluator';
+import {
+  loadStrategies,
+  saveStrategies,
+  loadExecutionLog,
+  saveExecutionLog,
+  saveSession,
+  MAX_LOG_ENTRIES
+} from './storage';
+import { generateSessionId } from './utils';
+import { WalletType } from '../Utils';
+import { executeTrade, TradingConfig, TradingResult } from '../utils/trading';
+
+/**
+ * Background automation engine.
+ * Holds strategies, selected wallets and market inputs outside of React so the
+ * evaluation loop keeps running while the automation card is hidden.
+ */
+
+// Constants
+const DEFAULT_TICK_INTERVAL = 5000; // Evaluate strategies every 5 seconds
+const MIN_WALLET_SOL = 0.01; // Skip wallets below this SOL balance
+const MAX_BUFFERED_TRADES = 5000;
+const MAX_RECORDED_EVENTS = 20000; // Recording stops once a session reaches this size
+
+export type TradeExecutor = (
+  tokenAddress: string,
+  wallet: AutomationWallet,
+  config: TradingConfig,
+  isBuy: boolean,
+  solBalances: Map<string, number>
+) => Promise<TradingResult>;
+
+export interface AutomationEngineOptions {
+  executor?: TradeExecutor; // Replace trade execution (e.g. in tests)
+  persist?: boolean; // Load/save strategies and log through IndexedDB (default true)
+  tickInterval?: number;
+}
+
+export interface AutomationEngineState {
+  tokenAddress: string;
+  strategies: TradingStrategy[];
+  executionLog: StrategyExecutionLogEntry[];
+  pausedStrategyIds: string[];
+  executingStrategyIds: string[];
+  wallets: AutomationWallet[];
+  solBalances: Map<string, number>;
+  buyVolume: number;
+  sellVolume: number;
+  processedSignatures: Set<string>;
+  tradeBuffer: AutomationTrade[]; // Oldest first, pruned to TRADE_BUFFER_WINDOW
+  lastTrade: AutomationTrade | null;
+  marketCap: number;
+  tokenPrice: number;
+  isLoaded: boolean;
+  isRunning: boolean;
+  recording: RecordedSession | null; // Session being captured for backtesting
+
+  // Data inputs
+  loadToken: (tokenAddress: string) => Promise<void>;
+  ingestTrades: (trades: AutomationTrade[]) => void;
+  resetVolume: () => void;
+  setMarketSnapshot: (snapshot: { marketCap?: number | null; tokenPrice?: number | null }) => void;
+  setSolBalances: (balances: Map<string, number>) => void;
+  setWallets: (wallets: AutomationWallet[]) => void;
+  getMarketData: () => MarketData;
+
+  // Session recording
+  startRecording: (name?: string) => void;
+  stopRecording: () => Promise<RecordedSession | null>;
+
+  // Strategy management
+  addStrategies: (strategies: TradingStrategy[]) => void;
+  updateStrategy: (strategy: TradingStrategy) => void;
+  removeStrategy: (id: string) => void;
+  startStrategy: (id: string) => void;
+  pauseStrategy: (id: string) => void;
+  stopStrategy: (id: string) => void;
+  setAllStrategiesActive: (active: boolean) => void;
+  getStrategyStatus: (id: string) => StrategyRunStatus;
+
+  // Loop control
+  tick: (marketData?: MarketData) => Promise<void>;
+  start: () => void;
+  stop: () => void;
+}
+
+// Default executor - one wallet per trade through the unified trading module
+const defaultExecutor: TradeExecutor = (tokenAddress, wallet, config, isBuy, solBalances) => {
+  const walletForTrading: WalletType = {
+    id: Date.now(), // Generate a temporary ID
+    address: wallet.address,
+    privateKey: wallet.privateKey,
+    isActive: true
+  };
+  return executeTrade('auto', [walletForTrading], { ...config, tokenAddress }, isBuy, solBalances);
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const createAutomationEngine = (options: AutomationEngineOptions = {}): StoreApi<AutomationEngineState> => {
+  const executor = options.executor || defaultExecutor;
+  const persist = options.persist !== false;
+  const tickInterval = options.tickInterval || DEFAULT_TICK_INTERVAL;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const store = createStore<AutomationEngineState>((set, get) => {
+    const appendLog = (entry: Omit<StrategyExecutionLogEntry, 'timestamp'>) => {
+      set(state => ({
+        executionLog: [{ ...entry, timestamp: Date.now() }, ...state.executionLog.slice(0, MAX_LOG_ENTRIES - 1)]
+      }));
+    };
+
+    const recordEvents = (events: RecordedEvent[]) => {
+      const { recording } = get();
+      if (!recording || events.length === 0) return;
+
+      const recorded = { ...recording, events: [...recording.events, ...events] };
+      set({ recording: recorded });
+      if (recorded.events.length >= MAX_RECORDED_EVENTS) {
+        console.warn('[AutomationEngine] Recording reached its size limit, saving session');
+        get().stopRecording();
+      }
+    };
+
+    const executeAction = async (action: TradingAction, strategy: TradingStrategy, marketData: MarketData) => {
+      const { wallets, solBalances, tokenAddress } = get();
+
+      if (wallets.length === 0) {
+        throw new Error('No wallets selected in sidebar for action execution');
+      }
+
+      for (const wallet of wallets) {
+        const walletBalance = solBalances.get(wallet.address) || 0;
+        if (walletBalance < MIN_WALLET_SOL) {
+          console.warn(`[AutomationEngine] Wallet ${wallet.address} has insufficient SOL balance (${walletBalance})`);
+          continue;
+        }
+
+        const tradeAmount = calculateTradeAmount(action, marketData, walletBalance);
+        const tradingConfig: TradingConfig = {
+          tokenAddress,
+          solAmount: action.type === 'buy' ? tradeAmount : undefined,
+          sellPercent: action.type === 'sell' ? (action.amountType === 'percentage' ? action.amount : 100) : undefined,
+          journal: { operation: 'automation', details: `Strategy "${strategy.name}" ${action.type}` }
+        };
+
+        try {
+          const result = await executor(tokenAddress, wallet, tradingConfig, action.type === 'buy', solBalances);
+          appendLog({
+            strategyId: strategy.id,
+            action: `${action.type.toUpperCase()} ${tradeAmount.toFixed(4)} SOL`,
+            result: result.success ? 'success' : 'error',
+            message: result.success
+              ? `Wallet: ${formatAddress(wallet.address)}, Slippage: ${action.slippage}%`
+              : `Error: ${result.error || 'Unknown error'}`
+          });
+
+          if (!result.success) {
+            console.error(`[AutomationEngine] Trading failed for wallet ${wallet.address}:`, result.error);
+          }
+        } catch (error) {
+          appendLog({
+            strategyId: strategy.id,
+            action: `${action.type.toUpperCase()} ${tradeAmount.toFixed(4)} SOL`,
+            result: 'error',
+            message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+          });
+          console.error(`[AutomationEngine] Trading execution failed for wallet ${wallet.address}:`, error);
+        }
+      }
+    };
+
+    const executeStrategy = async (strategy: TradingStrategy, marketData: MarketData) => {
+      console.log(`[AutomationEngine] Strategy conditions met, executing: ${strategy.name}`);
+
+      // Update counters first so the cooldown applies while the trades are in flight
+      set(state => ({
+        executingStrategyIds: [...state.executingStrategyIds, strategy.id],
+        strategies: state.strategies.map(s =>
+          s.id === strategy.id
+            ? { ...s, executionCount: s.executionCount + 1, lastExecuted: Date.now() }
+            : s
+        )
+      }));
+
+      try {
+        for (const action of strategy.actions) {
+          await executeAction(action, strategy, marketData);
+        }
+
+        appendLog({
+          strategyId: strategy.id,
+          action: `Executed strategy: ${strategy.name}`,
+          result: 'success',
+          message: `Conditions met, executed ${strategy.actions.length} action(s)`
+        });
+      } catch (error) {
+        console.error(`[AutomationEngine] Strategy execution failed: ${strategy.name}`, error);
+        appendLog({
+          strategyId: strategy.id,
+          action: `Failed to execute strategy: ${strategy.name}`,
+          result: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        set(state => ({
+          executingStrategyIds: state.executingStrategyIds.filter(id => id !== strategy.id)
+        }));
+      }
+    };
+
+    return {
+      tokenAddress: '',
+      strategies: [],
+      executionLog: [],
+      pausedStrategyIds: [],
+      executingStrategyIds: [],
+      wallets: [],
+      solBalances: new Map(),
+      buyVolume: 0,
+      sellVolume: 0,
+      processedSignatures: new Set(),
+      tradeBuffer: [],
+      lastTrade: null,
+      marketCap: 0,
+      tokenPrice: 0,
+      isLoaded: !persist,
+      isRunning: false,
+      recording: null,
+
+      loadToken: async (tokenAddress) => {
+        // A recording only ever covers one token
+        const { recording } = get();
+        if (recording && recording.tokenAddress !== tokenAddress) {
+          get().stopRecording();
+        }
+
+        // Market inputs belong to the previous token
+        set({
+          tokenAddress,
+          isLoaded: !persist,
+          pausedStrategyIds: [],
+          buyVolume: 0,
+          sellVolume: 0,
+          processedSignatures: new Set(),
+          tradeBuffer: [],
+          lastTrade: null
+        });
+
+        if (!persist) return;
+
+        const [strategies, executionLog] = await Promise.all([
+          loadStrategies(tokenAddress),
+          loadExecutionLog(tokenAddress)
+        ]);
+
+        // Ignore the result if the token changed while loading
+        if (get().tokenAddress !== tokenAddress) return;
+        console.log('[AutomationEngine] Loaded strategies from storage:', strategies.length);
+        set({ strategies, executionLog, isLoaded: true });
+      },
+
+      ingestTrades: (trades) => {
+        const { processedSignatures, tokenAddress } = get();
+        const newTrades = trades.filter(trade =>
+          !processedSignatures.has(trade.signature) && (!tokenAddress || trade.tokenMint === tokenAddress)
+        );
+        if (newTrades.length === 0) return;
+
+        const signatures = new Set(processedSignatures);
+        let buyVolume = get().buyVolume;
+        let sellVolume = get().sellVolume;
+        let lastTrade = get().lastTrade;
+
+        for (const trade of newTrades) {
+          signatures.add(trade.signature);
+          if (trade.type === 'buy') {
+            buyVolume += trade.solAmount;
+          } else if (trade.type === 'sell') {
+            sellVolume += trade.solAmount;
+          }
+          if (!lastTrade || trade.timestamp >= lastTrade.timestamp) {
+            lastTrade = trade;
+          }
+        }
+
+        // Keep the buffer ordered by trade time and drop trades no timeframe can reach
+        const cutoff = Date.now() - TRADE_BUFFER_WINDOW;
+        const tradeBuffer = [...get().tradeBuffer, ...newTrades]
+          .filter(trade => trade.timestamp >= cutoff)
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-MAX_BUFFERED_TRADES);
+
+        set({ processedSignatures: signatures, buyVolume, sellVolume, tradeBuffer, lastTrade });
+        recordEvents(
+          [...newTrades]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(trade => ({ kind: 'trade', timestamp: trade.timestamp, trade }))
+        );
+      },
+
+      // Already processed trades stay processed so they are not counted again
+      resetVolume: () => set({ buyVolume: 0, sellVolume: 0, tradeBuffer: [] }),
+
+      setMarketSnapshot: ({ marketCap, tokenPrice }) => {
+        const previous = get();
+        set(state => ({
+          marketCap: marketCap ?? state.marketCap,
+          tokenPrice: tokenPrice ?? state.tokenPrice
+        }));
+
+        const next = get();
+        if (next.tokenPrice > 0 && (next.tokenPrice !== previous.tokenPrice || next.marketCap !== previous.marketCap)) {
+          recordEvents([{ kind: 'price', timestamp: Date.now(), tokenPrice: next.tokenPrice, marketCap: next.marketCap }]);
+        }
+      },
+
+      setSolBalances: (balances) => set({ solBalances: balances }),
+
+      setWallets: (wallets) => set({ wallets }),
+
+      getMarketData: () => {
+        const { marketCap, buyVolume, sellVolume, lastTrade, tokenPrice, tradeBuffer } = get();
+        return {
+          marketCap,
+          buyVolume,
+          sellVolume,
+          netVolume: buyVolume - sellVolume,
+          lastTrade,
+          tokenPrice,
+          priceChange24h: 0, // TODO: Calculate from historical data
+          trades: tradeBuffer
+        };
+      },
+
+      startRecording: (name) => {
+        const { tokenAddress, recording } = get();
+        if (!tokenAddress || recording) return;
+
+        const startedAt = Date.now();
+        set({
+          recording: {
+            id: generateSessionId(),
+            tokenAddress,
+            name: name || `${tokenAddress.slice(0, 6)} ${new Date(startedAt).toLocaleString()}`,
+            startedAt,
+            events: []
+          }
+        });
+      },
+
+      stopRecording: async () => {
+        const { recording } = get();
+        if (!recording) return null;
+
+        set({ recording: null });
+        const session = { ...recording, endedAt: Date.now() };
+        if (persist) {
+          await saveSession(session);
+        }
+        return session;
+      },
+
+      addStrategies: (strategies) => {
+        set(state => ({ strategies: [...state.strategies, ...strategies] }));
+      },
+
+      updateStrategy: (strategy) => {
+        set(state => ({
+          strategies: state.strategies.map(s => s.id === strategy.id ? strategy : s)
+        }));
+      },
+
+      removeStrategy: (id) => {
+        set(state => ({
+          strategies: state.strategies.filter(s => s.id !== id),
+          pausedStrategyIds: state.pausedStrategyIds.filter(pausedId => pausedId !== id)
+        }));
+      },
+
+      startStrategy: (id) => {
+        set(state => ({
+          strategies: state.strategies.map(s => s.id === id ? { ...s, isActive: true } : s),
+          pausedStrategyIds: state.pausedStrategyIds.filter(pausedId => pausedId !== id)
+        }));
+      },
+
+      // Paused strategies stay active (and persisted as such) but are skipped until resumed
+      pauseStrategy: (id) => {
+        set(state => ({
+          pausedStrategyIds: state.pausedStrategyIds.includes(id)
+            ? state.pausedStrategyIds
+            : [...state.pausedStrategyIds, id]
+        }));
+      },
+
+      stopStrategy: (id) => {
+        set(state => ({
+          strategies: state.strategies.map(s => s.id === id ? { ...s, isActive: false } : s),
+          pausedStrategyIds: state.pausedStrategyIds.filter(pausedId => pausedId !== id)
+        }));
+      },
+
+      setAllStrategiesActive: (active) => {
+        set(state => ({
+          strategies: state.strategies.map(s => ({ ...s, isActive: active })),
+          pausedStrategyIds: []
+        }));
+      },
+
+      getStrategyStatus: (id) => {
+        const { strategies, pausedStrategyIds } = get();
+        const strategy = strategies.find(s => s.id === id);
+        if (!strategy || !strategy.isActive) return 'stopped';
+        return pausedStrategyIds.includes(id) ? 'paused' : 'running';
+      },
+
+      tick: async (marketData) => {
+        const state = get();
+        if (!state.isLoaded || state.wallets.length === 0) return;
+
+        const data = marketData || state.getMarketData();
+        const now = Date.now();
+        const runnable = state.strategies.filter(strategy =>
+          !state.pausedStrategyIds.includes(strategy.id) &&
+          !state.executingStrategyIds.includes(strategy.id) &&
+          evaluateStrategy(strategy, data, now)
+        );
+
+        await Promise.all(runnable.map(strategy => executeStrategy(strategy, data)));
+      },
+
+      start: () => {
+        if (timer) return;
+        timer = setInterval(() => {
+          get().tick().catch(error => console.error('[AutomationEngine] Tick failed:', error));
+        }, tickInterval);
+        set({ isRunning: true });
+      },
+
+      stop: () => {
+        if (timer) {
+          clearInterval(timer);
+          timer = null;
+        }
+        set({ isRunning: false });
+      }
+    };
+  });
+
+  if (persist) {
+    // Save strategies (with counters) and the log whenever they change
+    store.subscribe((state, previous) => {
+      if (!state.isLoaded || state.tokenAddress !== previous.tokenAddress) return;
+      if (state.strategies !== previous.strategies) {
+        saveStrategies(state.tokenAddress, state.strategies);
+      }
+      if (state.executionLog !== previous.executionLog) {
+        saveExecutionLog(state.tokenAddress, state.executionLog);
+      }
+    });
+  }
+
+  return store;
+};
+
+// Shared engine used by the app
+export const automationEngine = createAutomationEngine();
+
+export function useAutomationEngine(): AutomationEngineState;
+export function useAutomationEngine<T>(selector: (state: AutomationEngineState) => T): T;
+export function useAutomationEngine<T>(selector?: (state: AutomationEngineState) => T) {
+  return useStore(automationEngine, selector as (state: AutomationEngineState) => T);
+}
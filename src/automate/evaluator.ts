@@ -0,0 +1,211 @@
+import {
+  TradingCondition,
+  TradingAction,
+  TradingStrategy,
+  MarketData,
+  AutomationTrade,
+  TradeWindowStats,
+  Position,
+  PositionRule
+} from './types';
+
+// Pure strategy evaluation - no React, timers or network, so it can be driven with synthetic MarketData
+
+// Longest condition timeframe (1 hour) - older trades can never affect a condition
+export const TRADE_BUFFER_WINDOW = 60 * 60 * 1000;
+
+// Condition types that honour condition.timeframe
+const WINDOWED_CONDITIONS: TradingCondition['type'][] = ['buyVolume', 'sellVolume', 'netVolume', 'priceChange'];
+
+/**
+ * Summarize the trades inside the last `timeframeMinutes` minutes
+ * A timeframe of 0 covers every trade passed in
+ */
+export const getTradeWindowStats = (
+  trades: AutomationTrade[],
+  timeframeMinutes: number,
+  now: number = Date.now()
+): TradeWindowStats => {
+  const since = timeframeMinutes > 0 ? now - timeframeMinutes * 60 * 1000 : -Infinity;
+  const windowTrades = trades.filter(trade => trade.timestamp >= since && trade.timestamp <= now);
+
+  let buyVolume = 0;
+  let sellVolume = 0;
+  for (const trade of windowTrades) {
+    if (trade.type === 'buy') {
+      buyVolume += trade.solAmount;
+    } else if (trade.type === 'sell') {
+      sellVolume += trade.solAmount;
+    }
+  }
+
+  // Trades are kept oldest first, so the ends of the window give the price movement
+  const firstPrice = windowTrades[0]?.avgPrice || 0;
+  const lastPrice = windowTrades[windowTrades.length - 1]?.avgPrice || 0;
+  const priceChange = windowTrades.length > 1 && firstPrice > 0
+    ? ((lastPrice - firstPrice) / firstPrice) * 100
+    : 0;
+
+  return {
+    buyVolume,
+    sellVolume,
+    netVolume: buyVolume - sellVolume,
+    priceChange,
+    tradeCount: windowTrades.length
+  };
+};
+
+/**
+ * Read the market value a condition compares against
+ * Volume and price change conditions with a timeframe are measured over that window of the trade buffer
+ */
+export const getConditionValue = (condition: TradingCondition, marketData: MarketData, now: number = Date.now()): number | null => {
+  if (marketData.trades && WINDOWED_CONDITIONS.includes(condition.type)) {
+    const timeframe = condition.timeframe || 0;
+    if (timeframe > 0 || condition.type === 'priceChange') {
+      const stats = getTradeWindowStats(marketData.trades, timeframe, now);
+      switch (condition.type) {
+        case 'buyVolume':
+          return stats.buyVolume;
+        case 'sellVolume':
+          return stats.sellVolume;
+        case 'netVolume':
+          return stats.netVolume;
+        case 'priceChange':
+          return stats.priceChange;
+      }
+    }
+  }
+
+  switch (condition.type) {
+    case 'marketCap':
+      return marketData.marketCap;
+    case 'buyVolume':
+      return marketData.buyVolume;
+    case 'sellVolume':
+      return marketData.sellVolume;
+    case 'netVolume':
+      return marketData.netVolume;
+    case 'lastTradeAmount':
+      return marketData.lastTrade?.solAmount || 0;
+    case 'priceChange':
+      return marketData.priceChange24h || 0;
+    case 'lastTradeType':
+      // Special case: 1 for buy, 0 for sell
+      return marketData.lastTrade?.type === 'buy' ? 1 : 0;
+    default:
+      return null;
+  }
+};
+
+export const evaluateCondition = (condition: TradingCondition, marketData: MarketData, now: number = Date.now()): boolean => {
+  const currentValue = getConditionValue(condition, marketData, now);
+  if (currentValue === null) {
+    console.log(`[AutomationEngine] Unknown condition type: ${condition.type}`);
+    return false;
+  }
+
+  switch (condition.operator) {
+    case 'greater':
+      return currentValue > condition.value;
+    case 'less':
+      return currentValue < condition.value;
+    case 'equal':
+      return Math.abs(currentValue - condition.value) < 0.0001;
+    case 'greaterEqual':
+      return currentValue >= condition.value;
+    case 'lessEqual':
+      return currentValue <= condition.value;
+    default:
+      console.log(`[AutomationEngine] Unknown operator: ${condition.operator}`);
+      return false;
+  }
+};
+
+/**
+ * Check whether a strategy may run now: active, has conditions, out of cooldown, under its execution cap
+ */
+export const isStrategyReady = (strategy: TradingStrategy, now: number = Date.now()): boolean => {
+  if (!strategy.isActive || strategy.conditions.length === 0) return false;
+
+  if (strategy.lastExecuted && now - strategy.lastExecuted < strategy.cooldown * 60 * 1000) {
+    return false;
+  }
+
+  if (strategy.maxExecutions && strategy.executionCount >= strategy.maxExecutions) {
+    return false;
+  }
+
+  return true;
+};
+
+export const evaluateStrategy = (strategy: TradingStrategy, marketData: MarketData, now: number = Date.now()): boolean => {
+  if (!isStrategyReady(strategy, now)) return false;
+
+  const conditionResults = strategy.conditions.map(condition => evaluateCondition(condition, marketData, now));
+
+  return strategy.conditionLogic === 'and'
+    ? conditionResults.every(result => result)
+    : conditionResults.some(result => result);
+};
+
+/**
+ * Work out the SOL amount an action trades for one wallet
+ */
+export const calculateTradeAmount = (action: TradingAction, marketData: MarketData, walletBalance: number): number => {
+  switch (action.amountType) {
+    case 'sol':
+      return action.amount;
+    case 'percentage':
+      // Percentage of wallet balance
+      return walletBalance * (action.amount / 100);
+    case 'lastTrade':
+      // Based on last trade amount
+      return (marketData.lastTrade?.solAmount || 0) * action.amount;
+    case 'volume': {
+      let volumeAmount: number;
+      switch (action.volumeType) {
+        case 'sellVolume':
+          volumeAmount = marketData.sellVolume;
+          break;
+        case 'netVolume':
+          volumeAmount = marketData.netVolume;
+          break;
+        case 'buyVolume':
+        default:
+          volumeAmount = marketData.buyVolume;
+      }
+      return volumeAmount * (action.volumeMultiplier || 0.1);
+    }
+    default:
+      return action.amount; // fallback
+  }
+};
+
+/**
+ * Unrealized gain of a position at a price, in percent of the entry price
+ */
+export const getPositionChange = (position: Position, price: number): number => {
+  if (!position.entryPrice) return 0;
+  return ((price - position.entryPrice) / position.entryPrice) * 100;
+};
+
+/**
+ * Check whether a take-profit, stop-loss or trailing-stop rule fires at a price
+ */
+export const isPositionRuleTriggered = (rule: PositionRule, position: Position, price: number): boolean => {
+  if (!rule.isActive || price <= 0 || position.entryPrice <= 0) return false;
+
+  switch (rule.type) {
+    case 'takeProfit':
+      return price >= position.entryPrice * (1 + rule.triggerPercent / 100);
+    case 'stopLoss':
+      return price <= position.entryPrice * (1 - rule.triggerPercent / 100);
+    case 'trailingStop': {
+      const peak = Math.max(position.peakPrice, position.entryPrice);
+      return price <= peak * (1 - rule.triggerPercent / 100);
+    }
+    default:
+      return false;
+  }
+};
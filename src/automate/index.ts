@@ -7,4 +7,14 @@ export * from './utils';
 // Export components
 export { default as StrategyBuilder } from './StrategyBuilder';
 export { default as ConditionBuilder } from './ConditionBuilder';
-export { default as ActionBuilder } from './ActionBuilder';
\ No newline at end of file
+export { default as ActionBuilder } from './ActionBuilder';
+export { default as PositionsPanel } from './PositionsPanel';
+export { default as BacktestPanel } from './BacktestPanel';
+// Export persistence helpers
+export * from './storage';
+
+// Export the automation engine
+export * from './evaluator';
+export * from './engine';
+export * from './positions';
+export * from './backtest';
@@ -0,0 +1,353 @@
+import { createStore, StoreApi } from 'zustand/vanilla';
+import { useStore } from 'zustand';
+import { Position, PositionRule, PositionTriggerLogEntry, WalletTrade } from './types';
+import { isPositionRuleTriggered } from './evaluator';
+import { generatePositionRuleId, generatePositionLogId } from './utils';
+import { loadPositions, savePositions, loadPositionLog, savePositionLog, MAX_POSITION_LOG_ENTRIES } from './storage';
+import { WalletType } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
+import { executeSell, createSellConfig } from '../utils/sell';
+import { confirmTradeResult, FormattedWallet, TradingResult } from '../utils/trading';
+
+/**
+ * Position manager.
+ * Records the entry price of every buy made by our own wallets (WHITELIST_TRADE),
+ * follows the token price (TOKEN_PRICE_UPDATE) and sells when a take-profit,
+ * stop-loss or trailing-stop rule attached to the position fires. A fired rule stays
+ * pending and retries its sell on every price update until the sell lands.
+ */
+
+// Constants
+const MAX_POSITION_SIGNATURES = 50;
+
+export type PositionSellExecutor = (
+  wallet: FormattedWallet,
+  tokenMint: string,
+  sellPercent: number
+) => Promise<TradingResult>;
+
+export interface PositionManagerOptions {
+  executor?: PositionSellExecutor; // Replace the sell (e.g. in tests)
+  persist?: boolean; // Load/save positions and the trigger log through IndexedDB (default true)
+}
+
+export interface PositionManagerState {
+  positions: Position[];
+  triggerLog: PositionTriggerLogEntry[];
+  wallets: WalletType[];
+  triggeringRuleIds: string[];
+  isLoaded: boolean;
+
+  // Data inputs
+  load: () => Promise<void>;
+  setWallets: (wallets: WalletType[]) => void;
+  recordTrades: (trades: WalletTrade[], tokenMint: string) => void;
+  updatePrice: (tokenMint: string, price: number) => void;
+
+  // Rule management
+  addRule: (positionId: string, rule: Omit<PositionRule, 'id' | 'isActive'>) => void;
+  updateRule: (positionId: string, ruleId: string, updates: Partial<PositionRule>) => void;
+  removeRule: (positionId: string, ruleId: string) => void;
+  rearmRule: (positionId: string, ruleId: string) => void;
+  removePosition: (positionId: string) => void;
+}
+
+// Default executor - sells through the unified sell module and waits for the bundle to land
+const defaultExecutor: PositionSellExecutor = async (wallet, tokenMint, sellPercent) => {
+  const sellConfig = createSellConfig({
+    tokenAddress: tokenMint,
+    protocol: 'auto',
+    sellPercent
+  });
+  return confirmTradeResult(await executeSell([wallet], sellConfig), {
+    operation: 'automation',
+    tokenAddress: tokenMint,
+    wallets: [wallet.address],
+    amounts: [{ wallet: wallet.address, amount: sellPercent, unit: '%' }],
+    details: 'Position rule sell'
+  });
+};
+
+export const getPositionId = (walletAddress: string, tokenMint: string) => `${walletAddress}:${tokenMint}`;
+
+// Apply one wallet trade to its position, opening the position on the first buy
+const applyTrade = (position: Position | undefined, trade: WalletTrade, tokenMint: string): Position | undefined => {
+  if (position?.signatures.includes(trade.signature)) return position;
+
+  if (trade.type === 'sell') {
+    if (!position) return undefined;
+    return {
+      ...position,
+      tokensAmount: Math.max(0, position.tokensAmount - trade.tokensAmount),
+      signatures: [...position.signatures, trade.signature].slice(-MAX_POSITION_SIGNATURES),
+      updatedAt: trade.timestamp
+    };
+  }
+
+  // A buy into an empty (or unknown) position starts a fresh entry
+  if (!position || position.tokensAmount <= 0) {
+    return {
+      id: getPositionId(trade.address, tokenMint),
+      walletAddress: trade.address,
+      tokenMint,
+      entryPrice: trade.avgPrice,
+      tokensAmount: trade.tokensAmount,
+      peakPrice: trade.avgPrice,
+      lastPrice: trade.avgPrice,
+      rules: position?.rules || [],
+      signatures: [...(position?.signatures || []), trade.signature].slice(-MAX_POSITION_SIGNATURES),
+      openedAt: trade.timestamp,
+      updatedAt: trade.timestamp
+    };
+  }
+
+  // Adding to a position moves the entry to the weighted average
+  const tokensAmount = position.tokensAmount + trade.tokensAmount;
+  const entryPrice = (position.entryPrice * position.tokensAmount + trade.avgPrice * trade.tokensAmount) / tokensAmount;
+  return {
+    ...position,
+    entryPrice,
+    tokensAmount,
+    peakPrice: Math.max(position.peakPrice, entryPrice),
+    signatures: [...position.signatures, trade.signature].slice(-MAX_POSITION_SIGNATURES),
+    updatedAt: trade.timestamp
+  };
+};
+
+const updatePositionRules = (
+  positions: Position[],
+  positionId: string,
+  update: (rules: PositionRule[]) => PositionRule[]
+): Position[] => {
+  return positions.map(position =>
+    position.id === positionId
+      ? { ...position, rules: update(position.rules), updatedAt: Date.now() }
+      : position
+  );
+};
+
+export const createPositionManager = (options: PositionManagerOptions = {}): StoreApi<PositionManagerState> => {
+  const executor = options.executor || defaultExecutor;
+  const persist = options.persist !== false;
+
+  const store = createStore<PositionManagerState>((set, get) => {
+    const appendLog = (entry: Omit<PositionTriggerLogEntry, 'id' | 'timestamp'>) => {
+      set(state => ({
+        triggerLog: [
+          { ...entry, id: generatePositionLogId(), timestamp: Date.now() },
+          ...state.triggerLog.slice(0, MAX_POSITION_LOG_ENTRIES - 1)
+        ]
+      }));
+    };
+
+    const triggerRule = async (position: Position, rule: PositionRule, price: number) => {
+      console.log(`[PositionManager] ${rule.type} triggered for ${position.walletAddress} at ${price}`);
+      const logBase = {
+        positionId: position.id,
+        walletAddress: position.walletAddress,
+        tokenMint: position.tokenMint,
+        ruleType: rule.type,
+        triggerPercent: rule.triggerPercent,
+        sellPercent: rule.sellPercent,
+        entryPrice: position.entryPrice,
+        triggerPrice: price
+      };
+
+      // The rule stays pending for the next price update; only the first failure is logged
+      const retryLater = (error: string) => {
+        if (!rule.lastError) {
+          appendLog({ ...logBase, result: 'error', message: `Error: ${error}, retrying` });
+        }
+        get().updateRule(position.id, rule.id, { lastError: error });
+      };
+
+      set(state => ({ triggeringRuleIds: [...state.triggeringRuleIds, rule.id] }));
+      try {
+        const wallet = getSigningWallets(get().wallets).find(w => w.address === position.walletAddress);
+        if (!wallet) {
+          retryLater('Wallet is locked, missing or watch-only');
+          return;
+        }
+
+        const result = await executor(
+          { address: wallet.address, privateKey: wallet.privateKey },
+          position.tokenMint,
+          rule.sellPercent
+        );
+        if (!result.success) {
+          retryLater(result.error || 'Unknown error');
+          return;
+        }
+
+        appendLog({ ...logBase, result: 'success', message: `Sold ${rule.sellPercent}% of tokens` });
+        get().updateRule(position.id, rule.id, {
+          isActive: false,
+          pendingSince: undefined,
+          lastError: undefined,
+          triggeredAt: Date.now()
+        });
+      } catch (error) {
+        console.error(`[PositionManager] Sell failed for wallet ${position.walletAddress}:`, error);
+        retryLater(error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        set(state => ({ triggeringRuleIds: state.triggeringRuleIds.filter(id => id !== rule.id) }));
+      }
+    };
+
+    return {
+      positions: [],
+      triggerLog: [],
+      wallets: [],
+      triggeringRuleIds: [],
+      isLoaded: !persist,
+
+      load: async () => {
+        if (!persist) return;
+
+        const [positions, triggerLog] = await Promise.all([loadPositions(), loadPositionLog()]);
+
+        // Positions opened before the load finished take precedence over stored ones
+        set(state => {
+          const current = new Set(state.positions.map(position => position.id));
+          return {
+            positions: [...positions.filter(position => !current.has(position.id)), ...state.positions],
+            triggerLog: [...state.triggerLog, ...triggerLog].slice(0, MAX_POSITION_LOG_ENTRIES),
+            isLoaded: true
+          };
+        });
+      },
+
+      setWallets: (wallets) => set({ wallets }),
+
+      recordTrades: (trades, tokenMint) => {
+        if (!tokenMint || trades.length === 0) return;
+
+        const byId = new Map(get().positions.map(position => [position.id, position]));
+        let changed = false;
+
+        // Apply oldest first so the weighted entry follows the trade order
+        for (const trade of [...trades].sort((a, b) => a.timestamp - b.timestamp)) {
+          const id = getPositionId(trade.address, tokenMint);
+          const current = byId.get(id);
+          const next = applyTrade(current, trade, tokenMint);
+          if (next && next !== current) {
+            byId.set(id, next);
+            changed = true;
+          }
+        }
+
+        if (changed) {
+          set({ positions: Array.from(byId.values()) });
+        }
+      },
+
+      updatePrice: (tokenMint, price) => {
+        if (!tokenMint || !price || price <= 0) return;
+
+        const { triggeringRuleIds } = get();
+        const triggered: { position: Position; rule: PositionRule }[] = [];
+        const now = Date.now();
+
+        const positions = get().positions.map(position => {
+          if (position.tokenMint !== tokenMint) return position;
+
+          const updated: Position = {
+            ...position,
+            lastPrice: price,
+            peakPrice: Math.max(position.peakPrice, price)
+          };
+          if (updated.tokensAmount <= 0) return updated;
+
+          // At most one rule fires per price update; the rest stay armed.
+          // A pending rule retries its sell whatever the price is now
+          const rule = updated.rules.find(r =>
+            !triggeringRuleIds.includes(r.id) &&
+            ((r.isActive && r.pendingSince !== undefined) || isPositionRuleTriggered(r, updated, price))
+          );
+          if (!rule) return updated;
+
+          const pendingRule = { ...rule, pendingSince: rule.pendingSince ?? now };
+          triggered.push({ position: updated, rule: pendingRule });
+          return {
+            ...updated,
+            rules: updated.rules.map(r => r.id === rule.id ? pendingRule : r),
+            updatedAt: now
+          };
+        });
+
+        set({ positions });
+        triggered.forEach(({ position, rule }) => {
+          triggerRule(position, rule, price);
+        });
+      },
+
+      addRule: (positionId, rule) => {
+        set(state => ({
+          positions: updatePositionRules(state.positions, positionId, rules => [
+            ...rules,
+            { ...rule, id: generatePositionRuleId(), isActive: true }
+          ])
+        }));
+      },
+
+      updateRule: (positionId, ruleId, updates) => {
+        set(state => ({
+          positions: updatePositionRules(state.positions, positionId, rules =>
+            rules.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule)
+          )
+        }));
+      },
+
+      removeRule: (positionId, ruleId) => {
+        set(state => ({
+          positions: updatePositionRules(state.positions, positionId, rules =>
+            rules.filter(rule => rule.id !== ruleId)
+          )
+        }));
+      },
+
+      // Re-arming a trailing stop restarts it from the current price
+      rearmRule: (positionId, ruleId) => {
+        set(state => ({
+          positions: state.positions.map(position => {
+            if (position.id !== positionId) return position;
+            const rule = position.rules.find(r => r.id === ruleId);
+            return {
+              ...position,
+              peakPrice: rule?.type === 'trailingStop' ? position.lastPrice : position.peakPrice,
+              rules: position.rules.map(r => r.id === ruleId ? { ...r, isActive: true, pendingSince: undefined, lastError: undefined, triggeredAt: undefined } : r),
+              updatedAt: Date.now()
+            };
+          })
+        }));
+      },
+
+      removePosition: (positionId) => {
+        set(state => ({ positions: state.positions.filter(position => position.id !== positionId) }));
+      }
+    };
+  });
+
+  if (persist) {
+    store.subscribe((state, previous) => {
+      if (!state.isLoaded) return;
+      if (state.positions !== previous.positions) {
+        savePositions(state.positions);
+      }
+      if (state.triggerLog !== previous.triggerLog) {
+        savePositionLog(state.triggerLog);
+      }
+    });
+  }
+
+  return store;
+};
+
+// Shared position manager used by the app
+export const positionManager = createPositionManager();
+
+export function usePositionManager(): PositionManagerState;
+export function usePositionManager<T>(selector: (state: PositionManagerState) => T): T;
+export function usePositionManager<T>(selector?: (state: PositionManagerState) => T) {
+  return useStore(positionManager, selector as (state: PositionManagerState) => T);
+}
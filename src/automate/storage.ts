@@ -0,0 +1,309 @@
+import { TradingStrategy, StrategyExecutionLogEntry, Position, PositionTriggerLogEntry, RecordedSession } from './types';
+import { generateStrategyId, generateConditionId, generateActionId } from './utils';
+import { loadTradingStrategiesFromCookies } from '../Utils';
+
+// Database setup
+const DB_NAME = 'AutomateDB';
+const DB_VERSION = 3;
+const STRATEGY_STORE = 'strategies';
+const LOG_STORE = 'executionLogs';
+const POSITION_STORE = 'positions';
+const POSITION_LOG_STORE = 'positionLogs';
+const SESSION_STORE = 'sessions';
+
+// Constants
+export const MAX_LOG_ENTRIES = 50;
+export const MAX_POSITION_LOG_ENTRIES = 200;
+const EXPORT_FORMAT = 'arca-strategies';
+const EXPORT_VERSION = 1;
+
+interface StrategyRecord {
+  tokenAddress: string;
+  strategies: TradingStrategy[];
+  updatedAt: number;
+}
+
+interface LogRecord {
+  tokenAddress: string;
+  entries: StrategyExecutionLogEntry[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error('Error opening automation database:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STRATEGY_STORE)) {
+        db.createObjectStore(STRATEGY_STORE, { keyPath: 'tokenAddress' });
+      }
+      if (!db.objectStoreNames.contains(LOG_STORE)) {
+        db.createObjectStore(LOG_STORE, { keyPath: 'tokenAddress' });
+      }
+      if (!db.objectStoreNames.contains(POSITION_STORE)) {
+        db.createObjectStore(POSITION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(POSITION_LOG_STORE)) {
+        db.createObjectStore(POSITION_LOG_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+
+  return dbPromise;
+};
+
+const getRecord = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const putRecord = async (storeName: string, record: any): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Replace the whole contents of a store in one transaction
+const replaceRecords = async (storeName: string, records: any[]): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    records.forEach(record => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Load the strategies saved for a token
+ * Tokens without a saved record fall back to the strategies previously kept in cookies
+ */
+export const loadStrategies = async (tokenAddress: string): Promise<TradingStrategy[]> => {
+  try {
+    const record = await getRecord<StrategyRecord>(STRATEGY_STORE, tokenAddress);
+    if (record) return record.strategies;
+  } catch (error) {
+    console.error('Error loading strategies:', error);
+  }
+  return loadTradingStrategiesFromCookies();
+};
+
+/**
+ * Save the strategies (including executionCount/lastExecuted) for a token
+ */
+export const saveStrategies = async (tokenAddress: string, strategies: TradingStrategy[]): Promise<void> => {
+  try {
+    await putRecord(STRATEGY_STORE, { tokenAddress, strategies, updatedAt: Date.now() } as StrategyRecord);
+  } catch (error) {
+    console.error('Error saving strategies:', error);
+  }
+};
+
+/**
+ * Load the execution log for a token, newest entry first
+ */
+export const loadExecutionLog = async (tokenAddress: string): Promise<StrategyExecutionLogEntry[]> => {
+  try {
+    const record = await getRecord<LogRecord>(LOG_STORE, tokenAddress);
+    return record ? record.entries : [];
+  } catch (error) {
+    console.error('Error loading execution log:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the execution log for a token, keeping the most recent entries
+ */
+export const saveExecutionLog = async (tokenAddress: string, entries: StrategyExecutionLogEntry[]): Promise<void> => {
+  try {
+    await putRecord(LOG_STORE, { tokenAddress, entries: entries.slice(0, MAX_LOG_ENTRIES) } as LogRecord);
+  } catch (error) {
+    console.error('Error saving execution log:', error);
+  }
+};
+
+/**
+ * Serialize strategies for sharing
+ * Run counters are stripped so the recipient starts from a clean state
+ */
+export const exportStrategies = (strategies: TradingStrategy[]): string => {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    strategies: strategies.map(({ executionCount, lastExecuted, ...strategy }) => strategy)
+  }, null, 2);
+};
+
+/**
+ * Save strategies as a JSON file
+ */
+export const downloadStrategies = (strategies: TradingStrategy[], tokenAddress: string) => {
+  const blob = new Blob([exportStrategies(strategies)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `strategies-${tokenAddress ? tokenAddress.slice(0, 8) : 'all'}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parse an exported strategy file
+ * Imported strategies get fresh ids, reset counters and start inactive
+ */
+export const importStrategies = (json: string): TradingStrategy[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Invalid JSON format');
+  }
+
+  const list = Array.isArray(data) ? data : data?.strategies;
+  if (!Array.isArray(list)) {
+    throw new Error('No strategies found in file');
+  }
+  if (data?.format === EXPORT_FORMAT && data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported strategy file version ${data.version}`);
+  }
+
+  const now = Date.now();
+  return list
+    .filter((item: any) => item && typeof item.name === 'string' && Array.isArray(item.conditions) && Array.isArray(item.actions))
+    .map((item: any): TradingStrategy => ({
+      id: generateStrategyId(),
+      name: item.name,
+      description: item.description || '',
+      isActive: false,
+      conditions: item.conditions.map((condition: any) => ({ ...condition, id: generateConditionId() })),
+      conditionLogic: item.conditionLogic === 'or' ? 'or' : 'and',
+      actions: item.actions.map((action: any) => ({ ...action, id: generateActionId() })),
+      cooldown: typeof item.cooldown === 'number' ? item.cooldown : 5,
+      maxExecutions: item.maxExecutions,
+      executionCount: 0,
+      createdAt: now,
+      updatedAt: now
+    }));
+};
+
+/**
+ * Load every tracked position
+ */
+export const loadPositions = async (): Promise<Position[]> => {
+  try {
+    return await getAllRecords<Position>(POSITION_STORE);
+  } catch (error) {
+    console.error('Error loading positions:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the full set of tracked positions
+ */
+export const savePositions = async (positions: Position[]): Promise<void> => {
+  try {
+    await replaceRecords(POSITION_STORE, positions);
+  } catch (error) {
+    console.error('Error saving positions:', error);
+  }
+};
+
+/**
+ * Load the position trigger log, newest entry first
+ */
+export const loadPositionLog = async (): Promise<PositionTriggerLogEntry[]> => {
+  try {
+    const entries = await getAllRecords<PositionTriggerLogEntry>(POSITION_LOG_STORE);
+    return entries.sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_POSITION_LOG_ENTRIES);
+  } catch (error) {
+    console.error('Error loading position log:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the position trigger log, keeping the most recent entries
+ */
+export const savePositionLog = async (entries: PositionTriggerLogEntry[]): Promise<void> => {
+  try {
+    await replaceRecords(POSITION_LOG_STORE, entries.slice(0, MAX_POSITION_LOG_ENTRIES));
+  } catch (error) {
+    console.error('Error saving position log:', error);
+  }
+};
+
+/**
+ * Load the recorded market sessions, newest first
+ */
+export const loadSessions = async (): Promise<RecordedSession[]> => {
+  try {
+    const sessions = await getAllRecords<RecordedSession>(SESSION_STORE);
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  } catch (error) {
+    console.error('Error loading recorded sessions:', error);
+    return [];
+  }
+};
+
+/**
+ * Save a recorded market session
+ */
+export const saveSession = async (session: RecordedSession): Promise<void> => {
+  try {
+    await putRecord(SESSION_STORE, session);
+  } catch (error) {
+    console.error('Error saving recorded session:', error);
+  }
+};
+
+/**
+ * Delete a recorded market session
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
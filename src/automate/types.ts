@@ -32,4 +32,146 @@ export interface TradingStrategy {
   lastExecuted?: number; // timestamp
   createdAt: number;
   updatedAt: number;
-}
\ No newline at end of file
+}
+
+export interface StrategyExecutionLogEntry {
+  strategyId: string;
+  timestamp: number;
+  action: string;
+  result: 'success' | 'error';
+  message: string;
+}
+
+// Trade from the live feed (non-whitelisted wallets) used as market input
+export interface AutomationTrade {
+  type: 'buy' | 'sell';
+  address: string;
+  tokensAmount: number;
+  avgPrice: number;
+  solAmount: number;
+  timestamp: number;
+  signature: string;
+  tokenMint: string;
+  marketCap: number;
+}
+
+export interface MarketData {
+  marketCap: number;
+  buyVolume: number;
+  sellVolume: number;
+  netVolume: number;
+  lastTrade: AutomationTrade | null;
+  tokenPrice: number;
+  priceChange24h?: number;
+  trades?: AutomationTrade[]; // Rolling trade buffer, oldest first, for timeframe conditions
+}
+
+// Volume and price movement over one time window of the trade buffer
+export interface TradeWindowStats {
+  buyVolume: number;
+  sellVolume: number;
+  netVolume: number;
+  priceChange: number; // percentage, first to last trade in the window
+  tradeCount: number;
+}
+
+export interface AutomationWallet {
+  privateKey: string;
+  address: string;
+  displayName: string;
+}
+
+export type StrategyRunStatus = 'running' | 'paused' | 'stopped';
+
+// Market input recorded from the live feed for backtesting
+export type RecordedEvent =
+  | { kind: 'trade'; timestamp: number; trade: AutomationTrade }
+  | { kind: 'price'; timestamp: number; tokenPrice: number; marketCap: number };
+
+export interface RecordedSession {
+  id: string;
+  tokenAddress: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number;
+  events: RecordedEvent[]; // oldest first
+}
+
+export interface BacktestOptions {
+  startingBalance: number; // SOL held by the simulated wallet
+  slippage: number; // fixed percentage applied against every simulated fill
+}
+
+export interface BacktestExecution {
+  timestamp: number;
+  type: 'buy' | 'sell';
+  solAmount: number;
+  tokensAmount: number;
+  price: number; // fill price after slippage
+}
+
+export interface BacktestResult {
+  eventCount: number;
+  executionCount: number; // times the strategy fired
+  executions: BacktestExecution[];
+  solSpent: number;
+  solReceived: number;
+  tokensHeld: number;
+  finalPrice: number;
+  pnl: number; // SOL received plus remaining tokens at the final price, minus SOL spent
+  pnlPercent: number;
+}
+
+// Take-profit / stop-loss / trailing-stop positions
+export type PositionRuleType = 'takeProfit' | 'stopLoss' | 'trailingStop';
+
+export interface PositionRule {
+  id: string;
+  type: PositionRuleType;
+  triggerPercent: number; // gain for take-profit, loss for stop-loss, drop from peak for trailing stop
+  sellPercent: number; // percentage of the wallet's tokens to sell when triggered
+  isActive: boolean;
+  pendingSince?: number; // fired, but the sell has not landed yet; retried on every price update
+  lastError?: string; // why the pending sell has not landed
+  triggeredAt?: number; // set once the sell lands; the rule then stays inactive until re-armed
+}
+
+// Trade made by one of our own wallets (WHITELIST_TRADE)
+export interface WalletTrade {
+  type: 'buy' | 'sell';
+  address: string;
+  tokensAmount: number;
+  avgPrice: number;
+  solAmount: number;
+  timestamp: number;
+  signature: string;
+}
+
+export interface Position {
+  id: string; // `${walletAddress}:${tokenMint}`
+  walletAddress: string;
+  tokenMint: string;
+  entryPrice: number; // weighted average price of the recorded buys
+  tokensAmount: number; // recorded buys minus recorded sells
+  peakPrice: number; // highest price seen since entry, for trailing stops
+  lastPrice: number;
+  rules: PositionRule[];
+  signatures: string[]; // recent trade signatures already applied
+  openedAt: number;
+  updatedAt: number;
+}
+
+export interface PositionTriggerLogEntry {
+  id: string;
+  positionId: string;
+  walletAddress: string;
+  tokenMint: string;
+  ruleType: PositionRuleType;
+  triggerPercent: number;
+  sellPercent: number;
+  entryPrice: number;
+  triggerPrice: number;
+  result: 'success' | 'error';
+  message: string;
+  timestamp: number;
+}
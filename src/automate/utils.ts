@@ -9,4 +9,15 @@ export const generateConditionId = (): string => {
 
 export const generateActionId = (): string => {
   return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-};
\ No newline at end of file
+};
+export const generatePositionRuleId = (): string => {
+  return `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const generatePositionLogId = (): string => {
+  return `trigger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const generateSessionId = (): string => {
+  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
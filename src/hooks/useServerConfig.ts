@@ -2,6 +2,8 @@ import { useEffect } from 'react';
 
 /**
  * Hook to load and apply saved server configuration on app startup
+ * The enabled flag only chooses which server builds and relays transactions;
+ * wallet keys never go to it, so it is not a server-side signing mode.
  */
 export const useServerConfig = () => {
   useEffect(() => {
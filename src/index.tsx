@@ -10,6 +10,8 @@ import './styles/globals.css';
 import { ToastProvider } from "./Notifications";
 import ServerConfig from './ServerConfig';
 import IntroModal from './modals/IntroModal';
+import VaultUnlock from './VaultUnlock';
+import { isWalletVaultUnlocked, lockWalletVault, loadConfigFromCookies } from './Utils';
 const App = lazy(() => import('./App'));
 
 declare global {
@@ -25,6 +27,8 @@ declare global {
 const SERVER_URL_COOKIE = 'trading_server_url';
 const SERVER_REGION_COOKIE = 'trading_server_region';
 const INTRO_COMPLETED_COOKIE = 'intro_completed';
+const IDLE_CHECK_INTERVAL = 15000; // Check for vault auto-lock every 15 seconds
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'];
 
 interface ServerInfo {
   id: string;
@@ -127,6 +131,34 @@ const Root = () => {
   const [isChecking, setIsChecking] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showIntroModal, setShowIntroModal] = useState(false);
+  const [isVaultUnlocked, setIsVaultUnlocked] = useState(isWalletVaultUnlocked());
+
+  // Auto-lock the wallet vault after the configured idle time
+  useEffect(() => {
+    if (!isVaultUnlocked) return;
+
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const interval = setInterval(() => {
+      // Read the setting on every check so changes apply without relocking
+      const minutes = parseFloat(loadConfigFromCookies()?.autoLockMinutes || '15');
+      if (minutes > 0 && Date.now() - lastActivity >= minutes * 60 * 1000) {
+        console.log('Wallet vault locked after inactivity');
+        lockWalletVault();
+        setIsVaultUnlocked(false);
+      }
+    }, IDLE_CHECK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+    };
+  }, [isVaultUnlocked]);
 
   // Disable right-click and text selection globally
   useEffect(() => {
@@ -476,7 +508,9 @@ const Root = () => {
 
   return (
     <ToastProvider>
-      {serverUrl ? (
+      {serverUrl && !isVaultUnlocked ? (
+        <VaultUnlock onUnlocked={() => setIsVaultUnlocked(true)} />
+      ) : serverUrl ? (
         <>
           {/* The App component without blur effect */}
           <div className={showIntroModal ? 'filter blur-sm' : ''} 
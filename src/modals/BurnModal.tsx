@@ -2,11 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { CheckCircle, ChevronLeft, ChevronRight, Info, Search, X, ArrowDown } from 'lucide-react';
 import { getWallets, getWalletDisplayName } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
+import { getNonAtaTokenAccounts } from '../utils/balances';
 import { useToast } from "../Notifications";
 import { loadConfigFromCookies } from '../Utils';
 import * as web3 from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import bs58 from 'bs58';
-import { sendToJitoBundleService } from '../utils/jitoService';
+import { sendBundle, getTradingServerUrl } from '../utils/bundleClient';
+import { appendJournalEntry, JournalInput } from '../utils/journal';
 
 const STEPS_BURN = ['Select Source', 'Burn Details', 'Review'];
 
@@ -51,7 +55,7 @@ export const BurnModal: React.FC<BurnModalProps> = ({
   const [modalClass, setModalClass] = useState('');
   const [buttonHover, setButtonHover] = useState(false);
   
-  const wallets = getWallets();
+  const wallets = getSigningWallets(getWallets());
   const { showToast } = useToast();
 
   // Reset form when modal opens/closes
@@ -99,24 +103,23 @@ export const BurnModal: React.FC<BurnModalProps> = ({
         );
         const publicKey = keypair.publicKey;
               
-        const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-          publicKey,
-          {
-            programId: new web3.PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
-          }
-        );
+        // SPL Token and Token-2022 accounts; a wallet can hold several accounts of one mint
+        const programAccounts = await Promise.all([TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+          connection.getParsedTokenAccountsByOwner(publicKey, { programId })
+        ));
 
-        // Transform the token accounts data - exclude SOL
-        const transformedAccounts = await Promise.all(tokenAccounts.value.map(async (account) => {
+        // Sum balances per mint - exclude SOL
+        const balancesByMint = new Map<string, number>();
+        programAccounts.forEach(tokenAccounts => tokenAccounts.value.forEach(account => {
           const parsedInfo = account.account.data.parsed.info;
           const mintAddress = parsedInfo.mint;
-          const balance = parsedInfo.tokenAmount.uiAmount;
+          balancesByMint.set(mintAddress, (balancesByMint.get(mintAddress) || 0) + (parsedInfo.tokenAmount.uiAmount || 0));
+        }));
 
-          return {
-            mint: mintAddress,
-            balance: balance,
-            symbol: mintAddress.slice(0, 4) // Placeholder - you should fetch actual symbols
-          };
+        const transformedAccounts = Array.from(balancesByMint, ([mintAddress, balance]) => ({
+          mint: mintAddress,
+          balance: balance,
+          symbol: mintAddress.slice(0, 4) // Placeholder - you should fetch actual symbols
         }));
 
         setTokenAccounts(transformedAccounts.filter(account => account.balance > 0));
@@ -172,14 +175,21 @@ export const BurnModal: React.FC<BurnModalProps> = ({
     if (!isConfirmed) return;
 
     setIsSubmitting(true);
+    let journalInput: JournalInput | null = null;
     try {
       // Get the wallet keypair
       const walletKeypair = web3.Keypair.fromSecretKey(
         bs58.decode(sourceWallet)
       );
+      journalInput = {
+        operation: 'burn',
+        tokenAddress,
+        wallets: [walletKeypair.publicKey.toString()],
+        amounts: [{ wallet: walletKeypair.publicKey.toString(), amount: parseFloat(amount) || 0, unit: 'tokens' }]
+      };
       
       // 1. Request unsigned transaction from backend
-      const baseUrl = (window as any).tradingServerUrl.replace(/\/+$/, '');
+      const baseUrl = getTradingServerUrl();
       
       const prepareResponse = await fetch(`${baseUrl}/api/tokens/burn`, {
         method: 'POST',
@@ -218,8 +228,9 @@ export const BurnModal: React.FC<BurnModalProps> = ({
       const signedTransactionBs58 = bs58.encode(signedTransactionBuffer);
       // 3. Submit the signed transaction to Jito via the bundle service
       try {
-        const submitResult = await sendToJitoBundleService(signedTransactionBs58);
+        const submitResult = await sendBundle([signedTransactionBs58]);
         console.log('Transaction successfully submitted to Jito:', submitResult);
+        await appendJournalEntry(journalInput, { success: true, result: submitResult });
       } catch (error) {
         console.error('Error submitting transaction:', error);
         throw new Error(`Failed to submit transaction: ${error.message}`);
@@ -230,6 +241,9 @@ export const BurnModal: React.FC<BurnModalProps> = ({
       onClose();
     } catch (error) {
       console.error('Error:', error);
+      if (journalInput) {
+        await appendJournalEntry(journalInput, { success: false, error: error.message || 'Unknown error' });
+      }
       showToast(`Token burn failed: ${error.message || 'Unknown error'}`, "error");
     } finally {
       setIsSubmitting(false);
@@ -833,6 +847,12 @@ export const BurnModal: React.FC<BurnModalProps> = ({
                           </span>
                         </div>
                       </div>
+
+                      {getNonAtaTokenAccounts(wallets.find(w => w.privateKey === sourceWallet)?.address || '', tokenAddress).length > 0 && (
+                        <div className="mt-2 text-xs text-warning font-mono">
+                          Part of this balance is held outside the associated token account and cannot be burned from here
+                        </div>
+                      )}
                     </div>
 
                     {/* Amount Input with cyberpunk design */}
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart2, CheckCircle, ChevronLeft, ChevronRight, Info, Search, X } from 'lucide-react';
-import { getWallets, getWalletDisplayName } from '../Utils.tsx';
+import { BarChart2, ChevronLeft, ChevronRight, Info, X } from 'lucide-react';
+import { getWallets, formatAddress } from '../Utils.tsx';
 import PnlCard from '../PnlCard.tsx';
 import { useToast } from "../Notifications.tsx";
 import { loadConfigFromCookies } from '../Utils.tsx';
 import { createPortal } from 'react-dom';
+import { WalletPicker } from '../WalletPicker.tsx';
+import { Connection } from '@solana/web3.js';
+import { calculatePnl, CostBasisMethod, WalletPnl } from '../utils/pnl';
 
 const STEPS_PNL = ['Select Wallets', 'View Results', 'Share Card'];
 
@@ -37,7 +40,9 @@ interface PnlModalProps extends BasePnlModalProps {
       volume: number;
     } | null;
   } | null;
+  solBalances: Map<string, number>;
   tokenBalances: Map<string, number>;
+  connection: Connection | null;
 }
 
 interface PnlData {
@@ -51,17 +56,20 @@ export const PnlModal: React.FC<PnlModalProps> = ({
   handleRefresh,
   tokenAddress,
   iframeData,
-  tokenBalances
+  solBalances,
+  tokenBalances,
+  connection
 }) => {
   const [currentStep, setCurrentStep] = useState(0);
   const [selectedWallets, setSelectedWallets] = useState<string[]>([]);
   const [pnlData, setPnlData] = useState<Record<string, PnlData>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortOption, setSortOption] = useState('address');
-  const [sortDirection, setSortDirection] = useState('asc');
   const [showInfoTip, setShowInfoTip] = useState(false);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>('fifo');
+  const [walletPnl, setWalletPnl] = useState<Record<string, WalletPnl>>({});
+  const [pnlErrors, setPnlErrors] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
 
   const wallets = getWallets();
   const { showToast } = useToast();
@@ -78,12 +86,11 @@ export const PnlModal: React.FC<PnlModalProps> = ({
   const resetForm = () => {
     setCurrentStep(0);
     // Automatically select all wallets
-    const allWalletKeys = wallets.map(wallet => wallet.privateKey);
-    setSelectedWallets(allWalletKeys);
+    const allWalletAddresses = wallets.map(wallet => wallet.address);
+    setSelectedWallets(allWalletAddresses);
     setPnlData({});
-    setSearchTerm('');
-    setSortOption('address');
-    setSortDirection('asc');
+    setWalletPnl({});
+    setPnlErrors([]);
   };
 
   const handleNext = () => {
@@ -104,87 +111,67 @@ export const PnlModal: React.FC<PnlModalProps> = ({
   };
 
   const fetchPnlData = async () => {
-    if (selectedWallets.length === 0 || !iframeData || !iframeData.tradingStats) return;
+    if (selectedWallets.length === 0 || !tokenAddress) return;
+    if (!connection) {
+      showToast("No RPC connection available", "error");
+      return;
+    }
     
     setIsLoading(true);
+    setPnlErrors([]);
+    setProgress({ completed: 0, total: selectedWallets.length });
     try {
-      // Get wallet addresses from private keys
-      const selectedAddresses = selectedWallets.map(privateKey => 
-        wallets.find(wallet => wallet.privateKey === privateKey)?.address || ''
-      ).filter(address => address !== '');
+      // Selection is keyed by address, so watch-only wallets are included
+      const selectedAddresses = selectedWallets.filter(address =>
+        wallets.some(wallet => wallet.address === address)
+      );
       
-      // Calculate PNL data directly from iframeData
-      const calculatedPnlData: Record<string, PnlData> = {};
+      // Unrealized PnL uses the chart price when it has reported one for this token
+      const chartPrice = iframeData?.tokenPrice?.tokenMint === tokenAddress ? iframeData.tokenPrice.tokenPrice : null;
+      const { results, errors } = await calculatePnl(
+        connection,
+        selectedAddresses,
+        tokenAddress,
+        costBasisMethod,
+        chartPrice,
+        setProgress
+      );
       
-      // Use trading stats for overall PNL calculation
-      const { tradingStats, recentTrades } = iframeData;
       const currentTimestamp = new Date().toISOString();
-      
-      // For each selected wallet, calculate its contribution to the overall PNL
-      selectedAddresses.forEach(address => {
-        // Filter trades for this wallet
-        const walletTrades = recentTrades.filter(trade => trade.address === address);
-        
-        // Calculate wallet's contribution to PNL
-        let walletProfit = 0;
-        
-        // If we have specific wallet trades, calculate from those
-        if (walletTrades.length > 0) {
-          const buyTrades = walletTrades.filter(trade => trade.type === 'buy');
-          const sellTrades = walletTrades.filter(trade => trade.type === 'sell');
-          
-          const totalBought = buyTrades.reduce((sum, trade) => sum + trade.solAmount, 0);
-          const totalSold = sellTrades.reduce((sum, trade) => sum + trade.solAmount, 0);
-          
-          walletProfit = totalSold - totalBought;
-        } else {
-          // If no specific trades, estimate based on overall stats and token balance
-          const walletTokenBalance = tokenBalances.get(address) || 0;
-          const totalTokens = Array.from(tokenBalances.values()).reduce((sum, balance) => sum + balance, 0);
-          
-          if (totalTokens > 0) {
-            // Estimate wallet's contribution to PNL based on its proportion of tokens
-            const proportion = walletTokenBalance / totalTokens;
-            walletProfit = tradingStats.net * proportion;
-          }
-        }
-        
+      const calculatedPnlData: Record<string, PnlData> = {};
+      results.forEach((pnl, address) => {
         calculatedPnlData[address] = {
-          profit: walletProfit,
+          profit: pnl.realizedSol + (pnl.unrealizedSol ?? 0),
           timestamp: currentTimestamp
         };
       });
       
+      setWalletPnl(Object.fromEntries(results));
       setPnlData(calculatedPnlData);
+      setPnlErrors(errors);
+      if (errors.length > 0) {
+        showToast(`PNL failed for ${errors.length} wallet${errors.length === 1 ? '' : 's'}`, "error");
+      }
     } catch (error) {
       console.error('Error calculating PNL data:', error);
       showToast("Failed to calculate PNL data", "error");
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
-  // Format wallet address for display
-  const formatAddress = (address: string) => {
-    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
-  };
-
   // Toggle wallet selection
-  const toggleWalletSelection = (privateKey: string) => {
+  const toggleWalletSelection = (address: string) => {
     setSelectedWallets(prev => {
-      if (prev.includes(privateKey)) {
-        return prev.filter(key => key !== privateKey);
+      if (prev.includes(address)) {
+        return prev.filter(key => key !== address);
       } else {
-        return [...prev, privateKey];
+        return [...prev, address];
       }
     });
   };
 
-  // Format the timestamp to a readable format
-  const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString();
-  };
-
   // Format profit as a readable string with color class
   const formatProfit = (profit: number) => {
     return {
@@ -193,36 +180,9 @@ export const PnlModal: React.FC<PnlModalProps> = ({
     };
   };
 
-  // Filter wallets based on search and sort options
-  const filterWallets = (walletList: any[], search: string) => {
-    let filtered = walletList;
-    
-    // Apply search filter
-    if (search) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    // Sort wallets
-    return filtered.sort((a, b) => {
-      if (sortOption === 'address') {
-        return sortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      }
-      return 0;
-    });
-  };
-
   // If modal is not open, don't render anything
   if (!isOpen) return null;
 
-  // Get address from private key
-  const getAddressFromPrivateKey = (privateKey: string) => {
-    return wallets.find(wallet => wallet.privateKey === privateKey)?.address || '';
-  };
-
   // Animation keyframes for cyberpunk elements
   const modalStyleElement = document.createElement('style');
   modalStyleElement.textContent = `
@@ -434,87 +394,37 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                   </div>
                 </div>
 
-                {/* Search and Filters */}
-                <div className="mb-2 flex space-x-2">
-                  <div className="relative flex-grow">
-                    <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                    <input
-                      type="text"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full pl-9 pr-4 py-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
-                      placeholder="SEARCH WALLETS..."
-                    />
+                {/* Cost Basis */}
+                <div className="bg-app-tertiary rounded-lg p-4 border border-app-primary-30 mb-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-app-secondary font-mono">COST BASIS:</span>
+                    <div className="flex gap-1">
+                      {(['fifo', 'average'] as const).map(method => (
+                        <button
+                          key={method}
+                          type="button"
+                          onClick={() => setCostBasisMethod(method)}
+                          className={`px-3 py-1 text-xs font-mono rounded border transition-all
+                                    ${costBasisMethod === method
+                                      ? 'bg-primary-20 border-app-primary color-primary'
+                                      : 'bg-app-secondary border-app-primary-20 text-app-secondary hover:text-app-primary'}`}
+                        >
+                          {method === 'fifo' ? 'FIFO' : 'AVERAGE'}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                  
-                  <select 
-                    className="bg-app-tertiary border border-app-primary-30 rounded-lg px-2 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                    value={sortOption}
-                    onChange={(e) => setSortOption(e.target.value)}
-                  >
-                    <option value="address">ADDRESS</option>
-                  </select>
-                  
-                  <button
-                    type="button"
-                    className="p-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-app-secondary hover-color-primary-light hover-border-primary transition-all modal-btn-cyberpunk"
-                    onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
-                  >
-                    {sortDirection === 'asc' ? '↑' : '↓'}
-                  </button>
-                </div>
-                
-                {/* Select All Button */}
-                <div className="mb-3">
-                  <button
-                    type="button"
-                    className="w-full py-2 bg-app-tertiary border border-app-primary-40 rounded-lg text-app-secondary hover-color-primary-light hover-border-primary hover:bg-primary-10 transition-all modal-btn-cyberpunk font-mono text-sm"
-                    onClick={() => {
-                      // Get all wallet private keys
-                      const allWalletKeys = wallets.map(wallet => wallet.privateKey);
-                      // If all wallets are already selected, deselect all. Otherwise, select all.
-                      if (selectedWallets.length === allWalletKeys.length) {
-                        setSelectedWallets([]);
-                      } else {
-                        setSelectedWallets(allWalletKeys);
-                      }
-                    }}
-                  >
-                    {selectedWallets.length === wallets.length ? 'DESELECT ALL WALLETS' : 'SELECT ALL WALLETS'}
-                  </button>
                 </div>
 
                 {/* Wallet Selection */}
-                <div className="bg-app-tertiary rounded-lg overflow-hidden border border-app-primary-20 shadow-inner transition-all duration-200 hover-border-primary-40">
-                  <div className="max-h-64 overflow-y-auto scrollbar-thin scrollbar-thumb-[#02b36d40] scrollbar-track-app-tertiary">
-                    {filterWallets(wallets, searchTerm).length > 0 ? (
-                      filterWallets(wallets, searchTerm).map((wallet) => (
-                        <div 
-                          key={wallet.id}
-                          className={`flex items-center p-2.5 hover:bg-app-secondary cursor-pointer transition-all duration-200 border-b border-app-primary-20 last:border-b-0
-                                    ${selectedWallets.includes(wallet.privateKey) ? 'bg-primary-10 border-app-primary-30' : ''}`}
-                          onClick={() => toggleWalletSelection(wallet.privateKey)}
-                        >
-                          <div className={`w-5 h-5 mr-3 rounded flex items-center justify-center transition-all duration-300
-                                          ${selectedWallets.includes(wallet.privateKey)
-                                            ? 'bg-app-primary-color shadow-md shadow-app-primary-40' 
-                                            : 'border border-app-primary-30 bg-app-tertiary'}`}>
-                            {selectedWallets.includes(wallet.privateKey) && (
-                              <CheckCircle size={14} className="text-app-primary animate-[fadeIn_0.2s_ease]" />
-                            )}
-                          </div>
-                          <div className="flex-1">
-                            <span className="font-mono text-sm text-app-primary glitch-text">{getWalletDisplayName(wallet)}</span>
-                          </div>
-                        </div>
-                      ))
-                    ) : (
-                      <div className="p-3 text-sm text-app-secondary text-center font-mono">
-                        {searchTerm ? "NO WALLETS FOUND" : "NO WALLETS AVAILABLE"}
-                      </div>
-                    )}
-                  </div>
-                </div>
+                <WalletPicker
+                  wallets={wallets}
+                  solBalances={solBalances}
+                  tokenBalances={tokenBalances}
+                  selected={selectedWallets}
+                  onChange={setSelectedWallets}
+                  height={256}
+                />
 
                 {selectedWallets.length > 0 && (
                   <div className="bg-app-tertiary rounded-lg p-4 border border-app-primary-30 mt-4">
@@ -529,16 +439,15 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                       </button>
                     </div>
                     <div className="flex flex-wrap gap-2 mt-2">
-                      {selectedWallets.slice(0, 5).map((privateKey) => {
-                        const address = getAddressFromPrivateKey(privateKey);
+                      {selectedWallets.slice(0, 5).map((address) => {
                         return (
-                          <div key={privateKey} className="bg-app-secondary rounded px-2 py-1 text-xs font-mono text-app-primary flex items-center border border-app-primary-20">
+                          <div key={address} className="bg-app-secondary rounded px-2 py-1 text-xs font-mono text-app-primary flex items-center border border-app-primary-20">
                             {formatAddress(address)}
                             <button
                               type="button"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                toggleWalletSelection(privateKey);
+                                toggleWalletSelection(address);
                               }}
                               className="ml-1 text-app-secondary hover-color-primary-light"
                             >
@@ -601,6 +510,11 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                   <div className="flex flex-col items-center justify-center py-12">
                     <div className="h-12 w-12 border-4 border-app-primary-30 border-t-app-primary-color rounded-full animate-spin mb-4"></div>
                     <p className="text-app-primary font-mono">CALCULATING PNL ACROSS WALLETS...</p>
+                    {progress && (
+                      <p className="text-xs text-app-secondary font-mono mt-2">
+                        {progress.completed} / {progress.total} WALLETS SYNCED FROM CHAIN
+                      </p>
+                    )}
                   </div>
                 ) : (
                   <>
@@ -617,31 +531,48 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                                 PNL
                               </th>
                               <th className="px-4 py-3 text-right text-xs font-medium text-app-secondary uppercase tracking-wider border-b border-app-primary-30 font-mono">
-                                Balance
+                                Realized
+                              </th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-app-secondary uppercase tracking-wider border-b border-app-primary-30 font-mono">
+                                Unrealized
+                              </th>
+                              <th className="px-4 py-3 text-right text-xs font-medium text-app-secondary uppercase tracking-wider border-b border-app-primary-30 font-mono">
+                                Holding
                               </th>
                               <th className="px-4 py-3 text-right text-xs font-medium text-app-secondary uppercase tracking-wider border-b border-app-primary-30 font-mono">
-                                Last Update
+                                Fees + Tips
                               </th>
                             </tr>
                           </thead>
                           <tbody>
-                            {selectedWallets.map(privateKey => {
-                              const address = getAddressFromPrivateKey(privateKey);
+                            {selectedWallets.map(address => {
                               const data = pnlData[address];
                               const profit = data ? formatProfit(data.profit) : { text: '0.0000', class: 'text-app-secondary' };
+                              const details = walletPnl[address];
+                              const realized = details ? formatProfit(details.realizedSol) : null;
+                              const unrealized = details && details.unrealizedSol !== null ? formatProfit(details.unrealizedSol) : null;
                               return (
-                                <tr key={privateKey} className="border-b border-app-primary-20 last:border-b-0 hover:bg-app-secondary">
+                                <tr key={address} className="border-b border-app-primary-20 last:border-b-0 hover:bg-app-secondary">
                                   <td className="px-4 py-3 text-sm font-mono text-app-primary whitespace-nowrap glitch-text">
                                     {formatAddress(address)}
                                   </td>
                                   <td className={`px-4 py-3 text-sm text-right font-semibold whitespace-nowrap font-mono ${profit.class}`}>
                                     {data ? profit.text : '-'}
                                   </td>
-                                  <td className="px-4 py-3 text-sm text-right text-app-primary whitespace-nowrap font-mono">
-                                    -
+                                  <td className={`px-4 py-3 text-sm text-right whitespace-nowrap font-mono ${realized ? realized.class : 'text-app-secondary'}`}>
+                                    {realized ? realized.text : '-'}
+                                  </td>
+                                  <td className={`px-4 py-3 text-sm text-right whitespace-nowrap font-mono ${unrealized ? unrealized.class : 'text-app-secondary'}`}>
+                                    {unrealized ? unrealized.text : '-'}
+                                  </td>
+                                  <td
+                                    className="px-4 py-3 text-sm text-right text-app-primary whitespace-nowrap font-mono"
+                                    title={details && details.holdingTokens > 0 ? `Average cost ${details.averageCost.toPrecision(4)} SOL/token` : undefined}
+                                  >
+                                    {details ? details.holdingTokens.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '-'}
                                   </td>
                                   <td className="px-4 py-3 text-xs text-right text-app-secondary whitespace-nowrap font-mono">
-                                    {data ? formatTimestamp(data.timestamp) : '-'}
+                                    {details ? (details.feesSol + details.tipsSol).toFixed(4) : '-'}
                                   </td>
                                 </tr>
                               );
@@ -666,8 +597,7 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                           let worstAddress = '';
                           let worstProfit = Infinity;
                           
-                          selectedWallets.forEach(privateKey => {
-                            const address = getAddressFromPrivateKey(privateKey);
+                          selectedWallets.forEach(address => {
                             const data = pnlData[address];
                             if (data) {
                               totalProfit += data.profit;
@@ -768,10 +698,19 @@ export const PnlModal: React.FC<PnlModalProps> = ({
                             <span className="text-sm text-app-primary font-mono">{Object.keys(pnlData).length} / {selectedWallets.length}</span>
                           </div>
                           
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-app-secondary font-mono">COST BASIS:</span>
+                            <span className="text-sm text-app-primary font-mono">{costBasisMethod === 'fifo' ? 'FIFO' : 'AVERAGE'}</span>
+                          </div>
+                          
                           <div className="text-xs text-app-secondary mt-2 leading-relaxed font-mono">
-                            PNL data shows the calculated profit or loss for each wallet based on buys and sells.
+                            PNL in SOL from each wallet's on-chain history with this token. Fees, Jito tips and account rent count as costs. Unrealized PNL uses the chart price, or the wallet's last trade price when the chart has not reported one.
                           </div>
                           
+                          {pnlErrors.map((error, index) => (
+                            <div key={index} className="text-xs text-red-400 font-mono break-all">{error}</div>
+                          ))}
+                          
                           {Object.keys(pnlData).length < selectedWallets.length && (
                             <div className="flex items-center mt-2 p-2 bg-app-tertiary border border-app-primary-30 rounded text-xs text-app-primary font-mono">
                               <Info size={14} className="mr-1 flex-shrink-0 color-primary" />
@@ -2,9 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { CheckCircle, ChevronRight, X, DollarSign, Info, Search, Settings, ArrowDown, Trash2, Plus, PlusCircle } from 'lucide-react';
 import { getWallets, loadConfigFromCookies, getWalletDisplayName } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
 import { useToast } from "../Notifications";
 // Import the cleaner operation functions at the top of the file
 import { executeCleanerOperation, validateCleanerInputs, WalletInfo } from '../utils/cleaner';
+import { getTradingServerUrl } from '../utils/bundleClient';
+import { getMintInfo, getNetTransferAmount } from '../utils/balances';
+import { Connection } from '@solana/web3.js';
 
 
 const STEPS_BUYSELL = ['Configure Sellers', 'Configure Buyers', 'Review'];
@@ -61,7 +65,7 @@ export const CleanerTokensModal: React.FC<CleanerTokensModalProps> = ({
   // Current selection state
   const [currentSellerIndex, setCurrentSellerIndex] = useState(0);
 
-  const wallets = getWallets();
+  const wallets = getSigningWallets(getWallets());
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -112,7 +116,11 @@ export const CleanerTokensModal: React.FC<CleanerTokensModalProps> = ({
       }
         
       const savedConfig = loadConfigFromCookies();
-      const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+      const rpcUrl = savedConfig?.rpcEndpoint || "https://api.mainnet-beta.solana.com";
+      // Raw amount in the mint's decimals; a Token-2022 transfer fee is withheld before the pool sees it
+      const mintInfo = await getMintInfo(new Connection(rpcUrl), tokenAddress);
+      const netAmount = getNetTransferAmount(tokenAddress, tokenAmount);
+      const baseUrl = getTradingServerUrl();
       const response = await fetch(`${baseUrl}/api/tokens/route`, {
         method: 'POST',
         headers: {
@@ -122,8 +130,8 @@ export const CleanerTokensModal: React.FC<CleanerTokensModalProps> = ({
         body: JSON.stringify({
           action: "sell",
           tokenMintAddress: tokenAddress,
-          amount: Math.floor(tokenAmount * 1e9).toString(),
-          rpcUrl: savedConfig?.rpcEndpoint || "https://api.mainnet-beta.solana.com"
+          amount: Math.floor(netAmount * Math.pow(10, mintInfo.decimals)).toString(),
+          rpcUrl
         })
       });
       
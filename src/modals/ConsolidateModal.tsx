@@ -4,8 +4,10 @@ import { ArrowDown, X, CheckCircle, DollarSign, Info, Search, ChevronRight } fro
 import { Connection } from '@solana/web3.js';
 import { useToast } from "../Notifications";
 import { WalletType, getWalletDisplayName } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
 
 import { consolidateSOL, validateConsolidationInputs } from '../utils/consolidate';
+import { WalletGroupSelector } from '../WalletGroupSelector';
 
 interface ConsolidateModalProps {
   isOpen: boolean;
@@ -168,9 +170,9 @@ export const ConsolidateModal: React.FC<ConsolidateModalProps> = ({
     });
   };
 
-  // Get available wallets for consolidate source selection (exclude recipient)
+  // Get available wallets for consolidate source selection (exclude recipient and watch-only wallets)
   const getAvailableSourceWallets = () => {
-    return wallets.filter(wallet => 
+    return getSigningWallets(wallets).filter(wallet => 
       wallet.address !== selectedRecipientWallet && 
       (getWalletBalance(wallet.address) || 0) > 0
     );
@@ -567,6 +569,14 @@ export const ConsolidateModal: React.FC<ConsolidateModalProps> = ({
                       </select>
                     </div>
 
+                    <WalletGroupSelector
+                      wallets={getAvailableSourceWallets()}
+                      selected={selectedSourceWallets}
+                      onChange={setSelectedSourceWallets}
+                      getWalletKey={wallet => wallet.address}
+                      className="mb-2"
+                    />
+
                     <div className="h-52 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 group-hover:border-app-primary-40 scrollbar-thin">
                       {filterWallets(getAvailableSourceWallets(), sourceSearchTerm).length > 0 ? (
                         filterWallets(getAvailableSourceWallets(), sourceSearchTerm).map((wallet) => {
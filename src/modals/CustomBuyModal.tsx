@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { CheckCircle, ChevronRight, DollarSign, X, Info, Search } from 'lucide-react';
-import { getWallets, getWalletDisplayName } from '../Utils';
+import { CheckCircle, ChevronRight, DollarSign, X, Info } from 'lucide-react';
+import { getWallets, getWalletDisplayName, formatSolBalance } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
 import { useToast } from "../Notifications";
+import { formatConfirmationSummary } from '../utils/bundleTracker';
+import { WalletPicker } from '../WalletPicker';
 
 const STEPS_CUSTOMBUY = ['Select Wallets', 'Configure Buy', 'Review'];
 
@@ -42,18 +45,14 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
   const [isConfirmed, setIsConfirmed] = useState(false);
   const [tokenInfo, setTokenInfo] = useState<{ symbol: string } | null>(null);
   const [isLoadingTokenInfo, setIsLoadingTokenInfo] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
   const [showInfoTip, setShowInfoTip] = useState(false);
-  const [sortOption, setSortOption] = useState('address');
-  const [sortDirection, setSortDirection] = useState('asc');
-  const [balanceFilter, setBalanceFilter] = useState('all');
   const [bulkAmount, setBulkAmount] = useState('0.1');
   const [currentTransactionIndex, setCurrentTransactionIndex] = useState(0);
   const [transactionResults, setTransactionResults] = useState<any[]>([]);
   const [selectedProtocol, setSelectedProtocol] = useState<string>('auto'); // Default to auto
   const [bundleMode, setBundleMode] = useState<string>('batch'); // Default to batch
 
-  const wallets = getWallets();
+  const wallets = getSigningWallets(getWallets());
   const { showToast } = useToast();
 
   // DEX/Protocol options (removed auto option)
@@ -90,11 +89,6 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
     }
   ];
 
-  // Format SOL balance for display
-  const formatSolBalance = (balance: number) => {
-    return balance.toFixed(4);
-  };
-
   // Format token balance for display
   const formatTokenBalance = (balance: number | undefined) => {
     if (balance === undefined) return '0';
@@ -105,55 +99,11 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
     return balance.toLocaleString(undefined, { maximumFractionDigits: 4 });
   };
   
-  // Filter wallets based on search term, sort option, and balance filter
-  const filteredWallets = useMemo(() => {
+  // Only wallets with SOL can buy
+  const fundedWallets = useMemo(() => {
     if (!wallets) return [];
-    
-    // Apply search filter
-    let filtered = wallets;
-    if (searchTerm) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-    
-    // Always filter out wallets with zero SOL balance
-    filtered = filtered.filter(wallet => (solBalances.get(wallet.address) || 0) > 0);
-    
-    // Apply additional balance filter
-    if (balanceFilter !== 'all') {
-      if (balanceFilter === 'highBalance') {
-        filtered = filtered.filter(wallet => (solBalances.get(wallet.address) || 0) >= 0.1);
-      } else if (balanceFilter === 'lowBalance') {
-        filtered = filtered.filter(wallet => {
-          const balance = solBalances.get(wallet.address) || 0;
-          return balance < 0.1;
-        });
-      } else if (balanceFilter === 'hasToken') {
-        filtered = filtered.filter(wallet => (tokenBalances.get(wallet.address) || 0) > 0);
-      } else if (balanceFilter === 'noToken') {
-        filtered = filtered.filter(wallet => (tokenBalances.get(wallet.address) || 0) === 0);
-      }
-    }
-    
-    // Sort wallets
-    return filtered.sort((a, b) => {
-      if (sortOption === 'address') {
-        return sortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      } else if (sortOption === 'balance') {
-        const balanceA = solBalances.get(a.address) || 0;
-        const balanceB = solBalances.get(b.address) || 0;
-        return sortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      } else if (sortOption === 'tokenBalance') {
-        const balanceA = tokenBalances.get(a.address) || 0;
-        const balanceB = tokenBalances.get(b.address) || 0;
-        return sortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      }
-      return 0;
-    });
-  }, [wallets, searchTerm, balanceFilter, sortOption, sortDirection, solBalances, tokenBalances]);
+    return wallets.filter(wallet => (solBalances.get(wallet.address) || 0) > 0);
+  }, [wallets, solBalances]);
 
   useEffect(() => {
     if (isOpen) {
@@ -192,11 +142,7 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
     setBundleMode('batch');
     setIsConfirmed(false);
     setCurrentStep(0);
-    setSearchTerm('');
     setBulkAmount('0.1');
-    setSortOption('address');
-    setSortDirection('asc');
-    setBalanceFilter('all');
     setCurrentTransactionIndex(0);
     setTransactionResults([]);
   };
@@ -277,18 +223,28 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
       
       // Handle results
       if (result.success) {
-        showToast(`CUSTOM BUY completed successfully!`, 'success');
+        const outcome = result.confirmations ? ` (${formatConfirmationSummary(result.confirmations)})` : '';
+        showToast(`CUSTOM BUY completed successfully!${outcome}`, 'success');
         handleRefresh(); // Refresh balances
         
-        // Set success results for all wallets
+        // Set results for all wallets, using the on-chain outcome when it is known
         const successResults = selectedWallets.map(privateKey => {
           const walletAddress = getWalletAddressFromKey(privateKey);
           const amount = parseFloat(walletAmounts[privateKey]);
+          const confirmation = result.confirmations?.find(c => c.wallet === walletAddress);
+          if (confirmation && confirmation.status !== 'landed') {
+            return {
+              wallet: walletAddress,
+              amount,
+              success: false,
+              error: `Transaction ${confirmation.status}`
+            };
+          }
           return {
             wallet: walletAddress,
             amount,
             success: true,
-            result: 'Transaction completed'
+            result: confirmation ? 'Transaction landed' : 'Transaction completed'
           };
         });
         setTransactionResults(successResults);
@@ -324,28 +280,6 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
     }
   };
 
-  // Helper to handle wallet selection
-  const toggleWalletSelection = (privateKey: string) => {
-    setSelectedWallets(prev => {
-      if (prev.includes(privateKey)) {
-        return prev.filter(key => key !== privateKey);
-      } else {
-        return [...prev, privateKey];
-      }
-    });
-  };
-
-  // Helper to handle select/deselect all wallets
-  const handleSelectAllWallets = () => {
-    if (selectedWallets.length === filteredWallets.length) {
-      // If all are selected, deselect all
-      setSelectedWallets([]);
-    } else {
-      // Otherwise, select all
-      setSelectedWallets(filteredWallets.map(w => w.privateKey));
-    }
-  };
-
   // Helper to update amount for a specific wallet
   const handleWalletAmountChange = (wallet: string, value: string) => {
     if (value === '' || /^\d*\.?\d*$/.test(value)) {
@@ -376,11 +310,6 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
     }, 0).toFixed(4);
   };
 
-  // Format wallet address for display
-  const formatAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-6)}`;
-  };
-  
   // Get wallet display from private key
   const getWalletDisplayFromKey = (privateKey: string) => {
     const wallet = wallets.find(w => w.privateKey === privateKey);
@@ -582,103 +511,18 @@ export const CustomBuyModal: React.FC<CustomBuyModalProps> = ({
                   <label className="text-sm font-medium text-app-secondary group-hover:color-primary transition-colors duration-200 font-mono uppercase tracking-wider">
                     <span className="color-primary">&#62;</span> Available Wallets <span className="color-primary">&#60;</span>
                   </label>
-                  <button 
-                    onClick={handleSelectAllWallets}
-                    className="text-xs px-3 py-1 bg-app-tertiary hover:bg-app-secondary text-app-secondary hover:color-primary rounded border-app-primary-30 border hover:border-app-primary transition-all font-mono tracking-wider modal-btn-cyberpunk"
-                  >
-                    {selectedWallets.length === filteredWallets.length ? 'DESELECT ALL' : 'SELECT ALL'}
-                  </button>
                 </div>
                 
-                <div className="mb-3 flex space-x-2">
-                  <div className="relative flex-grow">
-                    <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                    <input
-                      type="text"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full pl-9 pr-4 py-2 bg-app-tertiary border-app-primary-30 border rounded-lg text-sm text-app-primary focus:outline-none focus:border-app-primary transition-all modal-input-cyberpunk font-mono"
-                      placeholder="SEARCH WALLETS..."
-                    />
-                  </div>
-                  
-                  <select 
-                    className="bg-app-tertiary border-app-primary-30 border rounded-lg px-2 text-sm text-app-primary focus:outline-none focus:border-app-primary modal-input-cyberpunk font-mono"
-                    value={sortOption}
-                    onChange={(e) => setSortOption(e.target.value)}
-                  >
-                    <option value="address">ADDRESS</option>
-                    <option value="balance">SOL BALANCE</option>
-                    <option value="tokenBalance">TOKEN BALANCE</option>
-                  </select>
-                  
-                  <button
-                    className="p-2 bg-app-tertiary border-app-primary-30 border rounded-lg text-app-secondary hover:color-primary hover:border-app-primary transition-all modal-btn-cyberpunk"
-                    onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
-                  >
-                    {sortDirection === 'asc' ? '↑' : '↓'}
-                  </button>
-                  
-                  <select 
-                    className="bg-app-tertiary border-app-primary-30 border rounded-lg px-2 text-sm text-app-primary focus:outline-none focus:border-app-primary modal-input-cyberpunk font-mono"
-                    value={balanceFilter}
-                    onChange={(e) => setBalanceFilter(e.target.value)}
-                  >
-                    <option value="all">ALL BALANCES</option>
-                    <option value="highBalance">HIGH SOL</option>
-                    <option value="lowBalance">LOW SOL</option>
-                    <option value="hasToken">HAS TOKEN</option>
-                    <option value="noToken">NO TOKEN</option>
-                  </select>
-                </div>
-              </div>
-              
-              <div className="max-h-64 overflow-y-auto border-app-primary-20 border rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 hover:border-app-primary-40 scrollbar-thin">
-                {filteredWallets.length > 0 ? (
-                  filteredWallets.map((wallet) => (
-                    <div
-                      key={wallet.id}
-                      onClick={() => toggleWalletSelection(wallet.privateKey)}
-                      className={`flex items-center p-2.5 hover:bg-app-secondary cursor-pointer transition-all duration-200 border-b border-app-primary-20 last:border-b-0
-                                ${selectedWallets.includes(wallet.privateKey) ? 'bg-primary-10 border-app-primary-30' : ''}`}
-                    >
-                      <div className={`w-5 h-5 mr-3 rounded flex items-center justify-center transition-all duration-300
-                                      ${selectedWallets.includes(wallet.privateKey)
-                                        ? 'bg-app-primary-color shadow-md shadow-app-primary-40' 
-                                        : 'border-app-primary-30 border bg-app-tertiary'}`}>
-                        {selectedWallets.includes(wallet.privateKey) && (
-                          <CheckCircle size={14} className="text-app-primary animate-[fadeIn_0.2s_ease]" />
-                        )}
-                      </div>
-                      <div className="flex-1 flex flex-col">
-                        <span className="font-mono text-sm text-app-primary glitch-text">{getWalletDisplayName(wallet)}</span>
-                        <div className="flex items-center gap-3 mt-0.5">
-                          <div className="flex items-center">
-                            <DollarSign size={12} className="text-app-secondary mr-1" />
-                            <span className="text-xs text-app-secondary font-mono">{formatSolBalance(getWalletBalance(wallet.address) || 0)} SOL</span>
-                          </div>
-                          <div className="flex items-center">
-                            <svg className="w-3 h-3 color-primary mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <circle cx="12" cy="12" r="10" />
-                              <path d="M12 8v8M8 12h8" />
-                            </svg>
-                            <span className="text-xs color-primary font-mono">{formatTokenBalance(tokenBalances.get(wallet.address))} TOKEN</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  ))
-                ) : (
-                  <div className="p-3 text-sm text-app-secondary text-center font-mono">
-                    NO WALLETS FOUND MATCHING FILTERS
-                  </div>
-                )}
-              </div>
-              
-              <div className="mt-2 flex items-center justify-between text-xs">
-                <span className="text-app-secondary font-mono">
-                  SELECTED: <span className="color-primary font-medium">{selectedWallets.length}</span> WALLETS
-                </span>
+                <WalletPicker
+                  wallets={fundedWallets}
+                  solBalances={solBalances}
+                  tokenBalances={tokenBalances}
+                  selected={selectedWallets}
+                  onChange={setSelectedWallets}
+                  getWalletKey={wallet => wallet.privateKey}
+                  emptyMessage="NO WALLETS WITH SOL"
+                  height={256}
+                />
               </div>
             </div>
           </div>
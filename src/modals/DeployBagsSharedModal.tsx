@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { PlusCircle, X, CheckCircle, Info, Search, ChevronRight, Settings, DollarSign, ArrowUp, ArrowDown, Upload, RefreshCw, Copy, Check, ExternalLink, Users, Percent } from 'lucide-react';
-import { getWallets, getWalletDisplayName, loadConfigFromCookies } from '../Utils';
+import { X, CheckCircle, Info, ChevronRight, Settings, DollarSign, ArrowUp, ArrowDown, Upload, RefreshCw, Copy, Check, ExternalLink, Users, Percent } from 'lucide-react';
+import { getWallets, getWalletDisplayName, formatSolBalance, loadConfigFromCookies } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
+import { WalletPicker } from '../WalletPicker';
 import { useToast } from "../Notifications";
 import { 
   executeSharedFeesBagsCreate, 
@@ -73,11 +75,7 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
     links: [] // Links array for Bags
   });
   const [walletAmounts, setWalletAmounts] = useState<Record<string, string>>({});
-  const [searchTerm, setSearchTerm] = useState('');
   const [showInfoTip, setShowInfoTip] = useState(false);
-  const [sortOption, setSortOption] = useState('address');
-  const [sortDirection, setSortDirection] = useState('asc');
-  const [balanceFilter, setBalanceFilter] = useState('all');
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Shared fees configuration state
@@ -245,7 +243,7 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
   };
 
   // Get all wallets and filter those with SOL balance > 0
-  const allWallets = getWallets();
+  const allWallets = getSigningWallets(getWallets());
   const wallets = allWallets.filter(wallet => (solBalances.get(wallet.address) || 0) > 0);
   const { showToast } = useToast();
 
@@ -264,42 +262,6 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
     }
   }, [isOpen]);
 
-  // Filter and sort wallets based on search term and other criteria
-  const filterWallets = (walletList, search: string) => {
-    // Apply search filter
-    let filtered = walletList;
-    if (search) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    // Apply balance filter
-    if (balanceFilter !== 'all') {
-      if (balanceFilter === 'nonZero') {
-        filtered = filtered.filter(wallet => (solBalances.get(wallet.address) || 0) > 0);
-      } else if (balanceFilter === 'highBalance') {
-        filtered = filtered.filter(wallet => (solBalances.get(wallet.address) || 0) >= 0.1);
-      } else if (balanceFilter === 'lowBalance') {
-        filtered = filtered.filter(wallet => (solBalances.get(wallet.address) || 0) < 0.1 && (solBalances.get(wallet.address) || 0) > 0);
-      }
-    }
-    
-    // Sort the wallets
-    return filtered.sort((a, b) => {
-      if (sortOption === 'address') {
-        return sortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      } else if (sortOption === 'balance') {
-        const balanceA = solBalances.get(a.address) || 0;
-        const balanceB = solBalances.get(b.address) || 0;
-        return sortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      }
-      return 0;
-    });
-  };
-
   const handleWalletSelection = (privateKey: string) => {
     setSelectedWallets(prev => {
       if (prev.includes(privateKey)) {
@@ -877,16 +839,6 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
     }
   };
 
-  // Format wallet address for display
-  const formatAddress = (address: string) => {
-    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
-  };
-
-  // Format SOL balance for display
-  const formatSolBalance = (balance: number) => {
-    return balance.toFixed(4);
-  };
-
   // Calculate total SOL to be used
   const calculateTotalAmount = () => {
     return selectedWallets.reduce((total, wallet) => {
@@ -1215,47 +1167,6 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
               </div>
             </div>
   
-            {/* Search and Filter Controls */}
-            <div className="flex items-center space-x-3 mb-3">
-              <div className="relative flex-grow">
-                <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                <input
-                  type="text"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full pl-9 pr-4 py-2.5 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
-                  placeholder="SEARCH WALLETS..."
-                />
-              </div>
-              
-              <select 
-                className="bg-app-tertiary border border-app-primary-30 rounded-lg px-3 py-2.5 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                value={sortOption}
-                onChange={(e) => setSortOption(e.target.value)}
-              >
-                <option value="address">ADDRESS</option>
-                <option value="balance">BALANCE</option>
-              </select>
-              
-              <button
-                className="p-2.5 bg-app-tertiary border border-app-primary-30 rounded-lg text-app-secondary hover-border-primary hover:color-primary transition-all modal-btn-cyberpunk flex items-center justify-center"
-                onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
-              >
-                {sortDirection === 'asc' ? <ArrowUp size={16} /> : <ArrowDown size={16} />}
-              </button>
-
-              <select 
-                className="bg-app-tertiary border border-app-primary-30 rounded-lg px-3 py-2.5 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                value={balanceFilter}
-                onChange={(e) => setBalanceFilter(e.target.value)}
-              >
-                <option value="all">ALL BALANCES</option>
-                <option value="nonZero">NON-ZERO</option>
-                <option value="highBalance">HIGH BALANCE</option>
-                <option value="lowBalance">LOW BALANCE</option>
-              </select>
-            </div>
-
             {/* Wallet Selection Limit Info */}
             <div className="bg-app-tertiary border border-app-primary-40 rounded-lg p-3 mb-3 shadow-lg">
               <div className="flex items-center gap-2">
@@ -1382,37 +1293,15 @@ export const DeployBagsSharedFeesModal: React.FC<DeployBagsSharedFeesModalProps>
                       <div className="text-sm font-medium text-app-secondary mb-2 font-mono uppercase tracking-wider">
                         <span className="color-primary">&#62;</span> Available Wallets <span className="color-primary">&#60;</span>
                       </div>
-                      {filterWallets(wallets.filter(w => !selectedWallets.includes(w.privateKey)), searchTerm).map((wallet) => {
-                        const solBalance = solBalances.get(wallet.address) || 0;
-                        
-                        return (
-                          <div
-                            key={wallet.id}
-                            className="flex items-center justify-between p-3 rounded-lg border border-app-primary-40 hover-border-primary hover:bg-app-tertiary transition-all duration-200 mb-2 cursor-pointer"
-                            onClick={() => handleWalletSelection(wallet.privateKey)}
-                          >
-                            <div className="flex items-center gap-4">
-                              <div className="w-5 h-5 rounded-full border border-app-primary-40 flex items-center justify-center cursor-pointer hover-border-primary transition-all">
-                                <PlusCircle size={14} className="text-app-secondary" />
-                              </div>
-                              <div className="space-y-1">
-                                <span className="text-sm font-medium text-app-primary font-mono glitch-text">
-                                  {getWalletDisplayName(wallet)}
-                                </span>
-                                <div className="flex items-center gap-2">
-                                  <span className="text-sm text-app-secondary font-mono">BALANCE:</span>
-                                  <span className="text-sm font-medium text-app-primary font-mono">{formatSolBalance(solBalance)} SOL</span>
-                                </div>
-                              </div>
-                            </div>
-                          </div>
-                        );
-                      })}
-                      {filterWallets(wallets.filter(w => !selectedWallets.includes(w.privateKey)), searchTerm).length === 0 && (
-                        <div className="text-center py-4 text-app-secondary font-mono">
-                          {searchTerm ? "NO WALLETS FOUND MATCHING YOUR SEARCH" : "NO WALLETS AVAILABLE"}
-                        </div>
-                      )}
+                      <WalletPicker
+                        wallets={wallets.filter(w => !selectedWallets.includes(w.privateKey))}
+                        solBalances={solBalances}
+                        selected={selectedWallets}
+                        onChange={setSelectedWallets}
+                        getWalletKey={wallet => wallet.privateKey}
+                        maxSelected={MAX_WALLETS}
+                        onLimitReached={max => showToast(`Maximum ${max} wallets can be selected`, "error")}
+                      />
                     </div>
                   )}
                   
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { DollarSign, X, CheckCircle, Wallet, Info, Search, ChevronRight } from 'lucide-react';
+import { DollarSign, X, CheckCircle, Wallet, Info, ChevronRight } from 'lucide-react';
 import { Connection, PublicKey, LAMPORTS_PER_SOL, SystemProgram, Transaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { useToast } from "../Notifications";
-import { WalletType, getWalletDisplayName } from '../Utils';
+import { WalletType, formatAddress, formatSolBalance } from '../Utils';
+import { WalletPicker } from '../WalletPicker';
 
 interface DepositModalProps {
   isOpen: boolean;
@@ -28,10 +29,6 @@ export const DepositModal: React.FC<DepositModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [isConfirmed, setIsConfirmed] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortOption, setSortOption] = useState('address');
-  const [sortDirection, setSortDirection] = useState('asc');
-  const [balanceFilter, setBalanceFilter] = useState('all');
   const [showInfoTip, setShowInfoTip] = useState(false);
   const { showToast } = useToast();
 
@@ -42,16 +39,6 @@ export const DepositModal: React.FC<DepositModalProps> = ({
     }
   }, [isOpen]);
 
-  // Format SOL balance for display
-  const formatSolBalance = (balance: number) => {
-    return balance.toFixed(4);
-  };
-
-  // Format wallet address for display
-  const formatAddress = (address: string) => {
-    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
-  };
-
   // Get wallet SOL balance by address
   const getWalletBalance = (address: string): number => {
     return solBalances.has(address) ? (solBalances.get(address) ?? 0) : 0;
@@ -63,10 +50,6 @@ export const DepositModal: React.FC<DepositModalProps> = ({
     setSelectedWallet('');
     setAmount('');
     setIsConfirmed(false);
-    setSearchTerm('');
-    setSortOption('address');
-    setSortDirection('asc');
-    setBalanceFilter('all');
     // Don't reset publicKey as the user might want to make multiple deposits
   };
 
@@ -160,42 +143,6 @@ export const DepositModal: React.FC<DepositModalProps> = ({
     }
   };
 
-  // Filter and sort wallets based on search term and other criteria
-  const filterWallets = (walletList: WalletType[], search: string) => {
-    // First apply search filter
-    let filtered = walletList;
-    if (search) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    // Then apply balance filter
-    if (balanceFilter !== 'all') {
-      if (balanceFilter === 'nonZero') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) > 0);
-      } else if (balanceFilter === 'highBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) >= 0.1);
-      } else if (balanceFilter === 'lowBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) < 0.1 && (getWalletBalance(wallet.address) || 0) > 0);
-      }
-    }
-    
-    // Finally, sort the wallets
-    return filtered.sort((a, b) => {
-      if (sortOption === 'address') {
-        return sortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      } else if (sortOption === 'balance') {
-        const balanceA = getWalletBalance(a.address) || 0;
-        const balanceB = getWalletBalance(b.address) || 0;
-        return sortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      }
-      return 0;
-    });
-  };
-
   // If modal is not open, don't render anything
   if (!isOpen) return null;
 
@@ -406,68 +353,14 @@ export const DepositModal: React.FC<DepositModalProps> = ({
                   )}
                 </div>
 
-                {/* Search, Sort, and Filter Options */}
-                <div className="mb-2 flex space-x-2">
-                  <div className="relative flex-grow">
-                    <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                    <input
-                      type="text"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full pl-9 pr-4 py-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
-                      placeholder="SEARCH WALLETS..."
-                    />
-                  </div>
-                  
-                  <select 
-                    className="bg-app-tertiary border border-app-primary-30 rounded-lg px-2 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                    value={sortOption}
-                    onChange={(e) => setSortOption(e.target.value)}
-                  >
-                    <option value="address">ADDRESS</option>
-                    <option value="balance">BALANCE</option>
-                  </select>
-                  
-                  <button
-                    className="p-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-app-secondary hover:color-primary hover-border-primary transition-all modal-btn-cyberpunk"
-                    onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
-                  >
-                    {sortDirection === 'asc' ? '↑' : '↓'}
-                  </button>
-                </div>
-
-                <div className="max-h-40 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 group-hover:border-app-primary-40 scrollbar-thin">
-                  {filterWallets(wallets, searchTerm).length > 0 ? (
-                    filterWallets(wallets, searchTerm).map((wallet) => (
-                      <div 
-                        key={wallet.id}
-                        className={`flex items-center p-2.5 hover:bg-app-secondary cursor-pointer transition-all duration-200 border-b border-app-primary-20 last:border-b-0
-                                  ${selectedWallet === wallet.address ? 'bg-primary-10 border-app-primary-30' : ''}`}
-                        onClick={() => setSelectedWallet(wallet.address)}
-                      >
-                        <div className={`w-5 h-5 mr-3 rounded flex items-center justify-center transition-all duration-300
-                                        ${selectedWallet === wallet.address
-                                          ? 'bg-app-primary-color shadow-md shadow-app-primary-40' 
-                                          : 'border border-app-primary-30 bg-app-tertiary'}`}>
-                          {selectedWallet === wallet.address && (
-                            <CheckCircle size={14} className="text-app-primary animate-[fadeIn_0.2s_ease]" />
-                          )}
-                        </div>
-                        <div className="flex-1 flex flex-col">
-                          <span className="font-mono text-sm text-app-primary glitch-text">{getWalletDisplayName(wallet)}</span>
-                          <div className="flex items-center mt-0.5">
-                            <DollarSign size={12} className="text-app-secondary mr-1" />
-                            <span className="text-xs text-app-secondary font-mono">{formatSolBalance(getWalletBalance(wallet.address) || 0)} SOL</span>
-                          </div>
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="p-3 text-sm text-app-secondary text-center font-mono">
-                      {searchTerm ? "NO WALLETS FOUND" : "NO WALLETS AVAILABLE"}
-                    </div>
-                  )}
-                </div>
+                <WalletPicker
+                  wallets={wallets}
+                  solBalances={solBalances}
+                  mode="single"
+                  selected={selectedWallet ? [selectedWallet] : []}
+                  onChange={(selected) => setSelectedWallet(selected[0] || '')}
+                  height={160}
+                />
                 {selectedWallet && (
                   <div className="mt-1.5 flex items-center gap-1.5 text-xs font-medium pl-1">
                     <span className="text-app-secondary font-mono">CURRENT BALANCE:</span>
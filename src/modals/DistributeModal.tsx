@@ -5,6 +5,9 @@ import { Connection } from '@solana/web3.js';
 import { useToast } from "../Notifications";
 import { WalletType, getWalletDisplayName } from '../Utils';
 import { batchDistributeSOL, validateDistributionInputs } from '../utils/distribute';
+import { formatConfirmationSummary } from '../utils/bundleTracker';
+import { WalletGroupSelector } from '../WalletGroupSelector';
+import { getSigningWallets } from '../utils/wallets';
 
 interface DistributeModalProps {
   isOpen: boolean;
@@ -184,7 +187,7 @@ export const DistributeModal: React.FC<DistributeModalProps> = ({
         amount: '0' // Not used for sender
       };
 
-      // Prepare recipient wallets with their private keys and amounts
+      // Prepare recipient wallets with their amounts and, when we hold it, their private key
       const recipientWallets = walletAmounts
         .filter(wallet => selectedRecipientWallets.includes(wallet.address))
         .map(wallet => ({
@@ -192,7 +195,7 @@ export const DistributeModal: React.FC<DistributeModalProps> = ({
           privateKey: getPrivateKeyByAddress(wallet.address),
           amount: wallet.amount
         }))
-        .filter(wallet => wallet.privateKey && wallet.amount);
+        .filter(wallet => wallet.amount);
 
       // Validate all inputs
       const validation = validateDistributionInputs(
@@ -211,7 +214,8 @@ export const DistributeModal: React.FC<DistributeModalProps> = ({
       const result = await batchDistributeSOL(senderWallet, recipientWallets);
       
       if (result.success) {
-        showToast("SOL distributed successfully", "success");
+        const outcome = result.confirmations?.length ? ` (${formatConfirmationSummary(result.confirmations)})` : "";
+        showToast(`SOL distributed successfully${outcome}`, "success");
         resetForm();
         onClose();
       } else {
@@ -241,9 +245,9 @@ export const DistributeModal: React.FC<DistributeModalProps> = ({
     return wallets.filter(wallet => wallet.address !== selectedSenderWallet);
   };
 
-  // Get available wallets for sender selection in distribute (exclude recipients and zero balance wallets)
+  // Get available wallets for sender selection in distribute (exclude recipients, watch-only and zero balance wallets)
   const getAvailableSenderWallets = () => {
-    return wallets.filter(wallet => 
+    return getSigningWallets(wallets).filter(wallet => 
       !selectedRecipientWallets.includes(wallet.address) && 
       (getWalletBalance(wallet.address) || 0) > 0
     );
@@ -642,6 +646,14 @@ export const DistributeModal: React.FC<DistributeModalProps> = ({
                     </select>
                   </div>
 
+                  <WalletGroupSelector
+                    wallets={getAvailableRecipientWallets()}
+                    selected={selectedRecipientWallets}
+                    onChange={setSelectedRecipientWallets}
+                    getWalletKey={wallet => wallet.address}
+                    className="mb-2"
+                  />
+
                   <div className="max-h-48 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 hover-border-primary-40 scrollbar-thin">
                     {filterWallets(getAvailableRecipientWallets(), searchTerm).length > 0 ? (
                       filterWallets(getAvailableRecipientWallets(), searchTerm).map((wallet) => (
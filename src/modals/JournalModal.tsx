@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { X, History, Search, Download, CheckCircle, AlertCircle, Clock, FlaskConical } from 'lucide-react';
+import {
+  loadJournal,
+  filterJournal,
+  downloadJournal,
+  JOURNAL_EVENT,
+  JournalEntry,
+  JournalOperation,
+  JournalStatus
+} from '../utils/journal';
+
+interface JournalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const OPERATIONS: JournalOperation[] = [
+  'buy',
+  'sell',
+  'transfer',
+  'burn',
+  'distribute',
+  'consolidate',
+  'cleaner',
+  'limit-order',
+  'deploy',
+  'automation'
+];
+
+const STATUSES: JournalStatus[] = ['landed', 'partial', 'submitted', 'failed', 'simulated'];
+
+const formatAddress = (address: string) => address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '--';
+
+// Date inputs give YYYY-MM-DD; the range covers whole local days
+const parseDay = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return endOfDay ? date.getTime() - 1 : date.getTime();
+};
+
+const StatusIcon: React.FC<{ status: JournalStatus }> = ({ status }) => {
+  switch (status) {
+    case 'landed':
+      return <CheckCircle size={14} className="color-primary" />;
+    case 'failed':
+      return <AlertCircle size={14} className="text-error-alt" />;
+    case 'simulated':
+      return <FlaskConical size={14} className="text-app-secondary" />;
+    default:
+      return <Clock size={14} className="text-app-secondary" />;
+  }
+};
+
+export const JournalModal: React.FC<JournalModalProps> = ({
+  isOpen,
+  onClose
+}) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [operation, setOperation] = useState<JournalOperation | 'all'>('all');
+  const [status, setStatus] = useState<JournalStatus | 'all'>('all');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  // Load on open and prepend entries written while the history is showing
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    loadJournal().then(loaded => {
+      setEntries(loaded);
+      setIsLoading(false);
+    });
+
+    const handleEntryAdded = (event: CustomEvent<JournalEntry>) => {
+      setEntries(prev => [event.detail, ...prev]);
+    };
+
+    window.addEventListener(JOURNAL_EVENT, handleEntryAdded as EventListener);
+    return () => window.removeEventListener(JOURNAL_EVENT, handleEntryAdded as EventListener);
+  }, [isOpen]);
+
+  const filteredEntries = useMemo(() => filterJournal(entries, {
+    query,
+    operation,
+    status,
+    from: parseDay(fromDay, false),
+    to: parseDay(toDay, true)
+  }), [entries, query, operation, status, fromDay, toDay]);
+
+  if (!isOpen) return null;
+
+  const inputClass = 'bg-app-secondary border border-app-primary-30 rounded px-2 py-1.5 text-xs text-app-primary font-mono focus:outline-none focus:border-app-primary';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-4xl overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <History size={16} className="color-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> OPERATION HISTORY <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadJournal(filteredEntries, 'csv')}
+              disabled={filteredEntries.length === 0}
+              className="flex items-center gap-1 text-xs font-mono text-app-secondary hover:color-primary transition-colors px-2 py-1 hover:bg-primary-20 rounded disabled:opacity-50"
+              title="Export shown entries as CSV"
+            >
+              <Download size={14} /> CSV
+            </button>
+            <button
+              onClick={() => downloadJournal(filteredEntries, 'json')}
+              disabled={filteredEntries.length === 0}
+              className="flex items-center gap-1 text-xs font-mono text-app-secondary hover:color-primary transition-colors px-2 py-1 hover:bg-primary-20 rounded disabled:opacity-50"
+              title="Export shown entries as JSON"
+            >
+              <Download size={14} /> JSON
+            </button>
+            <button
+              onClick={onClose}
+              className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="relative z-10 p-4 border-b border-app-primary-40 grid grid-cols-2 sm:grid-cols-5 gap-2">
+          <div className="relative col-span-2">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-app-secondary-60" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Token, wallet, signature, bundle..."
+              className={`${inputClass} w-full pl-7`}
+            />
+          </div>
+          <select
+            value={operation}
+            onChange={(e) => setOperation(e.target.value as JournalOperation | 'all')}
+            className={inputClass}
+          >
+            <option value="all">All operations</option>
+            {OPERATIONS.map(op => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as JournalStatus | 'all')}
+            className={inputClass}
+          >
+            <option value="all">All statuses</option>
+            {STATUSES.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <div className="flex gap-1 col-span-2 sm:col-span-1">
+            <input
+              type="date"
+              value={fromDay}
+              onChange={(e) => setFromDay(e.target.value)}
+              className={`${inputClass} w-1/2`}
+              title="From"
+            />
+            <input
+              type="date"
+              value={toDay}
+              onChange={(e) => setToDay(e.target.value)}
+              className={`${inputClass} w-1/2`}
+              title="To"
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="relative z-10 p-5 space-y-2 max-h-[60vh] overflow-y-auto cyberpunk-scrollbar">
+          <div className="text-xs text-app-secondary-60 font-mono">
+            {isLoading ? 'Loading...' : `${filteredEntries.length} of ${entries.length} entries`}
+          </div>
+
+          {!isLoading && filteredEntries.length === 0 && (
+            <div className="text-center py-6 text-app-secondary-60 font-mono text-sm">
+              No operations recorded
+            </div>
+          )}
+
+          {filteredEntries.map(entry => (
+            <div key={entry.id} className="bg-app-secondary border border-app-primary-30 rounded-lg p-3 space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 font-mono text-sm">
+                  <StatusIcon status={entry.status} />
+                  <span className="text-app-primary uppercase">{entry.operation}</span>
+                  <span className="text-app-secondary-60 text-xs">{entry.status}</span>
+                  {entry.tokenAddress && (
+                    <span className="text-app-secondary text-xs">{formatAddress(entry.tokenAddress)}</span>
+                  )}
+                </div>
+                <span className="text-xs text-app-secondary font-mono">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </span>
+              </div>
+
+              {entry.details && (
+                <div className="text-xs text-app-secondary font-mono break-all">{entry.details}</div>
+              )}
+
+              {entry.error && (
+                <div className="text-xs text-error-alt font-mono break-all">{entry.error}</div>
+              )}
+
+              <details>
+                <summary className="text-xs text-app-secondary-60 font-mono cursor-pointer">
+                  {entry.wallets.length} wallets, {entry.signatures.length} signatures, {entry.bundleIds.length} bundles
+                  {entry.tipLamports !== undefined && `, tip ${(entry.tipLamports / 1e9).toFixed(6)} SOL`}
+                </summary>
+                <div className="mt-1 space-y-1 text-xs font-mono text-app-secondary break-all">
+                  {entry.amounts.map((amount, index) => (
+                    <div key={`amount-${index}`}>
+                      {amount.wallet ? `${formatAddress(amount.wallet)}: ` : ''}{amount.amount} {amount.unit}
+                    </div>
+                  ))}
+                  {entry.signatures.map(signature => (
+                    <div key={signature}>{signature}</div>
+                  ))}
+                  {entry.bundleIds.map(bundleId => (
+                    <div key={bundleId} className="text-app-secondary-60">bundle {bundleId}</div>
+                  ))}
+                </div>
+              </details>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
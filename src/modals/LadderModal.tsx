@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Layers, Loader2 } from 'lucide-react';
+import { WalletType } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
+import { useToast } from '../Notifications';
+import { WalletPicker } from '../WalletPicker';
+import { getOrderMintInfo, LimitOrderSide, OrderMintInfo } from '../utils/limitorders';
+import {
+  buildLadderOrders,
+  submitLadder,
+  validateLadderConfig,
+  LadderConfig,
+  LadderSpacing,
+  LADDER_BATCH_SIZE,
+  MAX_LADDER_LEVELS
+} from '../utils/limitLadder';
+
+interface LadderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tokenAddress: string;
+  wallets: WalletType[];
+  solBalances: Map<string, number>;
+  tokenBalances: Map<string, number>;
+  initialSide?: LimitOrderSide;
+}
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const formatLadderPrice = (price: number) => price < 1 ? price.toPrecision(4) : price.toFixed(4);
+
+export const LadderModal: React.FC<LadderModalProps> = ({
+  isOpen,
+  onClose,
+  tokenAddress,
+  wallets,
+  solBalances,
+  tokenBalances,
+  initialSide = 'buy'
+}) => {
+  const { showToast } = useToast();
+  const [side, setSide] = useState<LimitOrderSide>(initialSide);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [levels, setLevels] = useState('5');
+  const [spacing, setSpacing] = useState<LadderSpacing>('linear');
+  const [totalSize, setTotalSize] = useState('');
+  const [selectedWallets, setSelectedWallets] = useState<string[]>([]);
+  const [mints, setMints] = useState<{ sol: OrderMintInfo; token: OrderMintInfo } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+
+  const signingWallets = useMemo(() => getSigningWallets(wallets), [wallets]);
+
+  // Start from the active wallets each time the builder opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSide(initialSide);
+    setSelectedWallets(signingWallets.filter(wallet => wallet.isActive).map(wallet => wallet.address));
+    setProgress(null);
+    setSubmitErrors([]);
+  }, [isOpen]);
+
+  useEffect(() => {
+    setMints(null);
+    if (!isOpen || !tokenAddress) return;
+
+    let cancelled = false;
+    Promise.all([getOrderMintInfo(SOL_MINT), getOrderMintInfo(tokenAddress)])
+      .then(([sol, token]) => { if (!cancelled) setMints({ sol, token }); })
+      .catch(error => console.error('Error loading token mint:', error));
+    return () => { cancelled = true; };
+  }, [isOpen, tokenAddress]);
+
+  const config: LadderConfig = {
+    side,
+    tokenAddress,
+    minPrice: parseFloat(minPrice) || 0,
+    maxPrice: parseFloat(maxPrice) || 0,
+    levels: parseInt(levels) || 0,
+    spacing,
+    totalSize: parseFloat(totalSize) || 0,
+    wallets: selectedWallets
+  };
+  const errors = validateLadderConfig(config);
+
+  const orders = useMemo(() => {
+    if (errors.length > 0 || !mints) return [];
+    return buildLadderOrders(config, side === 'buy'
+      ? { input: mints.sol, output: mints.token }
+      : { input: mints.token, output: mints.sol });
+  }, [side, tokenAddress, minPrice, maxPrice, levels, spacing, totalSize, selectedWallets, mints, errors.length]);
+
+  // One preview row per level; every wallet gets the same order at that level
+  const levelRows = useMemo(() => {
+    const rows = new Map<number, { price: number; count: number; making: number; taking: number }>();
+    orders.forEach(order => {
+      const row = rows.get(order.level) || { price: order.price, count: 0, making: 0, taking: 0 };
+      row.count++;
+      row.making += parseFloat(order.makingAmount);
+      row.taking += parseFloat(order.takingAmount);
+      rows.set(order.level, row);
+    });
+    return Array.from(rows.values());
+  }, [orders]);
+
+  if (!isOpen) return null;
+
+  const sizeUnit = side === 'buy' ? 'SOL' : 'tokens';
+  const receiveUnit = side === 'buy' ? 'tokens' : 'SOL';
+  const bundleCount = Math.ceil(orders.length / LADDER_BATCH_SIZE);
+  const inputClass = 'w-full bg-app-secondary border border-app-primary-30 rounded px-2 py-1.5 text-xs text-app-primary font-mono focus:outline-none focus:border-app-primary disabled:opacity-50';
+
+  const handleSubmit = async () => {
+    if (errors.length > 0 || orders.length === 0) return;
+
+    setIsSubmitting(true);
+    setSubmitErrors([]);
+    setProgress({ processed: 0, total: orders.length });
+    try {
+      const makers = signingWallets
+        .filter(wallet => selectedWallets.includes(wallet.address))
+        .map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+      const result = await submitLadder(config, makers, (processed, total) => setProgress({ processed, total }));
+
+      setSubmitErrors(result.errors);
+      if (result.placed === 0) {
+        showToast('No ladder orders were placed', 'error');
+      } else if (result.errors.length > 0) {
+        showToast(`Placed ${result.placed} of ${orders.length} ladder orders`, 'error');
+      } else {
+        showToast(`Placed ${result.placed} ladder orders`, 'success');
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error submitting ladder:', error);
+      setSubmitErrors([error instanceof Error ? error.message : 'Unknown error occurred']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-3xl overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <Layers size={16} className="color-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> LIMIT LADDER <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="relative z-10 p-5 space-y-4 max-h-[75vh] overflow-y-auto cyberpunk-scrollbar">
+          {/* Ladder settings */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Side</label>
+              <div className="flex gap-1">
+                {(['buy', 'sell'] as const).map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setSide(value)}
+                    disabled={isSubmitting}
+                    className={`flex-1 px-2 py-1.5 text-xs font-mono rounded border transition-colors
+                              ${side === value
+                                ? 'bg-primary-20 border-app-primary color-primary'
+                                : 'border-app-primary-30 text-app-secondary hover:text-app-primary'}`}
+                  >
+                    {value.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Lowest Price (SOL)</label>
+              <input
+                type="text"
+                value={minPrice}
+                onChange={(e) => setMinPrice(e.target.value.replace(/[^0-9.]/g, ''))}
+                disabled={isSubmitting}
+                placeholder="0.0"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Highest Price (SOL)</label>
+              <input
+                type="text"
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(e.target.value.replace(/[^0-9.]/g, ''))}
+                disabled={isSubmitting}
+                placeholder="0.0"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Levels</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_LADDER_LEVELS}
+                step="1"
+                value={levels}
+                onChange={(e) => setLevels(e.target.value)}
+                disabled={isSubmitting}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Spacing</label>
+              <select
+                value={spacing}
+                onChange={(e) => setSpacing(e.target.value as LadderSpacing)}
+                disabled={isSubmitting}
+                className={inputClass}
+              >
+                <option value="linear">Linear (equal SOL steps)</option>
+                <option value="geometric">Geometric (equal % steps)</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Total Size ({sizeUnit})</label>
+              <input
+                type="text"
+                value={totalSize}
+                onChange={(e) => setTotalSize(e.target.value.replace(/[^0-9.]/g, ''))}
+                disabled={isSubmitting}
+                placeholder="0.0"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Wallets */}
+          <div className="space-y-1">
+            <label className="text-xs text-app-secondary font-mono uppercase">
+              Wallets ({selectedWallets.length})
+            </label>
+            <WalletPicker
+              wallets={signingWallets}
+              solBalances={solBalances}
+              tokenBalances={tokenBalances}
+              selected={selectedWallets}
+              onChange={setSelectedWallets}
+              height={176}
+            />
+          </div>
+
+          {/* Preview */}
+          {errors.length > 0 ? (
+            <div className="space-y-1">
+              {errors.map(error => (
+                <div key={error} className="text-xs text-error-alt font-mono">{error}</div>
+              ))}
+            </div>
+          ) : !mints ? (
+            <div className="flex items-center gap-2 text-xs text-app-secondary font-mono">
+              <Loader2 size={12} className="animate-spin" /> Loading token decimals...
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="text-xs text-app-secondary font-mono">
+                {orders.length} orders ({levelRows.length} levels x {selectedWallets.length} wallets) in {bundleCount} bundle{bundleCount === 1 ? '' : 's'}
+              </div>
+              <div className="border border-app-primary-30 rounded-lg overflow-hidden">
+                <table className="w-full text-xs font-mono">
+                  <thead className="bg-app-secondary text-app-secondary">
+                    <tr>
+                      <th className="text-left px-3 py-2">LEVEL</th>
+                      <th className="text-right px-3 py-2">PRICE (SOL)</th>
+                      <th className="text-right px-3 py-2">ORDERS</th>
+                      <th className="text-right px-3 py-2">{side === 'buy' ? 'SPEND' : 'SELL'} ({sizeUnit})</th>
+                      <th className="text-right px-3 py-2">RECEIVE ({receiveUnit})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {levelRows.map((row, index) => (
+                      <tr key={index} className="border-t border-app-primary-20 text-app-primary">
+                        <td className="px-3 py-1.5">{index + 1}</td>
+                        <td className="px-3 py-1.5 text-right color-primary">{formatLadderPrice(row.price)}</td>
+                        <td className="px-3 py-1.5 text-right">{row.count}</td>
+                        <td className="px-3 py-1.5 text-right">{row.making.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                        <td className="px-3 py-1.5 text-right">{row.taking.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {submitErrors.length > 0 && (
+            <div className="bg-error-20 border border-error-alt-40 rounded-lg p-3 space-y-1">
+              {submitErrors.map((error, index) => (
+                <div key={index} className="text-xs text-error-alt font-mono break-all">{error}</div>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || errors.length > 0 || orders.length === 0}
+            className="w-full px-4 py-2 text-sm font-mono tracking-wider rounded-lg bg-app-primary-color text-black font-medium
+                     hover:bg-app-primary-dark transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                PLACING {progress ? `${progress.processed}/${progress.total}` : ''}...
+              </span>
+            ) : (
+              `PLACE ${orders.length} ${side.toUpperCase()} ORDERS`
+            )}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { X, GitBranch, Loader2 } from 'lucide-react';
+import { WalletType } from '../Utils';
+import { getSigningWallets } from '../utils/wallets';
+import { useToast } from '../Notifications';
+import { WalletPicker } from '../WalletPicker';
+import {
+  submitLinkedOrders,
+  validateLinkedOrderConfig,
+  LinkedOrderConfig,
+  LinkedOrderKind
+} from '../utils/linkedOrders';
+
+interface LinkedOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tokenAddress: string;
+  wallets: WalletType[];
+  solBalances: Map<string, number>;
+  tokenBalances: Map<string, number>;
+}
+
+const formatSol = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+export const LinkedOrderModal: React.FC<LinkedOrderModalProps> = ({
+  isOpen,
+  onClose,
+  tokenAddress,
+  wallets,
+  solBalances,
+  tokenBalances
+}) => {
+  const { showToast } = useToast();
+  const [kind, setKind] = useState<LinkedOrderKind>('oco');
+  const [amount, setAmount] = useState('');
+  const [entryPrice, setEntryPrice] = useState('');
+  const [takeProfitPrice, setTakeProfitPrice] = useState('');
+  const [stopLossPrice, setStopLossPrice] = useState('');
+  const [selectedWallets, setSelectedWallets] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+
+  const signingWallets = useMemo(() => getSigningWallets(wallets), [wallets]);
+
+  // Start from the active wallets each time the form opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedWallets(signingWallets.filter(wallet => wallet.isActive).map(wallet => wallet.address));
+    setProgress(null);
+    setSubmitErrors([]);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const config: LinkedOrderConfig = {
+    kind,
+    tokenAddress,
+    amount: parseFloat(amount) || 0,
+    entryPrice: kind === 'bracket' ? parseFloat(entryPrice) || 0 : undefined,
+    takeProfitPrice: parseFloat(takeProfitPrice) || 0,
+    stopLossPrice: parseFloat(stopLossPrice) || 0,
+    wallets: selectedWallets
+  };
+  const errors = validateLinkedOrderConfig(config);
+  const legTokens = kind === 'bracket' && config.entryPrice ? config.amount / config.entryPrice : config.amount;
+  // Only the take-profit escrows tokens; the stop sells them once it is cancelled
+  const shortWallets = kind === 'oco'
+    ? selectedWallets.filter(address => (tokenBalances.get(address) || 0) < config.amount)
+    : selectedWallets.filter(address => (solBalances.get(address) || 0) < config.amount);
+
+  const inputClass = 'w-full bg-app-secondary border border-app-primary-30 rounded px-2 py-1.5 text-xs text-app-primary font-mono focus:outline-none focus:border-app-primary disabled:opacity-50';
+  const numberInput = (value: string, onChange: (value: string) => void) => (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/[^0-9.]/g, ''))}
+      disabled={isSubmitting}
+      placeholder="0.0"
+      className={inputClass}
+    />
+  );
+
+  const handleSubmit = async () => {
+    if (errors.length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitErrors([]);
+    setProgress({ processed: 0, total: selectedWallets.length });
+    try {
+      const makers = signingWallets
+        .filter(wallet => selectedWallets.includes(wallet.address))
+        .map(wallet => ({ address: wallet.address, privateKey: wallet.privateKey }));
+      const result = await submitLinkedOrders(config, makers, (processed, total) => setProgress({ processed, total }));
+
+      setSubmitErrors(result.errors);
+      const name = kind === 'bracket' ? 'bracket' : 'OCO';
+      if (result.groups.length === 0) {
+        showToast(`No ${name} orders were placed`, 'error');
+      } else if (result.errors.length > 0) {
+        showToast(`Placed ${result.groups.length} of ${selectedWallets.length} ${name} orders`, 'error');
+      } else {
+        showToast(`Placed ${result.groups.length} ${name} orders`, 'success');
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error submitting linked orders:', error);
+      setSubmitErrors([error instanceof Error ? error.message : 'Unknown error occurred']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-2xl overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <GitBranch size={16} className="color-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> OCO / BRACKET <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="relative z-10 p-5 space-y-4 max-h-[75vh] overflow-y-auto cyberpunk-scrollbar">
+          {/* Kind */}
+          <div className="flex gap-1">
+            {(['oco', 'bracket'] as const).map(value => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setKind(value)}
+                disabled={isSubmitting}
+                className={`flex-1 px-2 py-1.5 text-xs font-mono rounded border transition-colors
+                          ${kind === value
+                            ? 'bg-primary-20 border-app-primary color-primary'
+                            : 'border-app-primary-30 text-app-secondary hover:text-app-primary'}`}
+              >
+                {value === 'oco' ? 'OCO (TP + STOP)' : 'BRACKET (ENTRY + TP + STOP)'}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-app-secondary-60 font-mono">
+            {kind === 'oco'
+              ? 'Places a take-profit limit sell. If the price drops to the stop, the take-profit is cancelled and the tokens are market sold.'
+              : 'Buys at the entry price. Once the entry fills, a take-profit and stop protect the tokens received.'}
+            {' '}The stop is watched by this app and only fires while it is open on this token.
+          </div>
+
+          {/* Prices and size */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">
+                {kind === 'oco' ? 'Tokens per wallet' : 'Entry SOL per wallet'}
+              </label>
+              {numberInput(amount, setAmount)}
+            </div>
+            {kind === 'bracket' && (
+              <div className="space-y-1">
+                <label className="text-xs text-app-secondary font-mono uppercase">Entry Price (SOL)</label>
+                {numberInput(entryPrice, setEntryPrice)}
+              </div>
+            )}
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Take-Profit Price (SOL)</label>
+              {numberInput(takeProfitPrice, setTakeProfitPrice)}
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-app-secondary font-mono uppercase">Stop Price (SOL)</label>
+              {numberInput(stopLossPrice, setStopLossPrice)}
+            </div>
+          </div>
+
+          {/* Wallets */}
+          <div className="space-y-1">
+            <label className="text-xs text-app-secondary font-mono uppercase">
+              Wallets ({selectedWallets.length})
+            </label>
+            <WalletPicker
+              wallets={signingWallets}
+              solBalances={solBalances}
+              tokenBalances={tokenBalances}
+              selected={selectedWallets}
+              onChange={setSelectedWallets}
+              height={176}
+            />
+          </div>
+
+          {/* Summary */}
+          {errors.length > 0 ? (
+            <div className="space-y-1">
+              {errors.map(error => (
+                <div key={error} className="text-xs text-error-alt font-mono">{error}</div>
+              ))}
+            </div>
+          ) : (
+            <div className="bg-app-secondary border border-app-primary-30 rounded-lg p-3 space-y-1 text-xs font-mono text-app-secondary">
+              {kind === 'bracket' && (
+                <div>Entry: spend {formatSol(config.amount)} SOL for ~{formatSol(legTokens)} tokens at {config.entryPrice} SOL</div>
+              )}
+              <div>Take profit: sell {formatSol(legTokens)} tokens for {formatSol(legTokens * config.takeProfitPrice)} SOL</div>
+              <div>Stop: market sell {formatSol(legTokens)} tokens (~{formatSol(legTokens * config.stopLossPrice)} SOL) if the price drops to {config.stopLossPrice} SOL</div>
+              <div className="text-app-secondary-60">Per wallet, {selectedWallets.length} wallets</div>
+              {shortWallets.length > 0 && (
+                <div className="text-warning">
+                  {shortWallets.length} wallet{shortWallets.length === 1 ? '' : 's'} may not hold enough
+                  {kind === 'oco' ? ' tokens for the take-profit' : ' SOL for the entry'}
+                </div>
+              )}
+            </div>
+          )}
+
+          {submitErrors.length > 0 && (
+            <div className="bg-error-20 border border-error-alt-40 rounded-lg p-3 space-y-1">
+              {submitErrors.map((error, index) => (
+                <div key={index} className="text-xs text-error-alt font-mono break-all">{error}</div>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || errors.length > 0}
+            className="w-full px-4 py-2 text-sm font-mono tracking-wider rounded-lg bg-app-primary-color text-black font-medium
+                     hover:bg-app-primary-dark transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                PLACING {progress ? `${progress.processed}/${progress.total}` : ''}...
+              </span>
+            ) : (
+              `PLACE ${kind === 'oco' ? 'OCO' : 'BRACKET'} FOR ${selectedWallets.length} WALLET${selectedWallets.length === 1 ? '' : 'S'}`
+            )}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { ArrowsUpFromLine, DollarSign, X, CheckCircle, Info, Search, ChevronRight, Settings } from 'lucide-react';
+import { ArrowsUpFromLine, DollarSign, X, CheckCircle, Info, ChevronRight, Settings } from 'lucide-react';
 import { Connection } from '@solana/web3.js';
 import { useToast } from "../Notifications.tsx";
-import { WalletType, getWalletDisplayName } from '../Utils.tsx';
+import { WalletType, getWalletDisplayName, formatAddress, formatSolBalance } from '../Utils.tsx';
+import { WalletPicker } from '../WalletPicker.tsx';
+import { getSigningWallets } from '../utils/wallets.ts';
 import { batchMixSOL, validateMixingInputs } from '../utils/mixer.ts';
 
 interface MixerModalProps {
@@ -37,12 +39,7 @@ export const MixerModal: React.FC<MixerModalProps> = ({
   const [commonAmount, setCommonAmount] = useState('');
   const [useCustomAmounts, setUseCustomAmounts] = useState(false);
   const [walletAmounts, setWalletAmounts] = useState<WalletAmount[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [senderSearchTerm, setSenderSearchTerm] = useState('');
   const [showInfoTip, setShowInfoTip] = useState(false);
-  const [sortOption, setSortOption] = useState('address');
-  const [sortDirection, setSortDirection] = useState('asc');
-  const [balanceFilter, setBalanceFilter] = useState('all');
   
   // Get wallet SOL balance by address
   const getWalletBalance = (address: string) => {
@@ -92,11 +89,6 @@ export const MixerModal: React.FC<MixerModalProps> = ({
     updateWalletAmounts();
   }, [useCustomAmounts, commonAmount]);
 
-  // Format SOL balance for display
-  const formatSolBalance = (balance: number) => {
-    return balance.toFixed(4);
-  };
-
   // Get wallet by address
   const getWalletByAddress = (address: string) => {
     return wallets.find(wallet => wallet.address === address);
@@ -141,11 +133,6 @@ export const MixerModal: React.FC<MixerModalProps> = ({
     setCommonAmount('');
     setUseCustomAmounts(false);
     setWalletAmounts([]);
-    setSearchTerm('');
-    setSenderSearchTerm('');
-    setSortOption('address');
-    setSortDirection('asc');
-    setBalanceFilter('all');
   };
 
   // Handle wallet amount change
@@ -225,39 +212,19 @@ export const MixerModal: React.FC<MixerModalProps> = ({
     }
   };
 
-  // Function to handle recipient wallet selection toggles for mixer
-  const toggleRecipientWalletSelection = (address: string) => {
-    setSelectedRecipientWallets(prev => {
-      if (prev.includes(address)) {
-        return prev.filter(a => a !== address);
-      } else {
-        return [...prev, address];
-      }
-    });
-  };
-
   // Get available wallets for mixer recipient selection (exclude sender)
   const getAvailableRecipientWallets = () => {
     return wallets.filter(wallet => wallet.address !== selectedSenderWallet);
   };
 
-  // Get available wallets for sender selection in mixer (exclude recipients and zero balance wallets)
+  // Get available wallets for sender selection in mixer (exclude recipients, watch-only and zero balance wallets)
   const getAvailableSenderWallets = () => {
-    return wallets.filter(wallet => 
+    return getSigningWallets(wallets).filter(wallet => 
       !selectedRecipientWallets.includes(wallet.address) && 
       (getWalletBalance(wallet.address) || 0) > 0
     );
   };
   
-  // Handle select/deselect all for recipient wallets
-  const handleSelectAllRecipients = () => {
-    if (selectedRecipientWallets.length === getAvailableRecipientWallets().length) {
-      setSelectedRecipientWallets([]);
-    } else {
-      setSelectedRecipientWallets(getAvailableRecipientWallets().map(wallet => wallet.address));
-    }
-  };
-
   // Apply common amount to all selected wallets
   const applyCommonAmountToAll = () => {
     setWalletAmounts(prev => 
@@ -265,47 +232,6 @@ export const MixerModal: React.FC<MixerModalProps> = ({
     );
   };
 
-  // Filter and sort wallets based on search term and other criteria
-  const filterWallets = (walletList: WalletType[], search: string) => {
-    // First apply search filter
-    let filtered = walletList;
-    if (search) {
-      filtered = filtered.filter(wallet => 
-        wallet.address.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    
-    // Then apply balance filter
-    if (balanceFilter !== 'all') {
-      if (balanceFilter === 'nonZero') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) > 0);
-      } else if (balanceFilter === 'highBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) >= 0.1);
-      } else if (balanceFilter === 'lowBalance') {
-        filtered = filtered.filter(wallet => (getWalletBalance(wallet.address) || 0) < 0.1 && (getWalletBalance(wallet.address) || 0) > 0);
-      }
-    }
-    
-    // Finally, sort the wallets
-    return filtered.sort((a, b) => {
-      if (sortOption === 'address') {
-        return sortDirection === 'asc' 
-          ? a.address.localeCompare(b.address)
-          : b.address.localeCompare(a.address);
-      } else if (sortOption === 'balance') {
-        const balanceA = getWalletBalance(a.address) || 0;
-        const balanceB = getWalletBalance(b.address) || 0;
-        return sortDirection === 'asc' ? balanceA - balanceB : balanceB - balanceA;
-      }
-      return 0;
-    });
-  };
-
-  // Format wallet address for display
-  const formatAddress = (address: string) => {
-    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
-  };
-
   // Get wallet amount by address
   const getWalletAmount = (address: string) => {
     const wallet = walletAmounts.find(w => w.address === address);
@@ -542,65 +468,14 @@ export const MixerModal: React.FC<MixerModalProps> = ({
                     )}
                   </div>
 
-                  {/* Sender Search and Filters */}
-                  <div className="mb-2 flex space-x-2">
-                    <div className="relative flex-grow">
-                      <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                      <input
-                        type="text"
-                        value={senderSearchTerm}
-                        onChange={(e) => setSenderSearchTerm(e.target.value)}
-                        className="w-full pl-9 pr-4 py-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
-                        placeholder="SEARCH SENDER WALLETS..."
-                      />
-                    </div>
-                    
-                    <select 
-                      className="bg-app-tertiary border border-app-primary-30 rounded-lg px-2 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                      value={sortOption}
-                      onChange={(e) => setSortOption(e.target.value)}
-                    >
-                      <option value="address">ADDRESS</option>
-                      <option value="balance">BALANCE</option>
-                    </select>
-                    
-                    <button
-                      className="p-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-app-secondary hover:color-primary-light hover-border-primary transition-all modal-btn-cyberpunk"
-                      onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
-                    >
-                      {sortDirection === 'asc' ? '↑' : '↓'}
-                    </button>
-                  </div>
-
-                  <div className="max-h-48 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 hover-border-primary-40 scrollbar-thin">
-                    {filterWallets(getAvailableSenderWallets(), senderSearchTerm).length > 0 ? (
-                      filterWallets(getAvailableSenderWallets(), senderSearchTerm).map((wallet) => (
-                        <div 
-                          key={wallet.id}
-                          className={`flex items-center p-2.5 hover-bg-secondary cursor-pointer transition-all duration-200 border-b border-app-primary-20 last:border-b-0
-                                    ${selectedSenderWallet === wallet.address ? 'bg-primary-10 border-app-primary-30' : ''}`}
-                          onClick={() => setSelectedSenderWallet(wallet.address)}
-                        >
-                          <div className={`w-5 h-5 mr-3 rounded flex items-center justify-center transition-all duration-300
-                                          ${selectedSenderWallet === wallet.address
-                                            ? 'bg-app-primary-color shadow-md shadow-app-primary-40' 
-                                            : 'border border-app-primary-30 bg-app-tertiary'}`}>
-                            {selectedSenderWallet === wallet.address && (
-                              <CheckCircle size={14} className="text-app-primary animate-[fadeIn_0.2s_ease]" />
-                            )}
-                          </div>
-                          <div className="flex-1 flex justify-between items-center">
-                            <span className="font-mono text-sm text-app-primary glitch-text">{getWalletDisplayName(wallet)}</span>
-                            <span className="text-xs text-app-secondary font-mono">{formatSolBalance(getWalletBalance(wallet.address) || 0)} SOL</span>
-                          </div>
-                        </div>
-                      ))
-                    ) : (
-                      <div className="p-3 text-sm text-app-secondary text-center font-mono">
-                        {senderSearchTerm ? "NO WALLETS FOUND" : "NO WALLETS AVAILABLE"}
-                      </div>
-                    )}
-                  </div>
+                  <WalletPicker
+                    wallets={getAvailableSenderWallets()}
+                    solBalances={solBalances}
+                    mode="single"
+                    selected={selectedSenderWallet ? [selectedSenderWallet] : []}
+                    onChange={(selected) => setSelectedSenderWallet(selected[0] || '')}
+                    height={192}
+                  />
                 </div>
                 
                 {/* Right Side - Recipient Wallets */}
@@ -609,106 +484,22 @@ export const MixerModal: React.FC<MixerModalProps> = ({
                     <label className="text-sm font-medium text-app-secondary font-mono uppercase tracking-wider">
                       <span className="color-primary">&#62;</span> To Wallets <span className="color-primary">&#60;</span>
                     </label>
-                    <button 
-                      onClick={handleSelectAllRecipients}
-                      className="text-xs px-2 py-0.5 bg-app-tertiary hover-bg-secondary text-app-secondary hover:color-primary-light rounded border border-app-primary-30 hover-border-primary transition-all duration-200 font-mono"
-                    >
-                      {selectedRecipientWallets.length === getAvailableRecipientWallets().length ? 'DESELECT ALL' : 'SELECT ALL'}
-                    </button>
                   </div>
 
-                  {/* Recipient Search and Filters */}
-                  <div className="mb-2 flex space-x-2">
-                    <div className="relative flex-grow">
-                      <Search size={14} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                      <input
-                        type="text"
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        className="w-full pl-9 pr-4 py-2 bg-app-tertiary border border-app-primary-30 rounded-lg text-sm text-app-primary focus:outline-none focus-border-primary transition-all modal-input-cyberpunk font-mono"
-                        placeholder="SEARCH RECIPIENT WALLETS..."
-                      />
+                  <WalletPicker
+                    wallets={getAvailableRecipientWallets()}
+                    solBalances={solBalances}
+                    selected={selectedRecipientWallets}
+                    onChange={setSelectedRecipientWallets}
+                    amounts={useCustomAmounts ? Object.fromEntries(walletAmounts.map(wallet => [wallet.address, wallet.amount])) : undefined}
+                    onAmountChange={useCustomAmounts ? handleWalletAmountChange : undefined}
+                    height={192}
+                  />
+                  {selectedRecipientWallets.length > 0 && commonAmount && !useCustomAmounts && (
+                    <div className="mt-1 text-right text-xs text-app-secondary font-mono">
+                      EACH RECEIVES: <span className="color-primary font-medium">{commonAmount} SOL</span>
                     </div>
-                    
-                    <select 
-                      className="bg-app-tertiary border border-app-primary-30 rounded-lg px-2 text-sm text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                      value={balanceFilter}
-                      onChange={(e) => setBalanceFilter(e.target.value)}
-                    >
-                      <option value="all">ALL</option>
-                      <option value="nonZero">NON-ZERO</option>
-                      <option value="highBalance">HIGH BAL</option>
-                      <option value="lowBalance">LOW BAL</option>
-                    </select>
-                  </div>
-
-                  <div className="max-h-48 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 hover-border-primary-40 scrollbar-thin">
-                    {filterWallets(getAvailableRecipientWallets(), searchTerm).length > 0 ? (
-                      filterWallets(getAvailableRecipientWallets(), searchTerm).map((wallet) => (
-                        <div 
-                          key={wallet.id}
-                          className={`flex items-center p-2.5 hover-bg-secondary transition-all duration-200 border-b border-app-primary-20 last:border-b-0
-                                    ${selectedRecipientWallets.includes(wallet.address) ? 'bg-primary-10 border-app-primary-30' : ''}`}
-                        >
-                          <div 
-                            className={`w-5 h-5 mr-3 rounded flex items-center justify-center transition-all duration-300 cursor-pointer
-                                        ${selectedRecipientWallets.includes(wallet.address) 
-                                          ? 'bg-app-primary-color shadow-md shadow-app-primary-40' 
-                                          : 'border border-app-primary-30 bg-app-tertiary'}`}
-                            onClick={() => toggleRecipientWalletSelection(wallet.address)}
-                          >
-                            {selectedRecipientWallets.includes(wallet.address) && (
-                              <CheckCircle size={14} className="text-app-primary animate-[fadeIn_0.2s_ease]" />
-                            )}
-                          </div>
-                          <div className="flex-1 flex justify-between items-center">
-                            <span 
-                              className="font-mono text-sm text-app-primary cursor-pointer glitch-text"
-                              onClick={() => toggleRecipientWalletSelection(wallet.address)}
-                            >
-                              {getWalletDisplayName(wallet)}
-                            </span>
-                            
-                            {useCustomAmounts && selectedRecipientWallets.includes(wallet.address) ? (
-                              <div className="relative w-24 ml-2">
-                                <DollarSign size={12} className="absolute left-2 top-1/2 transform -translate-y-1/2 text-app-secondary" />
-                                <input
-                                  type="text"
-                                  value={getWalletAmount(wallet.address)}
-                                  onClick={(e) => e.stopPropagation()}
-                                  onChange={(e) => {
-                                    e.stopPropagation();
-                                    const value = e.target.value;
-                                    if (value === '' || /^\d*\.?\d*$/.test(value)) {
-                                      handleWalletAmountChange(wallet.address, value);
-                                    }
-                                  }}
-                                  className="w-full pl-6 pr-2 py-1 bg-app-secondary border border-app-primary-30 rounded text-xs text-app-primary focus:outline-none focus-border-primary modal-input-cyberpunk font-mono"
-                                  placeholder="0.00"
-                                />
-                              </div>
-                            ) : (
-                              <span className="text-xs text-app-secondary font-mono">{formatSolBalance(getWalletBalance(wallet.address) || 0)} SOL</span>
-                            )}
-                          </div>
-                        </div>
-                      ))
-                    ) : (
-                      <div className="p-3 text-sm text-app-secondary text-center font-mono">
-                        {searchTerm ? "NO WALLETS FOUND" : "NO WALLETS AVAILABLE"}
-                      </div>
-                    )}
-                  </div>
-                  <div className="mt-2 flex items-center justify-between text-xs">
-                    <span className="text-app-secondary font-mono">
-                      SELECTED: <span className="color-primary font-medium">{selectedRecipientWallets.length}</span> WALLETS
-                    </span>
-                    {selectedRecipientWallets.length > 0 && commonAmount && !useCustomAmounts && (
-                      <span className="text-app-secondary font-mono">
-                        EACH RECEIVES: <span className="color-primary font-medium">{commonAmount} SOL</span>
-                      </span>
-                    )}
-                  </div>
+                  )}
                 </div>
               </div>
               
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { X, History, Search, Download, CheckCircle, AlertCircle, Clock, RefreshCw, Loader2 } from 'lucide-react';
+import { refreshOrderHistory, formatTokenAmount } from '../utils/limitorders';
+import {
+  loadOrderHistory,
+  downloadOrderHistory,
+  ORDER_HISTORY_EVENT,
+  OrderHistoryEntry,
+  OrderStatus
+} from '../utils/orderHistory';
+
+interface OrderHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tokenAddress?: string; // Preselects this token's orders
+}
+
+const STATUSES: OrderStatus[] = ['open', 'partially-filled', 'filled', 'cancelled', 'expired', 'closed'];
+
+const formatAddress = (address: string) => address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '--';
+
+const formatAmount = (raw: string, decimals: number) => {
+  const value = parseFloat(formatTokenAmount(raw, decimals));
+  return isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 6 }) : raw;
+};
+
+const StatusIcon: React.FC<{ status: OrderStatus }> = ({ status }) => {
+  switch (status) {
+    case 'filled':
+      return <CheckCircle size={14} className="color-primary" />;
+    case 'cancelled':
+    case 'expired':
+      return <AlertCircle size={14} className="text-app-secondary" />;
+    case 'closed':
+      return <AlertCircle size={14} className="text-warning" />;
+    default:
+      return <Clock size={14} className="text-app-secondary" />;
+  }
+};
+
+export const OrderHistoryModal: React.FC<OrderHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  tokenAddress
+}) => {
+  const [entries, setEntries] = useState<OrderHistoryEntry[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<OrderStatus | 'all'>('all');
+  const [currentTokenOnly, setCurrentTokenOnly] = useState(true);
+
+  // Load on open and follow updates from the status poller
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setEntries(loadOrderHistory());
+    const handleHistoryChanged = () => setEntries(loadOrderHistory());
+    window.addEventListener(ORDER_HISTORY_EVENT, handleHistoryChanged);
+    return () => window.removeEventListener(ORDER_HISTORY_EVENT, handleHistoryChanged);
+  }, [isOpen]);
+
+  const filteredEntries = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (currentTokenOnly && tokenAddress && entry.tokenAddress !== tokenAddress) return false;
+      if (status !== 'all' && entry.status !== status) return false;
+      if (!search) return true;
+      return [entry.order, entry.maker, entry.tokenAddress].some(value => value.toLowerCase().includes(search));
+    });
+  }, [entries, query, status, currentTokenOnly, tokenAddress]);
+
+  if (!isOpen) return null;
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshOrderHistory();
+    } catch (error) {
+      console.error('Error refreshing order history:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const inputClass = 'bg-app-secondary border border-app-primary-30 rounded px-2 py-1.5 text-xs text-app-primary font-mono focus:outline-none focus:border-app-primary';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-4xl overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <History size={16} className="color-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> LIMIT ORDER HISTORY <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="flex items-center gap-1 text-xs font-mono text-app-secondary hover:color-primary transition-colors px-2 py-1 hover:bg-primary-20 rounded disabled:opacity-50"
+              title="Check order statuses now"
+            >
+              {isRefreshing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} CHECK
+            </button>
+            <button
+              onClick={() => downloadOrderHistory(filteredEntries, 'csv')}
+              disabled={filteredEntries.length === 0}
+              className="flex items-center gap-1 text-xs font-mono text-app-secondary hover:color-primary transition-colors px-2 py-1 hover:bg-primary-20 rounded disabled:opacity-50"
+              title="Export shown orders as CSV"
+            >
+              <Download size={14} /> CSV
+            </button>
+            <button
+              onClick={() => downloadOrderHistory(filteredEntries, 'json')}
+              disabled={filteredEntries.length === 0}
+              className="flex items-center gap-1 text-xs font-mono text-app-secondary hover:color-primary transition-colors px-2 py-1 hover:bg-primary-20 rounded disabled:opacity-50"
+              title="Export shown orders as JSON"
+            >
+              <Download size={14} /> JSON
+            </button>
+            <button
+              onClick={onClose}
+              className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="relative z-10 p-4 border-b border-app-primary-40 grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div className="relative col-span-2">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-app-secondary-60" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Order, wallet, token..."
+              className={`${inputClass} w-full pl-7`}
+            />
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as OrderStatus | 'all')}
+            className={inputClass}
+          >
+            <option value="all">All statuses</option>
+            {STATUSES.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-xs font-mono text-app-secondary">
+            <input
+              type="checkbox"
+              checked={currentTokenOnly}
+              onChange={(e) => setCurrentTokenOnly(e.target.checked)}
+              disabled={!tokenAddress}
+            />
+            Current token only
+          </label>
+        </div>
+
+        {/* Orders */}
+        <div className="relative z-10 p-5 space-y-2 max-h-[60vh] overflow-y-auto cyberpunk-scrollbar">
+          <div className="text-xs text-app-secondary-60 font-mono">
+            {filteredEntries.length} of {entries.length} orders
+          </div>
+
+          {filteredEntries.length === 0 && (
+            <div className="text-center py-6 text-app-secondary-60 font-mono text-sm">
+              No limit orders recorded
+            </div>
+          )}
+
+          {filteredEntries.map(entry => (
+            <div key={entry.order} className="bg-app-secondary border border-app-primary-30 rounded-lg p-3 space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 font-mono text-sm">
+                  <StatusIcon status={entry.status} />
+                  <span className="text-app-primary uppercase">{entry.side}</span>
+                  <span className="text-app-secondary-60 text-xs">
+                    {entry.status}{entry.status === 'partially-filled' && ` ${entry.filledPercent.toFixed(1)}%`}
+                    {entry.status === 'closed' && ' (fill not confirmed)'}
+                  </span>
+                  <span className="text-app-secondary text-xs">{formatAddress(entry.tokenAddress)}</span>
+                </div>
+                <span className="text-xs text-app-secondary font-mono">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+
+              <div className="text-xs text-app-secondary font-mono">
+                {entry.side === 'buy' ? 'Spend' : 'Sell'} {formatAmount(entry.makingAmount, entry.inputDecimals)} {entry.side === 'buy' ? 'SOL' : 'tokens'}
+                {' for '}{formatAmount(entry.takingAmount, entry.outputDecimals)} {entry.side === 'buy' ? 'tokens' : 'SOL'}
+                {' · '}wallet {formatAddress(entry.maker)}
+                {entry.expiredAt && ` · expires ${new Date(entry.expiredAt * 1000).toLocaleString()}`}
+              </div>
+
+              <div className="text-xs text-app-secondary-60 font-mono break-all">
+                {entry.order}{entry.updatedAt !== entry.createdAt && ` · updated ${new Date(entry.updatedAt).toLocaleString()}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
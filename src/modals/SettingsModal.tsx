@@ -1,19 +1,37 @@
 import React, { useState, useRef } from 'react';
-import { X, Plus, Upload, FileUp, Download, Trash2, Settings, Globe, Zap, Wallet, Key, Save } from 'lucide-react';
+import { X, Plus, Upload, FileUp, Download, Trash2, Settings, Globe, Zap, Wallet, Key, Save, Lock, ShieldAlert, KeyRound, RefreshCw, Eye } from 'lucide-react';
 import { Connection } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { WalletTooltip } from '../styles/Styles';
 import { 
   createNewWallet,
   importWallet,
-  fetchSolBalance,
-  fetchTokenBalance,
+  createWatchOnlyWallet,
   downloadAllWallets,
   WalletType,
   ConfigType,
   copyToClipboard
 } from '../Utils';
 import { handleCleanupWallets } from '../Utils';
+import { getSpentToday, getSpentThisSession } from '../utils/spendingLimits';
+import { fetchBalances } from '../utils/balances';
+import {
+  downloadWalletBackup,
+  decryptWalletBackup,
+  mergeRestoredWallets,
+  isWalletBackup,
+  WalletBackupFile
+} from '../utils/walletBackup';
+import {
+  createMnemonic,
+  isValidMnemonic,
+  getHdSeedId,
+  getNextHdIndex,
+  deriveHdWallets,
+  recoverHdWallets,
+  mergeHdWallets,
+  HdRecoveryProgress
+} from '../utils/hdWallets';
 
 interface EnhancedSettingsModalProps {
   isOpen: boolean;
@@ -56,11 +74,65 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
   const [walletQuantity, setWalletQuantity] = useState('1');
   const [importKey, setImportKey] = useState('');
   const [importError, setImportError] = useState<string | null>(null);
+  const [watchAddress, setWatchAddress] = useState('');
+  const [watchError, setWatchError] = useState<string | null>(null);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backupMode, setBackupMode] = useState<'backup' | 'restore' | null>(null);
+  const [backupPassword, setBackupPassword] = useState('');
+  const [backupPasswordConfirm, setBackupPasswordConfirm] = useState('');
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [isProcessingBackup, setIsProcessingBackup] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<WalletBackupFile | null>(null);
+  const [createMode, setCreateMode] = useState<'random' | 'mnemonic'>('random');
+  const [mnemonic, setMnemonic] = useState('');
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryProgress, setRecoveryProgress] = useState<HdRecoveryProgress | null>(null);
 
   if (!isOpen) return null;
 
+  const closeBackupPanel = () => {
+    setBackupMode(null);
+    setBackupPassword('');
+    setBackupPasswordConfirm('');
+    setBackupError(null);
+    setPendingBackup(null);
+  };
+
+  const handleBackupSubmit = async () => {
+    setBackupError(null);
+
+    if (backupMode === 'backup' && backupPassword !== backupPasswordConfirm) {
+      setBackupError('Passwords do not match');
+      return;
+    }
+
+    setIsProcessingBackup(true);
+    try {
+      if (backupMode === 'backup') {
+        await downloadWalletBackup(wallets, backupPassword);
+        showToast(`Backed up ${wallets.length} wallets`, 'success');
+      } else if (pendingBackup) {
+        const restored = await decryptWalletBackup(pendingBackup, backupPassword);
+        const { wallets: mergedWallets, added, duplicates, mismatched } = mergeRestoredWallets(wallets, restored);
+        setWallets(mergedWallets);
+        showToast(
+          `Restored ${added} wallets${duplicates.length > 0 ? `, ${duplicates.length} already present` : ''}`,
+          'success'
+        );
+        if (mismatched.length > 0) {
+          showToast(`Skipped ${mismatched.length} wallets whose private key does not match their address`, 'error');
+        }
+      }
+      closeBackupPanel();
+    } catch (error) {
+      console.error('Wallet backup error:', error);
+      setBackupError(error.message || 'Backup operation failed');
+    } finally {
+      setIsProcessingBackup(false);
+    }
+  };
+
   const handleCreateMultipleWallets = async () => {
     if (!connection) return;
     
@@ -74,33 +146,18 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
     
     try {
       const newWallets: WalletType[] = [];
-      const newSolBalances = new Map(solBalances);
-      const newTokenBalances = new Map(tokenBalances);
       
       for (let i = 0; i < quantity; i++) {
         const newWallet = await createNewWallet();
         newWallets.push(newWallet);
         
-        // Fetch SOL balance for the new wallet
-        const solBalance = await fetchSolBalance(connection, newWallet.address);
-        newSolBalances.set(newWallet.address, solBalance);
-        
-        // Initialize token balance
-        if (tokenAddress) {
-          const tokenBalance = await fetchTokenBalance(connection, newWallet.address, tokenAddress);
-          newTokenBalances.set(newWallet.address, tokenBalance);
-        } else {
-          newTokenBalances.set(newWallet.address, 0);
-        }
-        
         // Small delay between creations to ensure unique IDs
         await new Promise(resolve => setTimeout(resolve, 10));
       }
       
       const updatedWallets = [...wallets, ...newWallets];
       setWallets(updatedWallets);
-      setSolBalances(newSolBalances);
-      setTokenBalances(newTokenBalances);
+      await loadNewWalletBalances(newWallets);
       
       showToast(`Successfully created ${quantity} wallet${quantity > 1 ? 's' : ''}`, 'success');
       setWalletQuantity('1');
@@ -112,6 +169,89 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
     }
   };
 
+  // Fetch balances for wallets that were just added, in one batched request
+  const loadNewWalletBalances = async (newWallets: WalletType[]) => {
+    if (!connection || newWallets.length === 0) return;
+    const newSolBalances = new Map(solBalances);
+    const newTokenBalances = new Map(tokenBalances);
+    const fetched = await fetchBalances(connection, newWallets.map(wallet => wallet.address), tokenAddress);
+
+    for (const wallet of newWallets) {
+      newSolBalances.set(wallet.address, fetched.solBalances.get(wallet.address) || 0);
+      newTokenBalances.set(wallet.address, fetched.tokenBalances.get(wallet.address) || 0);
+    }
+
+    setSolBalances(newSolBalances);
+    setTokenBalances(newTokenBalances);
+  };
+
+  const handleCreateHdWallets = async () => {
+    if (!connection) return;
+
+    const quantity = parseInt(walletQuantity);
+    if (isNaN(quantity) || quantity < 1 || quantity > 100) {
+      showToast('Please enter a valid number between 1 and 100', 'error');
+      return;
+    }
+    if (!isValidMnemonic(mnemonic)) {
+      showToast('Invalid seed phrase', 'error');
+      return;
+    }
+
+    setIsCreatingWallets(true);
+
+    try {
+      // Continue after the highest index already derived from this seed
+      const startIndex = getNextHdIndex(wallets, getHdSeedId(mnemonic));
+      const derived = deriveHdWallets(mnemonic, startIndex, quantity);
+      const { wallets: mergedWallets, added } = mergeHdWallets(wallets, derived);
+
+      setWallets(mergedWallets);
+      await loadNewWalletBalances(derived);
+
+      showToast(`Created ${added} wallet${added !== 1 ? 's' : ''} (index ${startIndex}-${startIndex + quantity - 1})`, 'success');
+      setWalletQuantity('1');
+    } catch (error) {
+      console.error('Error creating HD wallets:', error);
+      showToast('Failed to create wallets', 'error');
+    } finally {
+      setIsCreatingWallets(false);
+    }
+  };
+
+  const handleRecoverHdWallets = async () => {
+    if (!connection) return;
+
+    if (!isValidMnemonic(mnemonic)) {
+      showToast('Invalid seed phrase', 'error');
+      return;
+    }
+
+    setIsRecovering(true);
+    setRecoveryProgress({ scanned: 0, found: 0 });
+
+    try {
+      const { wallets: recovered, scanned } = await recoverHdWallets(connection, mnemonic, undefined, setRecoveryProgress);
+      const { wallets: mergedWallets, added } = mergeHdWallets(wallets, recovered);
+
+      setWallets(mergedWallets);
+      await loadNewWalletBalances(recovered.filter(wallet => !wallets.some(w => w.address === wallet.address)));
+
+      showToast(
+        recovered.length > 0
+          ? `Recovered ${recovered.length} wallets (${added} new) from ${scanned} indices`
+          : `No used wallets found in ${scanned} indices`,
+        recovered.length > 0 ? 'success' : 'error'
+      );
+    } catch (error) {
+      console.error('Error recovering HD wallets:', error);
+      showToast('Failed to recover wallets', 'error');
+    } finally {
+      setIsRecovering(false);
+      setRecoveryProgress(null);
+    }
+  };
+
   const handleImportWallet = async () => {
     if (!connection || !importKey.trim()) {
       setImportError('Please enter a private key');
@@ -136,24 +276,7 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
         
         const newWallets = [...wallets, wallet];
         setWallets(newWallets);
-        
-        // Fetch SOL balance for the imported wallet
-        const solBalance = await fetchSolBalance(connection, wallet.address);
-        const newSolBalances = new Map(solBalances);
-        newSolBalances.set(wallet.address, solBalance);
-        setSolBalances(newSolBalances);
-        
-        // Fetch token balance if token address is provided
-        if (tokenAddress) {
-          const tokenBalance = await fetchTokenBalance(connection, wallet.address, tokenAddress);
-          const newTokenBalances = new Map(tokenBalances);
-          newTokenBalances.set(wallet.address, tokenBalance);
-          setTokenBalances(newTokenBalances);
-        } else {
-          const newTokenBalances = new Map(tokenBalances);
-          newTokenBalances.set(wallet.address, 0);
-          setTokenBalances(newTokenBalances);
-        }
+        await loadNewWalletBalances([wallet]);
         
         setImportKey('');
         setImportError(null);
@@ -167,6 +290,25 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
     }
   };
 
+  const handleAddWatchOnlyWallet = async () => {
+    const { wallet, error } = createWatchOnlyWallet(watchAddress);
+    if (error || !wallet) {
+      setWatchError(error || 'Failed to add address');
+      return;
+    }
+
+    if (wallets.some(w => w.address === wallet.address)) {
+      setWatchError('Wallet already exists');
+      return;
+    }
+
+    setWallets([...wallets, wallet]);
+    setWatchAddress('');
+    setWatchError(null);
+    showToast('Watch-only address added', 'success');
+    await loadNewWalletBalances([wallet]);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !connection) return;
@@ -194,6 +336,13 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
         try {
           const jsonData = JSON.parse(text);
           
+          // Encrypted wallet backups need the backup password before they can be merged
+          if (isWalletBackup(jsonData)) {
+            setPendingBackup(jsonData);
+            setBackupMode('restore');
+            return;
+          }
+          
           // Handle single keypair JSON (array of numbers)
           if (Array.isArray(jsonData) && jsonData.length === 64) {
             // Convert array of numbers to Uint8Array and then to base58
@@ -237,8 +386,6 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
       }
 
       const importedWallets: WalletType[] = [];
-      const newSolBalances = new Map(solBalances);
-      const newTokenBalances = new Map(tokenBalances);
       
       for (const key of foundKeys) {
         try {
@@ -252,18 +399,6 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
           
           importedWallets.push(wallet);
           
-          // Fetch and store SOL balance
-          const solBalance = await fetchSolBalance(connection, wallet.address);
-          newSolBalances.set(wallet.address, solBalance);
-          
-          // Fetch and store token balance if token address is provided
-          if (tokenAddress) {
-            const tokenBalance = await fetchTokenBalance(connection, wallet.address, tokenAddress);
-            newTokenBalances.set(wallet.address, tokenBalance);
-          } else {
-            newTokenBalances.set(wallet.address, 0);
-          }
-          
           // Add delay between imports
           await new Promise(resolve => setTimeout(resolve, 10));
         } catch (error) {
@@ -271,15 +406,12 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
         }
       }
       
-      // Update balances maps
-      setSolBalances(newSolBalances);
-      setTokenBalances(newTokenBalances);
-      
       if (importedWallets.length === 0) {
         setImportError('No new wallets could be imported');
       } else {
         const newWallets = [...wallets, ...importedWallets];
         setWallets(newWallets);
+        await loadNewWalletBalances(importedWallets);
         showToast(`Successfully imported ${importedWallets.length} wallets`, 'success');
       }
     } catch (error) {
@@ -342,10 +474,61 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
             <div className="space-y-6">
               {/* Create Wallets Section */}
               <div className="bg-app-secondary border border-app-primary-30 rounded-lg p-6">
-                <h3 className="text-lg font-bold text-app-primary font-mono mb-4 flex items-center gap-2">
-                  <Plus size={20} className="color-primary" />
-                  CREATE WALLETS
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold text-app-primary font-mono flex items-center gap-2">
+                    <Plus size={20} className="color-primary" />
+                    CREATE WALLETS
+                  </h3>
+                  <div className="flex bg-app-tertiary rounded p-1 text-xs font-mono">
+                    {([
+                      { id: 'random', label: 'RANDOM' },
+                      { id: 'mnemonic', label: 'FROM SEED PHRASE' }
+                    ] as const).map(({ id, label }) => (
+                      <button
+                        key={id}
+                        onClick={() => setCreateMode(id)}
+                        className={`px-3 py-1 rounded transition-all duration-300 ${
+                          createMode === id
+                            ? 'bg-app-primary-color text-black font-bold'
+                            : 'text-app-secondary hover:text-app-primary'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {createMode === 'mnemonic' && (
+                  <div className="space-y-2 mb-4">
+                    <div className="flex items-center justify-between">
+                      <label className="block text-sm text-app-secondary font-mono uppercase tracking-wider">
+                        Seed Phrase (BIP39)
+                      </label>
+                      <button
+                        onClick={() => setMnemonic(createMnemonic(12))}
+                        className="text-xs font-mono color-primary hover:text-app-primary flex items-center gap-1"
+                      >
+                        <KeyRound size={12} />
+                        GENERATE NEW
+                      </button>
+                    </div>
+                    <textarea
+                      value={mnemonic}
+                      onChange={(e) => setMnemonic(e.target.value)}
+                      rows={2}
+                      spellCheck={false}
+                      autoComplete="off"
+                      className={`w-full bg-app-tertiary border ${
+                        mnemonic.trim() && !isValidMnemonic(mnemonic) ? 'border-error-alt' : 'border-app-primary-40'
+                      } rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono`}
+                      placeholder="12 or 24 words"
+                    />
+                    <div className="text-xs text-app-secondary-60 font-mono">
+                      Wallets use m/44'/501'/index'/0'. The phrase is not stored: write it down, it recovers every wallet derived from it.
+                    </div>
+                  </div>
+                )}
                 
                 <div className="flex gap-4 items-end">
                   <div className="flex-1">
@@ -363,16 +546,28 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                     />
                   </div>
                   <button
-                    onClick={handleCreateMultipleWallets}
-                    disabled={isCreatingWallets}
+                    onClick={createMode === 'mnemonic' ? handleCreateHdWallets : handleCreateMultipleWallets}
+                    disabled={isCreatingWallets || isRecovering}
                     className={`px-6 py-3 ${
-                      isCreatingWallets 
+                      isCreatingWallets || isRecovering
                         ? 'bg-primary-50 cursor-not-allowed' 
                         : 'bg-app-primary-color hover:bg-app-primary-dark cyberpunk-btn'
                     } text-black font-bold rounded font-mono tracking-wider transition-all duration-300`}
                   >
                     {isCreatingWallets ? 'CREATING...' : 'CREATE'}
                   </button>
+                  {createMode === 'mnemonic' && (
+                    <button
+                      onClick={handleRecoverHdWallets}
+                      disabled={isCreatingWallets || isRecovering || !mnemonic.trim()}
+                      className="px-6 py-3 bg-app-tertiary border border-app-primary-40 hover-border-primary rounded font-mono text-sm tracking-wider transition-all duration-300 flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <RefreshCw size={16} className={isRecovering ? 'animate-spin' : ''} />
+                      {isRecovering && recoveryProgress
+                        ? `SCANNED ${recoveryProgress.scanned}, FOUND ${recoveryProgress.found}`
+                        : 'RECOVER'}
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -446,6 +641,48 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                         {isProcessingFile ? 'PROCESSING FILE...' : 'IMPORT FROM FILE (.txt/.key/.json)'}
                       </button>
                     </div>
+
+                    {/* Watch-only Address */}
+                    <div className="space-y-3">
+                      <div className="text-sm text-app-secondary font-mono flex items-center gap-2">
+                        <Eye size={14} className="color-primary" />
+                        WATCH-ONLY ADDRESS
+                        <span className="text-xs text-app-secondary-60">balances and PnL only, never signs</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="Enter wallet address"
+                          value={watchAddress}
+                          onChange={(e) => {
+                            setWatchAddress(e.target.value);
+                            setWatchError(null);
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && watchAddress.trim()) handleAddWatchOnlyWallet();
+                          }}
+                          className={`flex-1 bg-app-tertiary border ${
+                            watchError ? 'border-error-alt' : 'border-app-primary-40'
+                          } rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono`}
+                        />
+                        <button
+                          onClick={handleAddWatchOnlyWallet}
+                          disabled={!watchAddress.trim()}
+                          className={`px-4 ${
+                            !watchAddress.trim()
+                              ? 'bg-primary-20 cursor-not-allowed'
+                              : 'bg-app-tertiary hover:bg-primary-20 cyberpunk-btn'
+                          } border border-app-primary-40 rounded font-mono text-sm transition-all duration-300`}
+                        >
+                          WATCH
+                        </button>
+                      </div>
+                      {watchError && (
+                        <div className="text-error-alt text-sm font-mono flex items-center">
+                          <span className="mr-1">!</span> {watchError}
+                        </div>
+                      )}
+                    </div>
                   </div>
 
                   {/* Management Actions */}
@@ -460,6 +697,15 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                         EXPORT ALL WALLETS
                       </button>
                       
+                      <button
+                        onClick={() => setBackupMode('backup')}
+                        disabled={wallets.length === 0}
+                        className="p-3 bg-app-tertiary border border-app-primary-40 hover-border-primary rounded font-mono text-sm transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50"
+                      >
+                        <Lock size={16} />
+                        BACKUP WALLETS (ENCRYPTED)
+                      </button>
+                      
                       <button
                         onClick={() => handleCleanupWallets(wallets, solBalances, tokenBalances, setWallets, showToast)}
                         className="p-3 bg-app-tertiary border border-error-alt-40 hover-border-error-alt rounded font-mono text-sm transition-all duration-300 flex items-center justify-center gap-2 text-error-alt"
@@ -468,6 +714,63 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                         REMOVE EMPTY WALLETS
                       </button>
                     </div>
+
+                    {/* Backup / Restore Password */}
+                    {backupMode && (
+                      <div className="mt-4 p-4 bg-app-tertiary border border-app-primary-40 rounded space-y-3">
+                        <div className="text-sm font-bold text-app-primary font-mono">
+                          {backupMode === 'backup'
+                            ? `ENCRYPT BACKUP OF ${wallets.length} WALLETS`
+                            : `RESTORE BACKUP (${pendingBackup?.walletCount ?? 0} WALLETS)`}
+                        </div>
+                        <input
+                          type="password"
+                          placeholder="Backup password"
+                          value={backupPassword}
+                          onChange={(e) => {
+                            setBackupPassword(e.target.value);
+                            setBackupError(null);
+                          }}
+                          className="w-full bg-app-secondary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        />
+                        {backupMode === 'backup' && (
+                          <input
+                            type="password"
+                            placeholder="Confirm backup password"
+                            value={backupPasswordConfirm}
+                            onChange={(e) => {
+                              setBackupPasswordConfirm(e.target.value);
+                              setBackupError(null);
+                            }}
+                            className="w-full bg-app-secondary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                          />
+                        )}
+                        {backupError && (
+                          <div className="text-error-alt text-sm font-mono flex items-center">
+                            <span className="mr-1">!</span> {backupError}
+                          </div>
+                        )}
+                        <div className="flex gap-3">
+                          <button
+                            onClick={closeBackupPanel}
+                            className="flex-1 p-3 bg-app-secondary border border-app-primary-40 hover-border-primary rounded font-mono text-sm transition-all duration-300"
+                          >
+                            CANCEL
+                          </button>
+                          <button
+                            onClick={handleBackupSubmit}
+                            disabled={isProcessingBackup || !backupPassword}
+                            className={`flex-1 p-3 ${
+                              isProcessingBackup || !backupPassword
+                                ? 'bg-primary-20 cursor-not-allowed'
+                                : 'bg-app-primary-color hover:bg-app-primary-dark cyberpunk-btn'
+                            } text-black font-bold rounded font-mono tracking-wider transition-all duration-300`}
+                          >
+                            {isProcessingBackup ? 'PROCESSING...' : backupMode === 'backup' ? 'DOWNLOAD BACKUP' : 'RESTORE'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -538,6 +841,191 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                       placeholder="0.000005"
                     />
                   </div>
+
+                  <div className="flex items-center justify-between p-3 bg-app-tertiary border border-app-primary-30 rounded-lg">
+                    <div>
+                      <div className="text-sm font-medium text-app-primary font-mono">Live Balance Updates</div>
+                      <div className="text-xs text-app-secondary font-mono">Subscribe to wallet and token accounts on the RPC websocket, polling when it is unavailable</div>
+                    </div>
+                    <button
+                      onClick={() => onConfigChange('liveBalances', config.liveBalances === 'true' ? 'false' : 'true')}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                        config.liveBalances === 'true' ? 'bg-app-primary-color' : 'bg-app-primary-30'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          config.liveBalances === 'true' ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {config.liveBalances === 'true' && (
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max Websocket Subscriptions
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={config.maxBalanceSubscriptions || '200'}
+                        onChange={(e) => onConfigChange('maxBalanceSubscriptions', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="200"
+                      />
+                      <div className="text-xs text-app-secondary font-mono mt-1">
+                        Each wallet uses one subscription, plus one for its token account. Accounts beyond the limit are polled.
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Security Section */}
+              <div className="bg-app-secondary border border-app-primary-30 rounded-lg p-6">
+                <h3 className="text-lg font-bold text-app-primary font-mono mb-4 flex items-center gap-2">
+                  <Lock size={20} className="color-primary" />
+                  SECURITY
+                </h3>
+                
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                      Auto-Lock After (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="1440"
+                      step="1"
+                      value={config.autoLockMinutes || '15'}
+                      onChange={(e) => onConfigChange('autoLockMinutes', e.target.value)}
+                      className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                      placeholder="15"
+                    />
+                    <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                      Lock the wallet vault after this much inactivity (0 to disable)
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                      Trusted Programs &amp; Recipients
+                    </label>
+                    <textarea
+                      rows={3}
+                      value={config.trustedAddresses || ''}
+                      onChange={(e) => onConfigChange('trustedAddresses', e.target.value)}
+                      className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                      placeholder="One address per line"
+                    />
+                    <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                      Server-built transactions are checked before signing. Addresses listed here are accepted in addition to the built-in allowlist
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Spending Limits Section */}
+              <div className="bg-app-secondary border border-app-primary-30 rounded-lg p-6">
+                <h3 className="text-lg font-bold text-app-primary font-mono mb-4 flex items-center gap-2">
+                  <ShieldAlert size={20} className="color-primary" />
+                  SPENDING LIMITS
+                </h3>
+                
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max SOL per Wallet
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={config.maxSolPerWallet || ''}
+                        onChange={(e) => onConfigChange('maxSolPerWallet', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="No limit"
+                      />
+                      <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                        Per wallet, per trade
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max SOL per Operation
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={config.maxSolPerOperation || ''}
+                        onChange={(e) => onConfigChange('maxSolPerOperation', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="No limit"
+                      />
+                      <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                        All wallets of one buy or deploy
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max SOL per Day
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={config.maxSolPerDay || ''}
+                        onChange={(e) => onConfigChange('maxSolPerDay', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="No limit"
+                      />
+                      <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                        Cumulative, resets at midnight
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max SOL per Session
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.0001"
+                        value={config.maxSolPerSession || ''}
+                        onChange={(e) => onConfigChange('maxSolPerSession', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="No limit"
+                      />
+                      <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                        Cumulative, resets when the tab is closed
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
+                        Max % of Wallet Balance
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={config.maxBalancePercent || ''}
+                        onChange={(e) => onConfigChange('maxBalancePercent', e.target.value)}
+                        className="w-full bg-app-tertiary border border-app-primary-40 rounded p-3 text-sm text-app-primary focus-border-primary focus:outline-none cyberpunk-input font-mono"
+                        placeholder="No limit"
+                      />
+                      <div className="text-xs text-app-secondary-80 font-mono mt-1">
+                        Share of the SOL balance per trade
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-xs text-app-secondary-80 font-mono">
+                    Buys, custom buys, automation and deploy buys that exceed a limit need an explicit override. Leave empty for no limit. Spent today: {getSpentToday().toFixed(4)} SOL, this session: {getSpentThisSession().toFixed(4)} SOL
+                  </div>
                 </div>
               </div>
 
@@ -551,8 +1039,8 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                 <div className="space-y-4">
                   <div className="flex items-center justify-between p-3 bg-app-tertiary border border-app-primary-30 rounded-lg">
                     <div>
-                      <div className="text-sm font-medium text-app-primary font-mono">Enable Self-Hosted Trading API</div>
-                      <div className="text-xs text-app-secondary font-mono">Use your own trading server instead of default service</div>
+                      <div className="text-sm font-medium text-app-primary font-mono">Use Self-Hosted Trading API</div>
+                      <div className="text-xs text-app-secondary font-mono">Build transactions and relay bundles through your own server instead of the default service</div>
                     </div>
                     <button
                       onClick={() => onConfigChange('tradingServerEnabled', config.tradingServerEnabled === 'true' ? 'false' : 'true')}
@@ -583,6 +1071,10 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                       <div className="text-xs text-app-secondary-80 font-mono mt-1">
                         Enter the URL of your self-hosted trading API server
                       </div>
+                      <div className="text-xs text-warning font-mono mt-2">
+                        Wallet keys are no longer sent to the server, so it cannot sign or send trades itself. Buys and sells
+                        need its buy and sell endpoints to return unsigned transactions, which are inspected and signed here.
+                      </div>
                     </div>
                   )}
                 </div>
@@ -596,6 +1088,25 @@ const EnhancedSettingsModal: React.FC<EnhancedSettingsModalProps> = ({
                 </h3>
                 
                 <div className="space-y-4">
+                  <div className="flex items-center justify-between p-3 bg-app-tertiary border border-app-primary-30 rounded-lg">
+                    <div>
+                      <div className="text-sm font-medium text-app-primary font-mono">Simulate Transactions (Dry Run)</div>
+                      <div className="text-xs text-app-secondary font-mono">Run bundles through simulateTransaction on your RPC instead of sending them</div>
+                    </div>
+                    <button
+                      onClick={() => onConfigChange('simulateTransactions', config.simulateTransactions === 'true' ? 'false' : 'true')}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                        config.simulateTransactions === 'true' ? 'bg-app-primary-color' : 'bg-app-primary-30'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          config.simulateTransactions === 'true' ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+
                   <div>
                     <label className="block text-sm text-app-secondary font-mono mb-2 uppercase tracking-wider">
                       Default Bundle Mode
@@ -0,0 +1,132 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { X, FlaskConical, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import { SimulationReport } from '../utils/simulation';
+
+interface SimulationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reports: SimulationReport[];
+  onClear: () => void;
+}
+
+const formatAddress = (address: string) => address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '--';
+
+const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${change.toFixed(6)} SOL`;
+
+export const SimulationModal: React.FC<SimulationModalProps> = ({
+  isOpen,
+  onClose,
+  reports,
+  onClear
+}) => {
+  if (!isOpen) return null;
+
+  const simulations = reports.flatMap(report => report.simulations);
+  const failed = simulations.filter(simulation => !simulation.success).length;
+  const totalUnits = simulations.reduce((sum, simulation) => sum + (simulation.unitsConsumed || 0), 0);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-3xl overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <FlaskConical size={16} className="color-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> DRY RUN RESULTS <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClear}
+              className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded"
+              title="Clear results"
+            >
+              <Trash2 size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="relative z-10 p-5 space-y-4 max-h-[70vh] overflow-y-auto cyberpunk-scrollbar">
+          <div className="text-sm text-app-secondary font-mono">
+            {simulations.length} transactions simulated, {failed} failed, {totalUnits.toLocaleString()} compute units in total.
+            Nothing was sent.
+          </div>
+
+          {simulations.length === 0 && (
+            <div className="text-center py-6 text-app-secondary-60 font-mono text-sm">
+              No simulations yet
+            </div>
+          )}
+
+          {reports.map(report => (
+            <div key={report.id} className="space-y-2">
+              <div className="text-xs text-app-secondary-60 font-mono">
+                Bundle simulated {new Date(report.timestamp).toLocaleTimeString()}
+              </div>
+              {report.simulations.map((simulation, index) => (
+                <div key={`${report.id}-${index}`} className="bg-app-secondary border border-app-primary-30 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 font-mono text-sm">
+                      {simulation.success
+                        ? <CheckCircle size={14} className="color-primary" />
+                        : <AlertCircle size={14} className="text-error-alt" />}
+                      <span className="text-app-primary">{formatAddress(simulation.wallet)}</span>
+                      <span className="text-app-secondary-60 text-xs">{formatAddress(simulation.signature)}</span>
+                    </div>
+                    <span className="text-xs text-app-secondary font-mono">
+                      {simulation.unitsConsumed !== undefined ? `${simulation.unitsConsumed.toLocaleString()} CU` : '-- CU'}
+                    </span>
+                  </div>
+
+                  {simulation.error && (
+                    <div className="text-xs text-error-alt font-mono break-all">{simulation.error}</div>
+                  )}
+
+                  {simulation.balanceChanges.length > 0 && (
+                    <div className="space-y-1">
+                      {simulation.balanceChanges.map(change => (
+                        <div key={change.address} className="flex justify-between text-xs font-mono">
+                          <span className="text-app-secondary">{formatAddress(change.address)}</span>
+                          <span className={change.change >= 0 ? 'color-primary' : 'text-error-alt'}>
+                            {formatChange(change.change)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {simulation.logs.length > 0 && (
+                    <details>
+                      <summary className="text-xs text-app-secondary-60 font-mono cursor-pointer">
+                        Logs ({simulation.logs.length})
+                      </summary>
+                      <pre className="mt-1 text-xs text-app-secondary font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                        {simulation.logs.join('\n')}
+                      </pre>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, ShieldAlert, AlertCircle, CheckCircle } from 'lucide-react';
+import { SpendingOverrideRequest } from '../utils/spendingLimits';
+
+interface SpendingLimitModalProps {
+  request: SpendingOverrideRequest | null;
+  onDecision: (approved: boolean) => void;
+}
+
+export const SpendingLimitModal: React.FC<SpendingLimitModalProps> = ({
+  request,
+  onDecision
+}) => {
+  const [isConfirmed, setIsConfirmed] = useState(false);
+
+  // Every request starts unconfirmed
+  useEffect(() => {
+    setIsConfirmed(false);
+  }, [request]);
+
+  if (!request) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-blur-sm modal-cyberpunk-container bg-app-primary-85">
+      <div className="relative bg-app-primary border border-app-primary-40 rounded-lg shadow-lg w-full max-w-lg overflow-hidden transform modal-cyberpunk-content modal-glow">
+        {/* Ambient grid background */}
+        <div className="absolute inset-0 z-0 opacity-10 bg-cyberpunk-grid">
+        </div>
+
+        {/* Header */}
+        <div className="relative z-10 p-4 flex justify-between items-center border-b border-app-primary-40">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary-20 mr-3">
+              <ShieldAlert size={16} className="text-error-alt" />
+            </div>
+            <h2 className="text-lg font-semibold text-app-primary font-mono">
+              <span className="color-primary">/</span> SPENDING LIMIT <span className="color-primary">/</span>
+            </h2>
+          </div>
+          <button
+            onClick={() => onDecision(false)}
+            className="text-app-secondary hover:color-primary transition-colors p-1 hover:bg-primary-20 rounded"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="relative z-10 p-5 space-y-4">
+          <div className="text-sm text-app-secondary font-mono">
+            {request.operation} of {request.total.toFixed(4)} SOL exceeds your configured limits:
+          </div>
+
+          <div className="space-y-2">
+            {request.violations.map((violation, index) => (
+              <div key={index} className="flex items-start gap-2 bg-app-secondary border border-app-primary-30 rounded-lg p-3">
+                <AlertCircle size={14} className="text-error-alt mt-0.5 flex-shrink-0" />
+                <span className="text-xs text-app-primary font-mono">{violation.message}</span>
+              </div>
+            ))}
+          </div>
+
+          <div
+            className="flex items-start gap-3 cursor-pointer"
+            onClick={() => setIsConfirmed(!isConfirmed)}
+          >
+            <div className="relative mt-1">
+              <div
+                className={`w-5 h-5 border-app-primary-40 border rounded-md transition-all ${isConfirmed ? 'bg-app-primary-color border-0' : ''}`}
+              ></div>
+              <CheckCircle size={14} className={`absolute top-0.5 left-0.5 text-app-primary transition-all ${isConfirmed ? 'opacity-100' : 'opacity-0'}`} />
+            </div>
+            <span className="text-sm text-app-secondary leading-relaxed font-mono select-none">
+              I UNDERSTAND THAT THIS OPERATION GOES OVER MY SPENDING LIMITS AND WANT TO SEND IT ANYWAY.
+            </span>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => onDecision(false)}
+              className="px-4 py-2 bg-app-tertiary border border-app-primary-40 rounded text-app-primary font-mono text-sm hover:border-app-primary transition-colors"
+            >
+              CANCEL
+            </button>
+            <button
+              onClick={() => onDecision(true)}
+              disabled={!isConfirmed}
+              className={`px-4 py-2 rounded font-mono text-sm transition-colors ${
+                isConfirmed
+                  ? 'bg-error-alt text-app-primary hover:opacity-90'
+                  : 'bg-app-tertiary text-app-secondary-60 border border-app-primary-30 cursor-not-allowed'
+              }`}
+            >
+              OVERRIDE &amp; CONTINUE
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -13,7 +13,11 @@ import bs58 from 'bs58';
 import { useToast } from "../Notifications";
 import { WalletType, getWalletDisplayName } from '../Utils';
 import { Buffer } from 'buffer';
-import { sendToJitoBundleService } from '../utils/jitoService';
+import { sendBundle, getTradingServerUrl } from '../utils/bundleClient';
+import { appendJournalEntry, JournalInput } from '../utils/journal';
+import { WalletGroupSelector } from '../WalletGroupSelector';
+import { getSigningWallets } from '../utils/wallets';
+import { getMintInfo, getNonAtaTokenAccounts, getTransferFee, isToken2022Mint, TokenMintInfo } from '../utils/balances';
 
 interface TransferModalProps {
   isOpen: boolean;
@@ -67,6 +71,7 @@ export const TransferModal: React.FC<TransferModalProps> = ({
   const [sortDirection, setSortDirection] = useState('asc');
   const [balanceFilter, setBalanceFilter] = useState('all');
   const [showInfoTip, setShowInfoTip] = useState(false);
+  const [mintInfo, setMintInfo] = useState<TokenMintInfo | null>(null);
 
   // Reset form when modal opens/closes
   useEffect(() => {
@@ -84,6 +89,18 @@ export const TransferModal: React.FC<TransferModalProps> = ({
     }
   }, [transferType, tokenAddress]);
 
+  // Load the token program and transfer fee of the selected token
+  useEffect(() => {
+    setMintInfo(null);
+    if (!selectedToken || !connection) return;
+
+    let cancelled = false;
+    getMintInfo(connection, selectedToken)
+      .then(info => { if (!cancelled) setMintInfo(info); })
+      .catch(error => console.error('Error loading token mint:', error));
+    return () => { cancelled = true; };
+  }, [selectedToken, connection]);
+
   // Format SOL balance for display
   const formatSolBalance = (balance: number) => {
     return balance.toFixed(4);
@@ -113,6 +130,9 @@ export const TransferModal: React.FC<TransferModalProps> = ({
     return tokenBalances.has(address) ? (tokenBalances.get(address) ?? 0) : 0;
   };
 
+  // Only wallets we hold keys for can send; watch-only wallets are still valid recipients
+  const signingWallets = getSigningWallets(wallets);
+
   // Get wallet by privateKey
   const getWalletByPrivateKey = (privateKey: string) => {
     return wallets.find(wallet => wallet.privateKey === privateKey);
@@ -173,8 +193,28 @@ export const TransferModal: React.FC<TransferModalProps> = ({
     }
   };
 
+  // Tokens sent and withheld by a Token-2022 transfer fee across the whole batch
+  const calculateTransferFeeSummary = () => {
+    return createTransferQueueEntries().reduce((summary, transfer) => {
+      const transferAmount = parseFloat(transfer.amount) || 0;
+      return {
+        sent: summary.sent + transferAmount,
+        fee: summary.fee + getTransferFee(selectedToken, transferAmount)
+      };
+    }, { sent: 0, fee: 0 });
+  };
+
+  // Source wallets holding part of the token outside their associated token account
+  const getSourcesWithNonAtaTokens = () => {
+    if (transferType !== 'TOKEN' || !selectedToken) return [];
+    return sourceWallets.filter(privateKey => {
+      const wallet = getWalletByPrivateKey(privateKey);
+      return wallet ? getNonAtaTokenAccounts(wallet.address, selectedToken).length > 0 : false;
+    });
+  };
+
   // Create transfer queue from selected wallets and recipients
-  const createTransferQueue = () => {
+  const createTransferQueueEntries = () => {
     const amounts = calculateTransferAmounts();
     const queue: typeof transferQueue = [];
     
@@ -194,7 +234,12 @@ export const TransferModal: React.FC<TransferModalProps> = ({
         });
       });
     });
-    
+
+    return queue;
+  };
+
+  const createTransferQueue = () => {
+    const queue = createTransferQueueEntries();
     setTransferQueue(queue);
     return queue;
   };
@@ -235,6 +280,14 @@ export const TransferModal: React.FC<TransferModalProps> = ({
       for (let i = 0; i < queue.length; i++) {
         setCurrentTransferIndex(i);
         const transfer = queue[i];
+        const sourceAddress = getWalletByPrivateKey(transfer.sourceWallet)?.address || '';
+        const journalInput: JournalInput = {
+          operation: 'transfer',
+          tokenAddress: transferType === 'TOKEN' ? selectedToken : undefined,
+          wallets: [sourceAddress, transfer.recipient],
+          amounts: [{ wallet: sourceAddress, amount: parseFloat(transfer.amount) || 0, unit: transferType === 'TOKEN' ? 'tokens' : 'SOL' }],
+          details: `To ${transfer.recipient}`
+        };
         
         // Update status to processing
         setTransferQueue(prev => prev.map((t, idx) => 
@@ -247,7 +300,7 @@ export const TransferModal: React.FC<TransferModalProps> = ({
             throw new Error('Source wallet not found');
           }
 
-          const baseUrl = (window as any).tradingServerUrl.replace(/\/+$/, '');
+          const baseUrl = getTradingServerUrl();
           
           // Step 1: Request the transaction from the backend
           const buildResponse = await fetch(`${baseUrl}/api/tokens/transfer`, {
@@ -285,10 +338,11 @@ export const TransferModal: React.FC<TransferModalProps> = ({
           
           // Step 4: Send the signed transaction via Jito Bundle Service
           const serializedTransaction = bs58.encode(transaction.serialize());
-          const jitoResult = await sendToJitoBundleService(serializedTransaction);
+          const jitoResult = await sendBundle([serializedTransaction]);
           
-          // Extract signature from Jito result
-          const signature = jitoResult.signature || jitoResult.txid || 'Unknown';
+          // Extract signature from the bundle result
+          const signature = jitoResult.signatures?.[0] || 'Unknown';
+          await appendJournalEntry(journalInput, { success: true, result: jitoResult });
           
           // Update status to completed
           setTransferQueue(prev => prev.map((t, idx) => 
@@ -309,6 +363,7 @@ export const TransferModal: React.FC<TransferModalProps> = ({
           setTransferQueue(prev => prev.map((t, idx) => 
             idx === i ? { ...t, status: 'failed', error: errorMessage } : t
           ));
+          await appendJournalEntry(journalInput, { success: false, error: errorMessage });
           
           failedCount++;
         }
@@ -683,9 +738,17 @@ export const TransferModal: React.FC<TransferModalProps> = ({
                       </button>
                     </div>
 
+                    <WalletGroupSelector
+                      wallets={filterWallets(signingWallets, '')}
+                      selected={sourceWallets}
+                      onChange={setSourceWallets}
+                      getWalletKey={wallet => wallet.privateKey}
+                      className="mb-2"
+                    />
+
                     <div className="h-48 overflow-y-auto border border-app-primary-20 rounded-lg shadow-inner bg-app-tertiary transition-all duration-200 group-hover:border-app-primary-40 scrollbar-thin">
-                      {filterWallets(wallets, sourceSearchTerm).length > 0 ? (
-                        filterWallets(wallets, sourceSearchTerm).map((wallet) => (
+                      {filterWallets(signingWallets, sourceSearchTerm).length > 0 ? (
+                        filterWallets(signingWallets, sourceSearchTerm).map((wallet) => (
                           <div 
                             key={wallet.id}
                             className={`flex items-center p-2.5 hover-bg-secondary cursor-pointer transition-all duration-200 border-b border-app-primary-20 last:border-b-0
@@ -764,6 +827,14 @@ export const TransferModal: React.FC<TransferModalProps> = ({
                       </button>
                     </div>
 
+                    <WalletGroupSelector
+                      wallets={wallets}
+                      selected={receiverAddresses}
+                      onChange={setReceiverAddresses}
+                      getWalletKey={wallet => wallet.address}
+                      className="mb-2"
+                    />
+
                     {/* Recipients list */}
                     <div className="h-32 overflow-y-auto border border-app-primary-20 rounded-lg bg-app-tertiary scrollbar-thin">
                       {receiverAddresses.length > 0 ? (
@@ -925,6 +996,22 @@ export const TransferModal: React.FC<TransferModalProps> = ({
                         <div className="p-2 bg-app-primary rounded border border-app-primary-20">
                           <p className="text-xs text-app-secondary font-mono mb-1">TOKEN:</p>
                           <p className="text-xs text-app-primary font-mono break-all">{selectedToken}</p>
+                          {mintInfo && isToken2022Mint(mintInfo) && (
+                            <p className="text-xs text-app-secondary font-mono mt-1">TOKEN-2022</p>
+                          )}
+                          {mintInfo?.transferFeeConfig && (() => {
+                            const { sent, fee } = calculateTransferFeeSummary();
+                            return (
+                              <p className="text-xs text-warning font-mono mt-1">
+                                Transfer fee: recipients receive {formatTokenBalance(sent - fee)} in total, {formatTokenBalance(fee)} is withheld
+                              </p>
+                            );
+                          })()}
+                          {getSourcesWithNonAtaTokens().length > 0 && (
+                            <p className="text-xs text-warning font-mono mt-1">
+                              {getSourcesWithNonAtaTokens().length} source wallet(s) hold part of the token outside the associated token account; that part cannot be sent
+                            </p>
+                          )}
                         </div>
                       )}
                     </div>
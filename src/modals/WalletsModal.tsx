@@ -17,7 +17,9 @@ import {
   X,
   Edit3,
   Check,
-  XCircle
+  XCircle,
+  Tag,
+  Eye
 } from 'lucide-react';
 import { Connection } from '@solana/web3.js';
 import { WalletTooltip } from '../styles/Styles';
@@ -31,6 +33,7 @@ import {
   getWalletDisplayName
 } from '../Utils';
 import { handleCleanupWallets, handleSortWallets } from '../Utils';
+import { getWalletTags, setWalletTag, isWatchOnlyWallet } from '../utils/wallets';
 
 interface EnhancedWalletOverviewProps {
   isOpen: boolean;
@@ -73,6 +76,10 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
   const [filterType, setFilterType] = useState<'all' | 'withSOL' | 'withTokens' | 'empty'>('all');
   const [editingLabel, setEditingLabel] = useState<number | null>(null);
   const [editLabelValue, setEditLabelValue] = useState<string>('');
+  const [groupFilter, setGroupFilter] = useState<string>('all');
+  const [groupInput, setGroupInput] = useState<string>('');
+
+  const walletTags = useMemo(() => getWalletTags(wallets), [wallets]);
 
   // Filter and sort wallets - useMemo must also be called before conditional return
   const filteredAndSortedWallets = useMemo(() => {
@@ -82,6 +89,9 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
       
       if (!matchesSearch) return false;
 
+      // Group filter
+      if (groupFilter !== 'all' && !wallet.tags?.includes(groupFilter)) return false;
+
       // Type filter
       const solBalance = solBalances.get(wallet.address) || 0;
       const tokenBalance = tokenBalances.get(wallet.address) || 0;
@@ -131,7 +141,7 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
         ? (aValue as number) - (bValue as number)
         : (bValue as number) - (aValue as number);
     });
-  }, [wallets, sortField, sortDirection, searchTerm, filterType, solBalances, tokenBalances]);
+  }, [wallets, sortField, sortDirection, searchTerm, filterType, groupFilter, solBalances, tokenBalances]);
 
   // Now we can have conditional returns after all hooks are called
   if (!isOpen) return null;
@@ -195,6 +205,23 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
     }
   };
 
+  // Group functions
+  const updateWalletGroup = (walletIds: number[], tag: string, add: boolean) => {
+    const updatedWallets = setWalletTag(wallets, walletIds, tag, add);
+    saveWalletsToCookies(updatedWallets);
+    setWallets(updatedWallets);
+  };
+
+  const applyGroupToSelected = (add: boolean) => {
+    if (selectedWallets.size === 0 || !groupInput.trim()) return;
+    updateWalletGroup(Array.from(selectedWallets), groupInput, add);
+    showToast(
+      `${add ? 'Added' : 'Removed'} ${selectedWallets.size} wallet${selectedWallets.size > 1 ? 's' : ''} ${add ? 'to' : 'from'} ${groupInput.trim().toLowerCase()}`,
+      'success'
+    );
+    setGroupInput('');
+  };
+
   // Bulk operations
   const deleteSelectedWallets = () => {
     if (selectedWallets.size === 0) return;
@@ -211,7 +238,7 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
     if (selectedWallets.size === 0) return;
     
     const selectedWalletData = wallets
-      .filter(w => selectedWallets.has(w.id))
+      .filter(w => selectedWallets.has(w.id) && !isWatchOnlyWallet(w))
       .map(w => w.privateKey)
       .join('\n');
     
@@ -316,6 +343,20 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
             <option value="empty">Empty</option>
           </select>
 
+          {/* Group Filter */}
+          {walletTags.length > 0 && (
+            <select
+              value={groupFilter}
+              onChange={(e) => setGroupFilter(e.target.value)}
+              className="bg-app-secondary border border-app-primary-40 rounded px-3 py-2 text-sm text-app-primary focus-border-primary focus:outline-none font-mono"
+            >
+              <option value="all">All Groups</option>
+              {walletTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+
           {/* Bulk Actions */}
           {selectedWallets.size > 0 && (
             <div className="flex gap-2">
@@ -340,6 +381,42 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
               <span className="px-3 py-2 bg-primary-20 rounded text-sm font-mono color-primary">
                 {selectedWallets.size} selected
               </span>
+
+              {/* Group selected wallets */}
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  list="wallet-groups"
+                  placeholder="Group..."
+                  value={groupInput}
+                  onChange={(e) => setGroupInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && applyGroupToSelected(true)}
+                  className="w-32 bg-app-secondary border border-app-primary-40 rounded px-2 py-2 text-sm text-app-primary focus-border-primary focus:outline-none font-mono"
+                />
+                <datalist id="wallet-groups">
+                  {walletTags.map(tag => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                <WalletTooltip content="Add Selected to Group" position="bottom">
+                  <button
+                    onClick={() => applyGroupToSelected(true)}
+                    disabled={!groupInput.trim()}
+                    className="p-2 bg-primary-20 border border-app-primary-40 hover-border-primary rounded transition-all duration-300 disabled:opacity-50"
+                  >
+                    <Tag size={16} className="color-primary" />
+                  </button>
+                </WalletTooltip>
+                <WalletTooltip content="Remove Selected from Group" position="bottom">
+                  <button
+                    onClick={() => applyGroupToSelected(false)}
+                    disabled={!groupInput.trim()}
+                    className="p-2 bg-transparent hover:bg-red-600/20 rounded transition-all duration-300 disabled:opacity-50"
+                  >
+                    <XCircle size={16} className="text-red-500" />
+                  </button>
+                </WalletTooltip>
+              </div>
             </div>
           )}
 
@@ -460,6 +537,35 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
                             </button>
                           </div>
                         )}
+                        {wallet.tags && wallet.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {wallet.tags.map(tag => (
+                              <span key={tag} className="flex items-center gap-1 px-1.5 py-0.5 bg-primary-20 rounded text-xs color-primary">
+                                {tag}
+                                <button
+                                  onClick={() => updateWalletGroup([wallet.id], tag, false)}
+                                  className="opacity-60 hover:opacity-100"
+                                >
+                                  <X size={10} />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {wallet.hdSeedId && (
+                          <WalletTooltip content={`Seed ${wallet.hdSeedId}, path m/44'/501'/${wallet.hdIndex}'/0'`} position="top">
+                            <span className="inline-block mt-1 px-1.5 py-0.5 bg-app-tertiary border border-app-primary-30 rounded text-xs text-app-secondary font-mono">
+                              HD #{wallet.hdIndex}
+                            </span>
+                          </WalletTooltip>
+                        )}
+                        {isWatchOnlyWallet(wallet) && (
+                          <WalletTooltip content="Watch-only: balances are tracked, nothing can be signed" position="top">
+                            <span className="inline-flex items-center gap-1 mt-1 px-1.5 py-0.5 bg-app-tertiary border border-app-primary-30 rounded text-xs text-app-secondary font-mono">
+                              <Eye size={10} /> WATCH
+                            </span>
+                          </WalletTooltip>
+                        )}
                       </td>
                       <td className="p-3">
                         <WalletTooltip content="Click to copy address" position="top">
@@ -484,26 +590,32 @@ const EnhancedWalletOverview: React.FC<EnhancedWalletOverviewProps> = ({
                         </td>
                       )}
                       <td className="p-3">
-                        <WalletTooltip content="Click to copy private key" position="top">
-                          <button
-                            onClick={() => copyToClipboard(wallet.privateKey, showToast)}
-                            className="text-app-secondary hover:color-primary transition-colors font-mono text-xs"
-                          >
-                            {wallet.privateKey.substring(0, 16)}...
-                          </button>
-                        </WalletTooltip>
-                      </td>
-                      <td className="p-3">
-                        <div className="flex gap-1">
-
-                          <WalletTooltip content="Download Private Key" position="top">
+                        {isWatchOnlyWallet(wallet) ? (
+                          <span className="text-app-secondary-60 font-mono text-xs">--</span>
+                        ) : (
+                          <WalletTooltip content="Click to copy private key" position="top">
                             <button
-                              onClick={() => downloadPrivateKey(wallet)}
-                              className="p-1 hover-bg-primary-20 rounded transition-all duration-300"
+                              onClick={() => copyToClipboard(wallet.privateKey, showToast)}
+                              className="text-app-secondary hover:color-primary transition-colors font-mono text-xs"
                             >
-                              <Download size={14} className="color-primary" />
+                              {wallet.privateKey.substring(0, 16)}...
                             </button>
                           </WalletTooltip>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        <div className="flex gap-1">
+
+                          {!isWatchOnlyWallet(wallet) && (
+                            <WalletTooltip content="Download Private Key" position="top">
+                              <button
+                                onClick={() => downloadPrivateKey(wallet)}
+                                className="p-1 hover-bg-primary-20 rounded transition-all duration-300"
+                              >
+                                <Download size={14} className="color-primary" />
+                              </button>
+                            </WalletTooltip>
+                          )}
                           
                           <WalletTooltip content="Delete Wallet" position="top">
                             <button
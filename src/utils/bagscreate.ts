@@ -1,20 +1,16 @@
 import { Keypair, VersionedTransaction, PublicKey, SystemProgram, TransactionMessage, Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
 import { loadConfigFromCookies } from '../Utils';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertTransactionsSafe, assertEncodedTransactionsSafe, getAmountCaps, getLaunchpadPrograms, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletForBagsCreate {
   address: string;
@@ -49,18 +45,6 @@ export interface BagsCreateBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  success?: boolean;
-  jito?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
 interface BagsCreateResponse {
   success: boolean;
   mintAddress?: string;
@@ -79,60 +63,6 @@ export interface BagsConfigResponse {
   error?: string;
 }
 
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -150,7 +80,7 @@ export const checkDeveloperConfig = async (
   rpcUrl?: string
 ): Promise<BagsConfigResponse> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/bags/config`, {
       method: 'POST',
@@ -196,6 +126,14 @@ export const signAndSendConfigTransaction = async (
     // Create keypair from private key
     const ownerKeypair = Keypair.fromSecretKey(bs58.decode(ownerWallet.privateKey));
     
+    // Config transactions may not move any SOL beyond fees and rent
+    assertTransactionsSafe([transaction], [ownerWallet.address], {
+      operation: 'fee config',
+      programs: getLaunchpadPrograms('meteora'),
+      maxSolOut: {},
+      tipLamports: getTipAllowanceLamports()
+    });
+    
     // Sign the config transaction
     transaction.sign([ownerKeypair]);
     
@@ -252,17 +190,12 @@ export const signAndSendConfigTransaction = async (
     
     console.log('bundle has been sent', result);
     
-    // Handle different response structures
-    if (result.success || result.result || result.jito) {
-      const signature = result.jito || result.result || 'Bundle sent successfully';
-      console.log('Config and fee transactions sent successfully:', signature);
-      return {
-        success: true,
-        signature: signature
-      };
-    } else {
-      throw new Error(result.error?.message || 'Failed to send config and fee transactions');
-    }
+    const signature = result.bundleId || result.signatures?.[0] || 'Bundle sent successfully';
+    console.log('Config and fee transactions sent successfully:', signature);
+    return {
+      success: true,
+      signature: signature
+    };
   } catch (error) {
     console.error('Error signing and sending config transaction:', error);
     return {
@@ -279,7 +212,7 @@ const getPartiallyPreparedTransactions = async (
   bagsConfig: BagsCreateConfig
 ): Promise<{ mintAddress: string, bundles: BagsCreateBundle[] }> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/bags/create`, {
       method: 'POST',
@@ -407,9 +340,10 @@ const completeBundleSigning = (
 /**
  * Execute bags create operation on the frontend with improved reliability
  */
-export const executeBagsCreate = async (
+const runBagsCreate = async (
   wallets: WalletForBagsCreate[],
-  bagsConfig: BagsCreateConfig
+  bagsConfig: BagsCreateConfig,
+  reservation: string
 ): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string; configNeeded?: boolean; configTransaction?: string; configInstructions?: string }> => {
   try {
     console.log(`Preparing to create token using ${wallets.length} wallets`);
@@ -434,6 +368,16 @@ export const executeBagsCreate = async (
     
     console.log('Developer config check passed. Proceeding with token creation...');
     
+    // Dev and buyer wallet buys count toward the spending limits
+    await enforceSpendingLimits({
+      operation: 'Token deploy',
+      reservation,
+      spends: [
+        { address: bagsConfig.ownerPublicKey, amount: bagsConfig.initialBuyAmount + (bagsConfig.devBuyAmount || 0) },
+        ...bagsConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }))
+      ]
+    });
+    
     // Step 1: Get partially prepared bundles from backend
     const { mintAddress, bundles } = await getPartiallyPreparedTransactions(
       bagsConfig
@@ -445,6 +389,22 @@ export const executeBagsCreate = async (
       Keypair.fromSecretKey(bs58.decode(wallet.privateKey))
     );
     
+    // Inspect every bundle before anything is signed; Bags launches run on the Meteora bonding curve
+    assertEncodedTransactionsSafe(
+      bundles.flatMap(bundle => bundle.transactions || []),
+      wallets.map(wallet => wallet.address),
+      {
+        operation: 'token creation',
+        programs: getLaunchpadPrograms('meteora'),
+        maxSolOut: getAmountCaps([
+          { address: bagsConfig.ownerPublicKey, amount: bagsConfig.initialBuyAmount + (bagsConfig.devBuyAmount || 0) },
+          ...bagsConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }))
+        ]),
+        tipLamports: getTipAllowanceLamports(),
+        bundleCount: bundles.length
+      }
+    );
+    
     // Step 3: Complete transaction signing for each bundle
     // IMPORTANT: Process bundles in received order to maintain transaction sequence
     const signedBundles = bundles.map((bundle, index) => {
@@ -479,9 +439,6 @@ export const executeBagsCreate = async (
     // IMPORTANT: Maintain bundle order to preserve transaction dependencies
     for (let i = 1; i < signedBundles.length; i++) {
       try {
-        // Apply rate limiting
-        await checkRateLimit();
-        
         console.log(`Sending bundle ${i + 1}/${signedBundles.length} in sequence...`);
         // Send the bundle
         const result = await sendBundle(signedBundles[i].transactions);
@@ -514,6 +471,35 @@ export const executeBagsCreate = async (
   }
 };
 
+/**
+ * Execute bags create operation and record it in the operation journal
+ */
+export const executeBagsCreate = async (
+  wallets: WalletForBagsCreate[],
+  bagsConfig: BagsCreateConfig
+): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string; configNeeded?: boolean; configTransaction?: string; configInstructions?: string }> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runBagsCreate(wallets, bagsConfig, reservation);
+
+  // Nothing was sent while the developer config is still missing
+  if (!outcome.configNeeded) {
+    const spends: WalletSpend[] = [
+      { address: bagsConfig.ownerPublicKey, amount: bagsConfig.initialBuyAmount + (bagsConfig.devBuyAmount || 0) },
+      ...bagsConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }))
+    ];
+    await appendJournalEntry({
+      operation: 'deploy',
+      tokenAddress: outcome.mintAddress,
+      wallets: [bagsConfig.ownerPublicKey, ...bagsConfig.buyerWallets.map(wallet => wallet.publicKey)],
+      amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+      details: `Bags token creation: ${bagsConfig.metadata.name}`
+    }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  }
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
+
 /**
  * Send first bundle with extensive retry logic - this is critical for success
  */
@@ -525,9 +511,6 @@ const sendFirstBundle = async (bundle: BagsCreateBundle): Promise<{success: bool
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle.transactions);
       
@@ -627,4 +610,4 @@ export const createBagsConfig = ({
  * ];
  * 
  * const result = await executeBagsCreate(wallets, config);
- */
\ No newline at end of file
+ */
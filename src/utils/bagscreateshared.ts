@@ -1,20 +1,16 @@
 import { Keypair, VersionedTransaction, PublicKey, SystemProgram, TransactionMessage, Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
 import { loadConfigFromCookies } from '../Utils';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertTransactionsSafe, assertEncodedTransactionsSafe, getAmountCaps, getLaunchpadPrograms, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces for shared fees
 export interface WalletForBagsSharedCreate {
   address: string;
@@ -128,18 +124,6 @@ export interface BagsSharedCreateBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  success?: boolean;
-  jito?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
 interface BagsSharedCreateResponse {
   success: boolean;
   mintAddress?: string;
@@ -192,60 +176,6 @@ export interface BagsSharedConfigResponse {
   error?: string;
 }
 
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -263,7 +193,7 @@ export const createTokenAndConfig = async (
   config: BagsSharedTokenCreateConfig
 ): Promise<BagsSharedTokenCreateResponse> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/bags/config/shared`, {
       method: 'POST',
@@ -322,9 +252,6 @@ export const sendLaunchTransactions = async (
     
     for (let i = 0; i < transactions.length; i++) {
       try {
-        // Apply rate limiting
-        await checkRateLimit();
-        
         const bundleType = bundleOrder?.[i] || 'unknown';
         console.log(`Processing ${bundleType} transaction ${i + 1}/${transactions.length}`);
         
@@ -337,10 +264,8 @@ export const sendLaunchTransactions = async (
           
           if (result.success) {
             results.push({
-              jsonrpc: "2.0",
-              id: i + 1,
-              result: result.signature,
-              success: true
+              success: true,
+              bundleId: result.signature
             });
             successCount++;
             console.log(`✅ Config transaction ${i + 1} sent successfully`);
@@ -352,6 +277,11 @@ export const sendLaunchTransactions = async (
           // Deserialize transaction
           const txBuffer = bs58.decode(transactions[i]);
           const transaction = VersionedTransaction.deserialize(txBuffer);
+          assertTransactionsSafe([transaction], walletKeypairs.map(kp => kp.publicKey.toBase58()), {
+            operation: `${bundleType} transaction`,
+            programs: getLaunchpadPrograms('meteora'),
+            tipLamports: getTipAllowanceLamports()
+          });
           
           // Find signers for this transaction
           const signers: Keypair[] = [];
@@ -384,9 +314,8 @@ export const sendLaunchTransactions = async (
       } catch (error) {
         console.error(`❌ Transaction ${i + 1} failed:`, error);
         results.push({ 
-          jsonrpc: "2.0", 
-          id: i + 1, 
-          error: { code: -1, message: error.message } 
+          success: false, 
+          error: error.message 
         });
       }
     }
@@ -408,7 +337,7 @@ export const checkSharedFeesConfig = async (
   sharedFeesConfig: BagsSharedFeesConfig
 ): Promise<BagsSharedConfigResponse> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/bags/config/shared`, {
       method: 'POST',
@@ -451,6 +380,14 @@ export const signAndSendSharedConfigTransaction = async (
     // Create keypair from private key
     const ownerKeypair = Keypair.fromSecretKey(bs58.decode(ownerWallet.privateKey));
     
+    // Config transactions may not move any SOL beyond fees and rent
+    assertTransactionsSafe([transaction], [ownerWallet.address], {
+      operation: 'fee config',
+      programs: getLaunchpadPrograms('meteora'),
+      maxSolOut: {},
+      tipLamports: getTipAllowanceLamports()
+    });
+    
     // Sign the config transaction
     transaction.sign([ownerKeypair]);
     
@@ -508,17 +445,12 @@ export const signAndSendSharedConfigTransaction = async (
     
     console.log('Shared fees config bundle has been sent', result);
     
-    // Handle different response structures
-    if (result.success || result.result || result.jito) {
-      const signature = result.jito || result.result || 'Bundle sent successfully';
-      console.log('Shared fees config and fee transactions sent successfully:', signature);
-      return {
-        success: true,
-        signature: signature
-      };
-    } else {
-      throw new Error(result.error?.message || 'Failed to send shared fees config and fee transactions');
-    }
+    const signature = result.bundleId || result.signatures?.[0] || 'Bundle sent successfully';
+    console.log('Shared fees config and fee transactions sent successfully:', signature);
+    return {
+      success: true,
+      signature: signature
+    };
   } catch (error) {
     console.error('Error signing and sending shared fees config transaction:', error);
     return {
@@ -535,7 +467,7 @@ const getPartiallyPreparedSharedTransactions = async (
   sharedCreateConfig: BagsSharedCreateConfig
 ): Promise<{ mintAddress: string, bundles: BagsSharedCreateBundle[] }> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/bags/create/shared`, {
       method: 'POST',
@@ -665,11 +597,12 @@ const completeBundleSigning = (
 /**
  * Execute shared fees bags create operation on the frontend with improved reliability
  */
-export const executeSharedFeesBagsCreate = async (
+const runSharedFeesBagsCreate = async (
   wallets: WalletForBagsSharedCreate[],
   sharedFeesConfig: BagsSharedFeesConfig,
   sharedCreateConfig: BagsSharedCreateConfig,
-  skipConfigCheck: boolean = false
+  skipConfigCheck: boolean = false,
+  reservation: string
 ): Promise<{ 
   success: boolean; 
   mintAddress?: string; 
@@ -718,6 +651,13 @@ export const executeSharedFeesBagsCreate = async (
       console.log('Skipping config check. Proceeding directly with token creation...');
     }
     
+    // Buyer wallet buys count toward the spending limits
+    await enforceSpendingLimits({
+      operation: 'Token deploy',
+      reservation,
+      spends: updatedCreateConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }))
+    });
+    
     // Step 2: Get partially prepared bundles from backend
     const { mintAddress, bundles } = await getPartiallyPreparedSharedTransactions(updatedCreateConfig);
     console.log(`Received ${bundles.length} shared fees bundles from backend for mint ${mintAddress}`);
@@ -727,6 +667,21 @@ export const executeSharedFeesBagsCreate = async (
       Keypair.fromSecretKey(bs58.decode(wallet.privateKey))
     );
     
+    // Inspect every bundle before anything is signed; the buyer amounts cap each wallet
+    assertEncodedTransactionsSafe(
+      bundles.flatMap(bundle => bundle.transactions || []),
+      wallets.map(wallet => wallet.address),
+      {
+        operation: 'token creation',
+        programs: getLaunchpadPrograms('meteora'),
+        maxSolOut: getAmountCaps(
+          updatedCreateConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }))
+        ),
+        tipLamports: getTipAllowanceLamports(),
+        bundleCount: bundles.length
+      }
+    );
+    
     // Step 4: Complete transaction signing for each bundle
     // IMPORTANT: Process bundles in received order to maintain transaction sequence
     const signedBundles = bundles.map((bundle, index) => {
@@ -761,9 +716,6 @@ export const executeSharedFeesBagsCreate = async (
     // IMPORTANT: Maintain bundle order to preserve transaction dependencies
     for (let i = 1; i < signedBundles.length; i++) {
       try {
-        // Apply rate limiting
-        await checkRateLimit();
-        
         console.log(`Sending shared fees bundle ${i + 1}/${signedBundles.length} in sequence...`);
         // Send the bundle
         const result = await sendBundle(signedBundles[i].transactions);
@@ -796,6 +748,43 @@ export const executeSharedFeesBagsCreate = async (
   }
 };
 
+/**
+ * Execute shared fees bags create operation and record it in the operation journal
+ */
+export const executeSharedFeesBagsCreate = async (
+  wallets: WalletForBagsSharedCreate[],
+  sharedFeesConfig: BagsSharedFeesConfig,
+  sharedCreateConfig: BagsSharedCreateConfig,
+  skipConfigCheck: boolean = false
+): Promise<{ 
+  success: boolean; 
+  mintAddress?: string; 
+  result?: any; 
+  error?: string; 
+  configNeeded?: boolean; 
+  configTransaction?: string; 
+  configInstructions?: string;
+  feeShare?: any;
+}> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runSharedFeesBagsCreate(wallets, sharedFeesConfig, sharedCreateConfig, skipConfigCheck, reservation);
+
+  // Nothing was sent while the shared fees config is still missing
+  if (!outcome.configNeeded) {
+    const spends: WalletSpend[] = sharedCreateConfig.buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: wallet.amount }));
+    await appendJournalEntry({
+      operation: 'deploy',
+      tokenAddress: outcome.mintAddress || sharedCreateConfig.tokenMintAddress,
+      wallets: sharedCreateConfig.buyerWallets.map(wallet => wallet.publicKey),
+      amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+      details: `Bags shared fees token creation with @${sharedFeesConfig.feeClaimerTwitterHandle}`
+    }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  }
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
+
 /**
  * Send first bundle with extensive retry logic - this is critical for success
  */
@@ -807,9 +796,6 @@ const sendFirstBundle = async (bundle: BagsSharedCreateBundle): Promise<{success
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle.transactions);
       
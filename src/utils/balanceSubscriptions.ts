@@ -0,0 +1,261 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountLayout, ACCOUNT_SIZE } from '@solana/spl-token';
+import { Buffer } from 'buffer';
+import {
+  fetchBalances,
+  getMintInfo,
+  getNonAtaTokenAccounts,
+  getTokenAccountAddress,
+  setCachedBalance,
+  WalletBalances
+} from './balances';
+
+/**
+ * Live balance updates over the RPC websocket.
+ * Every wallet and its token ATA gets an accountSubscribe on the configured RPC's
+ * websocket, up to a subscription limit. Accounts over the limit, and wallets holding the
+ * token outside their ATA (a single notification cannot give their total), are polled.
+ * While the socket is down everything is polled until a reconnect succeeds.
+ */
+
+// Constants
+export const DEFAULT_MAX_SUBSCRIPTIONS = 200; // Many RPC providers cap subscriptions per connection
+const POLL_INTERVAL = 15000; // ms
+const RECONNECT_BASE_DELAY = 1000; // ms, doubled per failed attempt
+const RECONNECT_MAX_DELAY = 30000; // ms
+
+// Interfaces
+export interface BalanceSubscriptionOptions {
+  connection: Connection; // Used for polling and the token mint
+  rpcEndpoint: string; // HTTP endpoint; the websocket URL is derived from it
+  addresses: string[];
+  tokenAddress?: string;
+  maxSubscriptions?: number;
+  onBalances: (balances: WalletBalances) => void; // Only the balances that changed or were polled
+}
+
+export interface BalanceSubscription {
+  stop: () => void;
+}
+
+interface WatchedAccount {
+  wallet: string;
+  account: string;
+  kind: 'sol' | 'token';
+}
+
+/**
+ * Websocket URL of an RPC endpoint (http -> ws, https -> wss)
+ */
+export const getWebsocketEndpoint = (rpcEndpoint: string): string => rpcEndpoint.replace(/^http/, 'ws');
+
+// SOL and ATA of each wallet in wallet order, so the limit cuts off the last wallets.
+// Wallets with token accounts besides the ATA are returned as polled instead.
+const getWatchedAccounts = (
+  addresses: string[],
+  tokenAddress: string | undefined,
+  tokenProgramId: PublicKey | undefined
+): { accounts: WatchedAccount[]; polled: string[] } => {
+  const accounts: WatchedAccount[] = [];
+  const polled: string[] = [];
+  for (const wallet of addresses) {
+    accounts.push({ wallet, account: wallet, kind: 'sol' });
+    if (!tokenAddress) continue;
+    if (getNonAtaTokenAccounts(wallet, tokenAddress).length > 0) {
+      polled.push(wallet);
+      continue;
+    }
+    try {
+      accounts.push({ wallet, account: getTokenAccountAddress(wallet, tokenAddress, tokenProgramId).toBase58(), kind: 'token' });
+    } catch (error) {
+      console.error(`Cannot derive token account for ${wallet}:`, error);
+    }
+  }
+  return { accounts, polled };
+};
+
+// Raw token amount from base64 account data; closed or empty accounts hold nothing.
+// Token-2022 accounts start with the same layout, extensions follow it.
+const getNotifiedTokenAmount = (data: [string, string] | undefined): bigint => {
+  if (!data) return BigInt(0);
+  const raw = Buffer.from(data[0], 'base64');
+  if (raw.length < ACCOUNT_SIZE) return BigInt(0);
+  return AccountLayout.decode(raw.subarray(0, ACCOUNT_SIZE)).amount;
+};
+
+/**
+ * Start pushing balance changes for the given wallets
+ * @returns Handle to stop every subscription, poll and reconnect timer
+ */
+export const subscribeToBalances = (options: BalanceSubscriptionOptions): BalanceSubscription => {
+  const { connection, addresses, onBalances } = options;
+  const maxSubscriptions = options.maxSubscriptions ?? DEFAULT_MAX_SUBSCRIPTIONS;
+  const websocketUrl = getWebsocketEndpoint(options.rpcEndpoint);
+
+  let tokenAddress = options.tokenAddress;
+  let decimals = 0;
+  let tokenProgramId: PublicKey | undefined;
+  let socket: WebSocket | null = null;
+  let stopped = false;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let requestId = 0;
+
+  const pendingRequests = new Map<number, WatchedAccount>();
+  const subscriptions = new Map<number, WatchedAccount>();
+  const polledWallets = new Set<string>();
+
+  const emit = (account: WatchedAccount, balance: number) => {
+    setCachedBalance(account.wallet, balance, account.kind === 'token' ? tokenAddress : undefined);
+    const update = new Map([[account.wallet, balance]]);
+    onBalances({
+      solBalances: account.kind === 'sol' ? update : new Map(),
+      tokenBalances: account.kind === 'token' ? update : new Map()
+    });
+  };
+
+  const poll = async () => {
+    if (stopped || polledWallets.size === 0) return;
+    const balances = await fetchBalances(connection, Array.from(polledWallets), tokenAddress, { force: true });
+    if (!stopped) onBalances(balances);
+  };
+
+  // Replace the set of polled wallets and restart the timer
+  const setPolledWallets = (wallets: string[]) => {
+    polledWallets.clear();
+    wallets.forEach(wallet => polledWallets.add(wallet));
+
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+    if (polledWallets.size === 0) return;
+
+    poll();
+    pollTimer = setInterval(poll, POLL_INTERVAL);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: any;
+    try {
+      message = JSON.parse(event.data);
+    } catch (error) {
+      return;
+    }
+
+    // Subscription confirmed or refused
+    if (typeof message.id === 'number' && pendingRequests.has(message.id)) {
+      const account = pendingRequests.get(message.id)!;
+      pendingRequests.delete(message.id);
+
+      if (typeof message.result === 'number') {
+        subscriptions.set(message.result, account);
+      } else {
+        console.error(`accountSubscribe refused for ${account.account}:`, message.error);
+        setPolledWallets([...Array.from(polledWallets), account.wallet]);
+      }
+      return;
+    }
+
+    if (message.method !== 'accountNotification') return;
+    const account = subscriptions.get(message.params?.subscription);
+    const value = message.params?.result?.value;
+    if (!account || !value) return;
+
+    if (account.kind === 'sol') {
+      emit(account, (value.lamports || 0) / 1e9);
+    } else {
+      emit(account, Number(getNotifiedTokenAmount(value.data)) / Math.pow(10, decimals));
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, reconnectAttempts), RECONNECT_MAX_DELAY);
+    reconnectAttempts++;
+    console.log(`Balance websocket closed, polling and reconnecting in ${delay}ms`);
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    reconnectTimer = null;
+
+    const watched = getWatchedAccounts(addresses, tokenAddress, tokenProgramId);
+    const subscribed = watched.accounts.slice(0, maxSubscriptions);
+    const overflow = watched.accounts.slice(maxSubscriptions);
+
+    try {
+      socket = new WebSocket(websocketUrl);
+    } catch (error) {
+      console.error('Error opening balance websocket:', error);
+      setPolledWallets(addresses);
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      reconnectAttempts = 0;
+      subscribed.forEach(account => {
+        const id = ++requestId;
+        pendingRequests.set(id, account);
+        socket?.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id,
+          method: 'accountSubscribe',
+          params: [account.account, { encoding: 'base64', commitment: 'processed' }]
+        }));
+      });
+      const polled = Array.from(new Set([...overflow.map(account => account.wallet), ...watched.polled]));
+      setPolledWallets(polled);
+      console.log(`Balance websocket live: ${subscribed.length} subscriptions, ${polled.length} wallets polled`);
+    };
+
+    socket.onmessage = handleMessage;
+
+    socket.onerror = (error) => {
+      console.error('Balance websocket error:', error);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      pendingRequests.clear();
+      subscriptions.clear();
+      if (stopped) return;
+
+      setPolledWallets(addresses);
+      scheduleReconnect();
+    };
+  };
+
+  const start = async () => {
+    if (tokenAddress) {
+      try {
+        const mintInfo = await getMintInfo(connection, tokenAddress);
+        decimals = mintInfo.decimals;
+        tokenProgramId = mintInfo.programId;
+        // Lists each wallet's token accounts, so wallets holding outside the ATA get polled
+        await fetchBalances(connection, addresses, tokenAddress, { includeSol: false });
+      } catch (error) {
+        console.error('Error fetching token mint, subscribing to SOL balances only:', error);
+        tokenAddress = undefined;
+      }
+    }
+    connect();
+  };
+
+  start();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (pollTimer) clearInterval(pollTimer);
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+        socket = null;
+      }
+      pendingRequests.clear();
+      subscriptions.clear();
+    }
+  };
+};
@@ -0,0 +1,375 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+import {
+  calculateEpochFee,
+  getAssociatedTokenAddressSync,
+  getTransferFeeConfig,
+  unpackAccount,
+  unpackMint,
+  TransferFeeConfig,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+
+/**
+ * Batched, cached wallet balances.
+ * SOL and token balances come from getMultipleAccountsInfo in batches of 100 accounts.
+ * Token balances are the sum of every account a wallet holds for the mint: the
+ * associated token account (ATA) under the mint's program (SPL Token or Token-2022)
+ * plus any other accounts found by listing the wallet's accounts for the mint. Listing
+ * costs one RPC call per wallet, so it only happens on demand (e.g. a manual refresh)
+ * and later fetches reuse the last listing. Results are cached per wallet for a short TTL,
+ * and concurrent refreshes of the same wallets share one request.
+ */
+
+// Constants
+const BATCH_SIZE = 100; // getMultipleAccountsInfo limit
+const COMMITMENT: Commitment = 'processed';
+const DISCOVERY_CONCURRENCY = 10; // getTokenAccountsByOwner calls in flight
+export const DEFAULT_BALANCE_TTL = 10000; // ms
+
+// Interfaces
+export interface WalletBalances {
+  solBalances: Map<string, number>; // Wallets whose balance could be fetched (or was cached); empty when includeSol is false
+  tokenBalances: Map<string, number>; // Empty when no token was requested
+}
+
+export interface BalanceFetchOptions {
+  ttl?: number; // Max age of cached balances in ms
+  force?: boolean; // Ignore the cache, e.g. for a manual refresh
+  includeSol?: boolean; // Set to false to fetch token balances only (default true)
+  discoverAccounts?: boolean; // List the wallets' token accounts for the mint first, to find accounts besides the ATA
+  onProgress?: (fetched: number, total: number) => void; // Accounts fetched so far
+}
+
+export interface TokenMintInfo {
+  decimals: number;
+  supply: number; // In tokens, as of when the mint was loaded
+  programId: PublicKey; // TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID
+  transferFeeConfig: TransferFeeConfig | null; // Token-2022 transfer-fee extension
+  epoch: number; // Epoch the transfer fee was read in (0 without a fee)
+}
+
+interface CachedBalance {
+  value: number;
+  fetchedAt: number;
+}
+
+// A balance to fetch: the account holding it and where its value goes
+interface BalanceTarget {
+  cacheKey: string;
+  wallet: string;
+  account: PublicKey;
+  kind: 'sol' | 'token';
+}
+
+// Token accounts a wallet holds for one mint, as last listed
+interface DiscoveredAccounts {
+  accounts: PublicKey[];
+}
+
+const balanceCache = new Map<string, CachedBalance>();
+const mintInfos = new Map<string, TokenMintInfo>();
+const discoveredAccounts = new Map<string, DiscoveredAccounts>();
+const inflight = new Map<string, Promise<WalletBalances>>();
+
+const getSolCacheKey = (wallet: string) => `sol:${wallet}`;
+const getTokenCacheKey = (wallet: string, mint: string) => `token:${mint}:${wallet}`;
+
+const getCachedBalance = (cacheKey: string, ttl: number): number | undefined => {
+  const cached = balanceCache.get(cacheKey);
+  if (!cached || Date.now() - cached.fetchedAt > ttl) return undefined;
+  return cached.value;
+};
+
+// Raw token amount of an SPL Token or Token-2022 account; 0 for anything that is not one
+const getTokenAmount = (target: BalanceTarget, info: AccountInfo<Buffer>): bigint => {
+  try {
+    if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      throw new Error(`owned by ${info.owner.toBase58()}`);
+    }
+    return unpackAccount(target.account, info, info.owner).amount;
+  } catch (error) {
+    console.error(`Account ${target.account.toBase58()} is not a token account:`, error);
+    return BigInt(0);
+  }
+};
+
+/**
+ * Associated token account of a wallet for a mint
+ * @param programId Token program of the mint; Token-2022 mints have different ATAs
+ */
+export const getTokenAccountAddress = (wallet: string, mint: string, programId: PublicKey = TOKEN_PROGRAM_ID): PublicKey => {
+  return getAssociatedTokenAddressSync(new PublicKey(mint), new PublicKey(wallet), true, programId);
+};
+
+/**
+ * Decimals, supply, token program and transfer fee of a mint, cached for the session
+ */
+export const getMintInfo = async (connection: Connection, mint: string): Promise<TokenMintInfo> => {
+  const known = mintInfos.get(mint);
+  if (known) return known;
+
+  const mintKey = new PublicKey(mint);
+  const info = await connection.getAccountInfo(mintKey, COMMITMENT);
+  if (!info) throw new Error(`Mint ${mint} not found`);
+
+  const parsed = unpackMint(mintKey, info, info.owner);
+  const transferFeeConfig = getTransferFeeConfig(parsed);
+  const mintInfo: TokenMintInfo = {
+    decimals: parsed.decimals,
+    supply: Number(parsed.supply) / Math.pow(10, parsed.decimals),
+    programId: info.owner,
+    transferFeeConfig,
+    epoch: transferFeeConfig ? (await connection.getEpochInfo(COMMITMENT)).epoch : 0
+  };
+  mintInfos.set(mint, mintInfo);
+  return mintInfo;
+};
+
+/**
+ * Mint info already loaded by a balance fetch, without a request
+ */
+export const getCachedMintInfo = (mint: string): TokenMintInfo | undefined => mintInfos.get(mint);
+
+/**
+ * Decimals of a token mint, cached for the session
+ */
+export const getMintDecimals = async (connection: Connection, mint: string): Promise<number> => {
+  return (await getMintInfo(connection, mint)).decimals;
+};
+
+/**
+ * Whether a mint belongs to the Token-2022 program
+ */
+export const isToken2022Mint = (mintInfo: TokenMintInfo): boolean => mintInfo.programId.equals(TOKEN_2022_PROGRAM_ID);
+
+/**
+ * Transfer fee withheld when sending an amount of a Token-2022 mint
+ * Uses the mint info cached by the last balance fetch; 0 for mints without a fee or not loaded yet.
+ * @param mint Token mint
+ * @param amount Amount sent, in tokens
+ * @returns Fee in tokens
+ */
+export const getTransferFee = (mint: string, amount: number): number => {
+  const mintInfo = mintInfos.get(mint);
+  if (!mintInfo?.transferFeeConfig || amount <= 0) return 0;
+
+  const scale = Math.pow(10, mintInfo.decimals);
+  const fee = calculateEpochFee(mintInfo.transferFeeConfig, BigInt(mintInfo.epoch), BigInt(Math.floor(amount * scale)));
+  return Number(fee) / scale;
+};
+
+/**
+ * Amount that arrives after the transfer fee (the amount itself for mints without a fee)
+ */
+export const getNetTransferAmount = (mint: string, amount: number): number => amount - getTransferFee(mint, amount);
+
+/**
+ * Token accounts of a wallet for a mint other than its ATA, from the last listing
+ * They count towards the balance, but operations that assume the ATA cannot spend them.
+ */
+export const getNonAtaTokenAccounts = (wallet: string, mint: string): string[] => {
+  const discovered = discoveredAccounts.get(getTokenCacheKey(wallet, mint));
+  const mintInfo = mintInfos.get(mint);
+  if (!discovered || !mintInfo) return [];
+
+  const ata = getTokenAccountAddress(wallet, mint, mintInfo.programId);
+  return discovered.accounts.filter(account => !account.equals(ata)).map(account => account.toBase58());
+};
+
+// List the token accounts of wallets for a mint; failures keep the previous listing (or just the ATA)
+const discoverTokenAccounts = async (connection: Connection, wallets: string[], mint: string) => {
+  const mintKey = new PublicKey(mint);
+
+  for (let start = 0; start < wallets.length; start += DISCOVERY_CONCURRENCY) {
+    await Promise.all(wallets.slice(start, start + DISCOVERY_CONCURRENCY).map(async wallet => {
+      try {
+        const response = await connection.getTokenAccountsByOwner(new PublicKey(wallet), { mint: mintKey }, COMMITMENT);
+        discoveredAccounts.set(getTokenCacheKey(wallet, mint), {
+          accounts: response.value.map(account => account.pubkey)
+        });
+      } catch (error) {
+        console.error(`Error listing token accounts of ${wallet}:`, error);
+      }
+    }));
+  }
+};
+
+// ATA plus every other listed account of a wallet for a mint
+const getWalletTokenAccounts = (wallet: string, mint: string, programId: PublicKey): PublicKey[] => {
+  const ata = getTokenAccountAddress(wallet, mint, programId);
+  const discovered = discoveredAccounts.get(getTokenCacheKey(wallet, mint));
+  return [ata, ...(discovered?.accounts || []).filter(account => !account.equals(ata))];
+};
+
+const fetchTargets = async (
+  connection: Connection,
+  targets: BalanceTarget[],
+  decimals: number,
+  onProgress?: (fetched: number, total: number) => void
+) => {
+  // A wallet's token accounts can span batches, so sum first and cache at the end
+  const totals = new Map<string, { lamports: number; tokens: bigint }>();
+  const failed = new Set<string>();
+
+  for (let start = 0; start < targets.length; start += BATCH_SIZE) {
+    const batch = targets.slice(start, start + BATCH_SIZE);
+
+    try {
+      const accounts = await connection.getMultipleAccountsInfo(batch.map(target => target.account), COMMITMENT);
+
+      batch.forEach((target, index) => {
+        const info = accounts[index];
+        const total = totals.get(target.cacheKey) || { lamports: 0, tokens: BigInt(0) };
+
+        if (target.kind === 'sol') {
+          total.lamports += info ? info.lamports : 0;
+        } else if (info) {
+          total.tokens += getTokenAmount(target, info);
+        }
+
+        totals.set(target.cacheKey, total);
+      });
+    } catch (error) {
+      // Leave the batch out of the cache so callers keep their previous balances
+      console.error(`Error fetching balances for accounts ${start}-${start + batch.length - 1}:`, error);
+      batch.forEach(target => failed.add(target.cacheKey));
+    }
+
+    onProgress?.(Math.min(start + BATCH_SIZE, targets.length), targets.length);
+  }
+
+  const fetchedAt = Date.now();
+  const kinds = new Map(targets.map(target => [target.cacheKey, target.kind]));
+  totals.forEach((total, cacheKey) => {
+    if (failed.has(cacheKey)) return;
+    const value = kinds.get(cacheKey) === 'sol'
+      ? total.lamports / 1e9
+      : Number(total.tokens) / Math.pow(10, decimals);
+    balanceCache.set(cacheKey, { value, fetchedAt });
+  });
+};
+
+const loadBalances = async (
+  connection: Connection,
+  addresses: string[],
+  tokenAddress: string | undefined,
+  options: BalanceFetchOptions
+): Promise<WalletBalances> => {
+  const ttl = options.force ? -1 : (options.ttl ?? DEFAULT_BALANCE_TTL);
+  const includeSol = options.includeSol !== false;
+  const targets: BalanceTarget[] = [];
+  let mintInfo: TokenMintInfo | null = null;
+
+  if (tokenAddress) {
+    try {
+      mintInfo = await getMintInfo(connection, tokenAddress);
+      if (options.discoverAccounts) await discoverTokenAccounts(connection, addresses, tokenAddress);
+    } catch (error) {
+      console.error('Error fetching token mint:', error);
+    }
+  }
+  const tokenAvailable = !!mintInfo;
+
+  for (const wallet of addresses) {
+    try {
+      const walletKey = new PublicKey(wallet);
+      const solKey = getSolCacheKey(wallet);
+      if (includeSol && getCachedBalance(solKey, ttl) === undefined) {
+        targets.push({ cacheKey: solKey, wallet, account: walletKey, kind: 'sol' });
+      }
+
+      if (tokenAvailable) {
+        const tokenKey = getTokenCacheKey(wallet, tokenAddress!);
+        if (getCachedBalance(tokenKey, ttl) === undefined) {
+          getWalletTokenAccounts(wallet, tokenAddress!, mintInfo!.programId).forEach(account => {
+            targets.push({ cacheKey: tokenKey, wallet, account, kind: 'token' });
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Invalid wallet address ${wallet}:`, error);
+    }
+  }
+
+  await fetchTargets(connection, targets, mintInfo?.decimals ?? 0, options.onProgress);
+
+  // Everything fetched just now is in the cache; read with the normal TTL
+  const solBalances = new Map<string, number>();
+  const tokenBalances = new Map<string, number>();
+  const readTtl = options.ttl ?? DEFAULT_BALANCE_TTL;
+
+  for (const wallet of addresses) {
+    const sol = includeSol ? getCachedBalance(getSolCacheKey(wallet), readTtl) : undefined;
+    if (sol !== undefined) solBalances.set(wallet, sol);
+
+    if (tokenAvailable) {
+      const token = getCachedBalance(getTokenCacheKey(wallet, tokenAddress!), readTtl);
+      if (token !== undefined) tokenBalances.set(wallet, token);
+    }
+  }
+
+  return { solBalances, tokenBalances };
+};
+
+/**
+ * Fetch SOL and (optionally) token balances for many wallets
+ * Fresh cached balances are reused; the rest is fetched in batches. Wallets whose
+ * balance could not be fetched are missing from the result rather than set to 0.
+ * @param connection Solana connection
+ * @param addresses Wallet addresses
+ * @param tokenAddress Token mint, or empty for SOL only
+ * @param options Cache, account listing and progress options
+ * @returns SOL and token balances by wallet address
+ */
+export const fetchBalances = (
+  connection: Connection,
+  addresses: string[],
+  tokenAddress?: string,
+  options: BalanceFetchOptions = {}
+): Promise<WalletBalances> => {
+  const requestKey = [
+    connection.rpcEndpoint,
+    tokenAddress || '',
+    options.force ? 'force' : options.ttl ?? DEFAULT_BALANCE_TTL,
+    options.includeSol === false ? 'tokens' : 'all',
+    options.discoverAccounts ? 'discover' : '',
+    addresses.join(',')
+  ].join('|');
+
+  const pending = inflight.get(requestKey);
+  if (pending) return pending;
+
+  const request = loadBalances(connection, addresses, tokenAddress, options)
+    .finally(() => inflight.delete(requestKey));
+  inflight.set(requestKey, request);
+  return request;
+};
+
+/**
+ * Store a balance learned elsewhere (e.g. from a websocket notification)
+ * @param wallet Wallet address
+ * @param balance SOL balance, or token balance when tokenAddress is given
+ * @param tokenAddress Token mint
+ */
+export const setCachedBalance = (wallet: string, balance: number, tokenAddress?: string) => {
+  const cacheKey = tokenAddress ? getTokenCacheKey(wallet, tokenAddress) : getSolCacheKey(wallet);
+  balanceCache.set(cacheKey, { value: balance, fetchedAt: Date.now() });
+};
+
+/**
+ * Drop cached balances, e.g. after a trade changed them
+ * @param addresses Wallets to drop; all wallets when omitted
+ */
+export const invalidateBalances = (addresses?: string[]) => {
+  if (!addresses) {
+    balanceCache.clear();
+    return;
+  }
+
+  const wallets = new Set(addresses);
+  for (const cacheKey of Array.from(balanceCache.keys())) {
+    const wallet = cacheKey.slice(cacheKey.lastIndexOf(':') + 1);
+    if (wallets.has(wallet)) balanceCache.delete(cacheKey);
+  }
+};
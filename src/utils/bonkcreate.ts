@@ -1,19 +1,15 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl } from './bundleClient';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertTransactionsSafe, getAmountCaps, getLaunchpadPrograms, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletForBonkCreate {
   publicKey: string;
@@ -67,60 +63,6 @@ export interface BonkCreateResponse {
   error?: string;
 }
 
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<any> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -138,7 +80,7 @@ const getPartiallyPreparedBonkTransactions = async (
   buyerWallets: WalletForBonkCreate[]
 ): Promise<BonkCreateResponse> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     // Format buyer wallets for the API request
     const formattedBuyerWallets = buyerWallets.map(wallet => ({
@@ -276,9 +218,6 @@ const sendFirstBundle = async (bundle: string[]): Promise<{success: boolean, res
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle);
       
@@ -309,10 +248,11 @@ const sendFirstBundle = async (bundle: string[]): Promise<{success: boolean, res
 /**
  * Execute bonk token creation operation
  */
-export const executeBonkCreate = async (
+const runBonkCreate = async (
   config: BonkCreateConfig,
   ownerWallet: { publicKey: string, privateKey: string },
-  buyerWallets: WalletForBonkCreate[]
+  buyerWallets: WalletForBonkCreate[],
+  reservation: string
 ): Promise<{ 
   success: boolean; 
   mintAddress?: string; 
@@ -323,6 +263,17 @@ export const executeBonkCreate = async (
   try {
     console.log(`Preparing to create token with name: ${config.tokenMetadata.name} using ${buyerWallets.length} buyer wallets`);
     
+    // The owner's dev buy and every buyer wallet count toward the spending limits
+    const buyerAmounts = buyerWallets.map(wallet => ({
+      address: wallet.publicKey,
+      amount: (wallet.amount || config.initialBuyAmount * 1e9) / 1e9
+    }));
+    await enforceSpendingLimits({
+      operation: 'Token deploy',
+      reservation,
+      spends: [{ address: ownerWallet.publicKey, amount: config.initialBuyAmount }, ...buyerAmounts]
+    });
+    
     // Step 1: Get partially prepared transactions from backend
     const preparedData = await getPartiallyPreparedBonkTransactions(
       config,
@@ -347,6 +298,21 @@ export const executeBonkCreate = async (
       );
     });
     
+    // Inspect every transaction before anything is signed; buys are capped at the requested amounts
+    assertTransactionsSafe(
+      [
+        preparedData.tokenCreation.transaction,
+        ...(preparedData.buyerTransactions || []).map(txInfo => txInfo.transaction)
+      ].map(transactionStr => VersionedTransaction.deserialize(decodeTransaction(transactionStr))),
+      [ownerWallet.publicKey, ...buyerKeypairsMap.keys()],
+      {
+        operation: 'token creation',
+        programs: getLaunchpadPrograms('launchpad'),
+        maxSolOut: getAmountCaps([{ address: ownerWallet.publicKey, amount: config.initialBuyAmount }, ...buyerAmounts]),
+        tipLamports: getTipAllowanceLamports()
+      }
+    );
+    
     // Step 3: Sign transactions
     // Sign owner's token creation transaction
     const signedOwnerTx = signOwnerTransaction(
@@ -398,4 +364,37 @@ export const executeBonkCreate = async (
       error: error.message
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Execute bonk token creation operation and record it in the operation journal
+ */
+export const executeBonkCreate = async (
+  config: BonkCreateConfig,
+  ownerWallet: { publicKey: string, privateKey: string },
+  buyerWallets: WalletForBonkCreate[]
+): Promise<{ 
+  success: boolean; 
+  mintAddress?: string; 
+  poolId?: string;
+  result?: any; 
+  error?: string 
+}> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runBonkCreate(config, ownerWallet, buyerWallets, reservation);
+  const spends: WalletSpend[] = [
+    { address: ownerWallet.publicKey, amount: config.initialBuyAmount },
+    ...buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: (wallet.amount || config.initialBuyAmount * 1e9) / 1e9 }))
+  ];
+
+  await appendJournalEntry({
+    operation: 'deploy',
+    tokenAddress: outcome.mintAddress,
+    wallets: [ownerWallet.publicKey, ...buyerWallets.map(wallet => wallet.publicKey)],
+    amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+    details: `Bonk token creation: ${config.tokenMetadata.name}`
+  }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
@@ -1,19 +1,15 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertEncodedTransactionsSafe, getAmountCaps, getLaunchpadPrograms, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletForBoopCreate {
   address: string;
@@ -28,16 +24,6 @@ export interface BoopCreateBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
 interface BoopCreateResponse {
   success: boolean;
   mintAddress?: string;
@@ -45,60 +31,6 @@ interface BoopCreateResponse {
   error?: string;
 }
 
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -117,7 +49,7 @@ const getPartiallyPreparedTransactions = async (
   amounts?: number[]
 ): Promise<{ mintAddress: string, bundles: BoopCreateBundle[] }> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/boopfun/create`, {
       method: 'POST',
@@ -244,9 +176,10 @@ const completeBundleSigning = (
 /**
  * Execute boop create operation on the frontend with improved reliability
  */
-export const executeBoopCreate = async (
+const runBoopCreate = async (
   wallets: WalletForBoopCreate[],
   tokenCreationConfig: TokenCreationConfig,
+  reservation: string,
   customAmounts?: number[]
 ): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string }> => {
   try {
@@ -255,6 +188,15 @@ export const executeBoopCreate = async (
     // Extract wallet addresses
     const walletAddresses = wallets.map(wallet => wallet.address);
     
+    // Dev buys count toward the spending limits
+    if (customAmounts) {
+      await enforceSpendingLimits({
+        operation: 'Token deploy',
+        reservation,
+        spends: wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] || 0 }))
+      });
+    }
+    
     // Step 1: Get partially prepared bundles from backend
     const { mintAddress, bundles } = await getPartiallyPreparedTransactions(
       walletAddresses,
@@ -268,6 +210,21 @@ export const executeBoopCreate = async (
       Keypair.fromSecretKey(bs58.decode(wallet.privateKey))
     );
     
+    // Inspect every bundle before anything is signed; dev buys are capped at the custom amounts
+    assertEncodedTransactionsSafe(
+      bundles.flatMap(bundle => bundle.transactions || []),
+      walletAddresses,
+      {
+        operation: 'token creation',
+        programs: getLaunchpadPrograms('boopfun'),
+        maxSolOut: customAmounts
+          ? getAmountCaps(wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] })))
+          : undefined,
+        tipLamports: getTipAllowanceLamports(),
+        bundleCount: bundles.length
+      }
+    );
+    
     // Step 3: Complete transaction signing for each bundle
     const signedBundles = bundles.map((bundle, index) =>
       completeBundleSigning(bundle, walletKeypairs, index === 0) // Mark first bundle
@@ -299,9 +256,6 @@ export const executeBoopCreate = async (
     // Send remaining bundles
     for (let i = 1; i < signedBundles.length; i++) {
       try {
-        // Apply rate limiting
-        await checkRateLimit();
-        
         // Send the bundle
         const result = await sendBundle(signedBundles[i].transactions);
         
@@ -333,6 +287,32 @@ export const executeBoopCreate = async (
   }
 };
 
+/**
+ * Execute boop create operation and record it in the operation journal
+ */
+export const executeBoopCreate = async (
+  wallets: WalletForBoopCreate[],
+  tokenCreationConfig: TokenCreationConfig,
+  customAmounts?: number[]
+): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string }> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runBoopCreate(wallets, tokenCreationConfig, reservation, customAmounts);
+  const spends: WalletSpend[] = customAmounts
+    ? wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] || 0 }))
+    : [];
+
+  await appendJournalEntry({
+    operation: 'deploy',
+    tokenAddress: outcome.mintAddress,
+    wallets: wallets.map(wallet => wallet.address),
+    amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+    details: 'Boop token creation'
+  }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
+
 /**
  * Send first bundle with extensive retry logic - this is critical for success
  */
@@ -344,9 +324,6 @@ const sendFirstBundle = async (bundle: BoopCreateBundle): Promise<{success: bool
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle.transactions);
       
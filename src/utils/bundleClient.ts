@@ -0,0 +1,203 @@
+import { VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { loadConfigFromCookies } from '../Utils';
+import { loadServerConfig } from './serverConfig';
+import { isSimulationEnabled, simulateBundle, TransactionSimulation } from './simulation';
+
+/**
+ * Shared transaction-submission client.
+ * Every operation (buy, sell, distribute, consolidate, mixer, cleaner, limit orders,
+ * transfers, burns and token deployments) submits its signed bundles through here so
+ * that server resolution, rate limiting, dry runs and result handling behave the same everywhere.
+ */
+
+// Constants
+const MAX_BUNDLES_PER_SECOND = 2;
+const DEFAULT_TRADING_SERVER_URL = 'http://localhost:7777';
+
+// Rate limiting state - shared by every module that submits bundles
+const rateLimitState = {
+  count: 0,
+  lastReset: Date.now(),
+  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
+};
+
+// Interfaces
+export interface BundleResult {
+  success: boolean;
+  bundleId?: string;
+  signatures?: string[]; // First signature of every transaction in the bundle, in order
+  wallets?: string[]; // Fee payer of every transaction in the bundle, matching signatures
+  error?: string;
+  response?: any; // Raw response from the trading server
+  simulated?: boolean; // Dry run - the bundle was simulated, never sent
+  simulations?: TransactionSimulation[];
+}
+
+/**
+ * Resolve the trading server base URL (without trailing slash)
+ * Priority: settings (self-hosted server enabled) > saved server config > default
+ */
+export const getTradingServerUrl = (): string => {
+  const appConfig = loadConfigFromCookies();
+  let baseUrl = '';
+
+  if (appConfig?.tradingServerEnabled === 'true' && appConfig?.tradingServerUrl) {
+    baseUrl = appConfig.tradingServerUrl;
+  } else {
+    baseUrl = loadServerConfig() || '';
+  }
+
+  baseUrl = baseUrl.replace(/\/+$/, '');
+
+  // Chart servers (fury.bot) never accept trading requests
+  if (!baseUrl || baseUrl.includes('fury.bot')) {
+    return DEFAULT_TRADING_SERVER_URL;
+  }
+
+  return baseUrl;
+};
+
+// Callers wait their turn here, so concurrent senders cannot pass the check together
+let rateLimitQueue: Promise<void> = Promise.resolve();
+
+// Take one slot in the current second, waiting for the next second when it is full
+const takeRateLimitSlot = async (): Promise<void> => {
+  const now = Date.now();
+
+  if (now - rateLimitState.lastReset >= 1000) {
+    rateLimitState.count = 0;
+    rateLimitState.lastReset = now;
+  }
+
+  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
+    const waitTime = 1000 - (now - rateLimitState.lastReset);
+    await new Promise(resolve => setTimeout(resolve, waitTime));
+    rateLimitState.count = 0;
+    rateLimitState.lastReset = Date.now();
+  }
+
+  rateLimitState.count++;
+};
+
+/**
+ * Check rate limit and wait if necessary
+ */
+export const checkRateLimit = (): Promise<void> => {
+  const slot = rateLimitQueue.then(takeRateLimitSlot);
+  rateLimitQueue = slot.catch(() => undefined);
+  return slot;
+};
+
+/**
+ * Extract the transaction signatures and fee payers from a bundle of bs58 encoded signed transactions
+ */
+const readBundleTransactions = (encodedBundle: string[]): { signatures: string[]; wallets: string[] } => {
+  const signatures: string[] = [];
+  const wallets: string[] = [];
+  for (const encodedTx of encodedBundle) {
+    try {
+      const transaction = VersionedTransaction.deserialize(bs58.decode(encodedTx));
+      signatures.push(bs58.encode(transaction.signatures[0]));
+      wallets.push(transaction.message.staticAccountKeys[0].toBase58());
+    } catch (error) {
+      console.warn('Unable to read signature from bundle transaction:', error);
+    }
+  }
+  return { signatures, wallets };
+};
+
+/**
+ * Extract the transaction signatures from a bundle of bs58 encoded signed transactions
+ */
+export const getBundleSignatures = (encodedBundle: string[]): string[] => {
+  return readBundleTransactions(encodedBundle).signatures;
+};
+
+/**
+ * Read an error message from the different error shapes returned by the server
+ */
+const getErrorMessage = (error: any): string => {
+  if (!error) return 'Unknown error from bundle server';
+  if (typeof error === 'string') return error;
+  return error.message || JSON.stringify(error);
+};
+
+/**
+ * Normalize the /api/transactions/send response into a BundleResult
+ * The server may answer with { success, result }, a raw JSON-RPC response from the
+ * block engine ({ jsonrpc, id, result, error }) or { success, bundleId }
+ */
+const normalizeBundleResponse = (data: any, signatures: string[]): BundleResult => {
+  if (!data) {
+    return { success: false, signatures, error: 'Empty response from bundle server' };
+  }
+
+  if (data.success === false) {
+    const details = data.details ? `: ${data.details}` : '';
+    return { success: false, signatures, error: `${getErrorMessage(data.error)}${details}`, response: data };
+  }
+
+  if (data.error) {
+    return { success: false, signatures, error: getErrorMessage(data.error), response: data };
+  }
+
+  const inner = data.result !== undefined ? data.result : data;
+  if (inner && typeof inner === 'object' && inner.error) {
+    return { success: false, signatures, error: getErrorMessage(inner.error), response: data };
+  }
+
+  let bundleId: string | undefined;
+  if (typeof inner === 'string') {
+    bundleId = inner;
+  } else if (inner && typeof inner === 'object') {
+    bundleId = typeof inner.result === 'string' ? inner.result : inner.bundleId;
+  }
+
+  return { success: true, bundleId: bundleId || data.bundleId, signatures, response: data };
+};
+
+/**
+ * Send bundle to Jito block engine through our backend proxy
+ * Waits for the global rate limit, then throws if the bundle was rejected so callers
+ * can retry or count the failure
+ */
+export const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
+  await checkRateLimit();
+
+  const baseUrl = getTradingServerUrl();
+  const { signatures, wallets } = readBundleTransactions(encodedBundle);
+
+  // Dry run: the UI reports the simulation, callers carry on as if the bundle was accepted
+  if (isSimulationEnabled()) {
+    const simulations = await simulateBundle(encodedBundle);
+    return { success: true, signatures, wallets, simulated: true, simulations };
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/api/transactions/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        transactions: encodedBundle
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const result = { ...normalizeBundleResponse(data, signatures), wallets };
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error sending bundle:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,175 @@
+import { Connection, TransactionSignature } from '@solana/web3.js';
+import { loadConfigFromCookies } from '../Utils';
+
+/**
+ * Bundle confirmation tracker.
+ * The send endpoint only tells us a bundle was accepted, so this polls
+ * getSignatureStatuses on the configured RPC until every transaction is
+ * finalized, failed or expired, and reports the outcome per wallet.
+ */
+
+// Constants
+const DEFAULT_RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+const POLL_INTERVAL_MS = 2000;
+const CONFIRMATION_TIMEOUT_MS = 90000; // Blockhashes expire after ~150 blocks (~60-90s)
+const MAX_SIGNATURES_PER_REQUEST = 256; // getSignatureStatuses limit
+
+// Interfaces
+export type ConfirmationStatus = 'landed' | 'failed' | 'dropped';
+
+export interface SubmittedTransaction {
+  signature: string;
+  wallet?: string;
+  bundleId?: string;
+}
+
+export interface WalletConfirmation {
+  wallet: string;
+  signature: string;
+  bundleId?: string;
+  status: ConfirmationStatus;
+  error?: string;
+}
+
+export interface ConfirmationSummary {
+  landed: number;
+  failed: number;
+  dropped: number;
+}
+
+export interface TrackOptions {
+  rpcEndpoint?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Collect the submitted signatures from a send result.
+ * Accepts a BundleResult, an array of them (possibly nested) or a trading server
+ * response whose results/details entries carry signatures.
+ */
+export const getSubmittedTransactions = (result: any): SubmittedTransaction[] => {
+  const submitted: SubmittedTransaction[] = [];
+  const seen = new Set<string>();
+
+  const add = (signature: any, wallet?: any, bundleId?: any) => {
+    if (typeof signature !== 'string' || !signature || seen.has(signature)) return;
+    seen.add(signature);
+    submitted.push({
+      signature,
+      wallet: typeof wallet === 'string' ? wallet : undefined,
+      bundleId: typeof bundleId === 'string' ? bundleId : undefined
+    });
+  };
+
+  const visit = (value: any) => {
+    if (!value || typeof value !== 'object') return;
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    // Dry-run bundles never reach the chain
+    if (value.simulated) return;
+
+    const wallet = value.wallet || value.walletAddress || value.address;
+
+    if (Array.isArray(value.signatures)) {
+      value.signatures.forEach((signature: any, index: number) => {
+        add(signature, value.wallets?.[index] || wallet, value.bundleId);
+      });
+    }
+    add(value.signature || value.txid, wallet, value.bundleId);
+
+    // Trading server responses nest per-wallet entries
+    if (Array.isArray(value.results)) visit(value.results);
+    if (Array.isArray(value.details)) visit(value.details);
+    if (value.data && typeof value.data === 'object') visit(value.data);
+  };
+
+  visit(result);
+  return submitted;
+};
+
+/**
+ * Poll the RPC until every submitted transaction is finalized, failed or expired
+ */
+export const trackConfirmations = async (
+  submitted: SubmittedTransaction[],
+  options: TrackOptions = {}
+): Promise<WalletConfirmation[]> => {
+  if (submitted.length === 0) return [];
+
+  const rpcEndpoint = options.rpcEndpoint || loadConfigFromCookies()?.rpcEndpoint || DEFAULT_RPC_ENDPOINT;
+  const pollInterval = options.pollIntervalMs || POLL_INTERVAL_MS;
+  const timeout = options.timeoutMs || CONFIRMATION_TIMEOUT_MS;
+  const connection = new Connection(rpcEndpoint);
+
+  const outcomes = new Map<string, { status: ConfirmationStatus; error?: string }>();
+  const deadline = Date.now() + timeout;
+
+  while (outcomes.size < submitted.length && Date.now() < deadline) {
+    const pending = submitted
+      .map(tx => tx.signature)
+      .filter(signature => !outcomes.has(signature));
+
+    for (let i = 0; i < pending.length; i += MAX_SIGNATURES_PER_REQUEST) {
+      const chunk: TransactionSignature[] = pending.slice(i, i + MAX_SIGNATURES_PER_REQUEST);
+      try {
+        const { value } = await connection.getSignatureStatuses(chunk, { searchTransactionHistory: true });
+        value.forEach((status, index) => {
+          if (!status) return;
+          if (status.err) {
+            outcomes.set(chunk[index], { status: 'failed', error: JSON.stringify(status.err) });
+          } else if (status.confirmationStatus === 'finalized') {
+            outcomes.set(chunk[index], { status: 'landed' });
+          }
+        });
+      } catch (error) {
+        // RPC hiccups are retried on the next poll
+        console.warn('Error polling signature statuses:', error);
+      }
+    }
+
+    if (outcomes.size < submitted.length) {
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  return submitted.map(tx => {
+    const outcome = outcomes.get(tx.signature) || { status: 'dropped' as ConfirmationStatus };
+    return {
+      wallet: tx.wallet || 'unknown',
+      signature: tx.signature,
+      bundleId: tx.bundleId,
+      status: outcome.status,
+      error: outcome.error
+    };
+  });
+};
+
+/**
+ * Count landed, failed and dropped transactions
+ */
+export const summarizeConfirmations = (confirmations: WalletConfirmation[]): ConfirmationSummary => {
+  return confirmations.reduce(
+    (summary, confirmation) => {
+      summary[confirmation.status]++;
+      return summary;
+    },
+    { landed: 0, failed: 0, dropped: 0 } as ConfirmationSummary
+  );
+};
+
+/**
+ * Human readable outcome for toasts, e.g. "3 landed, 1 failed"
+ */
+export const formatConfirmationSummary = (confirmations: WalletConfirmation[]): string => {
+  const summary = summarizeConfirmations(confirmations);
+  const parts: string[] = [];
+  if (summary.landed > 0) parts.push(`${summary.landed} landed`);
+  if (summary.failed > 0) parts.push(`${summary.failed} failed`);
+  if (summary.dropped > 0) parts.push(`${summary.dropped} dropped`);
+  return parts.join(', ');
+};
@@ -1,19 +1,19 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { loadConfigFromCookies, loadUserFromCookies } from '../Utils';
-import { loadServerConfig } from './serverConfig';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import {
+  assertSimulatedOutflowsSafe,
+  assertTransactionsSafe,
+  getProtocolPrograms,
+  getTipAllowanceLamports,
+  InspectionExpectation
+} from './txInspector';
+import { enforceSpendingLimits, releaseSpendingReservation } from './spendingLimits';
 
 // Constants
-const MAX_BUNDLES_PER_SECOND = 2;
 const MAX_TRANSACTIONS_PER_BUNDLE = 5;
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletBuy {
   address: string;
@@ -36,85 +36,15 @@ export interface BuyConfig {
 
 export interface BuyBundle {
   transactions: string[]; // Base58 encoded transaction data
-  serverResponse?: any; // For self-hosted server responses
 }
 
 export interface BuyResult {
   success: boolean;
   result?: any;
   error?: string;
+  spendingReservation?: string; // Settled by confirmTradeResult once the bundles land
 }
 
-// Define interface for bundle result from sending
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through our backend proxy
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const config = loadConfigFromCookies();
-    let baseUrl = '';
-
-    // First check localStorage/persistent storage
-    const savedServerUrl = loadServerConfig();
-    if (savedServerUrl) {
-      baseUrl = savedServerUrl.replace(/\/+$/, '');
-    }
-    // Then check if self-hosted trading server is enabled in config
-    else if (config?.tradingServerEnabled === 'true' && config?.tradingServerUrl) {
-      baseUrl = config.tradingServerUrl.replace(/\/+$/, '');
-    } else {
-      baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    }
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    const data = await response.json();
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Get partially prepared transactions from the unified buy endpoint
  * Step 1: Gather Transactions - Request transaction bundles from the API
@@ -125,37 +55,11 @@ const getPartiallyPreparedTransactions = async (
 ): Promise<BuyBundle[]> => {
   try {
     const appConfig = loadConfigFromCookies();
-    let baseUrl = '';
-
-    // First check localStorage/persistent storage
-    const savedServerUrl = loadServerConfig();
-    const isServerEnabled = localStorage.getItem('tradingServerEnabled') === 'true' ||
-                           appConfig?.tradingServerEnabled === 'true' ||
-                           (window as any).customTradingServerEnabled === true ||
-                           (window as any).tradingServerEnabled === true;
-
-    // Priority: appConfig (from settings) > saved server URL > default
-    if (appConfig?.tradingServerEnabled === 'true' && appConfig?.tradingServerUrl) {
-      baseUrl = appConfig.tradingServerUrl.replace(/\/+$/, '');
-    }
-    else if (savedServerUrl) {
-      baseUrl = savedServerUrl.replace(/\/+$/, '');
-    }
-
-    // CRITICAL: Always default to our custom backend if nothing else is set
-    // Don't use window.tradingServerUrl as that's for chart servers (fury.bot)
-    if (!baseUrl || baseUrl === '' || baseUrl.includes('fury.bot')) {
-      baseUrl = 'http://localhost:7777';
-      console.warn('Using local trading server:', baseUrl);
-    }
+    const baseUrl = getTradingServerUrl();
 
     console.log('=== BUY TRANSACTION DEBUG ===');
     console.log('baseUrl:', baseUrl);
-    console.log('savedServerUrl:', savedServerUrl);
-    console.log('isServerEnabled:', isServerEnabled);
     console.log('appConfig:', appConfig);
-    console.log('tradingServerEnabled from cookie:', appConfig?.tradingServerEnabled);
-    console.log('tradingServerEnabled from localStorage:', localStorage.getItem('tradingServerEnabled'));
     console.log('window.chartServerUrl:', (window as any).chartServerUrl);
     console.log('Final URL will be:', `${baseUrl}/api/tokens/buy`);
 
@@ -179,15 +83,9 @@ const getPartiallyPreparedTransactions = async (
       solAmount: config.solAmount
     };
 
-    // If self-hosted trading server is enabled, send private keys instead of addresses
-    if (appConfig?.tradingServerEnabled === 'true' || isServerEnabled) {
-      // For self-hosted server, send private keys so server can sign and send
-      requestBody.walletPrivateKeys = wallets.map(wallet => wallet.privateKey);
-      console.log('Sending private keys to server (encrypted):', requestBody.walletPrivateKeys.length, 'wallets');
-    } else {
-      // For regular server, send wallet addresses
-      requestBody.walletAddresses = wallets.map(wallet => wallet.address);
-    }
+    // Keys never leave the client: the server only builds unsigned transactions,
+    // which are inspected before our keypairs sign them
+    requestBody.walletAddresses = wallets.map(wallet => wallet.address);
 
     // Add optional parameters if provided
     if (config.amounts) {
@@ -246,12 +144,7 @@ const getPartiallyPreparedTransactions = async (
     }
 
     // Handle different response formats to ensure compatibility
-    // Force use our custom backend by checking isServerEnabled OR true
-    if ((isServerEnabled || true) && data.data) {
-      // Self-hosted server response format: { success: true, data: { bundlesSent: 1, results: [...] } }
-      console.log('Self-hosted server response:', JSON.stringify(data, null, 2));
-      return [{ transactions: [], serverResponse: data.data }];
-    } else if (data.bundles && Array.isArray(data.bundles)) {
+    if (data.bundles && Array.isArray(data.bundles)) {
       // Wrap any bundle that is a plain array
       return data.bundles.map((bundle: any) =>
         Array.isArray(bundle) ? { transactions: bundle } : bundle
@@ -274,35 +167,61 @@ const getPartiallyPreparedTransactions = async (
   }
 };
 
+/**
+ * What the server-built buy transactions may do: use the selected protocol and spend
+ * at most each wallet's buy amount (plus slippage) and the Jito tip
+ */
+const getBuyExpectation = (wallets: WalletBuy[], config: BuyConfig): InspectionExpectation => {
+  const slippageBps = config.slippageBps ?? (parseInt(loadConfigFromCookies()?.slippageBps || '0') || 0);
+  const maxSolOut: Record<string, number> = {};
+  wallets.forEach((wallet, index) => {
+    const amount = config.amounts?.[index] ?? config.solAmount;
+    maxSolOut[wallet.address] = amount * (1 + slippageBps / 10000);
+  });
+
+  return {
+    operation: 'buy',
+    programs: getProtocolPrograms(config.protocol),
+    maxSolOut,
+    tipLamports: getTipAllowanceLamports(config.jitoTipLamports)
+  };
+};
+
 /**
  * Complete bundle signing
- * Step 2: Sign Transactions - Sign the transactions with your wallet keypairs
+ * Step 2: Sign Transactions - Inspect, then sign the transactions with your wallet keypairs
  */
-const completeBundleSigning = (
+const completeBundleSigning = async (
   bundle: BuyBundle, 
-  walletKeypairs: Keypair[]
-): BuyBundle => {
+  walletKeypairs: Keypair[],
+  expectation: InspectionExpectation
+): Promise<BuyBundle> => {
   // Check if the bundle has a valid transactions array
   if (!bundle.transactions || !Array.isArray(bundle.transactions)) {
     console.error("Invalid bundle format, transactions property is missing or not an array:", bundle);
     return { transactions: [] };
   }
 
-  const signedTransactions = bundle.transactions.map(txBase58 => {
+  const transactions = bundle.transactions.map(txBase58 => {
+    // Decode the base64/base58 transaction
+    let txBuffer: Uint8Array;
+    try {
+      // Try base58 first (most common)
+      txBuffer = bs58.decode(txBase58);
+    } catch {
+      // If base58 fails, try base64
+      txBuffer = new Uint8Array(Buffer.from(txBase58, 'base64'));
+    }
+    return VersionedTransaction.deserialize(txBuffer);
+  });
+
+  // Nothing is signed unless the whole bundle passes inspection
+  const signerAddresses = walletKeypairs.map(kp => kp.publicKey.toBase58());
+  assertTransactionsSafe(transactions, signerAddresses, expectation);
+  await assertSimulatedOutflowsSafe(transactions, signerAddresses, expectation);
+
+  const signedTransactions = transactions.map(transaction => {
     try {
-      // Decode the base64/base58 transaction
-      let txBuffer: Uint8Array;
-      try {
-        // Try base58 first (most common)
-        txBuffer = bs58.decode(txBase58);
-      } catch {
-        // If base58 fails, try base64
-        txBuffer = new Uint8Array(Buffer.from(txBase58, 'base64'));
-      }
-      
-      // Deserialize transaction
-      const transaction = VersionedTransaction.deserialize(txBuffer);
-      
       // Extract required signers from staticAccountKeys
       const signers: Keypair[] = [];
       for (const accountKey of transaction.message.staticAccountKeys) {
@@ -388,10 +307,9 @@ const executeBuySingleMode = async (
 
       // Sign and send each bundle for this wallet
       for (const bundle of partiallyPreparedBundles) {
-        const signedBundle = completeBundleSigning(bundle, [walletKeypair]);
+        const signedBundle = await completeBundleSigning(bundle, [walletKeypair], getBuyExpectation(wallets, config));
         
         if (signedBundle.transactions.length > 0) {
-          await checkRateLimit();
           const result = await sendBundle(signedBundle.transactions);
           results.push(result);
         }
@@ -458,14 +376,14 @@ const executeBuyBatchMode = async (
 
       // Split bundles and sign them
       const splitBundles = splitLargeBundles(partiallyPreparedBundles);
-      const signedBundles = splitBundles.map(bundle =>
-        completeBundleSigning(bundle, walletKeypairs)
-      );
+      const signedBundles: BuyBundle[] = [];
+      for (const bundle of splitBundles) {
+        signedBundles.push(await completeBundleSigning(bundle, walletKeypairs, getBuyExpectation(wallets, config)));
+      }
 
       // Send all bundles for this batch
       for (const bundle of signedBundles) {
         if (bundle.transactions.length > 0) {
-          await checkRateLimit();
           const result = await sendBundle(bundle.transactions);
           results.push(result);
         }
@@ -499,8 +417,6 @@ const executeBuyAllInOneMode = async (
 ): Promise<BuyResult> => {
   console.log(`Preparing all ${wallets.length} wallets for simultaneous execution`);
 
-  const appConfig = loadConfigFromCookies();
-
   // Get all transactions at once with proper error handling
   let partiallyPreparedBundles;
   try {
@@ -520,52 +436,6 @@ const executeBuyAllInOneMode = async (
     };
   }
 
-  // Check if server is enabled from multiple sources
-  const isServerEnabled = localStorage.getItem('tradingServerEnabled') === 'true' ||
-                         appConfig?.tradingServerEnabled === 'true' ||
-                         (window as any).tradingServerEnabled === true;
-
-  // If self-hosted trading server is enabled, the server handles everything
-  // ALWAYS use our custom backend - force enable with || true
-  if (isServerEnabled || true) {
-    console.log('Self-hosted server handled signing and sending');
-
-    // Check if we actually got a valid response from server
-    if (!partiallyPreparedBundles || partiallyPreparedBundles.length === 0) {
-      console.error('No response from server - bundles empty');
-      return {
-        success: false,
-        error: 'No response from trading server. Please check server connection.'
-      };
-    }
-
-    // Check if server actually processed the transaction
-    if (partiallyPreparedBundles[0].serverResponse) {
-      const response = partiallyPreparedBundles[0].serverResponse;
-
-      // Check if the server response indicates success
-      if (response.walletsProcessed > 0 && response.transactionsBuilt > 0) {
-        return {
-          success: true,
-          result: response,
-          error: undefined
-        };
-      } else if (response.details && response.details[0]?.error) {
-        // Server processed but had an error
-        return {
-          success: false,
-          error: response.details[0].error
-        };
-      }
-    }
-
-    // If we get here, something went wrong
-    return {
-      success: false,
-      error: 'Server did not process transaction successfully'
-    };
-  }
-
   // Create all keypairs
   const walletKeypairs = wallets.map(wallet => 
     Keypair.fromSecretKey(bs58.decode(wallet.privateKey))
@@ -573,9 +443,10 @@ const executeBuyAllInOneMode = async (
 
   // Split and sign all bundles
   const splitBundles = splitLargeBundles(partiallyPreparedBundles);
-  const signedBundles = splitBundles.map(bundle =>
-    completeBundleSigning(bundle, walletKeypairs)
-  );
+  const signedBundles: BuyBundle[] = [];
+  for (const bundle of splitBundles) {
+    signedBundles.push(await completeBundleSigning(bundle, walletKeypairs, getBuyExpectation(wallets, config)));
+  }
 
   // Filter out empty bundles
   const validSignedBundles = signedBundles.filter(bundle => bundle.transactions.length > 0);
@@ -644,34 +515,49 @@ export const executeBuy = async (
   wallets: WalletBuy[],
   config: BuyConfig
 ): Promise<BuyResult> => {
+  let spendingReservation: string | undefined;
   try {
-    const appConfig = loadConfigFromCookies();
-    let bundleMode = config.bundleMode || 'batch'; // Default to batch mode
-    
-    // If self-hosted trading server is enabled, force all-in-one mode
-    if (appConfig?.tradingServerEnabled === 'true') {
-      bundleMode = 'all-in-one';
-      console.log(`Self-hosted trading server enabled, forcing all-in-one mode`);
-    }
+    const bundleMode = config.bundleMode || 'batch'; // Default to batch mode
     
     console.log(`Preparing to buy ${config.tokenAddress} using ${config.protocol} protocol with ${wallets.length} wallets in ${bundleMode} mode`);
     
+    // Every buy passes the spending limits, whichever form or engine it comes from,
+    // and holds its amount until the caller confirms what landed
+    spendingReservation = await enforceSpendingLimits({
+      operation: 'Buy',
+      spends: wallets.map((wallet, index) => ({
+        address: wallet.address,
+        amount: config.amounts?.[index] ?? config.solAmount
+      }))
+    });
+    
     // Execute based on bundle mode
+    let result: BuyResult;
     switch (bundleMode) {
       case 'single':
-        return await executeBuySingleMode(wallets, config);
+        result = await executeBuySingleMode(wallets, config);
+        break;
       
       case 'batch':
-        return await executeBuyBatchMode(wallets, config);
+        result = await executeBuyBatchMode(wallets, config);
+        break;
       
       case 'all-in-one':
-        return await executeBuyAllInOneMode(wallets, config);
+        result = await executeBuyAllInOneMode(wallets, config);
+        break;
       
       default:
         throw new Error(`Invalid bundle mode: ${bundleMode}. Must be 'single', 'batch', or 'all-in-one'`);
     }
+
+    if (!result.success) {
+      releaseSpendingReservation(spendingReservation);
+      return result;
+    }
+    return { ...result, spendingReservation };
   } catch (error) {
     console.error(`${config.protocol} buy error:`, error);
+    releaseSpendingReservation(spendingReservation);
     return {
       success: false,
       error: error.message
@@ -2,15 +2,8 @@ import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 // Note: Import loadConfigFromCookies from your Utils module if available
 import { loadConfigFromCookies } from '../Utils';
-
-const MAX_BUNDLES_PER_SECOND = 2;
-
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
+import { sendBundle, getTradingServerUrl } from './bundleClient';
+import { appendJournalEntry } from './journal';
 
 export interface WalletInfo {
   address: string;
@@ -21,63 +14,6 @@ interface TransactionBundle {
   transactions: string[]; // Base58 encoded transactions
 }
 
-// Define interface for bundle result
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through our backend proxy
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    const data = await response.json();
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Get default protocol for trading
  */
@@ -95,7 +31,7 @@ const getSellTransactions = async (
   protocol: string
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     const config = loadConfigFromCookies();
     const feeInSol = config?.transactionFee || '0.005';
     const feeInLamports = Math.floor(parseFloat(feeInSol) * 1_000_000_000);
@@ -153,7 +89,7 @@ const getDistributionTransactions = async (
   amount: string
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/wallets/distribute`, {
       method: 'POST',
@@ -192,7 +128,7 @@ const getBuyTransactions = async (
   protocol: string
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     const config = loadConfigFromCookies();
     const feeInSol = config?.transactionFee || '0.005';
     const feeInLamports = Math.floor(parseFloat(feeInSol) * 1_000_000_000);
@@ -301,6 +237,17 @@ export const executeCleanerOperation = async (
   tokenBalance: number,
   extraDistributionSol: number = 0.05 // Additional SOL to add to buy amount
 ): Promise<{ success: boolean; result?: any; error?: string }> => {
+  const journalInput = {
+    operation: 'cleaner' as const,
+    tokenAddress,
+    wallets: [sellerWallet.address, buyerWallet.address],
+    amounts: [
+      { wallet: sellerWallet.address, amount: sellPercentage, unit: '%' },
+      { wallet: buyerWallet.address, amount: buyAmount, unit: 'SOL' }
+    ],
+    details: `${sellerWallet.address} to ${buyerWallet.address}`
+  };
+
   try {
     console.log(`Preparing cleaner operation from ${sellerWallet.address} to ${buyerWallet.address} for token ${tokenAddress}`);
     console.log(`Sell percentage: ${sellPercentage}%, Direct buy amount: ${buyAmount} SOL, extra distribution: ${extraDistributionSol} SOL`);
@@ -409,9 +356,9 @@ export const executeCleanerOperation = async (
     
     // Step 7: Send bundle
     console.log("Sending bundle...");
-    await checkRateLimit();
     const result = await sendBundle(fullySignedBundle);
     console.log(`Bundle sent successfully:`, result);
+    await appendJournalEntry(journalInput, { success: true, result });
     
     return {
       success: true,
@@ -435,6 +382,7 @@ export const executeCleanerOperation = async (
     };
   } catch (error) {
     console.error('Cleaner operation error:', error);
+    await appendJournalEntry(journalInput, { success: false, error: error.message });
     return {
       success: false,
       error: error.message
@@ -1,16 +1,12 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import { assertTransactionsSafe, getTipAllowanceLamports } from './txInspector';
+import { appendJournalEntry } from './journal';
 
 // Constants
 const JITO_ENDPOINT = 'https://mainnet.block-engine.jito.wtf/api/v1/block-engine';
-const MAX_BUNDLES_PER_SECOND = 2;
-
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
+const MAX_TXS_PER_BUNDLE = 5;
 
 interface WalletConsolidation {
   address: string;
@@ -21,63 +17,6 @@ interface ConsolidationBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-// Define interface for bundle result
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through our backend proxy
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    const data = await response.json();
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Get partially prepared consolidation transactions from backend
  * The backend will create transactions without signing them
@@ -88,7 +27,7 @@ const getPartiallyPreparedTransactions = async (
   percentage: number
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/wallets/consolidate`, {
       method: 'POST',
@@ -126,11 +65,24 @@ const completeTransactionSigning = (
   receiverKeypair: Keypair
 ): string[] => {
   try {
-    return partiallyPreparedTransactionsBase58.map(txBase58 => {
-      // Deserialize transaction
-      const txBuffer = bs58.decode(txBase58);
-      const transaction = VersionedTransaction.deserialize(txBuffer);
-      
+    // Deserialize all transactions and inspect them before anything is signed
+    const transactions = partiallyPreparedTransactionsBase58.map(txBase58 =>
+      VersionedTransaction.deserialize(bs58.decode(txBase58))
+    );
+
+    // SOL may only move between our own wallets (and to the tip)
+    assertTransactionsSafe(
+      transactions,
+      [receiverKeypair.publicKey.toBase58(), ...sourceKeypairs.keys()],
+      {
+        operation: 'consolidation',
+        programs: [],
+        tipLamports: getTipAllowanceLamports(),
+        bundleCount: Math.ceil(transactions.length / MAX_TXS_PER_BUNDLE)
+      }
+    );
+
+    return transactions.map(transaction => {
       // Extract transaction message to determine required signers
       const message = transaction.message;
       const signers: Keypair[] = [];
@@ -163,7 +115,6 @@ const completeTransactionSigning = (
  */
 const prepareConsolidationBundles = (signedTransactions: string[]): ConsolidationBundle[] => {
   // For simplicity, we're putting transactions in bundles of MAX_TXS_PER_BUNDLE
-  const MAX_TXS_PER_BUNDLE = 5;
   const bundles: ConsolidationBundle[] = [];
   
   for (let i = 0; i < signedTransactions.length; i += MAX_TXS_PER_BUNDLE) {
@@ -184,6 +135,14 @@ export const consolidateSOL = async (
   receiverWallet: WalletConsolidation,
   percentage: number
 ): Promise<{ success: boolean; result?: any; error?: string }> => {
+  const journalInput = {
+    operation: 'consolidate' as const,
+    wallets: [receiverWallet.address, ...sourceWallets.map(wallet => wallet.address)],
+    amounts: [{ amount: percentage, unit: '%' }],
+    tipLamports: getTipAllowanceLamports(),
+    details: `${sourceWallets.length} wallets into ${receiverWallet.address}`
+  };
+
   try {
     console.log(`Preparing to consolidate ${percentage}% of SOL from ${sourceWallets.length} wallets to ${receiverWallet.address}`);
     
@@ -226,7 +185,6 @@ export const consolidateSOL = async (
       const bundle = consolidationBundles[i];
       console.log(`Sending bundle ${i+1}/${consolidationBundles.length} with ${bundle.transactions.length} transactions`);
       
-      await checkRateLimit();
       const result = await sendBundle(bundle.transactions);
       results.push(result);
       
@@ -236,12 +194,14 @@ export const consolidateSOL = async (
       }
     }
     
+    await appendJournalEntry(journalInput, { success: true, result: results });
     return {
       success: true,
       result: results
     };
   } catch (error) {
     console.error('SOL consolidation error:', error);
+    await appendJournalEntry(journalInput, { success: false, error: error.message });
     return {
       success: false,
       error: error.message
@@ -1,19 +1,15 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl } from './bundleClient';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertTransactionsSafe, getAmountCaps, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletForCookCreate {
   publicKey: string;
@@ -65,60 +61,6 @@ export interface CookCreateResponse {
   error?: string;
 }
 
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<any> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -136,7 +78,7 @@ const getPartiallyPreparedCookTransactions = async (
   buyerWallets: WalletForCookCreate[]
 ): Promise<CookCreateResponse> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     // Format buyer wallets for the API request
     const formattedBuyerWallets = buyerWallets.map(wallet => ({
@@ -284,9 +226,6 @@ const sendFirstBundle = async (bundle: string[]): Promise<{success: boolean, res
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle);
       
@@ -317,10 +256,11 @@ const sendFirstBundle = async (bundle: string[]): Promise<{success: boolean, res
 /**
  * Execute cook token creation operation
  */
-export const executeCookCreate = async (
+const runCookCreate = async (
   config: CookCreateConfig,
   ownerWallet: { publicKey: string, privateKey: string },
-  buyerWallets: WalletForCookCreate[]
+  buyerWallets: WalletForCookCreate[],
+  reservation: string
 ): Promise<{ 
   success: boolean; 
   mintAddress?: string; 
@@ -331,6 +271,17 @@ export const executeCookCreate = async (
   try {
     console.log(`Preparing to create token with name: ${config.tokenMetadata.name} using ${buyerWallets.length} buyer wallets`);
     
+    // The owner's dev buy and every buyer wallet count toward the spending limits
+    const buyerAmounts = buyerWallets.map(wallet => ({
+      address: wallet.publicKey,
+      amount: (wallet.amount || config.initialBuyAmount * 1e9) / 1e9
+    }));
+    await enforceSpendingLimits({
+      operation: 'Token deploy',
+      reservation,
+      spends: [{ address: ownerWallet.publicKey, amount: config.initialBuyAmount }, ...buyerAmounts]
+    });
+    
     // Step 1: Get partially prepared transactions from backend
     const preparedData = await getPartiallyPreparedCookTransactions(
       config,
@@ -355,6 +306,22 @@ export const executeCookCreate = async (
       );
     });
     
+    // Inspect every transaction before anything is signed; buys are capped at the requested amounts
+    // The Cook program is not on the built-in allowlist, so it has to be trusted under Settings > Security
+    assertTransactionsSafe(
+      [
+        preparedData.tokenCreation.transaction,
+        ...(preparedData.buyerTransactions || []).map(txInfo => txInfo.transaction)
+      ].map(transactionStr => VersionedTransaction.deserialize(decodeTransaction(transactionStr))),
+      [ownerWallet.publicKey, ...buyerKeypairsMap.keys()],
+      {
+        operation: 'token creation',
+        programs: [],
+        maxSolOut: getAmountCaps([{ address: ownerWallet.publicKey, amount: config.initialBuyAmount }, ...buyerAmounts]),
+        tipLamports: getTipAllowanceLamports()
+      }
+    );
+    
     // Step 3: Sign transactions
     // Sign owner's token creation transaction
     const signedOwnerTx = signOwnerTransaction(
@@ -406,4 +373,37 @@ export const executeCookCreate = async (
       error: error.message
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Execute cook token creation operation and record it in the operation journal
+ */
+export const executeCookCreate = async (
+  config: CookCreateConfig,
+  ownerWallet: { publicKey: string, privateKey: string },
+  buyerWallets: WalletForCookCreate[]
+): Promise<{ 
+  success: boolean; 
+  mintAddress?: string; 
+  poolId?: string;
+  result?: any; 
+  error?: string 
+}> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runCookCreate(config, ownerWallet, buyerWallets, reservation);
+  const spends: WalletSpend[] = [
+    { address: ownerWallet.publicKey, amount: config.initialBuyAmount },
+    ...buyerWallets.map(wallet => ({ address: wallet.publicKey, amount: (wallet.amount || config.initialBuyAmount * 1e9) / 1e9 }))
+  ];
+
+  await appendJournalEntry({
+    operation: 'deploy',
+    tokenAddress: outcome.mintAddress,
+    wallets: [ownerWallet.publicKey, ...buyerWallets.map(wallet => wallet.publicKey)],
+    amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+    details: `Cook token creation: ${config.tokenMetadata.name}`
+  }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
@@ -1,9 +1,13 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import { getSubmittedTransactions, trackConfirmations, WalletConfirmation } from './bundleTracker';
+import { assertTransactionsSafe, getTipAllowanceLamports, InspectionExpectation } from './txInspector';
+import { appendJournalEntry } from './journal';
 
 interface WalletDistribution {
   address: string;
-  privateKey: string;
+  privateKey: string; // '' for watch-only recipients, which never co-sign
   amount: string;
 }
 
@@ -11,43 +15,6 @@ interface DistributionBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-// Define interface for bundle result
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-
-/**
- * Send bundle to Jito block engine
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-    try {
-      const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-      
-      // Send to our backend proxy instead of directly to Jito
-      const response = await fetch(`${baseUrl}/api/transactions/send`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          transactions: encodedBundle
-        }),
-      });
-  
-      const data = await response.json();
-      
-      return data.result;
-    } catch (error) {
-      console.error('Error sending bundle:', error);
-      throw error;
-    }
-  };
-
 /**
  * Get partially signed transactions from backend
  * The backend will create and sign with dump wallets
@@ -57,7 +24,7 @@ const getPartiallySignedTransactions = async (
   recipients: { address: string, amount: string }[]
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/wallets/distribute`, {
       method: 'POST',
@@ -91,14 +58,21 @@ const getPartiallySignedTransactions = async (
 const completeTransactionSigning = (
   partiallySignedTransactionsBase58: string[], 
   senderKeypair: Keypair,
-  recipientKeypairs: Map<string, Keypair>
+  recipientKeypairs: Map<string, Keypair>,
+  expectation: InspectionExpectation
 ): string[] => {
   try {
-    return partiallySignedTransactionsBase58.map(txBase58 => {
-      // Deserialize transaction
-      const txBuffer = bs58.decode(txBase58);
-      const transaction = VersionedTransaction.deserialize(txBuffer);
-      
+    // Deserialize all transactions and inspect them before anything is signed
+    const transactions = partiallySignedTransactionsBase58.map(txBase58 =>
+      VersionedTransaction.deserialize(bs58.decode(txBase58))
+    );
+    assertTransactionsSafe(
+      transactions,
+      [senderKeypair.publicKey.toBase58(), ...recipientKeypairs.keys()],
+      expectation
+    );
+
+    return transactions.map(transaction => {
       // Extract transaction message to determine required signers
       const message = transaction.message;
       const requiredSigners: Keypair[] = [];
@@ -144,7 +118,7 @@ const prepareDistributionBundles = (signedTransactions: string[]): DistributionB
 export const distributeSOL = async (
   senderWallet: WalletDistribution,
   recipientWallets: WalletDistribution[]
-): Promise<{ success: boolean; result?: any; error?: string }> => {
+): Promise<{ success: boolean; result?: any; error?: string; confirmations?: WalletConfirmation[] }> => {
   try {
     console.log(`Preparing to distribute SOL from ${senderWallet.address} to ${recipientWallets.length} recipients`);
     
@@ -168,15 +142,27 @@ export const distributeSOL = async (
     // Create a map of recipient public keys to keypairs for faster lookups
     const recipientKeypairsMap = new Map<string, Keypair>();
     recipientWallets.forEach(wallet => {
+      if (!wallet.privateKey) return;
       const keypair = Keypair.fromSecretKey(bs58.decode(wallet.privateKey));
       recipientKeypairsMap.set(keypair.publicKey.toBase58(), keypair);
     });
     
     // Step 3: Complete transaction signing with sender and recipient keys
+    // SOL may only reach the recipients, through the backend's dump wallets, and in total
+    // no more than the requested amounts
+    const totalAmount = recipientWallets.reduce((sum, wallet) => sum + (parseFloat(wallet.amount) || 0), 0);
     const fullySignedTransactions = completeTransactionSigning(
       partiallySignedTransactions, 
       senderKeypair, 
-      recipientKeypairsMap
+      recipientKeypairsMap,
+      {
+        operation: 'distribution',
+        programs: [],
+        maxSolOut: { [senderWallet.address]: totalAmount },
+        recipients: recipients.map(recipient => recipient.address),
+        allowCoSigners: true,
+        tipLamports: getTipAllowanceLamports()
+      }
     );
     console.log(`Completed signing for ${fullySignedTransactions.length} transactions`);
     
@@ -199,9 +185,17 @@ export const distributeSOL = async (
       }
     }
     
+    // Step 6: Wait for the bundles to land on-chain
+    const confirmations = await trackConfirmations(getSubmittedTransactions(results));
+    const landed = confirmations.filter(confirmation => confirmation.status === 'landed').length;
+
     return {
-      success: true,
-      result: results
+      success: confirmations.length === 0 || landed > 0,
+      result: results,
+      error: landed < confirmations.length
+        ? `${landed} of ${confirmations.length} distribution transactions landed`
+        : undefined,
+      confirmations
     };
   } catch (error) {
     console.error('SOL distribution error:', error);
@@ -231,7 +225,7 @@ export const validateDistributionInputs = (
   }
   
   for (const wallet of recipientWallets) {
-    if (!wallet.address || !wallet.privateKey || !wallet.amount) {
+    if (!wallet.address || !wallet.amount) {
       return { valid: false, error: 'Invalid recipient wallet data' };
     }
     
@@ -257,12 +251,12 @@ export const validateDistributionInputs = (
   return { valid: true };
 };
 /**
- * Batch distribute SOL to multiple recipients, splitting into groups of max 3 recipients per request
+ * Split recipients into groups of max 3 recipients per request and distribute to each group
  */
-export const batchDistributeSOL = async (
+const runBatchDistribution = async (
   senderWallet: WalletDistribution,
   recipientWallets: WalletDistribution[]
-): Promise<{ success: boolean; results?: any[]; error?: string }> => {
+): Promise<{ success: boolean; results?: any[]; error?: string; confirmations?: WalletConfirmation[] }> => {
   try {
     console.log(`Starting batch SOL distribution to ${recipientWallets.length} recipients`);
     
@@ -277,7 +271,8 @@ export const batchDistributeSOL = async (
       return { 
         success: result.success, 
         results: result.success ? [result.result] : [], 
-        error: result.error 
+        error: result.error,
+        confirmations: result.confirmations
       };
     }
     
@@ -293,6 +288,7 @@ export const batchDistributeSOL = async (
     
     // Execute each batch sequentially
     const results: any[] = [];
+    const confirmations: WalletConfirmation[] = [];
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
       console.log(`Processing batch ${i+1}/${batches.length} with ${batch.length} recipients`);
@@ -303,12 +299,14 @@ export const batchDistributeSOL = async (
       
       // Execute this batch
       const batchResult = await distributeSOL(senderWallet, batch);
+      confirmations.push(...(batchResult.confirmations || []));
       
       if (!batchResult.success) {
         return {
           success: false,
           results,
-          error: `Batch ${i+1} failed: ${batchResult.error}`
+          error: `Batch ${i+1} failed: ${batchResult.error}`,
+          confirmations
         };
       }
       
@@ -323,7 +321,8 @@ export const batchDistributeSOL = async (
     
     return {
       success: true,
-      results
+      results,
+      confirmations
     };
   } catch (error) {
     console.error('Batch SOL distribution error:', error);
@@ -332,4 +331,26 @@ export const batchDistributeSOL = async (
       error: error.message
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Batch distribute SOL to multiple recipients and record the whole distribution in the journal
+ */
+export const batchDistributeSOL = async (
+  senderWallet: WalletDistribution,
+  recipientWallets: WalletDistribution[]
+): Promise<{ success: boolean; results?: any[]; error?: string; confirmations?: WalletConfirmation[] }> => {
+  const outcome = await runBatchDistribution(senderWallet, recipientWallets);
+
+  if (recipientWallets.length > 0) {
+    await appendJournalEntry({
+      operation: 'distribute',
+      wallets: [senderWallet.address, ...recipientWallets.map(wallet => wallet.address)],
+      amounts: recipientWallets.map(wallet => ({ wallet: wallet.address, amount: parseFloat(wallet.amount) || 0, unit: 'SOL' })),
+      tipLamports: getTipAllowanceLamports(),
+      details: `From ${senderWallet.address} to ${recipientWallets.length} wallets`
+    }, { success: outcome.success, result: outcome.results, error: outcome.error, confirmations: outcome.confirmations });
+  }
+
+  return outcome;
+};
@@ -0,0 +1,201 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { generateMnemonic, validateMnemonic, mnemonicToSeedSync } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { WalletType } from '../Utils';
+
+/**
+ * Deterministic (HD) wallets from a BIP39 mnemonic.
+ * Keys follow Solana's standard path m/44'/501'/index'/0' (SLIP-0010 ed25519, the same
+ * path Phantom and Solflare use), so the mnemonic alone recovers every wallet. The
+ * mnemonic itself is never stored; wallets only remember a seed fingerprint and their index.
+ */
+
+// Constants
+const ED25519_CURVE = 'ed25519 seed';
+const HARDENED_OFFSET = 0x80000000;
+const SEED_ID_BYTES = 8;
+const RECOVERY_BATCH_SIZE = 20;
+export const DEFAULT_RECOVERY_GAP = 20; // Consecutive unused indices before recovery stops
+
+// Interfaces
+export interface HdRecoveryProgress {
+  scanned: number; // Indices checked so far
+  found: number; // Wallets with on-chain activity
+}
+
+export interface HdRecoveryResult {
+  wallets: WalletType[]; // Wallets with on-chain activity, in index order
+  scanned: number;
+}
+
+/**
+ * Solana derivation path for an account index
+ */
+export const getSolanaDerivationPath = (index: number): string => `m/44'/501'/${index}'/0'`;
+
+/**
+ * Normalize user input: lowercase words separated by single spaces
+ */
+export const normalizeMnemonic = (mnemonic: string): string => {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+};
+
+/**
+ * Generate a new 12 or 24 word English mnemonic
+ */
+export const createMnemonic = (words: 12 | 24 = 12): string => {
+  return generateMnemonic(wordlist, words === 24 ? 256 : 128);
+};
+
+/**
+ * Check the words and checksum of a mnemonic
+ */
+export const isValidMnemonic = (mnemonic: string): boolean => {
+  return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+};
+
+// SLIP-0010 ed25519 derivation, hardened indices only
+const deriveEd25519Key = (seed: Uint8Array, path: string): Uint8Array => {
+  let node = hmac(sha512, new TextEncoder().encode(ED25519_CURVE), seed);
+
+  const segments = path.split('/').slice(1);
+  for (const segment of segments) {
+    const index = parseInt(segment.replace("'", ''), 10) + HARDENED_OFFSET;
+    const data = new Uint8Array(37);
+    data.set(node.slice(0, 32), 1);
+    new DataView(data.buffer).setUint32(33, index);
+    node = hmac(sha512, node.slice(32), data);
+  }
+
+  return node.slice(0, 32);
+};
+
+const getSeed = (mnemonic: string): Uint8Array => {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error('Invalid mnemonic');
+  }
+  return mnemonicToSeedSync(normalized);
+};
+
+// Short fingerprint that groups wallets by seed without revealing it
+const getSeedIdFromSeed = (seed: Uint8Array): string => bytesToHex(sha256(seed).slice(0, SEED_ID_BYTES));
+
+/**
+ * Fingerprint stored on wallets derived from a mnemonic
+ */
+export const getHdSeedId = (mnemonic: string): string => getSeedIdFromSeed(getSeed(mnemonic));
+
+const deriveWallet = (seed: Uint8Array, seedId: string, index: number, id: number): WalletType => {
+  const keypair = Keypair.fromSeed(deriveEd25519Key(seed, getSolanaDerivationPath(index)));
+  return {
+    id,
+    address: keypair.publicKey.toString(),
+    privateKey: bs58.encode(keypair.secretKey),
+    isActive: false,
+    hdSeedId: seedId,
+    hdIndex: index
+  };
+};
+
+/**
+ * Derive consecutive wallets from a mnemonic
+ * @param mnemonic BIP39 mnemonic
+ * @param startIndex First account index
+ * @param count Number of wallets
+ * @returns Wallets tagged with their seed fingerprint and index
+ */
+export const deriveHdWallets = (mnemonic: string, startIndex: number, count: number): WalletType[] => {
+  const seed = getSeed(mnemonic);
+  const seedId = getSeedIdFromSeed(seed);
+  const baseId = Date.now();
+
+  return Array.from({ length: count }, (_, offset) => deriveWallet(seed, seedId, startIndex + offset, baseId + offset));
+};
+
+/**
+ * Next unused index for a seed, based on the wallets already in the list
+ */
+export const getNextHdIndex = (wallets: WalletType[], seedId: string): number => {
+  return wallets.reduce((next, wallet) => (
+    wallet.hdSeedId === seedId && wallet.hdIndex !== undefined ? Math.max(next, wallet.hdIndex + 1) : next
+  ), 0);
+};
+
+// An address has been used if it holds an account or has any transaction history
+const getUsedAddresses = async (connection: Connection, addresses: string[]): Promise<Set<string>> => {
+  const used = new Set<string>();
+  const accounts = await connection.getMultipleAccountsInfo(addresses.map(address => new PublicKey(address)));
+
+  await Promise.all(addresses.map(async (address, index) => {
+    if (accounts[index]) {
+      used.add(address);
+      return;
+    }
+    const signatures = await connection.getSignaturesForAddress(new PublicKey(address), { limit: 1 });
+    if (signatures.length > 0) used.add(address);
+  }));
+
+  return used;
+};
+
+/**
+ * Recover wallets from a mnemonic by scanning indices for on-chain activity
+ * Scanning stops once gapLimit consecutive indices have never been used.
+ */
+export const recoverHdWallets = async (
+  connection: Connection,
+  mnemonic: string,
+  gapLimit: number = DEFAULT_RECOVERY_GAP,
+  onProgress?: (progress: HdRecoveryProgress) => void
+): Promise<HdRecoveryResult> => {
+  const seed = getSeed(mnemonic);
+  const seedId = getSeedIdFromSeed(seed);
+  const baseId = Date.now();
+  const found: WalletType[] = [];
+  let index = 0;
+  let unusedRun = 0;
+
+  while (unusedRun < gapLimit) {
+    const batch = Array.from({ length: RECOVERY_BATCH_SIZE }, (_, offset) => (
+      deriveWallet(seed, seedId, index + offset, baseId + index + offset)
+    ));
+    const used = await getUsedAddresses(connection, batch.map(wallet => wallet.address));
+
+    for (const wallet of batch) {
+      if (unusedRun >= gapLimit) break;
+      if (used.has(wallet.address)) {
+        found.push(wallet);
+        unusedRun = 0;
+      } else {
+        unusedRun++;
+      }
+      index++;
+    }
+
+    onProgress?.({ scanned: index, found: found.length });
+  }
+
+  return { wallets: found, scanned: index };
+};
+
+/**
+ * Add derived wallets to the list, skipping addresses already present
+ * Existing copies of a derived wallet get their seed and index filled in.
+ */
+export const mergeHdWallets = (existing: WalletType[], derived: WalletType[]): { wallets: WalletType[]; added: number } => {
+  const derivedByAddress = new Map(derived.map(wallet => [wallet.address, wallet]));
+  const merged = existing.map(wallet => {
+    const match = derivedByAddress.get(wallet.address);
+    if (!match || wallet.hdSeedId) return wallet;
+    return { ...wallet, hdSeedId: match.hdSeedId, hdIndex: match.hdIndex };
+  });
+
+  const known = new Set(existing.map(wallet => wallet.address));
+  const added = derived.filter(wallet => !known.has(wallet.address));
+  return { wallets: [...merged, ...added], added: added.length };
+};
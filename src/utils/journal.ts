@@ -0,0 +1,270 @@
+import { getSubmittedTransactions, WalletConfirmation } from './bundleTracker';
+
+/**
+ * Append-only operation journal.
+ * Every operation that sends transactions adds one entry to IndexedDB once its
+ * final status is known. Entries are never edited or removed; the history view
+ * reads, filters and exports them.
+ */
+
+// Database setup
+const DB_NAME = 'OperationJournal';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+
+// Constants
+export const JOURNAL_EVENT = 'journalEntryAdded';
+
+// Interfaces
+export type JournalOperation =
+  | 'buy'
+  | 'sell'
+  | 'transfer'
+  | 'burn'
+  | 'distribute'
+  | 'consolidate'
+  | 'cleaner'
+  | 'limit-order'
+  | 'deploy'
+  | 'automation';
+
+export type JournalStatus = 'landed' | 'partial' | 'failed' | 'submitted' | 'simulated';
+
+export interface JournalAmount {
+  wallet?: string;
+  amount: number;
+  unit: string; // 'SOL', 'tokens' or '%'
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: number;
+  operation: JournalOperation;
+  tokenAddress?: string;
+  wallets: string[];
+  amounts: JournalAmount[];
+  tipLamports?: number;
+  bundleIds: string[];
+  signatures: string[];
+  status: JournalStatus;
+  error?: string;
+  details?: string; // Protocol, strategy name, recipients...
+}
+
+export interface JournalInput {
+  operation: JournalOperation;
+  tokenAddress?: string;
+  wallets: string[];
+  amounts?: JournalAmount[];
+  tipLamports?: number;
+  details?: string;
+}
+
+// What the operation returned: the raw send result(s) and, when tracked, the on-chain outcome
+export interface JournalOutcome {
+  success: boolean;
+  result?: any;
+  error?: string;
+  confirmations?: WalletConfirmation[];
+}
+
+export interface JournalFilter {
+  query?: string; // Matched against token, wallets, signatures, bundle IDs, details and errors
+  operation?: JournalOperation | 'all';
+  status?: JournalStatus | 'all';
+  from?: number;
+  to?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error('Error opening journal database:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        const store = db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+  });
+
+  return dbPromise;
+};
+
+const generateJournalId = () => `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Dry-run results carry simulated: true somewhere in the (possibly nested) send result
+const isSimulatedResult = (value: any): boolean => {
+  if (!value || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return value.some(isSimulatedResult);
+  return value.simulated === true;
+};
+
+const getCollectedBundleIds = (value: any, bundleIds: Set<string>) => {
+  if (!value || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    value.forEach(item => getCollectedBundleIds(item, bundleIds));
+    return;
+  }
+  if (typeof value.bundleId === 'string' && value.bundleId) bundleIds.add(value.bundleId);
+  if (Array.isArray(value.results)) getCollectedBundleIds(value.results, bundleIds);
+};
+
+const getJournalStatus = (outcome: JournalOutcome): JournalStatus => {
+  if (isSimulatedResult(outcome.result)) return 'simulated';
+
+  if (outcome.confirmations && outcome.confirmations.length > 0) {
+    const landed = outcome.confirmations.filter(confirmation => confirmation.status === 'landed').length;
+    if (landed === outcome.confirmations.length) return 'landed';
+    return landed > 0 ? 'partial' : 'failed';
+  }
+
+  return outcome.success ? 'submitted' : 'failed';
+};
+
+/**
+ * Build the journal entry for a finished operation
+ */
+export const createJournalEntry = (input: JournalInput, outcome: JournalOutcome): JournalEntry => {
+  const submitted = getSubmittedTransactions(outcome.result);
+  const signatures = new Set(submitted.map(transaction => transaction.signature));
+  const bundleIds = new Set(submitted.filter(transaction => transaction.bundleId).map(transaction => transaction.bundleId!));
+  getCollectedBundleIds(outcome.result, bundleIds);
+  outcome.confirmations?.forEach(confirmation => {
+    signatures.add(confirmation.signature);
+    if (confirmation.bundleId) bundleIds.add(confirmation.bundleId);
+  });
+
+  return {
+    id: generateJournalId(),
+    timestamp: Date.now(),
+    operation: input.operation,
+    tokenAddress: input.tokenAddress || undefined,
+    wallets: input.wallets,
+    amounts: input.amounts || [],
+    tipLamports: input.tipLamports,
+    bundleIds: Array.from(bundleIds),
+    signatures: Array.from(signatures),
+    status: getJournalStatus(outcome),
+    error: outcome.error,
+    details: input.details
+  };
+};
+
+/**
+ * Append an operation to the journal
+ * Never throws - a journal failure must not turn a sent operation into an error
+ */
+export const appendJournalEntry = async (input: JournalInput, outcome: JournalOutcome): Promise<void> => {
+  try {
+    const entry = createJournalEntry(input, outcome);
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE).add(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    window.dispatchEvent(new CustomEvent<JournalEntry>(JOURNAL_EVENT, { detail: entry }));
+  } catch (error) {
+    console.error('Error writing journal entry:', error);
+  }
+};
+
+/**
+ * Load every journal entry, newest first
+ */
+export const loadJournal = async (): Promise<JournalEntry[]> => {
+  try {
+    const db = await openDatabase();
+    const entries = await new Promise<JournalEntry[]>((resolve, reject) => {
+      const request = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).index('timestamp').getAll();
+      request.onsuccess = () => resolve(request.result as JournalEntry[]);
+      request.onerror = () => reject(request.error);
+    });
+    return entries.reverse();
+  } catch (error) {
+    console.error('Error loading journal:', error);
+    return [];
+  }
+};
+
+/**
+ * Filter entries for the history view
+ */
+export const filterJournal = (entries: JournalEntry[], filter: JournalFilter): JournalEntry[] => {
+  const query = filter.query?.trim().toLowerCase() || '';
+
+  return entries.filter(entry => {
+    if (filter.operation && filter.operation !== 'all' && entry.operation !== filter.operation) return false;
+    if (filter.status && filter.status !== 'all' && entry.status !== filter.status) return false;
+    if (filter.from && entry.timestamp < filter.from) return false;
+    if (filter.to && entry.timestamp > filter.to) return false;
+    if (!query) return true;
+
+    const haystack = [
+      entry.operation,
+      entry.tokenAddress,
+      entry.details,
+      entry.error,
+      ...entry.wallets,
+      ...entry.signatures,
+      ...entry.bundleIds
+    ].filter(Boolean).join(' ').toLowerCase();
+    return haystack.includes(query);
+  });
+};
+
+const escapeCsvValue = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Format entries as CSV, one row per entry with list fields joined by spaces
+ */
+export const formatJournalCsv = (entries: JournalEntry[]): string => {
+  const header = ['timestamp', 'operation', 'status', 'token', 'wallets', 'amounts', 'tip_lamports', 'bundle_ids', 'signatures', 'details', 'error'];
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.operation,
+    entry.status,
+    entry.tokenAddress || '',
+    entry.wallets.join(' '),
+    entry.amounts.map(amount => `${amount.wallet ? `${amount.wallet}:` : ''}${amount.amount} ${amount.unit}`).join(' | '),
+    entry.tipLamports !== undefined ? String(entry.tipLamports) : '',
+    entry.bundleIds.join(' '),
+    entry.signatures.join(' '),
+    entry.details || '',
+    entry.error || ''
+  ].map(escapeCsvValue).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+};
+
+/**
+ * Download entries as a CSV or JSON file
+ */
+export const downloadJournal = (entries: JournalEntry[], format: 'csv' | 'json') => {
+  const content = format === 'csv' ? formatJournalCsv(entries) : JSON.stringify(entries, null, 2);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `journal-${new Date().toISOString().slice(0, 10)}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
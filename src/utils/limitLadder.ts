@@ -0,0 +1,294 @@
+import { FormattedWallet } from './trading';
+import {
+  cancelOrderWithBundle,
+  createLimitOrders,
+  deriveLimitOrderAmounts,
+  formatTokenAmount,
+  getOrderMintInfo,
+  processLimitOrderBundle,
+  toRawLimitOrderConfig,
+  LimitOrderConfig,
+  LimitOrderSide,
+  OrderMintInfo,
+  MIN_ORDER_SOL
+} from './limitorders';
+
+/**
+ * Limit-order ladders.
+ * A ladder spreads a total size over price levels (linear or geometric spacing) and
+ * wallets, one order per wallet per level. Orders go out in bundle-sized batches and
+ * the placed ones are remembered locally, so a whole ladder can be cancelled at once.
+ */
+
+// Constants
+const LADDER_STORAGE_KEY = 'limitOrderLadders';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LADDER_SLIPPAGE_BPS = 50; // Same as single limit orders
+export const LADDER_BATCH_SIZE = 5; // Orders per request and bundle (a Jito bundle holds 5 transactions)
+export const MAX_LADDER_LEVELS = 50;
+export const LADDER_EVENT = 'limitLaddersChanged';
+
+// Interfaces
+export type LadderSpacing = 'linear' | 'geometric';
+
+export interface LadderConfig {
+  side: LimitOrderSide;
+  tokenAddress: string;
+  minPrice: number; // SOL per token
+  maxPrice: number;
+  levels: number;
+  spacing: LadderSpacing;
+  totalSize: number; // SOL to spend when buying, tokens to sell when selling
+  wallets: string[]; // Maker addresses
+  expiredAt?: number; // Unix timestamp
+}
+
+export interface LadderOrder {
+  level: number; // 0 is the lowest price
+  price: number;
+  maker: string;
+  makingAmount: string; // Human units of the input mint
+  takingAmount: string; // Human units of the output mint
+}
+
+export interface LadderRecord {
+  id: string;
+  tokenAddress: string;
+  side: LimitOrderSide;
+  createdAt: number;
+  orders: Array<{ order: string; maker: string; price: number }>;
+}
+
+export interface LadderSubmitResult {
+  ladder: LadderRecord | null; // Null when no order was placed
+  placed: number;
+  errors: string[];
+}
+
+const getOrderMints = (side: LimitOrderSide, tokenAddress: string) => ({
+  inputMint: side === 'buy' ? SOL_MINT : tokenAddress,
+  outputMint: side === 'buy' ? tokenAddress : SOL_MINT
+});
+
+/**
+ * Prices of the ladder levels from low to high
+ * Linear spacing keeps a constant SOL step, geometric a constant percentage step.
+ */
+export const getLadderPrices = (minPrice: number, maxPrice: number, levels: number, spacing: LadderSpacing): number[] => {
+  if (levels <= 1) return [minPrice];
+
+  return Array.from({ length: levels }, (_, level) => {
+    const position = level / (levels - 1);
+    return spacing === 'geometric'
+      ? minPrice * Math.pow(maxPrice / minPrice, position)
+      : minPrice + (maxPrice - minPrice) * position;
+  });
+};
+
+/**
+ * Every order of a ladder: each wallet gets one order per level, all of equal size
+ * @param mints Decimals of the input and output mints, used to round the amounts
+ */
+export const buildLadderOrders = (
+  config: LadderConfig,
+  mints: { input: OrderMintInfo; output: OrderMintInfo }
+): LadderOrder[] => {
+  if (config.wallets.length === 0 || config.levels < 1) return [];
+
+  const prices = getLadderPrices(config.minPrice, config.maxPrice, config.levels, config.spacing);
+  const orderSize = config.totalSize / (prices.length * config.wallets.length);
+
+  return prices.flatMap((price, level) => config.wallets.map(maker => {
+    const { makingAmount, takingAmount } = deriveLimitOrderAmounts(config.side, orderSize, price);
+    return {
+      level,
+      price,
+      maker,
+      makingAmount: makingAmount.toFixed(mints.input.decimals),
+      takingAmount: takingAmount.toFixed(mints.output.decimals)
+    };
+  }));
+};
+
+/**
+ * Problems with a ladder configuration, empty when it can be submitted
+ */
+export const validateLadderConfig = (config: LadderConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config.tokenAddress) {
+    errors.push('No token selected');
+  }
+
+  if (!(config.minPrice > 0)) {
+    errors.push('Lowest price must be greater than 0');
+  }
+
+  if (!(config.maxPrice >= config.minPrice)) {
+    errors.push('Highest price must not be below the lowest price');
+  }
+
+  if (!Number.isInteger(config.levels) || config.levels < 1 || config.levels > MAX_LADDER_LEVELS) {
+    errors.push(`Levels must be a whole number from 1 to ${MAX_LADDER_LEVELS}`);
+  }
+
+  if (!(config.totalSize > 0)) {
+    errors.push('Total size must be greater than 0');
+  }
+
+  if (config.wallets.length === 0) {
+    errors.push('Select at least one wallet');
+  }
+
+  if (errors.length === 0) {
+    // The smallest order in SOL: buys are equal in SOL, sells are smallest at the lowest price
+    const orderSize = config.totalSize / (config.levels * config.wallets.length);
+    const smallestSol = config.side === 'buy' ? orderSize : orderSize * config.minPrice;
+    if (smallestSol < MIN_ORDER_SOL) {
+      errors.push(`Each order must be worth at least ${MIN_ORDER_SOL} SOL (smallest is ${smallestSol.toFixed(4)} SOL); use fewer levels or wallets`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Ladders placed from this browser, newest first
+ */
+export const loadLadders = (): LadderRecord[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LADDER_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error('Error reading limit-order ladders:', error);
+    return [];
+  }
+};
+
+const saveLadders = (ladders: LadderRecord[]) => {
+  localStorage.setItem(LADDER_STORAGE_KEY, JSON.stringify(ladders));
+  window.dispatchEvent(new CustomEvent(LADDER_EVENT));
+};
+
+/**
+ * Forget a ladder without cancelling its orders, e.g. once they have all filled
+ */
+export const removeLadder = (id: string) => {
+  saveLadders(loadLadders().filter(ladder => ladder.id !== id));
+};
+
+// Price in SOL per token of an order the API echoed back in raw units
+const getPlacedPrice = (orderConfig: any, side: LimitOrderSide, mints: { input: OrderMintInfo; output: OrderMintInfo }): number => {
+  const making = parseFloat(formatTokenAmount(String(orderConfig?.makingAmount || '0'), mints.input.decimals));
+  const taking = parseFloat(formatTokenAmount(String(orderConfig?.takingAmount || '0'), mints.output.decimals));
+  const price = side === 'buy' ? making / taking : taking / making;
+  return isFinite(price) ? price : 0;
+};
+
+/**
+ * Create, sign and send every order of a ladder in batches
+ * Batches fail independently; the ladder keeps the orders that were placed.
+ * @param wallets Signing wallets of the makers
+ * @param onProgress Orders processed so far
+ */
+export const submitLadder = async (
+  config: LadderConfig,
+  wallets: FormattedWallet[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<LadderSubmitResult> => {
+  const { inputMint, outputMint } = getOrderMints(config.side, config.tokenAddress);
+  const mints = {
+    input: await getOrderMintInfo(inputMint),
+    output: await getOrderMintInfo(outputMint)
+  };
+  const orders = buildLadderOrders(config, mints);
+  const placed: LadderRecord['orders'] = [];
+  const errors: string[] = [];
+
+  for (let start = 0; start < orders.length; start += LADDER_BATCH_SIZE) {
+    const batch = orders.slice(start, start + LADDER_BATCH_SIZE);
+    const batchLabel = `Orders ${start + 1}-${start + batch.length}`;
+    const requests: LimitOrderConfig[] = batch.map(order => toRawLimitOrderConfig({
+      inputMint,
+      outputMint,
+      maker: order.maker,
+      makingAmount: order.makingAmount,
+      takingAmount: order.takingAmount,
+      slippageBps: LADDER_SLIPPAGE_BPS,
+      expiredAt: config.expiredAt
+    }, mints.input, mints.output));
+
+    const response = await createLimitOrders(requests);
+    if (!response.success || !response.orders || !response.transactions?.length) {
+      errors.push(`${batchLabel}: ${response.error || 'No transactions returned'}`);
+    } else {
+      response.errors?.forEach(error => errors.push(`${batchLabel}: ${error}`));
+
+      const makers = new Set(batch.map(order => order.maker));
+      const result = await processLimitOrderBundle(response, wallets.filter(wallet => makers.has(wallet.address)));
+      if (result.success) {
+        response.orders.forEach(order => placed.push({
+          order: order.order,
+          maker: order.orderConfig?.maker || '',
+          price: getPlacedPrice(order.orderConfig, config.side, mints)
+        }));
+      } else {
+        errors.push(`${batchLabel}: ${result.error || 'Bundle failed'}`);
+      }
+    }
+
+    onProgress?.(Math.min(start + LADDER_BATCH_SIZE, orders.length), orders.length);
+  }
+
+  if (placed.length === 0) {
+    return { ladder: null, placed: 0, errors };
+  }
+
+  const ladder: LadderRecord = {
+    id: `ladder-${Date.now()}`,
+    tokenAddress: config.tokenAddress,
+    side: config.side,
+    createdAt: Date.now(),
+    orders: placed
+  };
+  saveLadders([ladder, ...loadLadders()]);
+  return { ladder, placed: placed.length, errors };
+};
+
+/**
+ * Cancel every order of a ladder
+ * Cancelled orders are dropped from the ladder, and the ladder itself once none are left.
+ * Orders that already filled fail to cancel and stay until the ladder is removed.
+ */
+export const cancelLadder = async (
+  ladder: LadderRecord,
+  wallets: FormattedWallet[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<{ cancelled: number; errors: string[] }> => {
+  const remaining: LadderRecord['orders'] = [];
+  const errors: string[] = [];
+
+  for (let index = 0; index < ladder.orders.length; index++) {
+    const order = ladder.orders[index];
+    const wallet = wallets.find(w => w.address === order.maker);
+
+    if (!wallet) {
+      errors.push(`${order.order}: wallet ${order.maker} not available`);
+      remaining.push(order);
+    } else {
+      const result = await cancelOrderWithBundle({ maker: order.maker, order: order.order }, wallet);
+      if (!result.success) {
+        errors.push(`${order.order}: ${result.error || 'Cancel failed'}`);
+        remaining.push(order);
+      }
+    }
+
+    onProgress?.(index + 1, ladder.orders.length);
+  }
+
+  const saved = loadLadders();
+  saveLadders(remaining.length > 0
+    ? saved.map(entry => entry.id === ladder.id ? { ...entry, orders: remaining } : entry)
+    : saved.filter(entry => entry.id !== ladder.id));
+  return { cancelled: ladder.orders.length - remaining.length, errors };
+};
@@ -1,6 +1,20 @@
 import { FormattedWallet } from './trading';
-import { Transaction, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { Connection, Transaction, Keypair, VersionedTransaction, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import { getSubmittedTransactions, trackConfirmations, formatConfirmationSummary, WalletConfirmation } from './bundleTracker';
+import { appendJournalEntry, JournalAmount } from './journal';
+import { getMintInfo } from './balances';
+import {
+  recordOrders,
+  markOrderCancelled,
+  applyOpenOrders,
+  getMakersWithOpenOrders,
+  resolveClosedOrder,
+  OrderHistoryEntry,
+  OrderStatusChange
+} from './orderHistory';
 
 // Type definition for config to avoid circular dependency
 interface AppConfig {
@@ -31,13 +45,22 @@ export interface LimitOrderConfig {
   inputMint: string;
   outputMint: string;
   maker: string;
-  makingAmount: string;
-  takingAmount: string;
+  makingAmount: string; // Raw units of inputMint (human units until toRawLimitOrderConfig)
+  takingAmount: string; // Raw units of outputMint (human units until toRawLimitOrderConfig)
   slippageBps?: number;
   expiredAt?: number; // Unix timestamp
   base?: 'input' | 'output';
 }
 
+// Mint metadata the order form needs to size orders
+export interface OrderMintInfo {
+  decimals: number;
+  supply: number; // In tokens; used to turn a market cap into a price
+  programId: PublicKey;
+}
+
+export type LimitOrderSide = 'buy' | 'sell';
+
 export interface CreateLimitOrderRequest {
   inputMint: string;
   outputMint: string;
@@ -128,11 +151,7 @@ export interface LimitOrderBundle {
   transactions: string[];
 }
 
-export interface BundleResult {
-  success: boolean;
-  bundleId?: string;
-  error?: string;
-}
+export type { BundleResult } from './bundleClient';
 
 export interface BundleSigningRequest {
   orders: Array<{
@@ -144,8 +163,78 @@ export interface BundleSigningRequest {
   errors: string[];
 }
 
-// API Base URL - This should be configured based on your backend
-const getBaseUrl = () => (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+// API Base URL - resolved by the shared submission client
+const getBaseUrl = () => getTradingServerUrl();
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+const CLOSING_SIGNATURE_LIMIT = 5; // Recent transactions searched for the one that closed an order
+export const MIN_ORDER_SOL = 0.1; // Smallest order the limit-order service accepts
+
+// A sent bundle with the outcome of its transactions once tracked
+interface ConfirmedBundleResult extends BundleResult {
+  confirmations?: WalletConfirmation[];
+}
+
+// Wait until a sent bundle finalizes; it only counts as successful when every transaction landed
+const confirmOrderBundle = async (result: BundleResult): Promise<ConfirmedBundleResult> => {
+  if (!result.success || result.simulated) return result;
+
+  const confirmations = await trackConfirmations(getSubmittedTransactions(result));
+  if (confirmations.length > 0 && confirmations.every(confirmation => confirmation.status === 'landed')) {
+    return { ...result, confirmations };
+  }
+  return {
+    ...result,
+    success: false,
+    error: confirmations.length > 0 ? formatConfirmationSummary(confirmations) : 'Bundle signatures could not be tracked',
+    confirmations
+  };
+};
+
+// Record created orders in the operation journal; amounts stay in raw units of the input mint
+const journalLimitOrders = async (
+  orders: Array<{ order: string; orderConfig: any }>,
+  result: ConfirmedBundleResult
+): Promise<void> => {
+  const configs = orders.map(order => order.orderConfig || {});
+  const tokenMint = configs
+    .map(config => config.inputMint === SOL_MINT ? config.outputMint : config.inputMint)
+    .find(Boolean);
+  const amounts: JournalAmount[] = configs.map(config => ({
+    wallet: config.maker,
+    amount: parseFloat(config.makingAmount) || 0,
+    unit: config.inputMint === SOL_MINT ? 'lamports' : 'raw'
+  }));
+
+  await appendJournalEntry({
+    operation: 'limit-order',
+    tokenAddress: tokenMint,
+    wallets: configs.map(config => config.maker).filter(Boolean),
+    amounts,
+    details: `Create ${orders.length} order${orders.length === 1 ? '' : 's'}: ${orders.map(order => order.order).join(', ')}`
+  }, { success: result.success, result, error: result.error, confirmations: result.confirmations });
+};
+
+// Keep landed orders in the local history, with their mints' decimals for display and export
+const recordOrderHistory = async (orders: Array<{ order: string; orderConfig: any }>): Promise<void> => {
+  const mints = new Set<string>();
+  orders.forEach(({ orderConfig }) => {
+    if (orderConfig?.inputMint) mints.add(orderConfig.inputMint);
+    if (orderConfig?.outputMint) mints.add(orderConfig.outputMint);
+  });
+
+  const decimals = new Map<string, number>();
+  await Promise.all(Array.from(mints).map(async mint => {
+    try {
+      decimals.set(mint, (await getOrderMintInfo(mint)).decimals);
+    } catch (error) {
+      console.error(`Error loading decimals of ${mint} for order history:`, error);
+    }
+  }));
+
+  recordOrders(orders, decimals);
+};
 
 // Create a single limit order
 export const createLimitOrder = async (
@@ -191,27 +280,23 @@ export const createLimitOrder = async (
   }
 };
 
-// Create multiple limit orders
-export const createMultipleLimitOrders = async (
-  wallets: FormattedWallet[],
-  orderConfig: Omit<LimitOrderConfig, 'maker'>,
-  options?: {
-    rpcUrl?: string;
-    includeTip?: boolean;
-    jitoTipLamports?: number;
-    affiliateAddress?: string;
-    affiliateFee?: number;
-    authenticated?: boolean;
-  }
+// Options shared by requests that create several orders
+export interface CreateOrdersOptions {
+  rpcUrl?: string;
+  includeTip?: boolean;
+  jitoTipLamports?: number;
+  affiliateAddress?: string;
+  affiliateFee?: number;
+  authenticated?: boolean;
+}
+
+// Create a list of limit orders, each with its own maker and amounts
+export const createLimitOrders = async (
+  orders: LimitOrderConfig[],
+  options?: CreateOrdersOptions
 ): Promise<MultipleLimitOrdersResponse> => {
   try {
     const appConfig = getDefaultConfig();
-    
-    // Create orders for each wallet
-    const orders: LimitOrderConfig[] = wallets.map(wallet => ({
-      ...orderConfig,
-      maker: wallet.address
-    }));
 
     const requestConfig: CreateMultipleLimitOrdersRequest = {
       orders,
@@ -250,6 +335,21 @@ export const createMultipleLimitOrders = async (
   }
 };
 
+// Create the same limit order for multiple wallets
+export const createMultipleLimitOrders = async (
+  wallets: FormattedWallet[],
+  orderConfig: Omit<LimitOrderConfig, 'maker'>,
+  options?: CreateOrdersOptions
+): Promise<MultipleLimitOrdersResponse> => {
+  // Create orders for each wallet
+  const orders: LimitOrderConfig[] = wallets.map(wallet => ({
+    ...orderConfig,
+    maker: wallet.address
+  }));
+
+  return createLimitOrders(orders, options);
+};
+
 // Get active orders for a user
 export const getActiveOrders = async (
   userAddress: string,
@@ -297,6 +397,79 @@ export const getActiveOrders = async (
   }
 };
 
+/**
+ * Re-check every unfinished order in the local history against its maker's open orders
+ * @returns Orders that filled, partially filled, expired or otherwise changed
+ */
+export const refreshOrderHistory = async (): Promise<OrderStatusChange[]> => {
+  const makers = getMakersWithOpenOrders();
+  if (makers.length === 0) return [];
+
+  const responses = await Promise.all(makers.map(maker => getActiveOrders(maker)));
+  const openOrders = new Map<string, any[]>();
+  responses.forEach((response, index) => {
+    if (response.success) {
+      openOrders.set(makers[index], response.orders?.orders || []);
+    }
+  });
+
+  const changes = applyOpenOrders(openOrders);
+  const closed = changes.filter(change => change.entry.status === 'closed');
+  if (closed.length === 0) return changes;
+
+  const connection = new Connection(getDefaultConfig()?.rpcEndpoint || DEFAULT_RPC_ENDPOINT);
+  for (const change of closed) {
+    try {
+      const outcome = await getClosingOutcome(connection, change.entry);
+      const resolved = outcome && resolveClosedOrder(change.entry.order, outcome);
+      if (resolved) change.entry = resolved;
+    } catch (error) {
+      console.error(`Error checking how order ${change.entry.order} closed:`, error);
+    }
+  }
+  return changes;
+};
+
+// Change of an owner's raw balance of a mint in a transaction, counting native SOL for the SOL mint
+const getOwnerBalanceChange = (transaction: ParsedTransactionWithMeta, owner: string, mint: string): number => {
+  const meta = transaction.meta!;
+  const sum = (balances: NonNullable<ParsedTransactionWithMeta['meta']>['postTokenBalances']) => (balances || [])
+    .filter(balance => balance.owner === owner && balance.mint === mint)
+    .reduce((total, balance) => total + parseFloat(balance.uiTokenAmount.amount), 0);
+
+  let change = sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+  if (mint === SOL_MINT) {
+    const index = transaction.transaction.message.accountKeys.findIndex(key => key.pubkey.toBase58() === owner);
+    if (index >= 0) change += meta.postBalances[index] - meta.preBalances[index];
+  }
+  return change;
+};
+
+/**
+ * How a closed order ended, from the transaction that closed its account
+ * The maker signs its own cancels; a fill is signed by someone else and pays the maker
+ * most of the output still owed (closing also refunds rent, so small amounts don't count).
+ * @returns null when the transaction shows neither
+ */
+const getClosingOutcome = async (
+  connection: Connection,
+  entry: OrderHistoryEntry
+): Promise<'filled' | 'cancelled' | null> => {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(entry.order), { limit: CLOSING_SIGNATURE_LIMIT });
+  const closing = signatures.find(signature => !signature.err);
+  if (!closing) return null;
+
+  const transaction = await connection.getParsedTransaction(closing.signature, { maxSupportedTransactionVersion: 0 });
+  if (!transaction?.meta) return null;
+
+  const makerKey = transaction.transaction.message.accountKeys.find(key => key.pubkey.toBase58() === entry.maker);
+  if (makerKey?.signer) return 'cancelled';
+
+  const owed = parseFloat(entry.takingAmount) * (1 - entry.filledPercent / 100);
+  const received = getOwnerBalanceChange(transaction, entry.maker, entry.outputMint);
+  return owed > 0 && received >= owed / 2 ? 'filled' : null;
+};
+
 // Cancel a specific order
 export const cancelOrder = async (
   config: CancelOrderRequest
@@ -408,21 +581,111 @@ export const lamportsToSol = (lamports: string): number => {
   return parseInt(lamports) / 1_000_000_000;
 };
 
-// Utility function to format token amount based on decimals
-export const formatTokenAmount = (amount: string, decimals: number): string => {
-  const factor = Math.pow(10, decimals);
-  return Math.floor(parseFloat(amount) * factor).toString();
+/**
+ * Decimals, supply and token program of an order mint, read from chain and cached
+ * SOL is answered locally since every order has it on one side.
+ */
+export const getOrderMintInfo = async (mint: string, rpcUrl?: string): Promise<OrderMintInfo> => {
+  if (mint === SOL_MINT) {
+    return { decimals: 9, supply: 0, programId: TOKEN_PROGRAM_ID };
+  }
+
+  const endpoint = rpcUrl || getDefaultConfig()?.rpcEndpoint || 'https://api.mainnet-beta.solana.com';
+  const { decimals, supply, programId } = await getMintInfo(new Connection(endpoint), mint);
+  return { decimals, supply, programId };
+};
+
+// Human amount as a plain decimal string, or null when it is not a positive-or-zero number
+const normalizeAmount = (amount: string): string | null => {
+  const trimmed = amount.trim();
+  if (/^\d+(\.\d*)?$|^\.\d+$/.test(trimmed)) return trimmed;
+
+  // Numbers formatted by JS can come in exponent form (e.g. 1e-7)
+  const value = Number(trimmed);
+  if (!trimmed || !isFinite(value) || value < 0) return null;
+  return value.toFixed(20).replace(/\.?0+$/, '');
 };
 
-// Utility function to calculate price from making and taking amounts
+/**
+ * Convert a human amount to raw units of a mint without float rounding
+ * Digits beyond the mint's decimals are truncated.
+ */
+export const toRawAmount = (amount: string, decimals: number): string => {
+  const normalized = normalizeAmount(amount);
+  if (normalized === null) return '0';
+
+  const [whole, fraction = ''] = normalized.split('.');
+  const raw = (whole || '0') + fraction.padEnd(decimals, '0').slice(0, decimals);
+  return BigInt(raw).toString();
+};
+
+/**
+ * Format a raw amount of a mint in human units
+ */
+export const formatTokenAmount = (rawAmount: string, decimals: number): string => {
+  const raw = BigInt(rawAmount || '0').toString().padStart(decimals + 1, '0');
+  if (decimals === 0) return raw;
+
+  const whole = raw.slice(0, raw.length - decimals);
+  const fraction = raw.slice(raw.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+/**
+ * Price of an order in human units: taking amount per making amount
+ */
 export const calculatePrice = (makingAmount: string, takingAmount: string): number => {
   const making = parseFloat(makingAmount);
   const taking = parseFloat(takingAmount);
   return taking / making;
 };
 
-// Utility function to validate limit order configuration
-export const validateLimitOrderConfig = (config: LimitOrderConfig): { valid: boolean; errors: string[] } => {
+/**
+ * Token price in SOL for a USD market cap
+ */
+export const marketCapToPrice = (marketCapUsd: number, solPriceUsd: number, supply: number): number => {
+  if (!solPriceUsd || !supply) return 0;
+  return marketCapUsd / (solPriceUsd * supply);
+};
+
+/**
+ * Human making/taking amounts for an order at a target price
+ * @param side Buy spends SOL for tokens, sell spends tokens for SOL
+ * @param amount SOL to spend when buying, tokens to sell when selling
+ * @param price Target price in SOL per token
+ */
+export const deriveLimitOrderAmounts = (
+  side: LimitOrderSide,
+  amount: number,
+  price: number
+): { makingAmount: number; takingAmount: number } => {
+  if (!(amount > 0) || !(price > 0)) return { makingAmount: 0, takingAmount: 0 };
+  return side === 'buy'
+    ? { makingAmount: amount, takingAmount: amount / price }
+    : { makingAmount: amount, takingAmount: amount * price };
+};
+
+/**
+ * Convert an order with human amounts to the raw amounts the order API expects
+ */
+export const toRawLimitOrderConfig = <T extends { makingAmount: string; takingAmount: string }>(
+  config: T,
+  inputMintInfo: OrderMintInfo,
+  outputMintInfo: OrderMintInfo
+): T => ({
+  ...config,
+  makingAmount: toRawAmount(config.makingAmount, inputMintInfo.decimals),
+  takingAmount: toRawAmount(config.takingAmount, outputMintInfo.decimals)
+});
+
+/**
+ * Validate an order with amounts in human units
+ * With mint info, amounts must also be representable in the mints' decimals.
+ */
+export const validateLimitOrderConfig = (
+  config: LimitOrderConfig,
+  mints?: { input: OrderMintInfo; output: OrderMintInfo }
+): { valid: boolean; errors: string[] } => {
   const errors: string[] = [];
 
   if (!config.inputMint || config.inputMint.trim() === '') {
@@ -439,10 +702,14 @@ export const validateLimitOrderConfig = (config: LimitOrderConfig): { valid: boo
 
   if (!config.makingAmount || parseFloat(config.makingAmount) <= 0) {
     errors.push('Making amount must be greater than 0');
+  } else if (mints && toRawAmount(config.makingAmount, mints.input.decimals) === '0') {
+    errors.push(`Making amount is below the smallest unit of the input mint (${mints.input.decimals} decimals)`);
   }
 
   if (!config.takingAmount || parseFloat(config.takingAmount) <= 0) {
     errors.push('Taking amount must be greater than 0');
+  } else if (mints && toRawAmount(config.takingAmount, mints.output.decimals) === '0') {
+    errors.push(`Taking amount is below the smallest unit of the output mint (${mints.output.decimals} decimals)`);
   }
 
   if (config.slippageBps !== undefined && (config.slippageBps < 0 || config.slippageBps > 10000)) {
@@ -487,45 +754,14 @@ export const createKeypairMap = (wallets: FormattedWallet[]): Map<string, Keypai
 };
 
 /**
- * Send bundle to Jito block engine through backend proxy
+ * Send bundle to Jito block engine through the shared submission client
+ * Failures are reported in the result instead of being thrown
  */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
+const sendLimitOrderBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
   try {
-    const baseUrl = getBaseUrl();
-    
-    if (!baseUrl) {
-      return {
-        success: false,
-        error: 'Trading server URL not configured'
-      };
-    }
-
-    console.log(`Sending bundle with ${encodedBundle.length} transactions to ${baseUrl}/api/transactions/send`);
-    
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Bundle send failed with status ${response.status}:`, errorText);
-      return {
-        success: false,
-        error: `HTTP ${response.status}: ${errorText}`
-      };
-    }
-
-    const data = await response.json();
-    console.log('Bundle send response:', data);
-    return data;
+    console.log(`Sending bundle with ${encodedBundle.length} transactions`);
+    return await sendBundle(encodedBundle);
   } catch (error) {
-    console.error('Error sending bundle:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -622,7 +858,7 @@ export const sendBundleWithOrders = async (
     console.log(`Successfully signed ${signedBundle.transactions.length} transactions`);
     
     // Send the signed bundle
-    const result = await sendBundle(signedBundle.transactions);
+    const result = await sendLimitOrderBundle(signedBundle.transactions);
     
     if (result.success) {
       console.log('✅ Bundle sent successfully!');
@@ -703,14 +939,18 @@ export const processLimitOrderBundle = async (
 
     console.log(`📦 Created bundle data with ${bundleData.orders.length} orders and ${bundleData.transactions.length} transactions`);
 
-    // Complete bundle signing and send
-    const result = await completeBundleSigningAndSend(bundleData, wallets);
+    // Complete bundle signing and send, then wait for the orders to exist on chain
+    const result = await confirmOrderBundle(await completeBundleSigningAndSend(bundleData, wallets));
     
     if (result.success) {
       console.log(`✅ Successfully processed limit order bundle with ${bundleData.orders.length} orders`);
     } else {
       console.error(`❌ Failed to process limit order bundle: ${result.error}`);
     }
+    await journalLimitOrders(bundleData.orders, result);
+    if (result.success && !result.simulated) {
+      await recordOrderHistory(bundleData.orders);
+    }
     
     return result;
   } catch (error) {
@@ -826,8 +1066,17 @@ export const cancelOrderWithBundle = async (
       };
     }
 
-    // Process the transaction (sign and send as bundle)
-    return await processCancelOrderTransaction(cancelResponse, wallet);
+    // Process the transaction (sign and send as bundle); the order stays open until the cancel lands
+    const result = await confirmOrderBundle(await processCancelOrderTransaction(cancelResponse, wallet));
+    if (result.success && !result.simulated) {
+      markOrderCancelled(config.order);
+    }
+    await appendJournalEntry({
+      operation: 'limit-order',
+      wallets: [wallet.address],
+      details: `Cancel order ${config.order}`
+    }, { success: result.success, result, error: result.error, confirmations: result.confirmations });
+    return result;
   } catch (error) {
     console.error('Error in cancelOrderWithBundle:', error);
     return {
@@ -0,0 +1,492 @@
+import { Connection } from '@solana/web3.js';
+import { confirmTradeResult, FormattedWallet } from './trading';
+import { executeSell, createSellConfig } from './sell';
+import { fetchBalances } from './balances';
+import {
+  cancelOrderWithBundle,
+  createLimitOrders,
+  formatTokenAmount,
+  getOrderMintInfo,
+  processLimitOrderBundle,
+  toRawLimitOrderConfig,
+  LimitOrderConfig,
+  MIN_ORDER_SOL
+} from './limitorders';
+import { isOrderFinished, loadOrderHistory, OrderHistoryEntry } from './orderHistory';
+
+/**
+ * One-cancels-other pairs and bracket orders.
+ * An OCO group is a take-profit limit sell plus a stop watched here: a limit sell below
+ * the market would fill at once, so when the live price drops to the stop the take-profit
+ * is cancelled and the tokens are market sold, like a position's stop-loss rule. Only the
+ * take-profit escrows tokens. A bracket adds an entry buy in front and only places its
+ * take-profit, sized to the tokens received, after the entry fills. Groups are kept
+ * locally and settled from the order history, so they carry on after a reload; stops
+ * only fire while the app is receiving the token's price.
+ */
+
+// Constants
+const LINKED_STORAGE_KEY = 'linkedLimitOrders';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LINKED_SLIPPAGE_BPS = 50; // Same as single limit orders
+export const LINKED_ORDERS_EVENT = 'linkedLimitOrdersChanged';
+
+// Interfaces
+export type LinkedOrderKind = 'oco' | 'bracket';
+export type LinkedOrderStatus = 'waiting-entry' | 'active' | 'completed' | 'cancelled' | 'failed';
+export type LinkedOrderLeg = 'take-profit' | 'stop-loss';
+
+export interface LinkedOrderConfig {
+  kind: LinkedOrderKind;
+  tokenAddress: string;
+  amount: number; // Tokens per wallet for OCO, SOL per wallet for a bracket's entry
+  entryPrice?: number; // SOL per token, brackets only
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  wallets: string[]; // One group per maker
+  expiredAt?: number; // Unix timestamp, applied to every order
+}
+
+export interface LinkedOrderGroup {
+  id: string;
+  kind: LinkedOrderKind;
+  tokenAddress: string;
+  maker: string;
+  createdAt: number;
+  updatedAt: number;
+  status: LinkedOrderStatus;
+  entryOrder?: string;
+  entryPrice?: number;
+  tokenAmount?: string; // Tokens each leg sells; set for brackets once the entry fills
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  takeProfitOrder?: string;
+  stopTriggered?: boolean; // Take-profit cancelled for the stop; the market sell is retried until it lands
+  filledLeg?: LinkedOrderLeg;
+  expiredAt?: number;
+  error?: string; // Last problem, e.g. a cancel that will be retried
+}
+
+export interface LinkedOrderEvent {
+  group: LinkedOrderGroup;
+  message: string;
+  type: 'success' | 'error';
+}
+
+const generateGroupId = () => `linked_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const formatMaker = (maker: string) => `${maker.slice(0, 4)}...${maker.slice(-4)}`;
+
+export const isLinkedGroupFinished = (status: LinkedOrderStatus): boolean => (
+  status === 'completed' || status === 'cancelled' || status === 'failed'
+);
+
+/**
+ * Linked order groups placed from this browser, newest first
+ */
+export const loadLinkedOrders = (): LinkedOrderGroup[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LINKED_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error('Error reading linked limit orders:', error);
+    return [];
+  }
+};
+
+const saveLinkedOrders = (groups: LinkedOrderGroup[]) => {
+  localStorage.setItem(LINKED_STORAGE_KEY, JSON.stringify(groups));
+  window.dispatchEvent(new CustomEvent(LINKED_ORDERS_EVENT));
+};
+
+// Write one group back in place, keeping any groups added meanwhile
+const updateLinkedGroup = (group: LinkedOrderGroup) => {
+  saveLinkedOrders(loadLinkedOrders().map(entry => entry.id === group.id ? { ...group, updatedAt: Date.now() } : entry));
+};
+
+/**
+ * Forget a finished group
+ */
+export const removeLinkedGroup = (id: string) => {
+  saveLinkedOrders(loadLinkedOrders().filter(group => group.id !== id));
+};
+
+/**
+ * Problems with an OCO or bracket configuration, empty when it can be submitted
+ * Only the take-profit is an order on the book, so it alone must meet the order minimum.
+ */
+export const validateLinkedOrderConfig = (config: LinkedOrderConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config.tokenAddress) {
+    errors.push('No token selected');
+  }
+
+  if (!(config.amount > 0)) {
+    errors.push(config.kind === 'bracket' ? 'Entry size must be greater than 0' : 'Token amount must be greater than 0');
+  }
+
+  if (!(config.stopLossPrice > 0)) {
+    errors.push('Stop price must be greater than 0');
+  }
+
+  if (!(config.takeProfitPrice > config.stopLossPrice)) {
+    errors.push('Take-profit price must be above the stop price');
+  }
+
+  if (config.kind === 'bracket') {
+    const entryPrice = config.entryPrice ?? 0;
+    if (!(entryPrice > config.stopLossPrice && entryPrice < config.takeProfitPrice)) {
+      errors.push('Entry price must be between the stop and take-profit prices');
+    }
+  }
+
+  if (config.wallets.length === 0) {
+    errors.push('Select at least one wallet');
+  }
+
+  if (errors.length === 0) {
+    const tokens = config.kind === 'bracket' ? config.amount / (config.entryPrice ?? 0) : config.amount;
+    const smallestSol = Math.min(tokens * config.takeProfitPrice, config.kind === 'bracket' ? config.amount : Infinity);
+    if (smallestSol < MIN_ORDER_SOL) {
+      errors.push(`Each order must be worth at least ${MIN_ORDER_SOL} SOL (smallest is ${smallestSol.toFixed(4)} SOL)`);
+    }
+  }
+
+  return errors;
+};
+
+// Place a wallet's orders in one bundle; resolves to their order accounts in request order
+const placeOrders = async (orders: LimitOrderConfig[], wallet: FormattedWallet): Promise<string[]> => {
+  const tokenAddress = orders[0].inputMint === SOL_MINT ? orders[0].outputMint : orders[0].inputMint;
+  const mintInfo = {
+    sol: await getOrderMintInfo(SOL_MINT),
+    token: await getOrderMintInfo(tokenAddress)
+  };
+  const requests = orders.map(order => order.inputMint === SOL_MINT
+    ? toRawLimitOrderConfig(order, mintInfo.sol, mintInfo.token)
+    : toRawLimitOrderConfig(order, mintInfo.token, mintInfo.sol));
+
+  const response = await createLimitOrders(requests);
+  if (!response.success || !response.orders || !response.transactions?.length) {
+    throw new Error(response.error || 'No transactions returned');
+  }
+  // A pair must go out together; nothing is escrowed until the bundle is sent
+  if (response.orders.length !== requests.length) {
+    throw new Error(response.errors?.[0] || `Only ${response.orders.length} of ${requests.length} orders were created`);
+  }
+
+  const result = await processLimitOrderBundle(response, [wallet]);
+  if (!result.success) {
+    throw new Error(result.error || 'Bundle failed');
+  }
+
+  // Match orders by their echoed amounts rather than trusting the response order
+  return requests.map((request, index) => {
+    const match = response.orders!.find(order => (
+      String(order.orderConfig?.makingAmount) === request.makingAmount &&
+      String(order.orderConfig?.takingAmount) === request.takingAmount
+    ));
+    return (match || response.orders![index]).order;
+  });
+};
+
+const getTakeProfitOrder = (group: LinkedOrderGroup, tokenAmount: number): LimitOrderConfig => ({
+  inputMint: group.tokenAddress,
+  outputMint: SOL_MINT,
+  maker: group.maker,
+  makingAmount: String(tokenAmount),
+  takingAmount: String(tokenAmount * group.takeProfitPrice),
+  slippageBps: LINKED_SLIPPAGE_BPS,
+  expiredAt: group.expiredAt
+});
+
+/**
+ * Create an OCO take-profit or a bracket entry for every selected wallet
+ * Wallets fail independently; groups are only kept for orders that landed.
+ */
+export const submitLinkedOrders = async (
+  config: LinkedOrderConfig,
+  wallets: FormattedWallet[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<{ groups: LinkedOrderGroup[]; errors: string[] }> => {
+  const groups: LinkedOrderGroup[] = [];
+  const errors: string[] = [];
+
+  for (let index = 0; index < config.wallets.length; index++) {
+    const maker = config.wallets[index];
+    const wallet = wallets.find(w => w.address === maker);
+    const now = Date.now();
+    const group: LinkedOrderGroup = {
+      id: generateGroupId(),
+      kind: config.kind,
+      tokenAddress: config.tokenAddress,
+      maker,
+      createdAt: now,
+      updatedAt: now,
+      status: config.kind === 'bracket' ? 'waiting-entry' : 'active',
+      entryPrice: config.entryPrice,
+      tokenAmount: config.kind === 'oco' ? String(config.amount) : undefined,
+      takeProfitPrice: config.takeProfitPrice,
+      stopLossPrice: config.stopLossPrice,
+      expiredAt: config.expiredAt
+    };
+
+    try {
+      if (!wallet) throw new Error('wallet not available');
+
+      if (config.kind === 'bracket') {
+        const entryPrice = config.entryPrice ?? 0;
+        [group.entryOrder] = await placeOrders([{
+          inputMint: SOL_MINT,
+          outputMint: config.tokenAddress,
+          maker,
+          makingAmount: String(config.amount),
+          takingAmount: String(config.amount / entryPrice),
+          slippageBps: LINKED_SLIPPAGE_BPS,
+          expiredAt: config.expiredAt
+        }], wallet);
+      } else {
+        [group.takeProfitOrder] = await placeOrders([getTakeProfitOrder(group, config.amount)], wallet);
+      }
+      groups.push(group);
+    } catch (error) {
+      errors.push(`${formatMaker(maker)}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    }
+
+    onProgress?.(index + 1, config.wallets.length);
+  }
+
+  if (groups.length > 0) {
+    saveLinkedOrders([...groups, ...loadLinkedOrders()]);
+  }
+  return { groups, errors };
+};
+
+// Cancel an order unless the history already has it finished; false if the cancel failed
+const cancelIfOpen = async (
+  order: string | undefined,
+  group: LinkedOrderGroup,
+  wallet: FormattedWallet | undefined,
+  history: Map<string, OrderHistoryEntry>
+): Promise<boolean> => {
+  if (!order) return true;
+  const entry = history.get(order);
+  if (entry && isOrderFinished(entry.status)) return true;
+  if (!wallet) return false;
+
+  const result = await cancelOrderWithBundle({ maker: group.maker, order }, wallet);
+  return result.success;
+};
+
+/**
+ * Cancel every open order of a group
+ */
+export const cancelLinkedGroup = async (group: LinkedOrderGroup, wallets: FormattedWallet[]): Promise<boolean> => {
+  const wallet = wallets.find(w => w.address === group.maker);
+  const history = new Map(loadOrderHistory().map(entry => [entry.order, entry]));
+
+  const results = [];
+  for (const order of [group.entryOrder, group.takeProfitOrder]) {
+    results.push(await cancelIfOpen(order, group, wallet, history));
+  }
+
+  const cancelled = results.every(Boolean);
+  updateLinkedGroup(cancelled
+    ? { ...group, status: 'cancelled', error: undefined }
+    : { ...group, error: 'Some orders could not be cancelled' });
+  return cancelled;
+};
+
+// At most the expected tokens, capped by what the wallet holds now
+const capByHeldTokens = async (
+  connection: Connection,
+  maker: string,
+  tokenAddress: string,
+  expected: number
+): Promise<number> => {
+  const { tokenBalances } = await fetchBalances(connection, [maker], tokenAddress, { force: true, includeSol: false });
+  const held = tokenBalances.get(maker);
+  return held === undefined ? expected : Math.min(expected, held);
+};
+
+// Tokens a bracket's take-profit and stop sell: what the entry bought, capped by what the wallet holds
+const getBracketTokenAmount = async (
+  entry: OrderHistoryEntry,
+  connection: Connection
+): Promise<number> => {
+  const expected = parseFloat(formatTokenAmount(entry.takingAmount, entry.outputDecimals)) * entry.filledPercent / 100;
+  return capByHeldTokens(connection, entry.maker, entry.tokenAddress, expected);
+};
+
+const getGroupLabel = (group: LinkedOrderGroup) => `${group.kind === 'bracket' ? 'Bracket' : 'OCO'} ${formatMaker(group.maker)}`;
+
+// Advance one unfinished group from its orders' statuses
+const settleGroup = async (
+  group: LinkedOrderGroup,
+  wallet: FormattedWallet | undefined,
+  history: Map<string, OrderHistoryEntry>,
+  connection: Connection
+): Promise<LinkedOrderEvent | null> => {
+  const label = getGroupLabel(group);
+
+  if (group.status === 'waiting-entry') {
+    const entry = history.get(group.entryOrder || '');
+    if (!entry || !isOrderFinished(entry.status)) return null;
+
+    if (entry.filledPercent === 0) {
+      updateLinkedGroup({ ...group, status: 'cancelled' });
+      return { group, message: `${label}: entry ${entry.status}, no legs placed`, type: 'error' };
+    }
+    if (!wallet) return null;
+
+    // Entries that expired part-filled protect the part that filled
+    const tokenAmount = await getBracketTokenAmount(entry, connection);
+    if (!(tokenAmount > 0)) {
+      updateLinkedGroup({ ...group, status: 'failed', error: 'No tokens from the entry left in the wallet' });
+      return { group, message: `${label}: no tokens from the entry left to protect`, type: 'error' };
+    }
+    try {
+      const [takeProfitOrder] = await placeOrders([getTakeProfitOrder(group, tokenAmount)], wallet);
+      const updated: LinkedOrderGroup = { ...group, status: 'active', tokenAmount: String(tokenAmount), takeProfitOrder, error: undefined };
+      updateLinkedGroup(updated);
+      return { group: updated, message: `${label}: entry filled, take-profit placed and stop armed`, type: 'success' };
+    } catch (error) {
+      // Retried on the next check
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      updateLinkedGroup({ ...group, error: `Placing the take-profit failed: ${message}` });
+      return group.error ? null : { group, message: `${label}: placing the take-profit failed: ${message}`, type: 'error' };
+    }
+  }
+
+  // A fired stop finishes through its market sell
+  if (group.stopTriggered) return null;
+
+  // The take-profit filled or was cancelled/expired: the watched stop is disarmed with it
+  const takeProfit = history.get(group.takeProfitOrder || '');
+  if (!takeProfit || !isOrderFinished(takeProfit.status)) return null;
+
+  const filledLeg: LinkedOrderLeg | undefined = takeProfit.status === 'filled' ? 'take-profit' : undefined;
+  const updated: LinkedOrderGroup = { ...group, status: filledLeg ? 'completed' : 'cancelled', filledLeg, error: undefined };
+  updateLinkedGroup(updated);
+  return filledLeg
+    ? { group: updated, message: `${label}: take-profit filled, stop disarmed`, type: 'success' }
+    : { group: updated, message: `${label}: take-profit was ${takeProfit.status}, stop disarmed`, type: 'error' };
+};
+
+// Cancel the take-profit, then market sell the group's tokens
+const fireStop = async (
+  group: LinkedOrderGroup,
+  wallet: FormattedWallet,
+  history: Map<string, OrderHistoryEntry>,
+  connection: Connection,
+  price: number
+): Promise<LinkedOrderEvent | null> => {
+  const label = getGroupLabel(group);
+
+  // A take-profit that filled first wins; the next settle completes the group
+  if (history.get(group.takeProfitOrder || '')?.status === 'filled') return null;
+
+  // Its escrowed tokens are only back in the wallet once the cancel lands
+  if (!group.stopTriggered) {
+    if (!await cancelIfOpen(group.takeProfitOrder, group, wallet, history)) {
+      updateLinkedGroup({ ...group, error: 'Cancelling the take-profit for the stop failed, retrying' });
+      return group.error ? null : { group, message: `${label}: stop hit but the take-profit could not be cancelled, retrying`, type: 'error' };
+    }
+    group = { ...group, stopTriggered: true };
+    updateLinkedGroup(group);
+  }
+
+  const tokenAmount = await capByHeldTokens(connection, group.maker, group.tokenAddress, parseFloat(group.tokenAmount || '0'));
+  if (!(tokenAmount > 0)) {
+    const updated: LinkedOrderGroup = { ...group, status: 'failed', error: 'No tokens left to sell at the stop' };
+    updateLinkedGroup(updated);
+    return { group: updated, message: `${label}: stop hit but no tokens were left to sell`, type: 'error' };
+  }
+
+  const sellConfig = createSellConfig({ tokenAddress: group.tokenAddress, protocol: 'auto', tokensAmount: tokenAmount });
+  const result = await confirmTradeResult(await executeSell([wallet], sellConfig), {
+    operation: 'limit-order',
+    tokenAddress: group.tokenAddress,
+    wallets: [wallet.address],
+    amounts: [{ wallet: wallet.address, amount: tokenAmount, unit: 'tokens' }],
+    details: `Stop of ${group.kind === 'bracket' ? 'bracket' : 'OCO'} at ${price} SOL`
+  });
+  if (!result.success) {
+    // Retried on the next price update
+    updateLinkedGroup({ ...group, error: `Stop sell failed: ${result.error || 'Unknown error'}, retrying` });
+    return group.error ? null : { group, message: `${label}: stop sell failed, retrying`, type: 'error' };
+  }
+
+  const updated: LinkedOrderGroup = { ...group, status: 'completed', filledLeg: 'stop-loss', error: undefined };
+  updateLinkedGroup(updated);
+  return { group: updated, message: `${label}: stop hit at ${price} SOL, take-profit cancelled and tokens sold`, type: 'success' };
+};
+
+let isSettling = false;
+
+/**
+ * Act on fills of every unfinished group; run right after the order history is refreshed
+ * @param wallets Signing wallets; groups of other makers wait until theirs is available
+ * @returns What happened, for notifications
+ */
+export const settleLinkedOrders = async (
+  wallets: FormattedWallet[],
+  connection: Connection
+): Promise<LinkedOrderEvent[]> => {
+  if (isSettling) return [];
+  isSettling = true;
+
+  try {
+    const groups = loadLinkedOrders().filter(group => !isLinkedGroupFinished(group.status));
+    if (groups.length === 0) return [];
+
+    const history = new Map(loadOrderHistory().map(entry => [entry.order, entry]));
+    const events: LinkedOrderEvent[] = [];
+    for (const group of groups) {
+      const wallet = wallets.find(w => w.address === group.maker);
+      const event = await settleGroup(group, wallet, history, connection);
+      if (event) events.push(event);
+    }
+    return events;
+  } finally {
+    isSettling = false;
+  }
+};
+
+/**
+ * Fire the stops of a token's active groups once its live price is at or below them
+ * Groups whose take-profit was already cancelled for the stop retry their sell at any price.
+ * @param wallets Signing wallets; groups of other makers wait until theirs is available
+ * @returns What happened, for notifications
+ */
+export const triggerLinkedStops = async (
+  tokenAddress: string,
+  price: number,
+  wallets: FormattedWallet[],
+  connection: Connection
+): Promise<LinkedOrderEvent[]> => {
+  if (!tokenAddress || !(price > 0) || isSettling) return [];
+
+  const groups = loadLinkedOrders().filter(group => (
+    group.status === 'active' &&
+    group.tokenAddress === tokenAddress &&
+    (group.stopTriggered || price <= group.stopLossPrice)
+  ));
+  if (groups.length === 0) return [];
+
+  isSettling = true;
+  try {
+    const history = new Map(loadOrderHistory().map(entry => [entry.order, entry]));
+    const events: LinkedOrderEvent[] = [];
+    for (const group of groups) {
+      const wallet = wallets.find(w => w.address === group.maker);
+      if (!wallet) continue;
+      const event = await fireStop(group, wallet, history, connection, price);
+      if (event) events.push(event);
+    }
+    return events;
+  } finally {
+    isSettling = false;
+  }
+};
@@ -1,5 +1,6 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
 
 interface WalletMixing {
   address: string;
@@ -11,43 +12,6 @@ interface MixingBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-// Define interface for bundle result
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-
-/**
- * Send bundle to Jito block engine
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-    try {
-      const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-      
-      // Send to our backend proxy instead of directly to Jito
-      const response = await fetch(`${baseUrl}/api/transactions/send`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          transactions: encodedBundle
-        }),
-      });
-  
-      const data = await response.json();
-      
-      return data.result;
-    } catch (error) {
-      console.error('Error sending bundle:', error);
-      throw error;
-    }
-  };
-
 /**
  * Get partially signed transactions from backend
  * The backend will create and sign with dump wallets
@@ -57,7 +21,7 @@ const getPartiallySignedTransactions = async (
   recipients: { address: string, amount: string }[]
 ): Promise<string[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/wallets/mixer`, {
       method: 'POST',
@@ -0,0 +1,264 @@
+/**
+ * Local limit-order history.
+ * The order service only lists open orders, so every order placed from this browser is
+ * kept here once its creation bundle lands and re-checked against the open list: still
+ * open (possibly partially filled), expired, cancelled from this client, or closed. A
+ * closed order is gone for a reason the list cannot tell, until the transaction that
+ * closed it shows whether it filled or was cancelled elsewhere.
+ */
+
+// Constants
+const HISTORY_STORAGE_KEY = 'limitOrderHistory';
+const MAX_HISTORY_ENTRIES = 1000; // Oldest finished orders are dropped beyond this
+const INDEX_GRACE_PERIOD = 120000; // ms a new order may be missing from the open list
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const ORDER_HISTORY_EVENT = 'limitOrderHistoryChanged';
+export const ORDER_STATUS_POLL_INTERVAL = 30000; // ms
+
+// Interfaces
+export type OrderStatus = 'open' | 'partially-filled' | 'filled' | 'cancelled' | 'expired' | 'closed';
+
+export interface OrderHistoryEntry {
+  order: string; // Order account
+  maker: string;
+  inputMint: string;
+  outputMint: string;
+  tokenAddress: string;
+  side: 'buy' | 'sell';
+  makingAmount: string; // Raw units of inputMint
+  takingAmount: string; // Raw units of outputMint
+  inputDecimals: number;
+  outputDecimals: number;
+  expiredAt?: number; // Unix timestamp
+  createdAt: number;
+  updatedAt: number;
+  status: OrderStatus;
+  filledPercent: number; // 0-100 of the making amount
+  listedMakingAmount?: string; // Remaining amount when first seen open, in the service's units
+  seenOpen?: boolean;
+}
+
+export interface OrderStatusChange {
+  entry: OrderHistoryEntry;
+  previousStatus: OrderStatus;
+  previousFilledPercent: number;
+}
+
+export const isOrderFinished = (status: OrderStatus): boolean => (
+  status === 'filled' || status === 'cancelled' || status === 'expired' || status === 'closed'
+);
+
+/**
+ * Every recorded order, newest first
+ */
+export const loadOrderHistory = (): OrderHistoryEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.error('Error reading limit-order history:', error);
+    return [];
+  }
+};
+
+// Open orders are never dropped, however long the history grows
+const saveOrderHistory = (entries: OrderHistoryEntry[]) => {
+  let kept = entries;
+  if (kept.length > MAX_HISTORY_ENTRIES) {
+    const overflow = kept.length - MAX_HISTORY_ENTRIES;
+    const dropped = new Set(kept.filter(entry => isOrderFinished(entry.status)).slice(-overflow).map(entry => entry.order));
+    kept = kept.filter(entry => !dropped.has(entry.order));
+  }
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(kept));
+  window.dispatchEvent(new CustomEvent(ORDER_HISTORY_EVENT));
+};
+
+/**
+ * Add orders whose creation bundle landed
+ * @param orders Order accounts with the configs the service echoed back (raw amounts)
+ * @param decimals Decimals of each mint the orders use
+ */
+export const recordOrders = (
+  orders: Array<{ order: string; orderConfig: any }>,
+  decimals: Map<string, number>
+) => {
+  const now = Date.now();
+  const history = loadOrderHistory();
+  const known = new Set(history.map(entry => entry.order));
+
+  const added: OrderHistoryEntry[] = orders
+    .filter(({ order, orderConfig }) => order && orderConfig && !known.has(order))
+    .map(({ order, orderConfig }) => {
+      const side = orderConfig.inputMint === SOL_MINT ? 'buy' : 'sell';
+      return {
+        order,
+        maker: orderConfig.maker,
+        inputMint: orderConfig.inputMint,
+        outputMint: orderConfig.outputMint,
+        tokenAddress: side === 'buy' ? orderConfig.outputMint : orderConfig.inputMint,
+        side,
+        makingAmount: String(orderConfig.makingAmount),
+        takingAmount: String(orderConfig.takingAmount),
+        inputDecimals: decimals.get(orderConfig.inputMint) ?? 0,
+        outputDecimals: decimals.get(orderConfig.outputMint) ?? 0,
+        expiredAt: orderConfig.expiredAt || undefined,
+        createdAt: now,
+        updatedAt: now,
+        status: 'open',
+        filledPercent: 0
+      };
+    });
+
+  if (added.length > 0) saveOrderHistory([...added, ...history]);
+};
+
+/**
+ * Mark an order cancelled after its cancel transaction landed
+ */
+export const markOrderCancelled = (order: string) => {
+  const history = loadOrderHistory();
+  if (!history.some(entry => entry.order === order && !isOrderFinished(entry.status))) return;
+
+  saveOrderHistory(history.map(entry => (
+    entry.order === order && !isOrderFinished(entry.status)
+      ? { ...entry, status: 'cancelled', updatedAt: Date.now() }
+      : entry
+  )));
+};
+
+/**
+ * Makers with orders that are not finished yet
+ */
+export const getMakersWithOpenOrders = (): string[] => {
+  return Array.from(new Set(
+    loadOrderHistory().filter(entry => !isOrderFinished(entry.status)).map(entry => entry.maker)
+  ));
+};
+
+// New status of an unfinished order given the maker's open orders (null if unknown yet)
+const getUpdatedEntry = (entry: OrderHistoryEntry, openOrder: any, now: number): OrderHistoryEntry | null => {
+  if (openOrder) {
+    const account = openOrder.account || openOrder;
+    const remaining = parseFloat(account.makingAmount);
+    const listed = entry.listedMakingAmount ?? String(account.makingAmount);
+    const original = parseFloat(account.oriMakingAmount ?? listed);
+    const filledPercent = original > 0 && remaining >= 0
+      ? Math.min(100, Math.max(0, (1 - remaining / original) * 100))
+      : entry.filledPercent;
+    return {
+      ...entry,
+      listedMakingAmount: listed,
+      seenOpen: true,
+      filledPercent,
+      status: filledPercent > 0 ? 'partially-filled' : 'open'
+    };
+  }
+
+  // The service may not list an order right after it lands
+  if (!entry.seenOpen && now - entry.createdAt < INDEX_GRACE_PERIOD) return null;
+
+  if (entry.expiredAt && now >= entry.expiredAt * 1000) {
+    return { ...entry, status: 'expired' };
+  }
+  // Cancels from this client are marked already; anything else may have filled or been cancelled elsewhere
+  return { ...entry, status: 'closed' };
+};
+
+/**
+ * Update the makers' unfinished orders from their current open orders
+ * @param openOrders Open orders per maker; makers whose lookup failed are left out
+ * @returns Orders whose status or fill changed
+ */
+export const applyOpenOrders = (openOrders: Map<string, any[]>): OrderStatusChange[] => {
+  const now = Date.now();
+  const changes: OrderStatusChange[] = [];
+  let modified = false;
+
+  const history = loadOrderHistory().map(entry => {
+    if (isOrderFinished(entry.status) || !openOrders.has(entry.maker)) return entry;
+
+    const openOrder = openOrders.get(entry.maker)!.find(order => (
+      (order.orderKey || order.account?.orderKey || order.publicKey) === entry.order
+    ));
+    const updated = getUpdatedEntry(entry, openOrder, now);
+    if (!updated) return entry;
+    if (updated.seenOpen !== entry.seenOpen) modified = true;
+
+    if (updated.status !== entry.status || updated.filledPercent !== entry.filledPercent) {
+      updated.updatedAt = now;
+      changes.push({ entry: updated, previousStatus: entry.status, previousFilledPercent: entry.filledPercent });
+      modified = true;
+    }
+    return updated;
+  });
+
+  if (modified) saveOrderHistory(history);
+  return changes;
+};
+
+/**
+ * Settle a closed order once its closing transaction shows what happened
+ * @returns The updated entry, or null if the order is not closed
+ */
+export const resolveClosedOrder = (order: string, status: 'filled' | 'cancelled'): OrderHistoryEntry | null => {
+  const history = loadOrderHistory();
+  const entry = history.find(item => item.order === order && item.status === 'closed');
+  if (!entry) return null;
+
+  const updated: OrderHistoryEntry = {
+    ...entry,
+    status,
+    filledPercent: status === 'filled' ? 100 : entry.filledPercent,
+    updatedAt: Date.now()
+  };
+  saveOrderHistory(history.map(item => item === entry ? updated : item));
+  return updated;
+};
+
+const escapeCsvValue = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Raw amount in whole units of its mint
+const toUnits = (raw: string, decimals: number): string => {
+  const value = parseFloat(raw) / Math.pow(10, decimals);
+  return isFinite(value) ? String(value) : '';
+};
+
+/**
+ * Format orders as CSV with amounts in whole units
+ */
+export const formatOrderHistoryCsv = (entries: OrderHistoryEntry[]): string => {
+  const header = ['created', 'updated', 'status', 'filled_percent', 'side', 'token', 'maker', 'order', 'making_amount', 'taking_amount', 'expires'];
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    new Date(entry.updatedAt).toISOString(),
+    entry.status,
+    entry.filledPercent.toFixed(2),
+    entry.side,
+    entry.tokenAddress,
+    entry.maker,
+    entry.order,
+    toUnits(entry.makingAmount, entry.inputDecimals),
+    toUnits(entry.takingAmount, entry.outputDecimals),
+    entry.expiredAt ? new Date(entry.expiredAt * 1000).toISOString() : ''
+  ].map(escapeCsvValue).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+};
+
+/**
+ * Download orders as a CSV or JSON file
+ */
+export const downloadOrderHistory = (entries: OrderHistoryEntry[], format: 'csv' | 'json') => {
+  const content = format === 'csv' ? formatOrderHistoryCsv(entries) : JSON.stringify(entries, null, 2);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `limit-orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
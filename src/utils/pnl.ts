@@ -0,0 +1,438 @@
+import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { fetchBalances, getMintInfo, getNonAtaTokenAccounts, getTokenAccountAddress } from './balances';
+import { JITO_TIP_ACCOUNTS } from './txInspector';
+
+/**
+ * On-chain cost-basis PnL.
+ * Each wallet's token accounts are walked through getSignaturesForAddress, and every
+ * transaction is reduced to the wallet's SOL and token change plus the fee and Jito tip
+ * it paid. Parsed transactions are cached in IndexedDB with a cursor per token account,
+ * so later runs only fetch new signatures. Buys carry their full SOL outlay (fee, tip and
+ * account rent included) into the cost basis; sells realize proceeds net of the same.
+ */
+
+// Database setup
+const DB_NAME = 'PnlCache';
+const DB_VERSION = 1;
+const TRANSACTION_STORE = 'transactions';
+const CURSOR_STORE = 'cursors';
+
+// Constants
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURES_PER_ACCOUNT = 5000; // Older history is not scanned on the first sync
+const PARSE_BATCH_SIZE = 20;
+const WALLET_CONCURRENCY = 3;
+const TRANSFER_TOLERANCE_LAMPORTS = 2100000; // Token account rent; a token gain costing less is a transfer in
+
+// Interfaces
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface PnlTransaction {
+  id: string; // wallet:mint:signature
+  walletMint: string; // wallet:mint
+  signature: string;
+  slot: number;
+  blockTime: number | null; // Unix seconds
+  solDelta: number; // Lamports, wrapped SOL included, after fee and tip
+  tokenDelta: string; // Raw units of the mint
+  feeLamports: number; // Only when the wallet paid the fee
+  tipLamports: number;
+  failed: boolean;
+}
+
+export interface WalletPnl {
+  wallet: string;
+  method: CostBasisMethod;
+  transactions: number;
+  buys: number;
+  sells: number;
+  transfersIn: number;
+  transfersOut: number;
+  tokensBought: number;
+  tokensSold: number;
+  solSpent: number;
+  solReceived: number;
+  feesSol: number;
+  tipsSol: number;
+  realizedSol: number;
+  holdingTokens: number; // From the history, not the live balance
+  costBasisSol: number; // Of the tokens still held
+  averageCost: number; // SOL per held token
+  unrealizedSol: number | null; // Null without a price
+  lastTradePrice: number | null; // SOL per token of the wallet's latest buy or sell
+  firstActivity: number | null; // Unix ms
+  lastActivity: number | null;
+}
+
+export interface PnlProgress {
+  completed: number; // Wallets done
+  total: number;
+}
+
+interface SyncCursor {
+  id: string; // Token account
+  newestSignature: string;
+}
+
+interface Lot {
+  tokens: number;
+  costLamports: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error('Error opening PnL database:', request.error);
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRANSACTION_STORE)) {
+        const store = db.createObjectStore(TRANSACTION_STORE, { keyPath: 'id' });
+        store.createIndex('walletMint', 'walletMint');
+      }
+      if (!db.objectStoreNames.contains(CURSOR_STORE)) {
+        db.createObjectStore(CURSOR_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const loadCachedTransactions = async (walletMint: string): Promise<PnlTransaction[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(TRANSACTION_STORE, 'readonly').objectStore(TRANSACTION_STORE);
+  return requestToPromise(store.index('walletMint').getAll(walletMint)) as Promise<PnlTransaction[]>;
+};
+
+const loadCursor = async (account: string): Promise<SyncCursor | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(CURSOR_STORE, 'readonly').objectStore(CURSOR_STORE);
+  return requestToPromise(store.get(account)) as Promise<SyncCursor | undefined>;
+};
+
+// Transactions and the cursors that cover them are written together
+const saveSyncResult = async (transactions: PnlTransaction[], cursors: SyncCursor[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([TRANSACTION_STORE, CURSOR_STORE], 'readwrite');
+    transactions.forEach(transaction => tx.objectStore(TRANSACTION_STORE).put(transaction));
+    cursors.forEach(cursor => tx.objectStore(CURSOR_STORE).put(cursor));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Drop every cached transaction and cursor, forcing a full rescan
+ */
+export const clearPnlCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([TRANSACTION_STORE, CURSOR_STORE], 'readwrite');
+    tx.objectStore(TRANSACTION_STORE).clear();
+    tx.objectStore(CURSOR_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Signatures newer than the cursor, newest first
+// With a cursor every page down to it is fetched, so a busy account leaves no gap behind the new cursor
+const getNewSignatures = async (
+  connection: Connection,
+  account: string,
+  until: string | undefined
+): Promise<Array<{ signature: string; slot: number }>> => {
+  const signatures: Array<{ signature: string; slot: number }> = [];
+  let before: string | undefined;
+
+  while (until || signatures.length < MAX_SIGNATURES_PER_ACCOUNT) {
+    const page = await connection.getSignaturesForAddress(new PublicKey(account), { before, until, limit: SIGNATURE_PAGE_SIZE });
+    page.forEach(info => signatures.push({ signature: info.signature, slot: info.slot }));
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return signatures;
+};
+
+// Sum of a wallet's raw balances of a mint in pre or post token balances
+const getOwnedTokenAmount = (balances: NonNullable<ParsedTransactionWithMeta['meta']>['postTokenBalances'], wallet: string, mint: string): bigint => {
+  return (balances || [])
+    .filter(balance => balance.owner === wallet && balance.mint === mint)
+    .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+};
+
+const getTipLamports = (transaction: ParsedTransactionWithMeta, wallet: string): number => {
+  const tipAccounts = new Set(JITO_TIP_ACCOUNTS);
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+
+  return instructions.reduce((sum, instruction: any) => {
+    const info = instruction.parsed?.info;
+    if (instruction.program !== 'system' || instruction.parsed?.type !== 'transfer') return sum;
+    if (info?.source !== wallet || !tipAccounts.has(info?.destination)) return sum;
+    return sum + (Number(info.lamports) || 0);
+  }, 0);
+};
+
+/**
+ * Reduce a transaction to one wallet's SOL and token change
+ */
+export const parsePnlTransaction = (
+  transaction: ParsedTransactionWithMeta,
+  signature: string,
+  wallet: string,
+  mint: string
+): PnlTransaction => {
+  const meta = transaction.meta;
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+  const walletIndex = accountKeys.indexOf(wallet);
+
+  const lamportDelta = walletIndex >= 0 && meta ? meta.postBalances[walletIndex] - meta.preBalances[walletIndex] : 0;
+  const wrappedDelta = meta
+    ? Number(getOwnedTokenAmount(meta.postTokenBalances, wallet, WSOL_MINT) - getOwnedTokenAmount(meta.preTokenBalances, wallet, WSOL_MINT))
+    : 0;
+  const tokenDelta = meta
+    ? getOwnedTokenAmount(meta.postTokenBalances, wallet, mint) - getOwnedTokenAmount(meta.preTokenBalances, wallet, mint)
+    : BigInt(0);
+
+  return {
+    id: `${wallet}:${mint}:${signature}`,
+    walletMint: `${wallet}:${mint}`,
+    signature,
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null,
+    solDelta: lamportDelta + wrappedDelta,
+    tokenDelta: tokenDelta.toString(),
+    feeLamports: accountKeys[0] === wallet ? meta?.fee || 0 : 0,
+    tipLamports: getTipLamports(transaction, wallet),
+    failed: !!meta?.err
+  };
+};
+
+// Fetch and cache one wallet's new transactions for the mint
+const syncWallet = async (
+  connection: Connection,
+  wallet: string,
+  mint: string,
+  programId: PublicKey
+): Promise<void> => {
+  const accounts = [
+    getTokenAccountAddress(wallet, mint, programId).toBase58(),
+    ...getNonAtaTokenAccounts(wallet, mint)
+  ];
+  const walletMint = `${wallet}:${mint}`;
+  const cached = new Set((await loadCachedTransactions(walletMint)).map(transaction => transaction.signature));
+
+  const cursors: SyncCursor[] = [];
+  const pending = new Map<string, number>(); // signature -> slot
+  for (const account of accounts) {
+    const cursor = await loadCursor(account);
+    const signatures = await getNewSignatures(connection, account, cursor?.newestSignature);
+    if (signatures.length > 0) cursors.push({ id: account, newestSignature: signatures[0].signature });
+    signatures
+      .filter(({ signature }) => !cached.has(signature))
+      .forEach(({ signature, slot }) => pending.set(signature, slot));
+  }
+
+  const parsed: PnlTransaction[] = [];
+  let complete = true;
+  const signatures = Array.from(pending.keys());
+  for (let start = 0; start < signatures.length; start += PARSE_BATCH_SIZE) {
+    const batch = signatures.slice(start, start + PARSE_BATCH_SIZE);
+    const transactions = await connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0 });
+    transactions.forEach((transaction, index) => {
+      if (transaction) {
+        parsed.push(parsePnlTransaction(transaction, batch[index], wallet, mint));
+      } else {
+        complete = false;
+      }
+    });
+  }
+
+  // Missing transactions keep the old cursors so the next run picks them up
+  await saveSyncResult(parsed, complete ? cursors : []);
+};
+
+const removeLots = (lots: Lot[], tokens: number, method: CostBasisMethod): number => {
+  let remaining = tokens;
+  let basis = 0;
+
+  if (method === 'average') {
+    const held = lots.reduce((sum, lot) => sum + lot.tokens, 0);
+    const cost = lots.reduce((sum, lot) => sum + lot.costLamports, 0);
+    const sold = Math.min(remaining, held);
+    basis = held > 0 ? cost * sold / held : 0;
+    lots.splice(0, lots.length);
+    if (held - sold > 0) lots.push({ tokens: held - sold, costLamports: cost - basis });
+    return basis;
+  }
+
+  while (remaining > 0 && lots.length > 0) {
+    const lot = lots[0];
+    const used = Math.min(remaining, lot.tokens);
+    const cost = lot.costLamports * used / lot.tokens;
+    basis += cost;
+    remaining -= used;
+    lot.tokens -= used;
+    lot.costLamports -= cost;
+    if (lot.tokens <= 0) lots.shift();
+  }
+  return basis;
+};
+
+/**
+ * Realized and unrealized PnL of one wallet from its parsed transactions
+ * Tokens sent away realize their cost basis as a loss and tokens received arrive at no
+ * cost, so transfers between our own wallets net out across the wallets.
+ * @param decimals Decimals of the mint
+ * @param price Current SOL per token for unrealized PnL
+ */
+export const computeWalletPnl = (
+  wallet: string,
+  transactions: PnlTransaction[],
+  decimals: number,
+  method: CostBasisMethod,
+  price?: number | null
+): WalletPnl => {
+  const sorted = [...transactions].sort((a, b) => a.slot - b.slot || (a.blockTime || 0) - (b.blockTime || 0));
+  const lots: Lot[] = [];
+  const result: WalletPnl = {
+    wallet,
+    method,
+    transactions: sorted.length,
+    buys: 0,
+    sells: 0,
+    transfersIn: 0,
+    transfersOut: 0,
+    tokensBought: 0,
+    tokensSold: 0,
+    solSpent: 0,
+    solReceived: 0,
+    feesSol: 0,
+    tipsSol: 0,
+    realizedSol: 0,
+    holdingTokens: 0,
+    costBasisSol: 0,
+    averageCost: 0,
+    unrealizedSol: null,
+    lastTradePrice: null,
+    firstActivity: null,
+    lastActivity: null
+  };
+  let realizedLamports = 0;
+
+  sorted.forEach(transaction => {
+    const tokens = Number(transaction.tokenDelta) / Math.pow(10, decimals);
+    const expenses = transaction.feeLamports + transaction.tipLamports;
+    result.feesSol += transaction.feeLamports / 1e9;
+    result.tipsSol += transaction.tipLamports / 1e9;
+    if (transaction.blockTime) {
+      result.firstActivity = result.firstActivity ?? transaction.blockTime * 1000;
+      result.lastActivity = transaction.blockTime * 1000;
+    }
+
+    if (tokens > 0) {
+      const spent = Math.max(0, -transaction.solDelta);
+      if (spent > expenses + TRANSFER_TOLERANCE_LAMPORTS) {
+        result.buys++;
+        result.tokensBought += tokens;
+        result.solSpent += spent / 1e9;
+        result.lastTradePrice = (spent - expenses) / 1e9 / tokens;
+      } else {
+        result.transfersIn++;
+      }
+      lots.push({ tokens, costLamports: spent });
+    } else if (tokens < 0) {
+      const basis = removeLots(lots, -tokens, method);
+      if (transaction.solDelta > 0) {
+        result.sells++;
+        result.tokensSold += -tokens;
+        result.solReceived += transaction.solDelta / 1e9;
+        result.lastTradePrice = (transaction.solDelta + expenses) / 1e9 / -tokens;
+      } else {
+        result.transfersOut++;
+      }
+      realizedLamports += transaction.solDelta - basis;
+    } else {
+      // Failed transactions, account closes and other activity without a token change
+      realizedLamports += transaction.solDelta;
+    }
+  });
+
+  const costLamports = lots.reduce((sum, lot) => sum + lot.costLamports, 0);
+  result.realizedSol = realizedLamports / 1e9;
+  result.holdingTokens = lots.reduce((sum, lot) => sum + lot.tokens, 0);
+  result.costBasisSol = costLamports / 1e9;
+  result.averageCost = result.holdingTokens > 0 ? result.costBasisSol / result.holdingTokens : 0;
+  if (price && price > 0) {
+    result.unrealizedSol = result.holdingTokens * price - result.costBasisSol;
+  }
+  return result;
+};
+
+/**
+ * Sync the wallets' history for a token and compute their PnL
+ * Wallets fail independently; their errors are returned alongside the results.
+ * @param price Current SOL per token; without it each wallet's last trade price is used
+ */
+export const calculatePnl = async (
+  connection: Connection,
+  wallets: string[],
+  mint: string,
+  method: CostBasisMethod,
+  price?: number | null,
+  onProgress?: (progress: PnlProgress) => void
+): Promise<{ results: Map<string, WalletPnl>; errors: string[] }> => {
+  const { decimals, programId } = await getMintInfo(connection, mint);
+  // Discovers token accounts besides the ATA, which hold history too
+  await fetchBalances(connection, wallets, mint, { includeSol: false, discoverAccounts: true });
+
+  const results = new Map<string, WalletPnl>();
+  const errors: string[] = [];
+  let completed = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < wallets.length) {
+      const wallet = wallets[next++];
+      try {
+        await syncWallet(connection, wallet, mint, programId);
+        const transactions = await loadCachedTransactions(`${wallet}:${mint}`);
+        const pnl = computeWalletPnl(wallet, transactions, decimals, method, price);
+        if (!(price && price > 0) && pnl.lastTradePrice) {
+          pnl.unrealizedSol = pnl.holdingTokens * pnl.lastTradePrice - pnl.costBasisSol;
+        }
+        results.set(wallet, pnl);
+      } catch (error) {
+        console.error(`Error calculating PnL for ${wallet}:`, error);
+        errors.push(`${wallet.slice(0, 4)}...${wallet.slice(-4)}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+      }
+      onProgress?.({ completed: ++completed, total: wallets.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(WALLET_CONCURRENCY, wallets.length) }, worker));
+  return { results, errors };
+};
@@ -1,19 +1,15 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import { createSpendingReservation, enforceSpendingLimits, recordSubmittedSpending, WalletSpend } from './spendingLimits';
+import { appendJournalEntry } from './journal';
+import { assertEncodedTransactionsSafe, getAmountCaps, getLaunchpadPrograms, getTipAllowanceLamports } from './txInspector';
 
-// Constants for rate limiting
-const MAX_BUNDLES_PER_SECOND = 2;
+// Constants for retrying the first bundle
 const MAX_RETRY_ATTEMPTS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
 const BASE_RETRY_DELAY = 200; // milliseconds
 
-// Rate limiting state (same as in pumpbuy)
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletForPumpCreate {
   address: string;
@@ -29,70 +25,6 @@ export interface PumpCreateBundle {
   transactions: string[]; // Base58 encoded transaction data
 }
 
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through backend proxy with improved error handling
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error.message || 'Unknown error from bundle server');
-    }
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Exponential backoff delay with jitter
  */
@@ -111,7 +43,7 @@ const getPartiallyPreparedTransactions = async (
   amounts?: number[]
 ): Promise<PumpCreateBundle[]> => {
   try {
-    const baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
+    const baseUrl = getTradingServerUrl();
     
     const response = await fetch(`${baseUrl}/api/pumpfun/create`, {
       method: 'POST',
@@ -241,9 +173,10 @@ const completeBundleSigning = (
 /**
  * Execute pump create operation on the frontend with improved reliability
  */
-export const executePumpCreate = async (
+const runPumpCreate = async (
   wallets: WalletForPumpCreate[],
   tokenCreationConfig: TokenCreationConfig,
+  reservation: string,
   customAmounts?: number[]
 ): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string }> => {
   try {
@@ -252,6 +185,15 @@ export const executePumpCreate = async (
     // Extract wallet addresses
     const walletAddresses = wallets.map(wallet => wallet.address);
     
+    // Dev buys count toward the spending limits
+    if (customAmounts) {
+      await enforceSpendingLimits({
+        operation: 'Token deploy',
+        reservation,
+        spends: wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] || 0 }))
+      });
+    }
+    
     // Step 1: Get partially prepared bundles from backend
     const partiallyPreparedBundles = await getPartiallyPreparedTransactions(
       walletAddresses,
@@ -265,6 +207,21 @@ export const executePumpCreate = async (
       Keypair.fromSecretKey(bs58.decode(wallet.privateKey))
     );
     
+    // Inspect every bundle before anything is signed; dev buys are capped at the custom amounts
+    assertEncodedTransactionsSafe(
+      partiallyPreparedBundles.flatMap(bundle => bundle.transactions || []),
+      walletAddresses,
+      {
+        operation: 'token creation',
+        programs: getLaunchpadPrograms('pumpfun'),
+        maxSolOut: customAmounts
+          ? getAmountCaps(wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] })))
+          : undefined,
+        tipLamports: getTipAllowanceLamports(),
+        bundleCount: partiallyPreparedBundles.length
+      }
+    );
+    
     // Step 3: Complete transaction signing for each bundle
     const signedBundles = partiallyPreparedBundles.map((bundle, index) =>
       completeBundleSigning(bundle, walletKeypairs, index === 0) // Mark first bundle
@@ -313,6 +270,32 @@ export const executePumpCreate = async (
   }
 };
 
+/**
+ * Execute pump create operation and record it in the operation journal
+ */
+export const executePumpCreate = async (
+  wallets: WalletForPumpCreate[],
+  tokenCreationConfig: TokenCreationConfig,
+  customAmounts?: number[]
+): Promise<{ success: boolean; mintAddress?: string; result?: any; error?: string }> => {
+  const reservation = createSpendingReservation();
+  const outcome = await runPumpCreate(wallets, tokenCreationConfig, reservation, customAmounts);
+  const spends: WalletSpend[] = customAmounts
+    ? wallets.map((wallet, index) => ({ address: wallet.address, amount: customAmounts[index] || 0 }))
+    : [];
+
+  await appendJournalEntry({
+    operation: 'deploy',
+    tokenAddress: outcome.mintAddress || tokenCreationConfig.mintPubkey,
+    wallets: wallets.map(wallet => wallet.address),
+    amounts: spends.map(spend => ({ wallet: spend.address, amount: spend.amount, unit: 'SOL' })),
+    details: 'Pump.fun token creation'
+  }, { success: outcome.success, result: outcome.result, error: outcome.error });
+  recordSubmittedSpending(reservation, outcome);
+
+  return outcome;
+};
+
 /**
  * Send first bundle with extensive retry logic - this is critical for success
  */
@@ -324,9 +307,6 @@ const sendFirstBundle = async (bundle: PumpCreateBundle): Promise<{success: bool
   
   while (attempt < MAX_RETRY_ATTEMPTS && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
     try {
-      // Apply rate limiting
-      await checkRateLimit();
-      
       // Send the bundle
       const result = await sendBundle(bundle.transactions);
       
@@ -1,19 +1,18 @@
 import { Keypair, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { loadConfigFromCookies, loadUserFromCookies } from '../Utils';
-import { loadServerConfig } from './serverConfig';
+import { sendBundle, getTradingServerUrl, BundleResult } from './bundleClient';
+import {
+  assertSimulatedOutflowsSafe,
+  assertTransactionsSafe,
+  getProtocolPrograms,
+  getTipAllowanceLamports,
+  InspectionExpectation
+} from './txInspector';
 
 // Constants
-const MAX_BUNDLES_PER_SECOND = 2;
 const MAX_TRANSACTIONS_PER_BUNDLE = 5;
 
-// Rate limiting state
-const rateLimitState = {
-  count: 0,
-  lastReset: Date.now(),
-  maxBundlesPerSecond: MAX_BUNDLES_PER_SECOND
-};
-
 // Interfaces
 export interface WalletSell {
   address: string;
@@ -37,7 +36,6 @@ export interface SellConfig {
 
 export interface SellBundle {
   transactions: string[]; // Base58 encoded transaction data
-  serverResponse?: any; // For self-hosted server responses
 }
 
 export interface SellResult {
@@ -46,76 +44,6 @@ export interface SellResult {
   error?: string;
 }
 
-// Define interface for bundle result from sending
-interface BundleResult {
-  jsonrpc: string;
-  id: number;
-  result?: string;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-/**
- * Check rate limit and wait if necessary
- */
-const checkRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  
-  if (now - rateLimitState.lastReset >= 1000) {
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = now;
-  }
-  
-  if (rateLimitState.count >= rateLimitState.maxBundlesPerSecond) {
-    const waitTime = 1000 - (now - rateLimitState.lastReset);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    rateLimitState.count = 0;
-    rateLimitState.lastReset = Date.now();
-  }
-  
-  rateLimitState.count++;
-};
-
-/**
- * Send bundle to Jito block engine through our backend proxy
- */
-const sendBundle = async (encodedBundle: string[]): Promise<BundleResult> => {
-  try {
-    const config = loadConfigFromCookies();
-    let baseUrl = '';
-
-    // First check localStorage/persistent storage
-    const savedServerUrl = loadServerConfig();
-    if (savedServerUrl) {
-      baseUrl = savedServerUrl.replace(/\/+$/, '');
-    }
-    // Then check if self-hosted trading server is enabled in config
-    else if (config?.tradingServerEnabled === 'true' && config?.tradingServerUrl) {
-      baseUrl = config.tradingServerUrl.replace(/\/+$/, '');
-    } else {
-      baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    }
-    
-    // Send to our backend proxy instead of directly to Jito
-    const response = await fetch(`${baseUrl}/api/transactions/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        transactions: encodedBundle
-      }),
-    });
-
-    const data = await response.json();
-    
-    return data.result;
-  } catch (error) {
-    console.error('Error sending bundle:', error);
-    throw error;
-  }
-};
-
 /**
  * Get partially prepared sell transactions from backend
  * The backend will create transactions without signing them and group them into bundles
@@ -126,33 +54,16 @@ const getPartiallyPreparedSellTransactions = async (
 ): Promise<SellBundle[]> => {
   try {
     const config = loadConfigFromCookies();
-    let baseUrl = '';
-
-    // First check localStorage/persistent storage
-    const savedServerUrl = loadServerConfig();
-    if (savedServerUrl) {
-      baseUrl = savedServerUrl.replace(/\/+$/, '');
-    }
-    // Then check if self-hosted trading server is enabled in config
-    else if (config?.tradingServerEnabled === 'true' && config?.tradingServerUrl) {
-      baseUrl = config.tradingServerUrl.replace(/\/+$/, '');
-    } else {
-      baseUrl = (window as any).tradingServerUrl?.replace(/\/+$/, '') || '';
-    }
+    const baseUrl = getTradingServerUrl();
     
     const requestBody: any = {
       tokenAddress: sellConfig.tokenAddress,
       protocol: sellConfig.protocol
     };
     
-    // If self-hosted trading server is enabled, send private keys instead of addresses
-    if (config?.tradingServerEnabled === 'true') {
-      // For self-hosted server, send private keys so server can sign and send
-      requestBody.walletPrivateKeys = wallets.map(wallet => wallet.privateKey);
-    } else {
-      // For regular server, send wallet addresses
-      requestBody.walletAddresses = wallets.map(wallet => wallet.address);
-    }
+    // Keys never leave the client: the server only builds unsigned transactions,
+    // which are inspected before our keypairs sign them
+    requestBody.walletAddresses = wallets.map(wallet => wallet.address);
     
     // Add either percentage or tokens amount
     if (sellConfig.tokensAmount !== undefined) {
@@ -214,14 +125,7 @@ const getPartiallyPreparedSellTransactions = async (
     }
     
     // Handle different response formats to ensure compatibility
-    // Check for self-hosted trading server response format first
-    if (config?.tradingServerEnabled === 'true' && data.data) {
-      // Self-hosted server response format: {success: true, data: {bundlesSent: 1, results: [...]}}
-      console.log('Self-hosted server response received:', data);
-      // For self-hosted server, store the response data in a special format
-      // We'll use a special property to pass the server response through
-      return [{ transactions: [], serverResponse: data }];
-    } else if (data.bundles && Array.isArray(data.bundles)) {
+    if (data.bundles && Array.isArray(data.bundles)) {
       // Wrap any bundle that is a plain array
       return data.bundles.map((bundle: any) =>
         Array.isArray(bundle) ? { transactions: bundle } : bundle
@@ -241,20 +145,33 @@ const getPartiallyPreparedSellTransactions = async (
   }
 };
 
+/**
+ * What the server-built sell transactions may do: use the selected protocol and spend
+ * no SOL beyond fees, account rent and the Jito tip
+ */
+const getSellExpectation = (sellConfig: SellConfig): InspectionExpectation => ({
+  operation: 'sell',
+  programs: getProtocolPrograms(sellConfig.protocol),
+  maxSolOut: {},
+  tipLamports: getTipAllowanceLamports(sellConfig.jitoTipLamports)
+});
+
 /**
  * Complete bundle signing
+ * Transactions are inspected before anything is signed; a failed inspection throws
  */
-const completeBundleSigning = (
+const completeBundleSigning = async (
   bundle: SellBundle, 
-  walletKeypairs: Keypair[]
-): SellBundle => {
+  walletKeypairs: Keypair[],
+  expectation: InspectionExpectation
+): Promise<SellBundle> => {
   // Check if the bundle has a valid transactions array
   if (!bundle.transactions || !Array.isArray(bundle.transactions)) {
     console.error("Invalid bundle format, transactions property is missing or not an array:", bundle);
     return { transactions: [] };
   }
 
-  const signedTransactions = bundle.transactions.map(txBase58 => {
+  const transactions = bundle.transactions.map(txBase58 => {
     // Handle case where a transaction couldn't be prepared
     if (!txBase58) {
       console.warn(`Transaction is null or undefined`);
@@ -263,9 +180,19 @@ const completeBundleSigning = (
 
     try {
       // Deserialize transaction
-      const txBuffer = bs58.decode(txBase58);
-      const transaction = VersionedTransaction.deserialize(txBuffer);
-      
+      return VersionedTransaction.deserialize(bs58.decode(txBase58));
+    } catch (error) {
+      console.error(`Error decoding transaction:`, error);
+      return null;
+    }
+  }).filter(tx => tx !== null);
+
+  const signerAddresses = walletKeypairs.map(kp => kp.publicKey.toBase58());
+  assertTransactionsSafe(transactions, signerAddresses, expectation);
+  await assertSimulatedOutflowsSafe(transactions, signerAddresses, expectation);
+
+  const signedTransactions = transactions.map(transaction => {
+    try {
       // Extract required signers from staticAccountKeys
       const signers: Keypair[] = [];
       for (const accountKey of transaction.message.staticAccountKeys) {
@@ -353,10 +280,9 @@ const executeSellSingleMode = async (
 
       // Sign and send each bundle for this wallet
       for (const bundle of partiallyPreparedBundles) {
-        const signedBundle = completeBundleSigning(bundle, [walletKeypair]);
+        const signedBundle = await completeBundleSigning(bundle, [walletKeypair], getSellExpectation(sellConfig));
         
         if (signedBundle.transactions.length > 0) {
-          await checkRateLimit();
           const result = await sendBundle(signedBundle.transactions);
           results.push(result);
         }
@@ -423,14 +349,14 @@ const executeSellBatchMode = async (
 
       // Split bundles and sign them
       const splitBundles = splitLargeBundles(partiallyPreparedBundles);
-      const signedBundles = splitBundles.map(bundle =>
-        completeBundleSigning(bundle, walletKeypairs)
-      );
+      const signedBundles: SellBundle[] = [];
+      for (const bundle of splitBundles) {
+        signedBundles.push(await completeBundleSigning(bundle, walletKeypairs, getSellExpectation(sellConfig)));
+      }
 
       // Send all bundles for this batch
       for (const bundle of signedBundles) {
         if (bundle.transactions.length > 0) {
-          await checkRateLimit();
           const result = await sendBundle(bundle.transactions);
           results.push(result);
         }
@@ -464,30 +390,9 @@ const executeSellAllInOneMode = async (
 ): Promise<SellResult> => {
   console.log(`Preparing all ${wallets.length} wallets for simultaneous execution`);
 
-  const config = loadConfigFromCookies();
-  
   // Get all transactions at once
   const partiallyPreparedBundles = await getPartiallyPreparedSellTransactions(wallets, sellConfig);
   
-  // If self-hosted trading server is enabled, the server handles everything
-  if (config?.tradingServerEnabled === 'true') {
-    console.log('Self-hosted server handled signing and sending');
-    // Check if we have a server response in the bundles
-    if (partiallyPreparedBundles.length > 0 && partiallyPreparedBundles[0].serverResponse) {
-      const serverResponse = partiallyPreparedBundles[0].serverResponse;
-      return {
-        success: serverResponse.success,
-        result: serverResponse.data,
-        error: serverResponse.success ? undefined : serverResponse.error
-      };
-    } else {
-      return {
-        success: false,
-        error: 'No response received from self-hosted server'
-      };
-    }
-  }
-  
   if (partiallyPreparedBundles.length === 0) {
     return {
       success: false,
@@ -502,9 +407,10 @@ const executeSellAllInOneMode = async (
 
   // Split and sign all bundles
   const splitBundles = splitLargeBundles(partiallyPreparedBundles);
-  const signedBundles = splitBundles.map(bundle =>
-    completeBundleSigning(bundle, walletKeypairs)
-  );
+  const signedBundles: SellBundle[] = [];
+  for (const bundle of splitBundles) {
+    signedBundles.push(await completeBundleSigning(bundle, walletKeypairs, getSellExpectation(sellConfig)));
+  }
 
   // Filter out empty bundles
   const validSignedBundles = signedBundles.filter(bundle => bundle.transactions.length > 0);
@@ -570,14 +476,7 @@ export const executeSell = async (
   sellConfig: SellConfig
 ): Promise<SellResult> => {
   try {
-    const config = loadConfigFromCookies();
-    let bundleMode = sellConfig.bundleMode || 'batch'; // Default to batch mode
-    
-    // If self-hosted trading server is enabled, force all-in-one mode
-    if (config?.tradingServerEnabled === 'true') {
-      bundleMode = 'all-in-one';
-      console.log(`Self-hosted trading server enabled, forcing all-in-one mode`);
-    }
+    const bundleMode = sellConfig.bundleMode || 'batch'; // Default to batch mode
     
     console.log(`Preparing to sell ${sellConfig.sellPercent}% of ${sellConfig.tokenAddress} using ${wallets.length} wallets on ${sellConfig.protocol} with ${bundleMode} mode`);
     
@@ -0,0 +1,139 @@
+import { Connection, PublicKey, VersionedTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { loadConfigFromCookies } from '../Utils';
+
+/**
+ * Dry-run support for the shared submission client.
+ * With simulation enabled in the config, signed bundles are run through
+ * simulateTransaction on the configured RPC instead of being sent, and the
+ * outcome of every transaction is published for the UI to display.
+ */
+
+// Constants
+const DEFAULT_RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+export const SIMULATION_EVENT = 'bundleSimulated';
+
+// Interfaces
+export interface SimulatedBalanceChange {
+  address: string;
+  before: number; // SOL
+  after: number; // SOL
+  change: number; // SOL
+}
+
+export interface TransactionSimulation {
+  signature: string;
+  wallet: string; // Fee payer
+  success: boolean;
+  error?: string;
+  unitsConsumed?: number;
+  logs: string[];
+  balanceChanges: SimulatedBalanceChange[];
+}
+
+export interface SimulationReport {
+  id: string;
+  timestamp: number;
+  simulations: TransactionSimulation[];
+}
+
+/**
+ * Check whether the config asks for dry runs instead of sending
+ */
+export const isSimulationEnabled = (): boolean => {
+  return loadConfigFromCookies()?.simulateTransactions === 'true';
+};
+
+/**
+ * Connection to the configured RPC used for simulations
+ */
+export const getSimulationConnection = (): Connection => {
+  const rpcEndpoint = loadConfigFromCookies()?.rpcEndpoint || DEFAULT_RPC_ENDPOINT;
+  return new Connection(rpcEndpoint, 'confirmed');
+};
+
+/**
+ * Simulate one transaction and report the balance change of every writable account
+ * Signatures are not verified, so unsigned transactions can be simulated before signing
+ */
+export const simulateVersionedTransaction = async (connection: Connection, transaction: VersionedTransaction): Promise<TransactionSimulation> => {
+  const signature = bs58.encode(transaction.signatures[0]);
+  const staticKeys = transaction.message.staticAccountKeys;
+  const wallet = staticKeys[0].toBase58();
+
+  try {
+    // Writable accounts are the only ones whose lamports can change
+    const writableKeys: PublicKey[] = staticKeys.filter((_, index) => transaction.message.isAccountWritable(index));
+    const before = await connection.getMultipleAccountsInfo(writableKeys);
+
+    // The signatures cover the original blockhash, so they cannot be verified once it is replaced
+    const { value } = await connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: 'base64',
+        addresses: writableKeys.map(key => key.toBase58())
+      }
+    });
+
+    const balanceChanges: SimulatedBalanceChange[] = [];
+    writableKeys.forEach((key, index) => {
+      const beforeLamports = before[index]?.lamports || 0;
+      const afterAccount = value.accounts?.[index];
+      const afterLamports = afterAccount ? afterAccount.lamports : beforeLamports;
+      if (afterLamports !== beforeLamports) {
+        balanceChanges.push({
+          address: key.toBase58(),
+          before: beforeLamports / LAMPORTS_PER_SOL,
+          after: afterLamports / LAMPORTS_PER_SOL,
+          change: (afterLamports - beforeLamports) / LAMPORTS_PER_SOL
+        });
+      }
+    });
+
+    return {
+      signature,
+      wallet,
+      success: !value.err,
+      error: value.err ? JSON.stringify(value.err) : undefined,
+      unitsConsumed: value.unitsConsumed,
+      logs: value.logs || [],
+      balanceChanges
+    };
+  } catch (error) {
+    return { signature, wallet, success: false, error: error.message, logs: [], balanceChanges: [] };
+  }
+};
+
+const simulateTransaction = async (connection: Connection, encodedTx: string): Promise<TransactionSimulation> => {
+  let transaction: VersionedTransaction;
+  try {
+    transaction = VersionedTransaction.deserialize(bs58.decode(encodedTx));
+  } catch (error) {
+    return { signature: '', wallet: '', success: false, error: `Invalid transaction: ${error.message}`, logs: [], balanceChanges: [] };
+  }
+  return simulateVersionedTransaction(connection, transaction);
+};
+
+/**
+ * Simulate every transaction of a bundle against the configured RPC
+ * Transactions are simulated independently, so one that depends on an earlier
+ * transaction of the same bundle (e.g. a freshly created account) may report an error
+ */
+export const simulateBundle = async (encodedBundle: string[]): Promise<TransactionSimulation[]> => {
+  const connection = getSimulationConnection();
+
+  const simulations: TransactionSimulation[] = [];
+  for (const encodedTx of encodedBundle) {
+    simulations.push(await simulateTransaction(connection, encodedTx));
+  }
+
+  const report: SimulationReport = {
+    id: `simulation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    simulations
+  };
+  window.dispatchEvent(new CustomEvent<SimulationReport>(SIMULATION_EVENT, { detail: report }));
+
+  return simulations;
+};
@@ -0,0 +1,289 @@
+import { loadConfigFromCookies } from '../Utils';
+import { getSubmittedTransactions, WalletConfirmation } from './bundleTracker';
+
+/**
+ * Spending guardrails for everything that spends SOL (buys, custom buys, automation, deploy buys).
+ * Limits come from the config; an empty value disables a limit. Operations that would exceed a
+ * limit are held until the user explicitly overrides them in the dialog hosted by the app.
+ * Only SOL that was actually spent counts toward the daily and session totals; while an operation
+ * is in flight its amount is reserved, so repeated clicks and engine ticks cannot pass the limits
+ * before the first spend lands.
+ */
+
+// Constants
+const SPENDING_LEDGER_KEY = 'spendingLedger';
+const SESSION_SPENDING_KEY = 'spendingSession'; // sessionStorage, cleared when the tab closes
+const RESERVATION_TTL_MS = 10 * 60 * 1000; // Longest an unsettled reservation holds back the limits
+
+// Interfaces
+export interface SpendingLimits {
+  maxSolPerWallet: number; // 0 = no limit
+  maxSolPerOperation: number;
+  maxSolPerDay: number;
+  maxSolPerSession: number;
+  maxBalancePercent: number;
+}
+
+export interface WalletSpend {
+  address: string;
+  amount: number; // SOL
+}
+
+export interface SpendingRequest {
+  operation: string; // Shown in the dialog, e.g. 'Buy'
+  spends: WalletSpend[];
+  reservation?: string; // Reserve under this id (from createSpendingReservation) instead of a new one
+}
+
+export interface SpendingViolation {
+  limit: keyof SpendingLimits;
+  message: string;
+}
+
+export interface SpendingOverrideRequest {
+  operation: string;
+  total: number;
+  violations: SpendingViolation[];
+}
+
+export type SpendingOverrideHandler = (request: SpendingOverrideRequest) => Promise<boolean>;
+
+interface SpendingLedger {
+  day: string; // Local date, YYYY-MM-DD
+  spent: number;
+}
+
+interface SpendingReservation {
+  spends: WalletSpend[];
+  expiresAt: number;
+}
+
+// Module state: balances fed by the app, the dialog that asks for overrides and in-flight spends
+let knownBalances = new Map<string, number>();
+let overrideHandler: SpendingOverrideHandler | null = null;
+const reservations = new Map<string, SpendingReservation>();
+
+const parseLimit = (value?: string): number => {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) || parsed <= 0 ? 0 : parsed;
+};
+
+const getToday = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const loadLedger = (): SpendingLedger => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SPENDING_LEDGER_KEY) || 'null');
+    if (saved && saved.day === getToday()) {
+      return saved;
+    }
+  } catch (error) {
+    console.error('Error reading spending ledger:', error);
+  }
+  return { day: getToday(), spent: 0 };
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Current limits from the config
+ */
+export const getSpendingLimits = (): SpendingLimits => {
+  const config = loadConfigFromCookies();
+  return {
+    maxSolPerWallet: parseLimit(config?.maxSolPerWallet),
+    maxSolPerOperation: parseLimit(config?.maxSolPerOperation),
+    maxSolPerDay: parseLimit(config?.maxSolPerDay),
+    maxSolPerSession: parseLimit(config?.maxSolPerSession),
+    maxBalancePercent: parseLimit(config?.maxBalancePercent)
+  };
+};
+
+/**
+ * SOL spent today through guarded operations
+ */
+export const getSpentToday = (): number => loadLedger().spent;
+
+/**
+ * SOL spent since the app was opened in this tab
+ */
+export const getSpentThisSession = (): number => {
+  const spent = parseFloat(sessionStorage.getItem(SESSION_SPENDING_KEY) || '0');
+  return isNaN(spent) ? 0 : spent;
+};
+
+/**
+ * SOL reserved by operations that are still in flight
+ */
+export const getReservedSpending = (): number => {
+  const now = Date.now();
+  let reserved = 0;
+  reservations.forEach((reservation, id) => {
+    if (reservation.expiresAt <= now) {
+      reservations.delete(id);
+      return;
+    }
+    reserved += reservation.spends.reduce((sum, spend) => sum + spend.amount, 0);
+  });
+  return reserved;
+};
+
+/**
+ * New id to reserve an operation's spends under, for callers that settle the
+ * reservation in a different place than where the limits are checked
+ */
+export const createSpendingReservation = (): string => {
+  return `reservation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Drop a reservation whose operation failed or was never sent
+ */
+export const releaseSpendingReservation = (reservation?: string): void => {
+  if (reservation) {
+    reservations.delete(reservation);
+  }
+};
+
+/**
+ * Add to today's and this session's spending
+ */
+export const recordSpending = (amount: number): void => {
+  const ledger = loadLedger();
+  ledger.spent += amount;
+  localStorage.setItem(SPENDING_LEDGER_KEY, JSON.stringify(ledger));
+  sessionStorage.setItem(SESSION_SPENDING_KEY, String(getSpentThisSession() + amount));
+};
+
+/**
+ * Settle a reservation once its transactions are tracked: the spends of wallets that
+ * landed count, those of failed or dropped wallets are released
+ */
+export const recordLandedSpending = (reservation: string | undefined, confirmations: WalletConfirmation[]): void => {
+  const spends = reservations.get(reservation || '')?.spends || [];
+  releaseSpendingReservation(reservation);
+  const landed = new Set(confirmations.filter(confirmation => confirmation.status === 'landed').map(confirmation => confirmation.wallet));
+  const total = spends.filter(spend => landed.has(spend.address)).reduce((sum, spend) => sum + spend.amount, 0);
+  if (total > 0) {
+    recordSpending(total);
+  }
+};
+
+/**
+ * Settle the reservation of an operation whose transactions are not tracked (token deploys)
+ * Failed operations and dry runs submitted nothing, so they are released without counting.
+ */
+export const recordSubmittedSpending = (reservation: string | undefined, outcome: { success: boolean; result?: any }): void => {
+  const spends = reservations.get(reservation || '')?.spends || [];
+  releaseSpendingReservation(reservation);
+  if (!outcome.success || getSubmittedTransactions(outcome.result).length === 0) return;
+  const total = spends.reduce((sum, spend) => sum + spend.amount, 0);
+  if (total > 0) {
+    recordSpending(total);
+  }
+};
+
+/**
+ * Update the SOL balances used by the balance percentage limit
+ */
+export const setSpendingBalances = (balances: Map<string, number>): void => {
+  knownBalances = balances;
+};
+
+/**
+ * Register the dialog that lets the user override a limit (null to unregister)
+ */
+export const setSpendingOverrideHandler = (handler: SpendingOverrideHandler | null): void => {
+  overrideHandler = handler;
+};
+
+/**
+ * List every limit a request would exceed
+ */
+export const checkSpendingLimits = (
+  request: SpendingRequest,
+  limits: SpendingLimits = getSpendingLimits()
+): SpendingViolation[] => {
+  const violations: SpendingViolation[] = [];
+  const total = request.spends.reduce((sum, spend) => sum + spend.amount, 0);
+
+  for (const spend of request.spends) {
+    if (limits.maxSolPerWallet > 0 && spend.amount > limits.maxSolPerWallet) {
+      violations.push({
+        limit: 'maxSolPerWallet',
+        message: `${shortAddress(spend.address)} would spend ${spend.amount} SOL (limit ${limits.maxSolPerWallet} SOL per wallet)`
+      });
+    }
+
+    const balance = knownBalances.get(spend.address);
+    if (limits.maxBalancePercent > 0 && balance !== undefined && balance > 0) {
+      const percent = (spend.amount / balance) * 100;
+      if (percent > limits.maxBalancePercent) {
+        violations.push({
+          limit: 'maxBalancePercent',
+          message: `${shortAddress(spend.address)} would spend ${percent.toFixed(1)}% of its balance (limit ${limits.maxBalancePercent}%)`
+        });
+      }
+    }
+  }
+
+  if (limits.maxSolPerOperation > 0 && total > limits.maxSolPerOperation) {
+    violations.push({
+      limit: 'maxSolPerOperation',
+      message: `${request.operation} would spend ${total.toFixed(4)} SOL in total (limit ${limits.maxSolPerOperation} SOL per operation)`
+    });
+  }
+
+  // Spends still in flight count as if they had already landed
+  const reserved = getReservedSpending();
+  const inFlight = reserved > 0 ? ` (${reserved.toFixed(4)} SOL of it in flight)` : '';
+
+  if (limits.maxSolPerDay > 0) {
+    const spentToday = getSpentToday() + reserved;
+    if (spentToday + total > limits.maxSolPerDay) {
+      violations.push({
+        limit: 'maxSolPerDay',
+        message: `${spentToday.toFixed(4)} SOL already spent today${inFlight}, ${total.toFixed(4)} SOL more would pass the daily limit of ${limits.maxSolPerDay} SOL`
+      });
+    }
+  }
+
+  if (limits.maxSolPerSession > 0) {
+    const spentThisSession = getSpentThisSession() + reserved;
+    if (spentThisSession + total > limits.maxSolPerSession) {
+      violations.push({
+        limit: 'maxSolPerSession',
+        message: `${spentThisSession.toFixed(4)} SOL already spent this session${inFlight}, ${total.toFixed(4)} SOL more would pass the session limit of ${limits.maxSolPerSession} SOL`
+      });
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Check a request against the limits before anything is submitted and reserve its amount
+ * Exceeded limits need an explicit override from the user; without one (or without a dialog
+ * to ask) this throws. Returns the reservation, which callers settle with recordLandedSpending or
+ * recordSubmittedSpending once the result is known, or release if nothing is sent.
+ */
+export const enforceSpendingLimits = async (request: SpendingRequest): Promise<string> => {
+  const total = request.spends.reduce((sum, spend) => sum + spend.amount, 0);
+  const violations = checkSpendingLimits(request);
+
+  if (violations.length > 0) {
+    const approved = overrideHandler
+      ? await overrideHandler({ operation: request.operation, total, violations })
+      : false;
+    if (!approved) {
+      throw new Error(`Spending limit exceeded: ${violations.map(violation => violation.message).join('; ')}`);
+    }
+    console.warn(`[SpendingLimits] ${request.operation} overridden by the user:`, violations);
+  }
+
+  const reservation = request.reservation || createSpendingReservation();
+  reservations.set(reservation, { spends: request.spends, expiresAt: Date.now() + RESERVATION_TTL_MS });
+  return reservation;
+};
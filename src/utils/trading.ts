@@ -1,6 +1,15 @@
 import { WalletType } from '../Utils';
 import { executeBuy, createBuyConfig, BuyConfig, BundleMode } from './buy';
 import { executeSell, createSellConfig, SellConfig } from './sell';
+import {
+  getSubmittedTransactions,
+  trackConfirmations,
+  summarizeConfirmations,
+  formatConfirmationSummary,
+  WalletConfirmation
+} from './bundleTracker';
+import { appendJournalEntry, JournalInput } from './journal';
+import { recordLandedSpending, releaseSpendingReservation } from './spendingLimits';
 
 export interface TradingConfig {
   tokenAddress: string;
@@ -10,6 +19,7 @@ export interface TradingConfig {
   bundleMode?: BundleMode;
   batchDelay?: number;
   singleDelay?: number;
+  journal?: Pick<JournalInput, 'operation' | 'details'>; // Journal the trade as something else, e.g. an automation action
 }
 
 export interface FormattedWallet {
@@ -20,8 +30,50 @@ export interface FormattedWallet {
 export interface TradingResult {
   success: boolean;
   error?: string;
+  confirmations?: WalletConfirmation[]; // Final on-chain outcome per wallet (landed/failed/dropped)
 }
 
+// Wait for the submitted bundles to land and attach the per-wallet outcome
+const trackTradeResult = async (result: { success: boolean; result?: any; error?: string }): Promise<TradingResult> => {
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const submitted = getSubmittedTransactions(result.result);
+  if (submitted.length === 0) {
+    // Nothing to track (e.g. server-side submission without signatures)
+    return { success: true, error: result.error };
+  }
+
+  const confirmations = await trackConfirmations(submitted);
+  const summary = summarizeConfirmations(confirmations);
+
+  return {
+    success: summary.landed > 0,
+    error: summary.landed === confirmations.length ? result.error : formatConfirmationSummary(confirmations),
+    confirmations
+  };
+};
+
+// Same as above, and record the final outcome in the operation journal when given the trade details
+// A buy's spending reservation is settled here: the SOL of wallets that landed counts toward the
+// spending limits, the rest (and untracked dry runs) is released
+export const confirmTradeResult = async (
+  result: { success: boolean; result?: any; error?: string; spendingReservation?: string },
+  journal?: JournalInput
+): Promise<TradingResult> => {
+  const tradeResult = await trackTradeResult(result);
+  if (tradeResult.confirmations) {
+    recordLandedSpending(result.spendingReservation, tradeResult.confirmations);
+  } else {
+    releaseSpendingReservation(result.spendingReservation);
+  }
+  if (journal) {
+    await appendJournalEntry(journal, { ...tradeResult, result: result.result });
+  }
+  return tradeResult;
+};
+
 // Unified buy function using the new buy.ts
 const executeUnifiedBuy = async (
   wallets: FormattedWallet[],
@@ -30,6 +82,16 @@ const executeUnifiedBuy = async (
   slippageBps?: number,
   jitoTipLamports?: number
 ): Promise<TradingResult> => {
+  // Journaled with its final status whether it lands, fails or is refused before sending
+  const journal: JournalInput = {
+    operation: config.journal?.operation || 'buy',
+    tokenAddress: config.tokenAddress,
+    wallets: wallets.map(wallet => wallet.address),
+    amounts: wallets.map(wallet => ({ wallet: wallet.address, amount: config.solAmount!, unit: 'SOL' })),
+    tipLamports: jitoTipLamports,
+    details: config.journal?.details || `Buy via ${protocol}`
+  };
+
   try {
     // Load config once for all settings
     const { loadConfigFromCookies } = await import('../Utils');
@@ -82,12 +144,15 @@ const executeUnifiedBuy = async (
     });
 
     console.log('Calling executeBuy with config:', buyConfig);
+    journal.tipLamports = finalJitoTipLamports;
     const result = await executeBuy(wallets, buyConfig);
     console.log('executeBuy result:', result);
-    return result;
+    return await confirmTradeResult(result, journal);
   } catch (error) {
     console.error('executeUnifiedBuy error:', error);
-    return { success: false, error: error.message };
+    const failure = { success: false, error: error.message };
+    await appendJournalEntry(journal, failure);
+    return failure;
   }
 };
 
@@ -100,6 +165,18 @@ const executeUnifiedSell = async (
   outputMint?: string,
   jitoTipLamports?: number
 ): Promise<TradingResult> => {
+  // Journaled with its final status whether it lands, fails or is refused before sending
+  const journal: JournalInput = {
+    operation: config.journal?.operation || 'sell',
+    tokenAddress: config.tokenAddress,
+    wallets: wallets.map(wallet => wallet.address),
+    amounts: config.tokensAmount !== undefined
+      ? [{ amount: config.tokensAmount, unit: 'tokens' }]
+      : [{ amount: config.sellPercent || 0, unit: '%' }],
+    tipLamports: jitoTipLamports,
+    details: config.journal?.details || `Sell via ${protocol}`
+  };
+
   try {
     // Load config once for all settings
     const { loadConfigFromCookies } = await import('../Utils');
@@ -148,9 +225,13 @@ const executeUnifiedSell = async (
       singleDelay: finalSingleDelay
     });
 
-    return await executeSell(wallets, sellConfig);
+    journal.tipLamports = finalJitoTipLamports;
+    const result = await executeSell(wallets, sellConfig);
+    return await confirmTradeResult(result, journal);
   } catch (error) {
-    return { success: false, error: error.message };
+    const failure = { success: false, error: error.message };
+    await appendJournalEntry(journal, failure);
+    return failure;
   }
 };
 
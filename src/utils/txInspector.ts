@@ -0,0 +1,449 @@
+import { PublicKey, VersionedTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { loadConfigFromCookies } from '../Utils';
+import { getSimulationConnection, simulateVersionedTransaction } from './simulation';
+
+/**
+ * Client-side inspection of server-built transactions.
+ * Every transaction is decoded before our keypairs sign it: top-level programs must be
+ * on the allowlist for the operation, and SOL leaving our wallets (System transfers,
+ * account creation, token account closes) must go to expected recipients and stay
+ * within the requested amount plus the Jito tip. SOL that programs move on their own
+ * (swaps) is bounded by the instruction's max cost where it can be decoded, and by
+ * simulating the balance change for trades. Anything else refuses the signing.
+ */
+
+// Base programs every operation may use
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const ASSOCIATED_TOKEN_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111';
+const MEMO_PROGRAM = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const BASE_PROGRAMS = [
+  SYSTEM_PROGRAM,
+  TOKEN_PROGRAM,
+  TOKEN_2022_PROGRAM,
+  ASSOCIATED_TOKEN_PROGRAM,
+  COMPUTE_BUDGET_PROGRAM,
+  MEMO_PROGRAM
+];
+
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT'
+];
+
+// DEX and launchpad programs by protocol
+const PROTOCOL_PROGRAMS: Record<string, string[]> = {
+  pumpfun: ['6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P'],
+  pumpswap: ['pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA'],
+  moonshot: ['MoonCVVNZFSYkqNXP6bxHLPL6QQJiMagDL3qcqUQTrG'],
+  launchpad: ['LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj'],
+  boopfun: ['boop8hVGQGqehUK2iVEMEnMrL5RbjywRzHKBmBE7ry4'],
+  raydium: [
+    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', // AMM v4
+    'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C', // CPMM
+    'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK' // CLMM
+  ],
+  meteora: [
+    'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo', // DLMM
+    'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB', // DAMM v1
+    'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG', // DAMM v2
+    'dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN' // Dynamic bonding curve
+  ],
+  heaven: ['HEAVEnMX7RoaYCucpyFterLWzFJR8Ah26oNSnqBs5Jtn'],
+  jupiter: ['JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4']
+};
+
+// Token metadata is created by every launchpad
+const METADATA_PROGRAM = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+// pump.fun buy: amount (u64) and max SOL cost (u64) after the discriminator, buyer at account 6
+const PUMPFUN_PROGRAM = PROTOCOL_PROGRAMS.pumpfun[0];
+const PUMPFUN_BUY_DISCRIMINATOR = [102, 6, 61, 18, 1, 218, 235, 234];
+
+// Signature fee and the compute unit limit used when a transaction does not set one
+const SIGNATURE_FEE_LAMPORTS = 5000;
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Account creation rent a wallet may pay on top of the requested amount
+const RENT_ALLOWANCE_LAMPORTS = 0.01 * LAMPORTS_PER_SOL;
+
+// Interfaces
+export interface InspectionExpectation {
+  operation: string; // Shown in the report, e.g. 'buy'
+  programs: string[]; // Protocol programs allowed on top of the base set
+  maxSolOut?: Record<string, number>; // Max SOL (excluding tip) each signing wallet may send; unset = not capped
+  recipients?: string[]; // Addresses our wallets may send SOL to besides their own accounts and tip accounts
+  tipLamports?: number; // Max Jito tip per bundle
+  bundleCount?: number; // Bundles the inspected transactions are sent in (default 1), for the tip cap
+  allowCoSigners?: boolean; // Addresses that already signed a transaction (backend intermediate wallets) may receive SOL
+}
+
+export interface InspectionReport {
+  operation: string;
+  transactionCount: number;
+  issues: string[];
+  outflows: Record<string, number>; // SOL sent by each signing wallet, tips excluded
+  tips: number; // SOL paid to tip accounts
+}
+
+/**
+ * Programs allowed for a trading protocol ('auto' may route through any of them)
+ */
+export const getProtocolPrograms = (protocol: string): string[] => {
+  if (protocol === 'auto' || !PROTOCOL_PROGRAMS[protocol]) {
+    return Object.values(PROTOCOL_PROGRAMS).flat();
+  }
+  return PROTOCOL_PROGRAMS[protocol];
+};
+
+/**
+ * Programs allowed for a token launch on a launchpad, including the dev buy
+ */
+export const getLaunchpadPrograms = (launchpad: string): string[] => {
+  return [...getProtocolPrograms(launchpad), METADATA_PROGRAM];
+};
+
+/**
+ * Jito tip allowed per bundle: the explicit tip, or the transaction fee from the config
+ */
+export const getTipAllowanceLamports = (jitoTipLamports?: number): number => {
+  if (jitoTipLamports !== undefined) return jitoTipLamports;
+  const feeInSol = loadConfigFromCookies()?.transactionFee || '0.005';
+  return Math.floor(parseFloat(feeInSol) * LAMPORTS_PER_SOL);
+};
+
+// Programs and recipients the user trusts on top of the built-in allowlist (Settings > Security)
+const getTrustedAddresses = (): string[] => {
+  const value = loadConfigFromCookies()?.trustedAddresses || '';
+  return value.split(/[\s,]+/).map(address => address.trim()).filter(Boolean);
+};
+
+const readU32 = (data: Uint8Array, offset: number): number => {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, true);
+};
+
+const readU64 = (data: Uint8Array, offset: number): number => {
+  return Number(new DataView(data.buffer, data.byteOffset, data.byteLength).getBigUint64(offset, true));
+};
+
+// Wrapped SOL accounts of a wallet count as the wallet itself
+const getWrappedSolAccounts = (owner: string): string[] => {
+  const ownerKey = new PublicKey(owner);
+  return [TOKEN_PROGRAM, TOKEN_2022_PROGRAM].map(tokenProgram =>
+    PublicKey.findProgramAddressSync(
+      [ownerKey.toBuffer(), new PublicKey(tokenProgram).toBuffer(), new PublicKey(WSOL_MINT).toBuffer()],
+      new PublicKey(ASSOCIATED_TOKEN_PROGRAM)
+    )[0].toBase58()
+  );
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Inspect transactions that our wallets are about to sign
+ * Outflows are summed per wallet across all transactions, since one wallet's
+ * amount may be spread over several transactions of the same bundle
+ */
+export const inspectTransactions = (
+  transactions: VersionedTransaction[],
+  signerAddresses: string[],
+  expectation: InspectionExpectation
+): InspectionReport => {
+  const trusted = getTrustedAddresses();
+  const allowedPrograms = new Set([...BASE_PROGRAMS, ...expectation.programs, ...trusted]);
+  const signers = new Set(signerAddresses);
+  const ownAccounts = new Set(signerAddresses);
+  signerAddresses.forEach(address => getWrappedSolAccounts(address).forEach(account => ownAccounts.add(account)));
+  const recipients = new Set([...(expectation.recipients || []), ...trusted]);
+  const tipAccounts = new Set(JITO_TIP_ACCOUNTS);
+
+  const issues: string[] = [];
+  const outflowLamports: Record<string, number> = {};
+  let tipLamportsTotal = 0;
+
+  transactions.forEach((transaction, txIndex) => {
+    const label = `tx ${txIndex + 1}`;
+    const message = transaction.message;
+    const staticKeys = message.staticAccountKeys.map(key => key.toBase58());
+    const keyAt = (index: number): string | null => index < staticKeys.length ? staticKeys[index] : null;
+    let txTipLamports = 0;
+
+    const coSigners = new Set<string>();
+    if (expectation.allowCoSigners) {
+      transaction.signatures.forEach((signature, index) => {
+        if (signature.some(byte => byte !== 0) && !signers.has(staticKeys[index])) {
+          coSigners.add(staticKeys[index]);
+        }
+      });
+    }
+
+    const addOutflow = (from: string, to: string | null, lamports: number, kind: string) => {
+      if (!signers.has(from) || lamports <= 0) return;
+
+      if (to && tipAccounts.has(to)) {
+        txTipLamports += lamports;
+        return;
+      }
+      if (!to) {
+        issues.push(`${label}: ${kind} of ${lamports / LAMPORTS_PER_SOL} SOL from ${shortAddress(from)} to an address that cannot be verified (lookup table)`);
+      } else if (!ownAccounts.has(to) && !recipients.has(to) && !coSigners.has(to)) {
+        issues.push(`${label}: ${kind} of ${lamports / LAMPORTS_PER_SOL} SOL from ${shortAddress(from)} to unexpected address ${to}`);
+      }
+      outflowLamports[from] = (outflowLamports[from] || 0) + lamports;
+    };
+
+    message.compiledInstructions.forEach((instruction, ixIndex) => {
+      const programId = keyAt(instruction.programIdIndex);
+      const accounts = instruction.accountKeyIndexes.map(keyAt);
+      const data = instruction.data;
+
+      if (!programId || !allowedPrograms.has(programId)) {
+        issues.push(`${label}: instruction ${ixIndex + 1} calls unexpected program ${programId || '(lookup table)'}`);
+        return;
+      }
+
+      if (programId === PUMPFUN_PROGRAM && data.length >= 24 && PUMPFUN_BUY_DISCRIMINATOR.every((byte, index) => data[index] === byte)) {
+        const buyer = accounts[6];
+        if (buyer && signers.has(buyer)) {
+          outflowLamports[buyer] = (outflowLamports[buyer] || 0) + readU64(data, 16);
+        }
+      }
+
+      if (programId === SYSTEM_PROGRAM && data.length >= 4) {
+        const type = readU32(data, 0);
+        switch (type) {
+          case 0: // CreateAccount
+            addOutflow(accounts[0] || '', accounts[1], readU64(data, 4), 'account creation');
+            break;
+          case 2: // Transfer
+            addOutflow(accounts[0] || '', accounts[1], readU64(data, 4), 'transfer');
+            break;
+          case 3: { // CreateAccountWithSeed
+            const seedLength = readU64(data, 36);
+            addOutflow(accounts[0] || '', accounts[1], readU64(data, 44 + seedLength), 'account creation');
+            break;
+          }
+          case 11: // TransferWithSeed - funded by the base account
+            addOutflow(accounts[1] || '', accounts[2], readU64(data, 4), 'transfer');
+            break;
+          case 1: // Assign
+          case 8: // Allocate
+          case 9: // AllocateWithSeed
+          case 10: // AssignWithSeed
+            if (accounts[0] && signers.has(accounts[0])) {
+              issues.push(`${label}: reassigns wallet ${shortAddress(accounts[0])} to another program`);
+            }
+            break;
+          default:
+            issues.push(`${label}: unexpected System instruction ${type}`);
+        }
+      }
+
+      if ((programId === TOKEN_PROGRAM || programId === TOKEN_2022_PROGRAM) && data.length >= 1) {
+        switch (data[0]) {
+          case 3: // Transfer
+          case 12: { // TransferChecked
+            const owner = data[0] === 3 ? accounts[2] : accounts[3];
+            if (owner && signers.has(owner)) {
+              issues.push(`${label}: transfers tokens out of ${shortAddress(owner)}`);
+            }
+            break;
+          }
+          case 4: // Approve
+          case 13: { // ApproveChecked
+            const owner = data[0] === 4 ? accounts[2] : accounts[3];
+            if (owner && signers.has(owner)) {
+              issues.push(`${label}: approves a delegate on a token account of ${shortAddress(owner)}`);
+            }
+            break;
+          }
+          case 6: // SetAuthority
+            if (accounts[1] && signers.has(accounts[1])) {
+              issues.push(`${label}: changes the authority of an account owned by ${shortAddress(accounts[1])}`);
+            }
+            break;
+          case 9: { // CloseAccount - the rent goes to the destination
+            const destination = accounts[1];
+            if (accounts[2] && signers.has(accounts[2]) && (!destination || (!ownAccounts.has(destination) && !recipients.has(destination)))) {
+              issues.push(`${label}: closes a token account of ${shortAddress(accounts[2])} into ${destination || 'an unverifiable address'}`);
+            }
+            break;
+          }
+        }
+      }
+    });
+
+    tipLamportsTotal += txTipLamports;
+  });
+
+  // Every transaction of a bundle may carry a tip, so the cap applies to their total
+  if (expectation.tipLamports !== undefined) {
+    const bundleCount = Math.max(1, expectation.bundleCount || 1);
+    const maxTipLamports = expectation.tipLamports * bundleCount;
+    if (tipLamportsTotal > maxTipLamports) {
+      issues.push(`tips of ${tipLamportsTotal / LAMPORTS_PER_SOL} SOL exceed the configured ${expectation.tipLamports / LAMPORTS_PER_SOL} SOL per bundle (${bundleCount} bundle${bundleCount === 1 ? '' : 's'})`);
+    }
+  }
+
+  if (expectation.maxSolOut) {
+    for (const [wallet, lamports] of Object.entries(outflowLamports)) {
+      const maxLamports = Math.floor((expectation.maxSolOut[wallet] || 0) * LAMPORTS_PER_SOL) + RENT_ALLOWANCE_LAMPORTS;
+      if (lamports > maxLamports) {
+        issues.push(`${shortAddress(wallet)} would send ${lamports / LAMPORTS_PER_SOL} SOL, expected at most ${(expectation.maxSolOut[wallet] || 0)} SOL plus tip`);
+      }
+    }
+  }
+
+  const outflows: Record<string, number> = {};
+  Object.entries(outflowLamports).forEach(([wallet, lamports]) => {
+    outflows[wallet] = lamports / LAMPORTS_PER_SOL;
+  });
+
+  return {
+    operation: expectation.operation,
+    transactionCount: transactions.length,
+    issues,
+    outflows,
+    tips: tipLamportsTotal / LAMPORTS_PER_SOL
+  };
+};
+
+/**
+ * Format a failed inspection for error messages and toasts
+ */
+export const formatInspectionReport = (report: InspectionReport): string => {
+  const shown = report.issues.slice(0, 5);
+  const more = report.issues.length > shown.length ? ` (+${report.issues.length - shown.length} more)` : '';
+  return `Signing refused for ${report.operation}: ${shown.join('; ')}${more}`;
+};
+
+/**
+ * Inspect transactions and throw before signing if anything does not match
+ */
+export const assertTransactionsSafe = (
+  transactions: VersionedTransaction[],
+  signerAddresses: string[],
+  expectation: InspectionExpectation
+): InspectionReport => {
+  const report = inspectTransactions(transactions, signerAddresses, expectation);
+  if (report.issues.length > 0) {
+    console.error('[TransactionInspector] Refusing to sign:', report);
+    throw new Error(formatInspectionReport(report));
+  }
+  return report;
+};
+
+/**
+ * Decode base58 transactions and inspect them before any of them is signed
+ */
+export const assertEncodedTransactionsSafe = (
+  encodedTransactions: string[],
+  signerAddresses: string[],
+  expectation: InspectionExpectation
+): InspectionReport => {
+  const transactions = encodedTransactions
+    .filter(Boolean)
+    .map(txBase58 => VersionedTransaction.deserialize(bs58.decode(txBase58)));
+  return assertTransactionsSafe(transactions, signerAddresses, expectation);
+};
+
+// Network fee a transaction may charge its fee payer: signatures plus the priority fee
+const getMaxFeeLamports = (transaction: VersionedTransaction): number => {
+  const message = transaction.message;
+  const staticKeys = message.staticAccountKeys.map(key => key.toBase58());
+  let unitLimit: number | null = null;
+  let microLamportsPerUnit = 0;
+  let otherInstructions = 0;
+  message.compiledInstructions.forEach(instruction => {
+    const data = instruction.data;
+    if (staticKeys[instruction.programIdIndex] !== COMPUTE_BUDGET_PROGRAM) {
+      otherInstructions++;
+    } else if (data[0] === 2 && data.length >= 5) { // SetComputeUnitLimit
+      unitLimit = readU32(data, 1);
+    } else if (data[0] === 3 && data.length >= 9) { // SetComputeUnitPrice
+      microLamportsPerUnit = readU64(data, 1);
+    }
+  });
+  const units = unitLimit ?? Math.min(otherInstructions * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS);
+  return message.header.numRequiredSignatures * SIGNATURE_FEE_LAMPORTS + Math.ceil(units * microLamportsPerUnit / 1_000_000);
+};
+
+/**
+ * Simulate transactions and refuse signing when a capped wallet's balance would drop by
+ * more than its cap plus tip, rent and fees. This bounds SOL that DEX programs move
+ * inside their own calls, which the instruction checks cannot see.
+ * Transactions are simulated independently, so only use this for bundles whose
+ * transactions do not depend on each other (trades, not launches)
+ */
+export const assertSimulatedOutflowsSafe = async (
+  transactions: VersionedTransaction[],
+  signerAddresses: string[],
+  expectation: InspectionExpectation
+): Promise<void> => {
+  if (!expectation.maxSolOut) return;
+
+  const signers = new Set(signerAddresses);
+  const connection = getSimulationConnection();
+  const issues: string[] = [];
+  const decreaseLamports: Record<string, number> = {};
+  const feeLamports: Record<string, number> = {};
+
+  for (let txIndex = 0; txIndex < transactions.length; txIndex++) {
+    const transaction = transactions[txIndex];
+    const simulation = await simulateVersionedTransaction(connection, transaction);
+    if (!simulation.success) {
+      issues.push(`tx ${txIndex + 1}: simulation failed (${simulation.error || 'unknown error'}), so its SOL outflow cannot be verified`);
+      continue;
+    }
+    const feePayer = transaction.message.staticAccountKeys[0].toBase58();
+    feeLamports[feePayer] = (feeLamports[feePayer] || 0) + getMaxFeeLamports(transaction);
+    simulation.balanceChanges.forEach(change => {
+      if (!signers.has(change.address)) return;
+      decreaseLamports[change.address] = (decreaseLamports[change.address] || 0) - Math.round(change.change * LAMPORTS_PER_SOL);
+    });
+  }
+
+  const tipAllowance = (expectation.tipLamports || 0) * Math.max(1, expectation.bundleCount || 1);
+  for (const [wallet, lamports] of Object.entries(decreaseLamports)) {
+    const cap = expectation.maxSolOut[wallet] || 0;
+    const maxLamports = Math.floor(cap * LAMPORTS_PER_SOL) + RENT_ALLOWANCE_LAMPORTS + tipAllowance + (feeLamports[wallet] || 0);
+    if (lamports > maxLamports) {
+      issues.push(`${shortAddress(wallet)} would lose ${lamports / LAMPORTS_PER_SOL} SOL in simulation, expected at most ${cap} SOL plus tip and fees`);
+    }
+  }
+
+  if (issues.length > 0) {
+    const report: InspectionReport = {
+      operation: expectation.operation,
+      transactionCount: transactions.length,
+      issues,
+      outflows: Object.fromEntries(Object.entries(decreaseLamports).map(([wallet, lamports]) => [wallet, lamports / LAMPORTS_PER_SOL])),
+      tips: 0
+    };
+    console.error('[TransactionInspector] Refusing to sign after simulation:', report);
+    throw new Error(formatInspectionReport(report));
+  }
+};
+
+/**
+ * Per-wallet SOL caps from (address, amount) pairs, summing wallets that appear more than once
+ */
+export const getAmountCaps = (entries: { address: string; amount: number }[]): Record<string, number> => {
+  const caps: Record<string, number> = {};
+  entries.forEach(({ address, amount }) => {
+    caps[address] = (caps[address] || 0) + (amount || 0);
+  });
+  return caps;
+};
@@ -0,0 +1,187 @@
+/**
+ * Password-derived wallet vault.
+ * The AES-GCM key is derived from the user's master password with PBKDF2 and a
+ * per-install salt. The derived key only lives in memory while the vault is
+ * unlocked; nothing that can decrypt the wallets is ever written to storage.
+ */
+
+// Constants
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const INSTALL_SALT_KEY = 'vault_salt';
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Interfaces
+export interface VaultRecord {
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+// Session state - cleared when the vault locks
+let sessionKey: CryptoKey | null = null;
+let sessionSalt: Uint8Array | null = null;
+let sessionIterations = PBKDF2_ITERATIONS;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Get the per-install salt, generating it on first use
+ */
+const getInstallSalt = (): Uint8Array => {
+  const saved = localStorage.getItem(INSTALL_SALT_KEY);
+  if (saved) {
+    return fromBase64(saved);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  localStorage.setItem(INSTALL_SALT_KEY, toBase64(salt));
+  return salt;
+};
+
+/**
+ * Derive the AES-GCM vault key from a password
+ */
+export const deriveVaultKey = async (
+  password: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt plaintext into a vault record with the given key
+ */
+export const encryptWithKey = async (
+  key: CryptoKey,
+  plaintext: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<VaultRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    version: VAULT_VERSION,
+    kdf: 'PBKDF2-SHA256',
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+/**
+ * Decrypt a vault record with the given key
+ * AES-GCM authenticates the ciphertext, so a wrong password always throws
+ */
+export const decryptWithKey = async (key: CryptoKey, record: VaultRecord): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(record.iv) },
+      key,
+      fromBase64(record.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    throw new Error('Incorrect password');
+  }
+};
+
+/**
+ * Start a new vault session with a freshly chosen master password
+ */
+export const createVaultSession = async (password: string): Promise<void> => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const salt = getInstallSalt();
+  sessionKey = await deriveVaultKey(password, salt);
+  sessionSalt = salt;
+  sessionIterations = PBKDF2_ITERATIONS;
+};
+
+/**
+ * Unlock an existing vault record and keep its key for the session
+ */
+export const unlockVaultSession = async (password: string, record: VaultRecord): Promise<string> => {
+  const salt = fromBase64(record.salt);
+  const key = await deriveVaultKey(password, salt, record.iterations);
+  const plaintext = await decryptWithKey(key, record);
+
+  sessionKey = key;
+  sessionSalt = salt;
+  sessionIterations = record.iterations;
+  return plaintext;
+};
+
+/**
+ * Encrypt plaintext with the unlocked session key
+ */
+export const sealVaultData = async (plaintext: string): Promise<VaultRecord> => {
+  if (!sessionKey || !sessionSalt) {
+    throw new Error('Vault is locked');
+  }
+  return encryptWithKey(sessionKey, plaintext, sessionSalt, sessionIterations);
+};
+
+/**
+ * Forget the derived key
+ */
+export const lockVaultSession = (): void => {
+  sessionKey = null;
+  sessionSalt = null;
+  sessionIterations = PBKDF2_ITERATIONS;
+};
+
+export const isVaultSessionUnlocked = (): boolean => {
+  return sessionKey !== null;
+};
+
+/**
+ * Check that a parsed value looks like a vault record
+ */
+export const isVaultRecord = (value: any): value is VaultRecord => {
+  return !!value &&
+    typeof value === 'object' &&
+    typeof value.salt === 'string' &&
+    typeof value.iv === 'string' &&
+    typeof value.data === 'string' &&
+    typeof value.iterations === 'number';
+};
@@ -0,0 +1,186 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { WalletType } from '../Utils';
+import {
+  VaultRecord,
+  MIN_PASSWORD_LENGTH,
+  deriveVaultKey,
+  encryptWithKey,
+  decryptWithKey,
+  isVaultRecord
+} from './vault';
+
+/**
+ * Password-encrypted wallet backups.
+ * Every backup gets its own random salt, so the backup password is independent of
+ * the master password and a leaked backup reveals nothing about the local vault.
+ */
+
+// Constants
+const BACKUP_FORMAT = 'arca-wallet-backup';
+const BACKUP_VERSION = 1;
+const SALT_BYTES = 16;
+
+// Interfaces
+export interface WalletBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  walletCount: number;
+  vault: VaultRecord;
+}
+
+export interface WalletRestoreResult {
+  wallets: WalletType[]; // Existing wallets with the restored ones merged in
+  added: number;
+  duplicates: string[]; // Addresses already present before the restore
+  mismatched: string[]; // Addresses whose restored private key belongs to another wallet, skipped
+}
+
+/**
+ * Check whether parsed JSON is one of our backup files
+ */
+export const isWalletBackup = (data: any): data is WalletBackupFile => {
+  return !!data && data.format === BACKUP_FORMAT && isVaultRecord(data.vault);
+};
+
+/**
+ * Encrypt the full wallet set (ids, labels, groups, HD origin, watch-only and active state included) into a backup file
+ */
+export const createWalletBackup = async (wallets: WalletType[], password: string): Promise<string> => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveVaultKey(password, salt);
+  const payload = wallets.map(wallet => ({
+    id: wallet.id,
+    address: wallet.address,
+    privateKey: wallet.privateKey,
+    isActive: wallet.isActive,
+    label: wallet.label,
+    tags: wallet.tags,
+    hdSeedId: wallet.hdSeedId,
+    hdIndex: wallet.hdIndex,
+    watchOnly: wallet.watchOnly
+  }));
+
+  const backup: WalletBackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    walletCount: wallets.length,
+    vault: await encryptWithKey(key, JSON.stringify(payload), salt)
+  };
+
+  return JSON.stringify(backup, null, 2);
+};
+
+/**
+ * Encrypt the wallets and save the backup file
+ */
+export const downloadWalletBackup = async (wallets: WalletType[], password: string): Promise<void> => {
+  const backup = await createWalletBackup(wallets, password);
+
+  const blob = new Blob([backup], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `wallets-backup-${new Date().toISOString().slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Decrypt a backup file back into wallets
+ */
+export const decryptWalletBackup = async (backup: WalletBackupFile, password: string): Promise<WalletType[]> => {
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+
+  const salt = Uint8Array.from(atob(backup.vault.salt), char => char.charCodeAt(0));
+  const key = await deriveVaultKey(password, salt, backup.vault.iterations);
+  const wallets = JSON.parse(await decryptWithKey(key, backup.vault));
+
+  if (!Array.isArray(wallets)) {
+    throw new Error('Backup file is corrupted');
+  }
+  return wallets.filter(wallet => wallet && wallet.address && (wallet.privateKey || wallet.watchOnly));
+};
+
+// A restored private key must derive the address it was backed up with
+const keyMatchesAddress = (wallet: WalletType): boolean => {
+  try {
+    return Keypair.fromSecretKey(bs58.decode(wallet.privateKey)).publicKey.toBase58() === wallet.address;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Merge restored wallets into the existing set by address
+ * Existing wallets win; a restored label only fills in a missing one, restored groups
+ * are added to the current ones and a restored private key turns a watch-only entry into a normal wallet.
+ * Entries whose private key does not derive their address are skipped.
+ */
+export const mergeRestoredWallets = (existing: WalletType[], restored: WalletType[]): WalletRestoreResult => {
+  const byAddress = new Map(existing.map(wallet => [wallet.address, wallet]));
+  const usedIds = new Set(existing.map(wallet => wallet.id));
+  const merged = [...existing];
+  const duplicates: string[] = [];
+  const mismatched: string[] = [];
+  let nextId = Date.now();
+  let added = 0;
+
+  for (const wallet of restored) {
+    if (wallet.privateKey && !keyMatchesAddress(wallet)) {
+      mismatched.push(wallet.address);
+      continue;
+    }
+
+    const current = byAddress.get(wallet.address);
+    if (current) {
+      duplicates.push(wallet.address);
+      const index = merged.indexOf(current);
+      if (!current.label && wallet.label) {
+        merged[index] = { ...merged[index], label: wallet.label };
+      }
+      const missingTags = (wallet.tags || []).filter(tag => !(current.tags || []).includes(tag));
+      if (missingTags.length > 0) {
+        merged[index] = { ...merged[index], tags: [...(current.tags || []), ...missingTags] };
+      }
+      if (current.watchOnly && wallet.privateKey) {
+        merged[index] = { ...merged[index], privateKey: wallet.privateKey, watchOnly: undefined };
+      }
+      continue;
+    }
+
+    // Keep the backed-up id unless it collides with one already in use
+    let id = wallet.id;
+    if (typeof id !== 'number' || usedIds.has(id)) {
+      while (usedIds.has(nextId)) nextId++;
+      id = nextId;
+    }
+    usedIds.add(id);
+
+    const restoredWallet: WalletType = {
+      id,
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      isActive: wallet.isActive ?? false,
+      ...(wallet.label ? { label: wallet.label } : {}),
+      ...(wallet.tags ? { tags: wallet.tags } : {}),
+      ...(wallet.hdSeedId ? { hdSeedId: wallet.hdSeedId, hdIndex: wallet.hdIndex } : {}),
+      ...(wallet.watchOnly && !wallet.privateKey ? { watchOnly: true, isActive: false } : {})
+    };
+    merged.push(restoredWallet);
+    byAddress.set(wallet.address, restoredWallet);
+    added++;
+  }
+
+  return { wallets: merged, added, duplicates, mismatched };
+};
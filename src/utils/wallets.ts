@@ -14,13 +14,31 @@ export type ScriptType =
   | 'bonkcreate' | 'cookcreate' | 'pumpcreate' | 'mooncreate' | 'boopcreate'
   | 'deploy';
 
+/**
+ * Whether the wallet is a tracked address we hold no private key for
+ * @param wallet Wallet object
+ * @returns True for watch-only wallets
+ */
+export const isWatchOnlyWallet = (wallet: WalletType): boolean => {
+  return !!wallet.watchOnly || !wallet.privateKey;
+};
+
+/**
+ * Returns the wallets that can sign transactions, i.e. everything except watch-only wallets
+ * @param wallets Array of wallet objects
+ * @returns Wallets with a private key
+ */
+export const getSigningWallets = (wallets: WalletType[]): WalletType[] => {
+  return wallets.filter(wallet => !isWatchOnlyWallet(wallet));
+};
+
 /**
  * Counts the number of active wallets in the provided wallet array
  * @param wallets Array of wallet objects
  * @returns Number of active wallets
  */
 export const countActiveWallets = (wallets: WalletType[]): number => {
-  return wallets.filter(wallet => wallet.isActive).length;
+  return wallets.filter(wallet => wallet.isActive && !isWatchOnlyWallet(wallet)).length;
 };
 
 /**
@@ -29,15 +47,15 @@ export const countActiveWallets = (wallets: WalletType[]): number => {
  * @returns Array of active wallets
  */
 export const getActiveWallets = (wallets: WalletType[]): WalletType[] => {
-  return wallets.filter(wallet => wallet.isActive);
+  return wallets.filter(wallet => wallet.isActive && !isWatchOnlyWallet(wallet));
 };
 
 // New function to toggle all wallets regardless of balance
 export const toggleAllWallets = (wallets: WalletType[]): WalletType[] => {
-  const allActive = wallets.every(wallet => wallet.isActive);
+  const allActive = getSigningWallets(wallets).every(wallet => wallet.isActive);
   return wallets.map(wallet => ({
     ...wallet,
-    isActive: !allActive
+    isActive: isWatchOnlyWallet(wallet) ? false : !allActive
   }));
 };
 
@@ -47,7 +65,7 @@ export const toggleAllWalletsWithBalance = (
   solBalances: Map<string, number>
 ): WalletType[] => {
   // Check if all wallets with balance are already active
-  const walletsWithBalance = wallets.filter(wallet => 
+  const walletsWithBalance = getSigningWallets(wallets).filter(wallet => 
     (solBalances.get(wallet.address) || 0) > 0
   );
   const allWithBalanceActive = walletsWithBalance.every(wallet => wallet.isActive);
@@ -55,9 +73,11 @@ export const toggleAllWalletsWithBalance = (
   // Toggle based on current state
   return wallets.map(wallet => ({
     ...wallet,
-    isActive: (solBalances.get(wallet.address) || 0) > 0 
-      ? !allWithBalanceActive 
-      : wallet.isActive
+    isActive: isWatchOnlyWallet(wallet)
+      ? false
+      : (solBalances.get(wallet.address) || 0) > 0 
+        ? !allWithBalanceActive 
+        : wallet.isActive
   }));
 };
 
@@ -69,12 +89,153 @@ export const toggleWalletsByBalance = (
 ): WalletType[] => {
   return wallets.map(wallet => ({
     ...wallet,
-    isActive: showWithTokens 
-      ? (tokenBalances.get(wallet.address) || 0) > 0  // Select wallets with tokens
-      : (solBalances.get(wallet.address) || 0) > 0 && (tokenBalances.get(wallet.address) || 0) === 0  // Select wallets with only SOL
+    isActive: isWatchOnlyWallet(wallet)
+      ? false
+      : showWithTokens 
+        ? (tokenBalances.get(wallet.address) || 0) > 0  // Select wallets with tokens
+        : (solBalances.get(wallet.address) || 0) > 0 && (tokenBalances.get(wallet.address) || 0) === 0  // Select wallets with only SOL
   }));
 };
 
+/**
+ * Normalizes a wallet group name so 'Snipers ' and 'snipers' are the same group
+ * @param tag Raw group name
+ * @returns Trimmed, lowercase group name
+ */
+export const normalizeWalletTag = (tag: string): string => {
+  return tag.trim().toLowerCase();
+};
+
+/**
+ * Lists every group used by the provided wallets
+ * @param wallets Array of wallet objects
+ * @returns Sorted, unique group names
+ */
+export const getWalletTags = (wallets: WalletType[]): string[] => {
+  const tags = new Set<string>();
+  wallets.forEach(wallet => wallet.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+};
+
+/**
+ * Returns the wallets that belong to a group
+ * @param wallets Array of wallet objects
+ * @param tag Group name
+ * @returns Wallets tagged with the group
+ */
+export const getWalletsByTag = (wallets: WalletType[], tag: string): WalletType[] => {
+  return wallets.filter(wallet => wallet.tags?.includes(tag));
+};
+
+/**
+ * Adds wallets to a group or removes them from it
+ * @param wallets Array of wallet objects
+ * @param walletIds IDs of the wallets to change
+ * @param tag Group name
+ * @param add Whether to add (true) or remove (false) the group
+ * @returns New wallet array with updated groups
+ */
+export const setWalletTag = (
+  wallets: WalletType[],
+  walletIds: number[],
+  tag: string,
+  add: boolean
+): WalletType[] => {
+  const normalized = normalizeWalletTag(tag);
+  if (!normalized) return wallets;
+
+  return wallets.map(wallet => {
+    if (!walletIds.includes(wallet.id)) return wallet;
+    const tags = (wallet.tags || []).filter(existing => existing !== normalized);
+    if (add) tags.push(normalized);
+    return { ...wallet, tags: tags.length > 0 ? tags.sort() : undefined };
+  });
+};
+
+/**
+ * Makes exactly the given wallets active, e.g. after selecting groups
+ * @param wallets Array of wallet objects
+ * @param addresses Addresses of the wallets that should be active
+ * @returns New wallet array with updated active status
+ */
+export const setActiveWallets = (wallets: WalletType[], addresses: string[]): WalletType[] => {
+  const active = new Set(addresses);
+  return wallets.map(wallet => ({
+    ...wallet,
+    isActive: active.has(wallet.address) && !isWatchOnlyWallet(wallet)
+  }));
+};
+
+export type WalletSortOption = 'address' | 'label' | 'balance' | 'tokenBalance';
+export type WalletBalanceFilter = 'all' | 'nonZero' | 'highBalance' | 'lowBalance' | 'hasToken' | 'noToken';
+
+export interface WalletFilterOptions {
+  search?: string; // Matched against address and label
+  balanceFilter?: WalletBalanceFilter;
+  tag?: string; // Only wallets in this group
+  sortOption?: WalletSortOption;
+  sortDirection?: 'asc' | 'desc';
+}
+
+// Wallets at or above this SOL balance count as high balance
+export const HIGH_BALANCE_THRESHOLD = 0.1;
+
+/**
+ * Filters and sorts wallets the same way in every wallet picker
+ * @param wallets Array of wallet objects
+ * @param options Search, balance filter, group and sort order
+ * @param solBalances Map of wallet addresses to SOL balances
+ * @param tokenBalances Map of wallet addresses to token balances
+ * @returns New, filtered and sorted wallet array
+ */
+export const filterAndSortWallets = (
+  wallets: WalletType[],
+  options: WalletFilterOptions,
+  solBalances: Map<string, number>,
+  tokenBalances: Map<string, number> = new Map()
+): WalletType[] => {
+  const search = options.search?.trim().toLowerCase() || '';
+  const balanceFilter = options.balanceFilter || 'all';
+  const getSol = (wallet: WalletType) => solBalances.get(wallet.address) || 0;
+  const getTokens = (wallet: WalletType) => tokenBalances.get(wallet.address) || 0;
+
+  const filtered = wallets.filter(wallet => {
+    if (search && !wallet.address.toLowerCase().includes(search) && !(wallet.label || '').toLowerCase().includes(search)) {
+      return false;
+    }
+    if (options.tag && !wallet.tags?.includes(options.tag)) {
+      return false;
+    }
+
+    switch (balanceFilter) {
+      case 'nonZero':
+        return getSol(wallet) > 0;
+      case 'highBalance':
+        return getSol(wallet) >= HIGH_BALANCE_THRESHOLD;
+      case 'lowBalance':
+        return getSol(wallet) > 0 && getSol(wallet) < HIGH_BALANCE_THRESHOLD;
+      case 'hasToken':
+        return getTokens(wallet) > 0;
+      case 'noToken':
+        return getTokens(wallet) === 0;
+      default:
+        return true;
+    }
+  });
+
+  const direction = options.sortDirection === 'desc' ? -1 : 1;
+  switch (options.sortOption || 'address') {
+    case 'label':
+      return filtered.sort((a, b) => direction * (a.label || '').localeCompare(b.label || '') || direction * a.address.localeCompare(b.address));
+    case 'balance':
+      return filtered.sort((a, b) => direction * (getSol(a) - getSol(b)));
+    case 'tokenBalance':
+      return filtered.sort((a, b) => direction * (getTokens(a) - getTokens(b)));
+    default:
+      return filtered.sort((a, b) => direction * a.address.localeCompare(b.address));
+  }
+};
+
 /**
  * Gets the appropriate script name based on selected DEX and mode
  * @param selectedDex Selected DEX name